@@ -29,6 +29,12 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/ds-data/**',
       },
+      {
+        protocol: 'https',
+        hostname: 'icons.llamao.fi',
+        port: '',
+        pathname: '/icons/**',
+      },
     ],
   },
 };
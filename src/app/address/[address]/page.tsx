@@ -0,0 +1,54 @@
+/**
+ * Sniffer Web3 - Address Profile Page
+ * 
+ * Deep link to the profile of an address: /address/{address}?tab={tab}.
+ * Loads the main application and runs the same search pipeline as typing
+ * the address into the search box.
+ * Link previews show the profile's generated share card.
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { SnifferApp } from "../../components/SnifferApp";
+import { isValidEthereumAddress } from "@/lib/identity";
+import { parseFilter } from "@/lib/routes";
+import { getProfileMetadata } from "@/lib/share-card";
+
+/**
+ * Props for the address page
+ * 
+ * @interface AddressPageProps
+ * @property {Promise<{ address: string }>} params - Route parameters
+ * @property {Promise<{ tab?: string }>} searchParams - URL query parameters
+ */
+interface AddressPageProps {
+  params: Promise<{ address: string }>;
+  searchParams: Promise<{ tab?: string }>;
+}
+
+/**
+ * Page metadata with the profile's share card as link preview
+ * 
+ * @param {AddressPageProps} props - Page props
+ * @returns Promise<Metadata> - Title, description and preview image
+ */
+export async function generateMetadata({ params }: AddressPageProps): Promise<Metadata> {
+  const { address } = await params;
+  return isValidEthereumAddress(address) ? getProfileMetadata(address) : {};
+}
+
+/**
+ * Address Page - Main application searching the address from the URL
+ * 
+ * @param {AddressPageProps} props - Page props
+ * @returns JSX.Element - The complete application interface
+ */
+export default async function AddressPage({ params, searchParams }: AddressPageProps) {
+  const [{ address }, { tab }] = await Promise.all([params, searchParams]);
+  if (!isValidEthereumAddress(address)) notFound();
+
+  return <SnifferApp initialQuery={address} initialFilter={parseFilter(tab)} />;
+}
@@ -0,0 +1,52 @@
+/**
+ * Alert Evaluation API Route
+ * 
+ * This Next.js API route runs one evaluation of every user's alert rules.
+ * It is meant for cron jobs on hosts where the in-process scheduler can't
+ * run (ALERTS_SCHEDULER=off). Requests must send
+ * `Authorization: Bearer <ALERTS_CRON_SECRET>`; without the secret configured
+ * the route refuses to run, so it can't be used to drain the API quota.
+ * 
+ * Endpoint: GET|POST /api/alerts/evaluate
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateAlerts } from '@/lib/alerts';
+
+async function handleEvaluate(request: NextRequest) {
+  const secret = process.env.ALERTS_CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, error: 'Alert evaluation endpoint is disabled', details: 'ALERTS_CRON_SECRET is not configured' },
+      { status: 403 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const summary = await evaluateAlerts();
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error evaluating alerts:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to evaluate alerts',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleEvaluate;
+export const POST = handleEvaluate;
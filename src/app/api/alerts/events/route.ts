@@ -0,0 +1,48 @@
+/**
+ * Alert Events API Route
+ * 
+ * This Next.js API route returns the alerts triggered for a user, newest
+ * first. The client notifier polls it with `since` set to the newest alert
+ * it has already shown.
+ * 
+ * Endpoint: GET /api/alerts/events?since={timestampMs}
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertEvents, isValidUserId } from '@/lib/alerts';
+
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-sniffer-user');
+  if (!isValidUserId(userId)) {
+    return NextResponse.json(
+      { error: 'Missing or invalid X-Sniffer-User header' },
+      { status: 400 }
+    );
+  }
+
+  const since = Number(new URL(request.url).searchParams.get('since') || '0');
+  if (!Number.isFinite(since) || since < 0) {
+    return NextResponse.json(
+      { error: 'since must be a timestamp in milliseconds' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const events = await getAlertEvents(userId, since);
+    return NextResponse.json({ success: true, data: events });
+  } catch (error) {
+    console.error('Error loading alert events:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load alert events',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
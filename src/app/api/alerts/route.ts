@@ -0,0 +1,220 @@
+/**
+ * Alert Rules API Route
+ * 
+ * This Next.js API route manages a user's alert rules: token price crosses,
+ * 24h change, liquidity drops and large sends from a watched wallet. Rules
+ * are evaluated on a schedule by the alerts service (see lib/alerts.ts).
+ * 
+ * Users are identified by the `X-Sniffer-User` header, an opaque ID the
+ * client generates and keeps in localStorage. Since anyone can pick an ID,
+ * new users and rules are also capped per client IP, taken from the
+ * X-Real-IP / X-Forwarded-For headers the reverse proxy sets. Webhook URLs
+ * must be https and resolve to a public host.
+ * 
+ * Endpoints:
+ * - GET /api/alerts - List rules (`storage` says whether they survive a restart)
+ * - POST /api/alerts - Create a rule ({ type, target, threshold, channels, chain?, label?, webhookUrl? })
+ * - PATCH /api/alerts?id={id} - Enable or disable a rule ({ enabled })
+ * - DELETE /api/alerts?id={id} - Delete a rule
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ALERT_CHANNELS,
+  ALERT_RULE_TYPES,
+  AlertChannel,
+  AlertRuleType,
+  checkAlertCapacity,
+  createAlertRule,
+  deleteAlertRule,
+  getAlertRules,
+  getAlertStorage,
+  isValidUserId,
+  setAlertRuleEnabled
+} from '@/lib/alerts';
+import { resolveChain } from '@/lib/chains';
+import { isValidEthereumAddress } from '@/lib/identity';
+import { assertPublicUrl } from '@/lib/public-url';
+
+/**
+ * User ID from the request, or a 400 response if missing or malformed
+ */
+function getUserId(request: NextRequest): string | NextResponse {
+  const userId = request.headers.get('x-sniffer-user');
+  if (!isValidUserId(userId)) {
+    return NextResponse.json(
+      { error: 'Missing or invalid X-Sniffer-User header' },
+      { status: 400 }
+    );
+  }
+  return userId;
+}
+
+/**
+ * Client IP as reported by the reverse proxy
+ *
+ * Takes the last X-Forwarded-For hop, the one the proxy appended, since
+ * earlier entries come from the client.
+ */
+function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean);
+  return request.headers.get('x-real-ip')?.trim() || forwarded?.[forwarded.length - 1] || 'unknown';
+}
+
+/**
+ * 500 response in the shape the other routes use
+ */
+function errorResponse(message: string, error: unknown) {
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const userId = getUserId(request);
+  if (userId instanceof NextResponse) return userId;
+
+  try {
+    const rules = await getAlertRules(userId);
+    return NextResponse.json({ success: true, data: rules, storage: getAlertStorage() });
+  } catch (error) {
+    return errorResponse('Failed to load alert rules', error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = getUserId(request);
+  if (userId instanceof NextResponse) return userId;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const type = body.type as AlertRuleType;
+  if (!ALERT_RULE_TYPES.includes(type)) {
+    return NextResponse.json({ error: `Unsupported alert type: ${body.type}` }, { status: 400 });
+  }
+
+  const target = typeof body.target === 'string' ? body.target.trim() : '';
+  if (!isValidEthereumAddress(target)) {
+    return NextResponse.json(
+      { error: `Invalid ${type === 'wallet_send' ? 'wallet' : 'token'} address: ${body.target}` },
+      { status: 400 }
+    );
+  }
+
+  const threshold = Number(body.threshold);
+  if (!Number.isFinite(threshold) || threshold < 0 || (threshold === 0 && type !== 'wallet_send')) {
+    return NextResponse.json({ error: 'threshold must be a positive number' }, { status: 400 });
+  }
+
+  const channels = Array.isArray(body.channels) ? body.channels as AlertChannel[] : [];
+  if (channels.length === 0 || channels.some(channel => !ALERT_CHANNELS.includes(channel))) {
+    return NextResponse.json({ error: `channels must be a non-empty list of: ${ALERT_CHANNELS.join(', ')}` }, { status: 400 });
+  }
+
+  const webhookUrl = typeof body.webhookUrl === 'string' ? body.webhookUrl.trim() : '';
+  if (channels.includes('webhook')) {
+    if (!webhookUrl) {
+      return NextResponse.json({ error: 'The webhook channel needs an https webhookUrl' }, { status: 400 });
+    }
+    try {
+      await assertPublicUrl(webhookUrl);
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Invalid webhookUrl: ${error instanceof Error ? error.message : 'not allowed'}` },
+        { status: 400 }
+      );
+    }
+  }
+
+  const chain = type === 'wallet_send' ? resolveChain(typeof body.chain === 'string' ? body.chain : null) : null;
+  if (type === 'wallet_send' && !chain) {
+    return NextResponse.json({ error: `Unsupported chain: ${body.chain}` }, { status: 400 });
+  }
+
+  try {
+    const clientIp = getClientIp(request);
+    const capacityError = await checkAlertCapacity(userId, type, clientIp);
+    if (capacityError) {
+      return NextResponse.json({ error: capacityError }, { status: 400 });
+    }
+
+    console.log(`🔔 Creating ${type} alert for ${target}`);
+    const rule = await createAlertRule(userId, {
+      type,
+      target,
+      threshold,
+      channels,
+      chain: chain?.key,
+      label: typeof body.label === 'string' ? body.label.trim().slice(0, 40) : null,
+      webhookUrl: webhookUrl || null
+    }, clientIp);
+
+    return NextResponse.json({ success: true, data: rule });
+  } catch (error) {
+    return errorResponse('Failed to create alert rule', error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const userId = getUserId(request);
+  if (userId instanceof NextResponse) return userId;
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'id parameter is required' }, { status: 400 });
+  }
+
+  let enabled: unknown;
+  try {
+    ({ enabled } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (typeof enabled !== 'boolean') {
+    return NextResponse.json({ error: 'enabled must be true or false' }, { status: 400 });
+  }
+
+  try {
+    const rule = await setAlertRuleEnabled(userId, id, enabled);
+    if (!rule) {
+      return NextResponse.json({ success: false, error: 'Alert rule not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: rule });
+  } catch (error) {
+    return errorResponse('Failed to update alert rule', error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const userId = getUserId(request);
+  if (userId instanceof NextResponse) return userId;
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'id parameter is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteAlertRule(userId, id);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Alert rule not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse('Failed to delete alert rule', error);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * DEXScreener New Pairs API Route
+ * 
+ * This Next.js API route lists Base pairs created in the last N hours for
+ * the Token Explorer's New Pairs tab: age, initial and current liquidity,
+ * 24h buys/sells and the launch platform (Clanker, Zora coin, Virtuals).
+ * 
+ * Query Parameters:
+ * - hours: Maximum pair age in hours, 1-72 (default: 24)
+ * - minLiquidity: Minimum current liquidity in USD (default: 0)
+ * 
+ * Endpoint: GET /api/dexscreener/new-pairs?hours={hours}&minLiquidity={usd}
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_PAIR_AGE_HOURS, getNewPairs, MAX_PAIR_AGE_HOURS } from '@/lib/new-pairs';
+import { withResponseCache } from '@/lib/response-cache';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const hours = Number(searchParams.get('hours') || DEFAULT_PAIR_AGE_HOURS);
+    const minLiquidity = Number(searchParams.get('minLiquidity') || 0);
+
+    if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_PAIR_AGE_HOURS) {
+      return NextResponse.json(
+        { error: `hours must be between 1 and ${MAX_PAIR_AGE_HOURS}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isFinite(minLiquidity) || minLiquidity < 0) {
+      return NextResponse.json(
+        { error: 'minLiquidity must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🆕 Fetching Base pairs created in the last ${hours}h with at least $${minLiquidity} liquidity`);
+
+    const pairs = await getNewPairs({ maxAgeHours: hours, minLiquidityUsd: minLiquidity });
+
+    return NextResponse.json({
+      success: true,
+      chain: 'base',
+      data: pairs,
+      filters: { hours, minLiquidity }
+    });
+
+  } catch (error) {
+    console.error('Error fetching new pairs:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch new pairs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('dexscreener/new-pairs', handleGet);
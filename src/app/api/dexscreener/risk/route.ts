@@ -0,0 +1,78 @@
+/**
+ * Token Risk API Route
+ * 
+ * This Next.js API route returns risk scores for a list of Base tokens, for
+ * the risk badges on Token Explorer cards. Each score (0-100) comes with
+ * itemized reasons: contract verification, privileged functions, holder
+ * concentration, liquidity versus FDV, pair age and buy/sell imbalance.
+ * 
+ * Query Parameters:
+ * - addresses: Comma-separated token addresses (up to 30)
+ * 
+ * Endpoint: GET /api/dexscreener/risk?addresses={address,address,...}
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidEthereumAddress } from '@/lib/identity';
+import { withResponseCache } from '@/lib/response-cache';
+import { getTokenRisks } from '@/lib/token-detail';
+
+const MAX_ADDRESSES = 30;
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const addresses = (searchParams.get('addresses') || '')
+      .split(',')
+      .map(address => address.trim())
+      .filter(Boolean);
+
+    if (addresses.length === 0) {
+      return NextResponse.json(
+        { error: 'addresses parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    if (addresses.length > MAX_ADDRESSES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ADDRESSES} addresses per request` },
+        { status: 400 }
+      );
+    }
+
+    const invalid = addresses.find(address => !isValidEthereumAddress(address));
+    if (invalid) {
+      return NextResponse.json(
+        { error: `Invalid token address: ${invalid}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🛡️ Assessing risk of ${addresses.length} tokens`);
+
+    const risks = await getTokenRisks(addresses);
+
+    return NextResponse.json({
+      success: true,
+      chain: 'base',
+      data: risks
+    });
+
+  } catch (error) {
+    console.error('Error assessing token risk:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to assess token risk',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('dexscreener/risk', handleGet);
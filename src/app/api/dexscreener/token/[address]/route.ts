@@ -0,0 +1,84 @@
+/**
+ * DEXScreener Token Detail API Route
+ * 
+ * This Next.js API route returns the detail view of a Base token: every
+ * DEXScreener pair it trades in (DEX, quote token, liquidity, volume), the
+ * m5/h1/h6/h24 buy/sell breakdown, a GeckoTerminal price history of the
+ * most liquid pair, the top holders from Etherscan and a risk score with
+ * itemized reasons.
+ * 
+ * The optional `range` parameter selects the price chart range (24h, 7d or
+ * 30d) and defaults to 24h.
+ * 
+ * Endpoint: GET /api/dexscreener/token/{address}?range={range}
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidEthereumAddress } from '@/lib/identity';
+import { withResponseCache } from '@/lib/response-cache';
+import { getTokenDetail, PRICE_RANGES, PriceRange } from '@/lib/token-detail';
+
+/**
+ * Route context with the token address segment
+ */
+interface TokenRouteContext {
+  params: Promise<{ address: string }>;
+}
+
+async function handleGet(request: NextRequest, { params }: TokenRouteContext) {
+  try {
+    const { address } = await params;
+    const { searchParams } = new URL(request.url);
+
+    if (!isValidEthereumAddress(address)) {
+      return NextResponse.json(
+        { error: `Invalid token address: ${address}` },
+        { status: 400 }
+      );
+    }
+
+    const range = (searchParams.get('range') || '24h') as PriceRange;
+    if (!PRICE_RANGES.includes(range)) {
+      return NextResponse.json(
+        { error: `Unsupported range: ${range}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🔍 Fetching token detail for ${address} (${range})`);
+
+    const detail = await getTokenDetail(address, range);
+    if (!detail) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Token not found',
+          details: `No Base pairs found on DEXScreener for ${address}`
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      chain: detail.chain,
+      data: detail
+    });
+
+  } catch (error) {
+    console.error('Error fetching token detail:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch token detail',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('dexscreener/token', handleGet);
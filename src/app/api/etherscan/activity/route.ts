@@ -0,0 +1,58 @@
+/**
+ * Etherscan Activity API Route - Cross-Chain Transaction Shares (V2 API)
+ *
+ * This Next.js API route counts an address's transactions on every chain in
+ * SUPPORTED_CHAINS through the Etherscan V2 API and returns each chain's
+ * share of the total. It powers the profiler's network activity breakdown.
+ *
+ * @see https://docs.etherscan.io/ - Etherscan V2 API Documentation
+ *
+ * Endpoint: GET /api/etherscan/activity?address={address}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNetworkActivity } from '@/lib/etherscan';
+import { withResponseCache } from '@/lib/response-cache';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    console.log('Fetching cross-chain activity for address:', address);
+
+    const activity = await getNetworkActivity(address);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        address: address.toLowerCase(),
+        chains: activity,
+        totalTransactions: activity.reduce((sum, chain) => sum + chain.transactionCount, 0)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching network activity:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch network activity',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('etherscan/activity', handleGet);
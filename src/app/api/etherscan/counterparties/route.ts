@@ -0,0 +1,62 @@
+/**
+ * Etherscan Counterparties API Route
+ *
+ * This Next.js API route aggregates a wallet's native, internal and ERC-20
+ * transfers by counterparty, with per-direction counts and volumes and
+ * protocol registry labels for known contracts.
+ *
+ * Endpoint: GET /api/etherscan/counterparties?address={address}&chain={chain}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeCounterparties } from '@/lib/counterparties';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+
+    console.log('Analyzing counterparties for address:', address, 'on', chain.key);
+
+    const analysis = await analyzeCounterparties(address, chain.key);
+
+    return NextResponse.json({
+      success: true,
+      chain: chain.key,
+      data: analysis
+    });
+
+  } catch (error) {
+    console.error('Error analyzing counterparties:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to analyze counterparties',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('etherscan/counterparties', handleGet);
@@ -0,0 +1,73 @@
+/**
+ * Etherscan Decode API Route - Readable Transaction Calls
+ *
+ * This Next.js API route decodes transaction calldata into readable calls
+ * such as `swapExactETHForTokens(amountOutMin, path[WETH→DEGEN], ...)`.
+ * Signatures come from verified contract ABIs (fetched through Etherscan's
+ * getabi action and cached per contract), Etherscan's function names and
+ * the bundled selector database.
+ *
+ * Endpoint: POST /api/etherscan/decode
+ * Body: { chain?: string, transactions: [{ hash, to, input, functionName? }] }
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeTransactions, DecodableTransaction } from '@/lib/decoder';
+import { resolveChain } from '@/lib/chains';
+
+const MAX_TRANSACTIONS = 200;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null) as { chain?: unknown; transactions?: unknown } | null;
+
+    if (!body || !Array.isArray(body.transactions)) {
+      return NextResponse.json(
+        { error: 'Request body must include a transactions array' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(typeof body.chain === 'string' ? body.chain : null);
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${body.chain}` },
+        { status: 400 }
+      );
+    }
+
+    const transactions: DecodableTransaction[] = (body.transactions as Array<Record<string, unknown>>)
+      .filter(tx => typeof tx?.hash === 'string')
+      .slice(0, MAX_TRANSACTIONS)
+      .map(tx => ({
+        hash: tx.hash as string,
+        to: typeof tx.to === 'string' ? tx.to : '',
+        input: typeof tx.input === 'string' ? tx.input : '0x',
+        functionName: typeof tx.functionName === 'string' ? tx.functionName : undefined
+      }));
+
+    console.log(`Decoding ${transactions.length} transactions on ${chain.key}`);
+
+    const decoded = await decodeTransactions(transactions, chain.key);
+
+    return NextResponse.json({
+      success: true,
+      chain: chain.key,
+      data: decoded
+    });
+
+  } catch (error) {
+    console.error('Error decoding transactions:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to decode transactions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
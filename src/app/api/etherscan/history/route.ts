@@ -0,0 +1,86 @@
+/**
+ * Etherscan History API Route - Cursor-Paginated Transactions (V2 API)
+ *
+ * This Next.js API route pages through an address's full transaction history,
+ * newest first. Unlike /api/etherscan/transactions it is not limited by
+ * Etherscan's 10,000 result window: each response carries an opaque cursor
+ * that walks block ranges back to the wallet's first transaction.
+ *
+ * Uses Etherscan V2 unified API; the optional `chain` parameter takes a chain
+ * key (base, ethereum, polygon, arbitrum, optimism) or chain ID and defaults to Base.
+ * @see https://docs.etherscan.io/ - Etherscan V2 API Documentation
+ *
+ * Endpoint: GET /api/etherscan/history?address={address}&cursor={cursor}&limit={limit}&chain={chain}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getEtherscanAPI } from '@/lib/etherscan';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const cursor = searchParams.get('cursor');
+    const limit = parseInt(searchParams.get('limit') || '100');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+    const etherscanAPI = getEtherscanAPI(chain.key);
+
+    console.log('Fetching transaction history for address:', address, cursor ? `(cursor ${cursor})` : '');
+
+    let page;
+    try {
+      page = await etherscanAPI.getTransactionHistory(address, cursor, isNaN(limit) ? 100 : limit);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid history cursor') {
+        return NextResponse.json(
+          { error: 'Invalid cursor parameter' },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({
+      success: true,
+      chain: chain.key,
+      data: page.transactions.map(tx => etherscanAPI.formatTransaction(tx)),
+      pagination: {
+        nextCursor: page.nextCursor,
+        hasMore: page.nextCursor !== null,
+        count: page.transactions.length
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching transaction history:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch transaction history',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('etherscan/history', handleGet);
@@ -0,0 +1,71 @@
+/**
+ * Etherscan History Stats API Route - Lifetime Transaction Stats (V2 API)
+ *
+ * This Next.js API route walks an address's full transaction history through
+ * the cursor-based history pager and returns lifetime aggregates: total,
+ * sent, received and failed transactions, native value moved, gas spent and
+ * distinct counterparties. Very busy wallets are capped at `maxPages` pages
+ * of 1000 transactions; `complete` tells whether the walk reached the start.
+ *
+ * Endpoint: GET /api/etherscan/history/stats?address={address}&chain={chain}&maxPages={maxPages}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getEtherscanAPI } from '@/lib/etherscan';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
+
+const MAX_PAGES_LIMIT = 50;
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const maxPages = parseInt(searchParams.get('maxPages') || '20');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+    const etherscanAPI = getEtherscanAPI(chain.key);
+
+    console.log('Computing lifetime transaction stats for address:', address);
+
+    const stats = await etherscanAPI.getTransactionStats(
+      address,
+      Math.max(1, Math.min(isNaN(maxPages) ? 20 : maxPages, MAX_PAGES_LIMIT))
+    );
+
+    return NextResponse.json({
+      success: true,
+      chain: chain.key,
+      data: stats
+    });
+
+  } catch (error) {
+    console.error('Error computing transaction stats:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to compute transaction stats',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('etherscan/history/stats', handleGet);
@@ -0,0 +1,76 @@
+/**
+ * Etherscan Internal Transactions API Route - Contract-Initiated Transfers (V2 API)
+ *
+ * This Next.js API route returns an address's internal transactions: ETH
+ * sent or received by contracts during another transaction, such as DEX
+ * payouts, bridge withdrawals and airdrop claims. These never appear in the
+ * regular transaction list. Each entry carries the hash of its parent
+ * transaction.
+ *
+ * The optional `chain` parameter takes a chain key (base, ethereum, polygon,
+ * arbitrum, optimism) or chain ID and defaults to Base.
+ * @see https://docs.etherscan.io/ - Etherscan V2 API Documentation
+ *
+ * Endpoint: GET /api/etherscan/internal?address={address}&limit={limit}&chain={chain}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getEtherscanAPI } from '@/lib/etherscan';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
+
+const MAX_LIMIT = 1000;
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), MAX_LIMIT);
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+    const etherscanAPI = getEtherscanAPI(chain.key);
+
+    console.log('Fetching internal transactions for address:', address, 'on', chain.key);
+
+    const internalTransactions = await etherscanAPI.getInternalTransactions(address, 1, limit);
+
+    return NextResponse.json({
+      success: true,
+      chain: chain.key,
+      data: internalTransactions.map(tx => etherscanAPI.formatInternalTransaction(tx)),
+      pagination: {
+        limit,
+        total: internalTransactions.length
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching internal transactions:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch internal transactions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('etherscan/internal', handleGet);
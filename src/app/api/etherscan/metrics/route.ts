@@ -0,0 +1,62 @@
+/**
+ * Etherscan Metrics API Route - Rate Limiter Status
+ *
+ * This Next.js API route reports the state of the shared Etherscan rate
+ * limiters: current rate per API key, queued requests and wait times per
+ * priority, and how often Etherscan answered "Max rate limit reached".
+ * API keys are masked to their last four characters.
+ *
+ * The report is operator-only: requests must send
+ * `Authorization: Bearer <METRICS_SECRET>`, and without the secret
+ * configured the route is disabled.
+ *
+ * Endpoint: GET /api/etherscan/metrics
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRateLimiterMetrics } from '@/lib/rate-limiter';
+import { etherscanKeyPool } from '@/lib/etherscan-keys';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.METRICS_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, error: 'Metrics endpoint is disabled', details: 'METRICS_SECRET is not configured' },
+      { status: 403 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: {
+        configuredKeys: etherscanKeyPool.size,
+        limiters: getRateLimiterMetrics(),
+        timestamp: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error reading rate limiter metrics:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to read rate limiter metrics',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
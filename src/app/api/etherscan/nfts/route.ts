@@ -0,0 +1,71 @@
+/**
+ * Etherscan NFTs API Route - NFT Holdings (V2 API)
+ *
+ * This Next.js API route returns an address's current NFT holdings, grouped
+ * by collection. Holdings are replayed from the ERC-721 (tokennfttx) and
+ * ERC-1155 (token1155tx) transfer history; each held token carries the date
+ * its current holding started.
+ *
+ * The optional `chain` parameter takes a chain key (base, ethereum, polygon,
+ * arbitrum, optimism) or chain ID and defaults to Base.
+ * @see https://docs.etherscan.io/ - Etherscan V2 API Documentation
+ *
+ * Endpoint: GET /api/etherscan/nfts?address={address}&chain={chain}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getEtherscanAPI } from '@/lib/etherscan';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+
+    console.log('Fetching NFT holdings for address:', address, 'on', chain.key);
+
+    const holdings = await getEtherscanAPI(chain.key).getNftHoldings(address);
+
+    return NextResponse.json({
+      success: true,
+      chain: chain.key,
+      data: holdings,
+      totals: {
+        collections: holdings.length,
+        items: holdings.reduce((sum, collection) => sum + collection.count, 0)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching NFT holdings:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch NFT holdings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('etherscan/nfts', handleGet);
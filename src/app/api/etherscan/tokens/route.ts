@@ -2,22 +2,30 @@
  * Etherscan Tokens API Route - Server-Side Proxy (V2 API)
  * 
  * This Next.js API route acts as a server-side proxy to the Etherscan V2 API
- * for Base blockchain (Chain ID: 8453), handling token balance and transfer 
+ * for Base blockchain (Chain ID: 8453) and other supported chains, handling token balance and transfer 
  * requests while bypassing CORS restrictions.
  * 
- * Uses Etherscan V2 unified API with Base chain ID: 8453
+ * Uses Etherscan V2 unified API; the optional `chain` parameter takes a chain
+ * key (base, ethereum, polygon, arbitrum, optimism) or chain ID and defaults to Base.
  * @see https://docs.etherscan.io/ - Etherscan V2 API Documentation
  * 
- * Endpoint: GET /api/etherscan/tokens?address={address}&type={balances|transfers}
+ * Endpoint: GET /api/etherscan/tokens?address={address}&type={balances|transfers}&chain={chain}
+ * 
+ * Balances only include non-dust positions; each entry carries a `source`
+ * field ('tokenbalance' or 'transfer-replay') naming the method used.
+ * `complete` is false when the wallet's transfer history was too long to
+ * read in full, so older tokens may be missing.
  * 
  * @author Sniffer Web3 Team
  * @version 1.0.0
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { etherscanAPI } from '@/lib/etherscan';
+import { getEtherscanAPI } from '@/lib/etherscan';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   try {
     const address = searchParams.get('address');
@@ -32,20 +40,32 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+    const etherscanAPI = getEtherscanAPI(chain.key);
+
     console.log(`Fetching ${type} for address:`, address);
 
     let data;
     let formattedData;
+    let complete: boolean | undefined;
 
     if (type === 'balances') {
-      data = await etherscanAPI.getTokenBalances(address);
-      formattedData = data.map(balance => ({
+      const balances = await etherscanAPI.getTokenBalances(address);
+      complete = balances.complete;
+      formattedData = balances.balances.map(balance => ({
         contractAddress: balance.contractAddress,
         tokenName: balance.tokenName,
         tokenSymbol: balance.tokenSymbol,
         tokenDecimal: parseInt(balance.tokenDecimal),
         balance: balance.balance,
-        balanceFormatted: parseFloat(balance.balance) / Math.pow(10, parseInt(balance.tokenDecimal))
+        balanceFormatted: parseFloat(balance.balanceFormatted || '0'),
+        source: balance.source
       }));
     } else if (type === 'transfers') {
       data = await etherscanAPI.getTokenTransfers(address, page, offset);
@@ -61,8 +81,10 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      chain: chain.key,
       data: formattedData,
       type,
+      complete,
       pagination: type === 'transfers' ? {
         page,
         offset,
@@ -82,3 +104,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withResponseCache('etherscan/tokens', handleGet);
@@ -2,22 +2,25 @@
  * Etherscan Transactions API Route - Server-Side Proxy (V2 API)
  * 
  * This Next.js API route acts as a server-side proxy to the Etherscan V2 API
- * for Base blockchain (Chain ID: 8453), handling transaction requests while 
+ * for Base blockchain (Chain ID: 8453) and other supported chains, handling transaction requests while 
  * bypassing CORS restrictions.
  * 
- * Uses Etherscan V2 unified API with Base chain ID: 8453
+ * Uses Etherscan V2 unified API; the optional `chain` parameter takes a chain
+ * key (base, ethereum, polygon, arbitrum, optimism) or chain ID and defaults to Base.
  * @see https://docs.etherscan.io/ - Etherscan V2 API Documentation
  * 
- * Endpoint: GET /api/etherscan/transactions?address={address}&page={page}&offset={offset}
+ * Endpoint: GET /api/etherscan/transactions?address={address}&page={page}&offset={offset}&chain={chain}
  * 
  * @author Sniffer Web3 Team
  * @version 1.0.0
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { etherscanAPI } from '@/lib/etherscan';
+import { getEtherscanAPI } from '@/lib/etherscan';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const address = searchParams.get('address');
@@ -34,6 +37,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+    const etherscanAPI = getEtherscanAPI(chain.key);
+
     console.log('Fetching transactions for address:', address);
 
     const transactions = await etherscanAPI.getAccountTransactions(address, offset);
@@ -45,6 +57,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      chain: chain.key,
       data: formattedTransactions,
       pagination: {
         page,
@@ -65,3 +78,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withResponseCache('etherscan/transactions', handleGet);
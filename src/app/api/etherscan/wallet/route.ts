@@ -2,22 +2,29 @@
  * Etherscan Wallet API Route - Server-Side Proxy (V2 API)
  * 
  * This Next.js API route acts as a server-side proxy to the Etherscan V2 API
- * for Base blockchain (Chain ID: 8453), providing comprehensive wallet 
- * information including balance, transaction count, and gas information.
+ * for Base blockchain (Chain ID: 8453) and other supported chains, providing comprehensive wallet 
+ * information including balance, transaction count, last activity and gas
+ * information.
  * 
- * Uses Etherscan V2 unified API with Base chain ID: 8453
+ * A failed balance or transaction count lookup returns a 500 instead of an
+ * empty wallet; responses missing the optional fields aren't cached.
+ * 
+ * Uses Etherscan V2 unified API; the optional `chain` parameter takes a chain
+ * key (base, ethereum, polygon, arbitrum, optimism) or chain ID and defaults to Base.
  * @see https://docs.etherscan.io/ - Etherscan V2 API Documentation
  * 
- * Endpoint: GET /api/etherscan/wallet?address={address}
+ * Endpoint: GET /api/etherscan/wallet?address={address}&chain={chain}
  * 
  * @author Sniffer Web3 Team
  * @version 1.0.0
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { etherscanAPI } from '@/lib/etherscan';
+import { getEtherscanAPI } from '@/lib/etherscan';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const address = searchParams.get('address');
@@ -29,6 +36,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+    const etherscanAPI = getEtherscanAPI(chain.key);
+
     console.log('Fetching wallet info for address:', address);
 
     // Use the new getWalletInfo method
@@ -36,6 +52,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      chain: chain.key,
       data: {
         address: address.toLowerCase(),
         ethBalance: walletInfo.ethBalance,
@@ -46,12 +63,16 @@ export async function GET(request: NextRequest) {
           formatted: `${(parseInt(walletInfo.gasPrice) / Math.pow(10, 9)).toFixed(2)} Gwei`
         },
         blockNumber: walletInfo.blockNumber,
+        lastActivity: walletInfo.lastActivity,
         summary: {
           isActive: walletInfo.transactionCount > 0 || parseFloat(walletInfo.ethBalance.eth) > 0,
           totalTransactions: walletInfo.transactionCount,
           ethBalance: parseFloat(walletInfo.ethBalance.eth)
         }
       }
+    }, {
+      // Don't let the response cache keep a partial lookup
+      headers: walletInfo.complete ? undefined : { 'Cache-Control': 'no-store' }
     });
 
   } catch (error) {
@@ -66,3 +87,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withResponseCache('etherscan/wallet', handleGet);
@@ -0,0 +1,68 @@
+/**
+ * Identity Resolution API Route
+ * 
+ * This Next.js API route resolves an address, ENS name, Basename
+ * (.base, .cb.id, .base.eth), Farcaster username (@name) or ID (fid:123),
+ * or Lens handle to one canonical identity document: the address, every
+ * linked name, the reverse records and the social profiles.
+ * 
+ * Endpoint: GET /api/identity/resolve?q={address or name}
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIdentityInput, resolveIdentity } from '@/lib/identity-resolver';
+import { withResponseCache } from '@/lib/response-cache';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const query = (new URL(request.url).searchParams.get('q') || '').trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'q parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!parseIdentityInput(query)) {
+      return NextResponse.json(
+        { error: 'q must be an address, ENS name, Basename, Farcaster username (@name), FID (fid:123) or Lens handle' },
+        { status: 400 }
+      );
+    }
+
+    const identity = await resolveIdentity(query);
+
+    if (!identity) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Identity not found',
+          details: `${query} does not resolve to an address`
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: identity
+    });
+
+  } catch (error) {
+    console.error('Error resolving identity:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to resolve identity',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('identity/resolve', handleGet);
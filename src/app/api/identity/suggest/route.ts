@@ -0,0 +1,54 @@
+/**
+ * Name Suggestions API Route
+ * 
+ * This Next.js API route returns ENS names, Basenames and Farcaster
+ * usernames that match what the user is typing, for the search
+ * autocomplete. Only names that resolve to an address are returned. Empty
+ * results are cached too, briefly (emptyTtl), so repeated misses don't
+ * repeat the upstream lookups.
+ * 
+ * Endpoint: GET /api/identity/suggest?q={partial name}
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNameSuggestions } from '@/lib/name-suggestions';
+import { withResponseCache } from '@/lib/response-cache';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 64;
+
+async function handleGet(request: NextRequest) {
+  try {
+    const query = (new URL(request.url).searchParams.get('q') || '').trim();
+
+    if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `q must be ${MIN_QUERY_LENGTH} to ${MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const suggestions = await getNameSuggestions(query);
+
+    return NextResponse.json({
+      success: true,
+      data: suggestions
+    });
+
+  } catch (error) {
+    console.error('Error fetching name suggestions:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch name suggestions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('identity/suggest', handleGet);
@@ -0,0 +1,190 @@
+/**
+ * Share Card Image API Route - Open Graph Preview of a Profile
+ *
+ * This Next.js API route renders the 1200x630 preview image that Farcaster,
+ * X and Telegram show for shared profile links: the primary identity
+ * (avatar and name), wallet category, transaction count and top holdings.
+ * Without a query, or when the profile can't be loaded, a generic Sniffer
+ * card is rendered so previews never break.
+ *
+ * The optional `chain` parameter takes a chain key (base, ethereum, polygon,
+ * arbitrum, optimism) or chain ID and defaults to Base.
+ *
+ * Endpoint: GET /api/og?q={address or name}&chain={chain}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageResponse } from 'next/og';
+import { resolveChain, SupportedChain } from '@/lib/chains';
+import { getShareCard, ShareCard, SHARE_IMAGE_SIZE } from '@/lib/share-card';
+
+const CACHE_CONTROL = 'public, max-age=600, s-maxage=600, stale-while-revalidate=3600';
+const FALLBACK_CACHE_CONTROL = 'public, max-age=60, s-maxage=60';
+
+const IDENTITY_LABELS: Record<NonNullable<ShareCard['identitySource']>, string> = {
+  ens: 'ENS',
+  basename: 'Basename',
+  farcaster: 'Farcaster',
+  lens: 'Lens'
+};
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Format a USD amount compactly, e.g. $1.2M
+ */
+const formatUsd = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', notation: 'compact', maximumFractionDigits: value < 1000 ? 2 : 1 }).format(value);
+
+/**
+ * Card frame shared by the profile and generic cards
+ */
+function CardFrame({ chain, children }: { chain: SupportedChain; children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        padding: 64,
+        background: 'linear-gradient(135deg, #1e1b4b 0%, #312e81 45%, #1e3a8a 100%)',
+        color: '#ffffff',
+        fontFamily: 'sans-serif'
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 28, color: '#c4b5fd' }}>
+        <div style={{ display: 'flex', fontWeight: 700 }}>Sniffer Web3</div>
+        <div style={{ display: 'flex' }}>{chain.name}</div>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Small rounded label
+ */
+function Pill({ children }: { children: React.ReactNode }) {
+  return (
+    <div style={{ display: 'flex', padding: '6px 18px', borderRadius: 999, background: 'rgba(255,255,255,0.12)', fontSize: 24, color: '#e9d5ff' }}>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Labeled number in the stats row
+ */
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', marginRight: 72 }}>
+      <div style={{ display: 'flex', fontSize: 22, color: '#a5b4fc' }}>{label}</div>
+      <div style={{ display: 'flex', fontSize: 44, fontWeight: 700 }}>{value}</div>
+    </div>
+  );
+}
+
+/**
+ * Profile card: identity, category, transaction count and top holdings
+ */
+function ProfileCard({ card, chain }: { card: ShareCard; chain: SupportedChain }) {
+  const title = card.name || shortenAddress(card.address);
+
+  return (
+    <CardFrame chain={chain}>
+      <div style={{ display: 'flex', alignItems: 'center', marginTop: 56 }}>
+        {card.avatar ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={card.avatar} width={168} height={168} alt="" style={{ borderRadius: 999, objectFit: 'cover', border: '4px solid #a78bfa' }} />
+        ) : (
+          <div style={{ display: 'flex', width: 168, height: 168, borderRadius: 999, alignItems: 'center', justifyContent: 'center', background: 'linear-gradient(135deg, #a78bfa, #3b82f6)', fontSize: 80, fontWeight: 700 }}>
+            {title.replace(/^0x/, '').charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div style={{ display: 'flex', flexDirection: 'column', marginLeft: 48 }}>
+          <div style={{ display: 'flex', fontSize: title.length > 20 ? 52 : 68, fontWeight: 700 }}>{title}</div>
+          <div style={{ display: 'flex', fontSize: 26, color: '#c7d2fe', marginTop: 8 }}>{shortenAddress(card.address)}</div>
+          <div style={{ display: 'flex', marginTop: 16, gap: 12 }}>
+            {card.identitySource && <Pill>{IDENTITY_LABELS[card.identitySource]}</Pill>}
+            <Pill>{card.category}</Pill>
+          </div>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', marginTop: 'auto', alignItems: 'flex-end', justifyContent: 'space-between' }}>
+        <div style={{ display: 'flex' }}>
+          <Stat label="Transactions" value={card.transactionCount.toLocaleString('en-US')} />
+          {card.totalValueUsd !== null && <Stat label="Net Worth" value={formatUsd(card.totalValueUsd)} />}
+        </div>
+        {card.topHoldings.length > 0 && (
+          <div style={{ display: 'flex', flexDirection: 'column', minWidth: 360 }}>
+            <div style={{ display: 'flex', fontSize: 22, color: '#a5b4fc', marginBottom: 8 }}>Top Holdings</div>
+            {card.topHoldings.map(holding => (
+              <div key={holding.symbol} style={{ display: 'flex', justifyContent: 'space-between', fontSize: 28, marginTop: 4 }}>
+                <div style={{ display: 'flex', fontWeight: 700 }}>{holding.symbol}</div>
+                <div style={{ display: 'flex', color: '#e0e7ff' }}>{`${formatUsd(holding.valueUsd)} · ${holding.percentage.toFixed(0)}%`}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </CardFrame>
+  );
+}
+
+/**
+ * Generic card for the home page and profiles that couldn't be loaded
+ */
+function GenericCard({ chain, subtitle }: { chain: SupportedChain; subtitle?: string }) {
+  return (
+    <CardFrame chain={chain}>
+      <div style={{ display: 'flex', flexDirection: 'column', marginTop: 'auto', marginBottom: 'auto' }}>
+        <div style={{ display: 'flex', fontSize: 72, fontWeight: 700 }}>{subtitle || 'Web3 Identity Explorer'}</div>
+        <div style={{ display: 'flex', fontSize: 32, color: '#c7d2fe', marginTop: 16 }}>
+          Social profiles, wallet activity and holdings for any address, ENS name or Basename
+        </div>
+      </div>
+    </CardFrame>
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('q')?.trim();
+
+  const chain = resolveChain(searchParams.get('chain'));
+  if (!chain) {
+    return NextResponse.json(
+      { error: `Unsupported chain: ${searchParams.get('chain')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!query) {
+    return new ImageResponse(<GenericCard chain={chain} />, {
+      ...SHARE_IMAGE_SIZE,
+      headers: { 'Cache-Control': CACHE_CONTROL }
+    });
+  }
+
+  try {
+    console.log('Rendering share card for:', query);
+    const card = await getShareCard(query, chain.key);
+
+    return new ImageResponse(<ProfileCard card={card} chain={chain} />, {
+      ...SHARE_IMAGE_SIZE,
+      headers: { 'Cache-Control': card.totalValueUsd !== null ? CACHE_CONTROL : FALLBACK_CACHE_CONTROL }
+    });
+
+  } catch (error) {
+    console.error('Error rendering share card:', error);
+    return new ImageResponse(<GenericCard chain={chain} subtitle={query} />, {
+      ...SHARE_IMAGE_SIZE,
+      headers: { 'Cache-Control': FALLBACK_CACHE_CONTROL }
+    });
+  }
+}
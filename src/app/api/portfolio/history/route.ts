@@ -0,0 +1,63 @@
+/**
+ * Portfolio History API Route
+ *
+ * This Next.js API route reconstructs a wallet's net worth over time. Its
+ * transactions, internal transactions and ERC-20 transfers are replayed into
+ * daily balances per asset, and each point is valued with historical prices
+ * (DefiLlama by default, current DEXScreener prices as the fallback).
+ *
+ * Endpoint: GET /api/portfolio/history?address={address}&chain={chain}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildPortfolioHistory } from '@/lib/portfolio-history';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+
+    console.log('Building portfolio history for address:', address, 'on', chain.key);
+
+    const history = await buildPortfolioHistory(address, chain.key);
+
+    return NextResponse.json({
+      success: true,
+      chain: chain.key,
+      data: history
+    });
+
+  } catch (error) {
+    console.error('Error building portfolio history:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build portfolio history',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('portfolio/history', handleGet);
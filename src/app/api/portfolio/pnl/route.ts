@@ -0,0 +1,64 @@
+/**
+ * Portfolio PnL API Route
+ *
+ * This Next.js API route reports a wallet's trading performance: realized
+ * and unrealized PnL per token with FIFO cost basis, win rate and average
+ * holding time. Swaps are detected from the wallet's DEX transactions and
+ * valued at the time of the trade; open positions are valued at current
+ * DEXScreener prices.
+ *
+ * Endpoint: GET /api/portfolio/pnl?address={address}&chain={chain}
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateWalletPnl } from '@/lib/pnl';
+import { resolveChain } from '@/lib/chains';
+import { withResponseCache } from '@/lib/response-cache';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${searchParams.get('chain')}` },
+        { status: 400 }
+      );
+    }
+
+    console.log('Calculating PnL for address:', address, 'on', chain.key);
+
+    const pnl = await calculateWalletPnl(address, chain.key);
+
+    return NextResponse.json({
+      success: true,
+      chain: chain.key,
+      data: pnl
+    });
+
+  } catch (error) {
+    console.error('Error calculating PnL:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to calculate PnL',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withResponseCache('portfolio/pnl', handleGet);
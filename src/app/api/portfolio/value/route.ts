@@ -0,0 +1,69 @@
+/**
+ * Portfolio Valuation API Route
+ *
+ * This Next.js API route values a wallet's holdings in USD using DEXScreener
+ * prices. Token prices come from each token's most liquid pair on the given
+ * chain (Base by default), and the native balance is priced through the
+ * wrapped native token. Tokens without a liquid pair are flagged and left
+ * out of the total so illiquid junk doesn't inflate net worth.
+ *
+ * Endpoint: POST /api/portfolio/value
+ * Body: { ethBalance: number, chain?: string, tokens: [{ contractAddress, symbol?, balance }] }
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { valuePortfolio, PricingInput } from '@/lib/pricing';
+import { resolveChain } from '@/lib/chains';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null) as { ethBalance?: unknown; chain?: unknown; tokens?: unknown } | null;
+
+    if (!body || !Array.isArray(body.tokens)) {
+      return NextResponse.json(
+        { error: 'Request body must include a tokens array' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChain(typeof body.chain === 'string' ? body.chain : null);
+    if (!chain) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${body.chain}` },
+        { status: 400 }
+      );
+    }
+
+    const ethBalance = parseFloat(String(body.ethBalance ?? '0')) || 0;
+    const holdings: PricingInput[] = (body.tokens as Array<Record<string, unknown>>)
+      .filter(token => typeof token?.contractAddress === 'string' && /^0x[a-fA-F0-9]{40}$/.test(token.contractAddress))
+      .map(token => ({
+        contractAddress: token.contractAddress as string,
+        symbol: typeof token.symbol === 'string' ? token.symbol : undefined,
+        balance: parseFloat(String(token.balance ?? '0')) || 0
+      }));
+
+    console.log(`Valuing portfolio with ${holdings.length} tokens`);
+
+    const valuation = await valuePortfolio(ethBalance, holdings, chain.key);
+
+    return NextResponse.json({
+      success: true,
+      data: valuation
+    });
+
+  } catch (error) {
+    console.error('Error valuing portfolio:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to value portfolio',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
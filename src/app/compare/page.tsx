@@ -0,0 +1,66 @@
+/**
+ * Sniffer Web3 - Wallet Comparison Page
+ *
+ * Shareable comparison of 2-5 wallets. The wallets and chain come from the
+ * URL, e.g. /compare?addresses=vitalik.eth,jesse.base&chain=base, so a
+ * comparison can be bookmarked or sent as a link.
+ *
+ * Features:
+ * - Addresses, ENS names and Basenames in the `addresses` query parameter
+ * - Optional `chain` query parameter (defaults to Base)
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import Link from "next/link";
+import { WalletCompare } from "../components/WalletCompare";
+import Footer from "../Footer";
+import { DEFAULT_CHAIN, resolveChain } from "@/lib/chains";
+import { MAX_COMPARE_WALLETS } from "@/lib/wallet-compare";
+
+/**
+ * Props for the comparison page
+ *
+ * @interface ComparePageProps
+ * @property {Promise<{ addresses?: string; chain?: string }>} searchParams - URL query parameters
+ */
+interface ComparePageProps {
+  searchParams: Promise<{ addresses?: string; chain?: string }>;
+}
+
+/**
+ * Compare Page - Reads the wallets and chain from the URL
+ *
+ * @param {ComparePageProps} props - Page props
+ * @returns JSX.Element - Wallet comparison view
+ */
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { addresses, chain } = await searchParams;
+  const inputs = (addresses || '')
+    .split(',')
+    .map(input => input.trim())
+    .filter(Boolean)
+    .slice(0, MAX_COMPARE_WALLETS);
+  const chainKey = resolveChain(chain)?.key || DEFAULT_CHAIN;
+
+  return (
+    <main className="min-h-screen bg-transparent flex flex-col">
+      <div className="flex-1 container mx-auto px-4 py-8 relative z-10">
+        <div className="text-center mb-8">
+          <Link href="/" className="text-blue-300 hover:text-white text-sm">
+            ← Back to Sniffer
+          </Link>
+          <h1 className="text-4xl font-black bg-gradient-to-r from-white via-blue-100 to-cyan-300 bg-clip-text text-transparent mt-4">
+            Wallet Comparison
+          </h1>
+          <p className="text-blue-200 mt-2">
+            Compare activity, holdings, counterparties and social profiles of up to {MAX_COMPARE_WALLETS} wallets
+          </p>
+        </div>
+        <WalletCompare initialInputs={inputs} initialChain={chainKey} />
+      </div>
+      <Footer />
+    </main>
+  );
+}
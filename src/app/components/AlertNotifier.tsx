@@ -0,0 +1,106 @@
+/**
+ * AlertNotifier Component - In-App and Browser Alert Delivery
+ *
+ * This component polls /api/alerts/events for alerts triggered by the
+ * user's rules and shows each one as a toast (in_app channel) and/or a
+ * browser notification (browser channel). It renders nothing.
+ *
+ * Features:
+ * - Anonymous per-browser alert user ID kept in localStorage
+ * - Polling with the newest shown alert as cursor, so refreshes don't repeat alerts
+ * - Browser notifications that open the token page or transaction on click
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import toast from "react-hot-toast";
+import type { AlertEvent } from "@/lib/alerts";
+
+const USER_ID_KEY = 'sniffer-alerts-user';
+const LAST_SEEN_KEY = 'sniffer-alerts-seen';
+const POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Alert user ID of this browser, created on first use
+ * @returns string - Opaque user ID sent as X-Sniffer-User
+ */
+export const getAlertUserId = (): string => {
+  let userId = localStorage.getItem(USER_ID_KEY);
+  if (!userId) {
+    userId = crypto.randomUUID();
+    localStorage.setItem(USER_ID_KEY, userId);
+  }
+  return userId;
+};
+
+/**
+ * Fetch an alerts API route as this browser's alert user
+ * @param path - API path, e.g. /api/alerts
+ * @param init - Fetch options
+ * @returns Promise<Response> - API response
+ */
+export const fetchAlertsApi = (path: string, init: RequestInit = {}): Promise<Response> =>
+  fetch(path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers, 'X-Sniffer-User': getAlertUserId() }
+  });
+
+/**
+ * Show an alert as a browser notification, if permitted
+ */
+const showBrowserNotification = (event: AlertEvent) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(event.title, { body: event.message, tag: event.id });
+  notification.onclick = () => {
+    window.focus();
+    if (event.url) window.open(event.url, '_blank', 'noopener,noreferrer');
+  };
+};
+
+/**
+ * AlertNotifier Component - Polls for triggered alerts and delivers them
+ *
+ * @returns null
+ */
+export function AlertNotifier() {
+  useEffect(() => {
+    let lastSeen = Number(localStorage.getItem(LAST_SEEN_KEY)) || Date.now();
+
+    const poll = async () => {
+      if (!localStorage.getItem(USER_ID_KEY)) return; // No rules created in this browser yet
+      try {
+        const response = await fetchAlertsApi(`/api/alerts/events?since=${lastSeen}`);
+        const data = await response.json();
+        if (!data.success || data.data.length === 0) return;
+
+        const events: AlertEvent[] = data.data;
+        console.log(`🔔 ${events.length} new alert(s)`);
+        // Oldest first so the newest toast ends up on top
+        [...events].reverse().forEach(event => {
+          if (event.channels.includes('in_app')) {
+            toast(`${event.title}\n${event.message}`, { icon: '🔔', duration: 8000 });
+          }
+          if (event.channels.includes('browser')) {
+            showBrowserNotification(event);
+          }
+        });
+
+        lastSeen = Math.max(...events.map(event => event.triggeredAt));
+        localStorage.setItem(LAST_SEEN_KEY, String(lastSeen));
+      } catch (error) {
+        console.error('❌ Error polling alerts:', error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,348 @@
+/**
+ * AlertsPanel Component - Price and Wallet Activity Alert Rules
+ *
+ * This component renders the Alerts tab: a form to create alert rules and
+ * the list of the browser's rules from /api/alerts. Rules are evaluated on
+ * the server every minute; AlertNotifier delivers what they trigger.
+ *
+ * Features:
+ * - Token rules: price above/below, 24h change beyond ±%, liquidity below
+ * - Wallet rule: large outgoing transaction from a watched wallet
+ * - In-app, browser notification and webhook channels
+ * - Enable/disable and delete rules
+ * - Warning when the server can't persist rules across restarts
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, Bell, BellOff, BellRing, Plus, Trash2 } from "lucide-react";
+import { CHAIN_KEYS, ChainKey, DEFAULT_CHAIN, SUPPORTED_CHAINS } from "@/lib/chains";
+import { isValidEthereumAddress } from "@/lib/identity";
+import type { AlertChannel, AlertRule, AlertRuleType } from "@/lib/alerts";
+import { fetchAlertsApi } from "./AlertNotifier";
+
+const RULE_TYPES: Record<AlertRuleType, { label: string; unit: string; targetLabel: string }> = {
+  price_above: { label: 'Price above', unit: 'USD', targetLabel: 'Token address' },
+  price_below: { label: 'Price below', unit: 'USD', targetLabel: 'Token address' },
+  change_24h: { label: '24h change', unit: '±%', targetLabel: 'Token address' },
+  liquidity_below: { label: 'Liquidity below', unit: 'USD', targetLabel: 'Token address' },
+  wallet_send: { label: 'Wallet sends', unit: 'ETH', targetLabel: 'Wallet address' }
+};
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  in_app: 'In-app',
+  browser: 'Browser',
+  webhook: 'Webhook'
+};
+
+/**
+ * Describe a rule's condition, e.g. "Price above 0.05 USD"
+ */
+const describeRule = (rule: AlertRule): string => {
+  const { label, unit } = RULE_TYPES[rule.type];
+  const unitLabel = rule.type === 'wallet_send' ? SUPPORTED_CHAINS[rule.chain].nativeSymbol : unit;
+  return rule.type === 'change_24h'
+    ? `${label} beyond ±${rule.threshold}%`
+    : `${label} ${rule.type === 'wallet_send' ? '≥ ' : ''}${rule.threshold.toLocaleString('en-US')} ${unitLabel}`;
+};
+
+/**
+ * AlertsPanel Component - Create and manage alert rules
+ *
+ * @returns JSX.Element - Alerts tab content
+ */
+export function AlertsPanel() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [type, setType] = useState<AlertRuleType>('price_above');
+  const [target, setTarget] = useState('');
+  const [label, setLabel] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [chain, setChain] = useState<ChainKey>(DEFAULT_CHAIN);
+  const [channels, setChannels] = useState<AlertChannel[]>(['in_app']);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+  const [storage, setStorage] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetchAlertsApi('/api/alerts');
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.details || data.error || 'Failed to load alerts');
+      }
+      setRules(data.data);
+      setStorage(data.storage || null);
+    } catch (error) {
+      console.error('❌ Error fetching alert rules:', error);
+      toast.error('Failed to load alert rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+  }, [fetchRules]);
+
+  const toggleChannel = (channel: AlertChannel) => {
+    setChannels(prev => prev.includes(channel) ? prev.filter(item => item !== channel) : [...prev, channel]);
+  };
+
+  const requestPermission = async () => {
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    if (result === 'granted') {
+      toast.success('Browser notifications enabled', { icon: '🔔' });
+    } else {
+      toast.error('Browser notifications were blocked');
+    }
+  };
+
+  const canCreate = isValidEthereumAddress(target.trim()) &&
+    Number(threshold) >= 0 && threshold.trim() !== '' &&
+    channels.length > 0 &&
+    (!channels.includes('webhook') || /^https:\/\/\S+$/.test(webhookUrl.trim()));
+
+  const createRule = async () => {
+    if (!canCreate) return;
+    setIsSaving(true);
+    try {
+      console.log('🔔 Creating alert rule:', type, target);
+      const response = await fetchAlertsApi('/api/alerts', {
+        method: 'POST',
+        body: JSON.stringify({
+          type,
+          target: target.trim(),
+          threshold: Number(threshold),
+          chain,
+          label: label.trim() || undefined,
+          channels,
+          webhookUrl: webhookUrl.trim() || undefined
+        })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.details || data.error || 'Failed to create alert');
+      }
+
+      setRules(prev => [...prev, data.data]);
+      setTarget('');
+      setLabel('');
+      setThreshold('');
+      toast.success('Alert created', { icon: '🔔' });
+      if (channels.includes('browser') && permission === 'default') {
+        requestPermission();
+      }
+    } catch (error) {
+      console.error('❌ Error creating alert rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create alert');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setEnabled = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      const response = await fetchAlertsApi(`/api/alerts?id=${rule.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ enabled })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.details || data.error || 'Failed to update alert');
+      }
+      setRules(prev => prev.map(item => item.id === rule.id ? data.data : item));
+    } catch (error) {
+      console.error('❌ Error updating alert rule:', error);
+      toast.error('Failed to update alert');
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    try {
+      const response = await fetchAlertsApi(`/api/alerts?id=${rule.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.details || data.error || 'Failed to delete alert');
+      }
+      setRules(prev => prev.filter(item => item.id !== rule.id));
+      toast.success('Alert deleted');
+    } catch (error) {
+      console.error('❌ Error deleting alert rule:', error);
+      toast.error('Failed to delete alert');
+    }
+  };
+
+  const optionButton = (active: boolean) =>
+    active
+      ? "bg-blue-600 text-white border-blue-500 hover:bg-blue-700"
+      : "bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700";
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {storage === 'memory' && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 text-yellow-300/90 text-sm flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          This server keeps alert rules in memory only: they are lost when it restarts.
+        </div>
+      )}
+
+      {/* New rule */}
+      <Card className="bg-zinc-900/50 border-zinc-700/50">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            New Alert
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(RULE_TYPES) as AlertRuleType[]).map(ruleType => (
+              <Button key={ruleType} size="sm" variant="outline" className={optionButton(type === ruleType)} onClick={() => setType(ruleType)}>
+                {RULE_TYPES[ruleType].label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-3">
+            <Input
+              placeholder={`${RULE_TYPES[type].targetLabel} (0x...)`}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="md:col-span-2 bg-zinc-800 border-zinc-700 text-white font-mono"
+            />
+            <Input
+              placeholder="Label (optional)"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              maxLength={40}
+              className="bg-zinc-800 border-zinc-700 text-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              placeholder={`Threshold (${type === 'wallet_send' ? SUPPORTED_CHAINS[chain].nativeSymbol : RULE_TYPES[type].unit})`}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="bg-zinc-800 border-zinc-700 text-white"
+            />
+            {type === 'wallet_send' && (
+              <div className="md:col-span-2 flex flex-wrap items-center gap-2">
+                {CHAIN_KEYS.map(key => (
+                  <Button key={key} size="sm" variant="outline" className={optionButton(chain === key)} onClick={() => setChain(key)}>
+                    {SUPPORTED_CHAINS[key].name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-zinc-400">Notify via</span>
+            {(Object.keys(CHANNEL_LABELS) as AlertChannel[]).map(channel => (
+              <Button key={channel} size="sm" variant="outline" className={optionButton(channels.includes(channel))} onClick={() => toggleChannel(channel)}>
+                {CHANNEL_LABELS[channel]}
+              </Button>
+            ))}
+            {channels.includes('browser') && permission !== 'granted' && permission !== 'unsupported' && (
+              <Button size="sm" variant="outline" className="bg-zinc-800 text-yellow-300 border-yellow-500/40 hover:bg-zinc-700" onClick={requestPermission}>
+                <BellRing className="w-4 h-4 mr-2" />
+                Allow notifications
+              </Button>
+            )}
+          </div>
+
+          {channels.includes('webhook') && (
+            <Input
+              placeholder="Webhook URL (https://...)"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              className="bg-zinc-800 border-zinc-700 text-white font-mono"
+            />
+          )}
+
+          <Button onClick={createRule} disabled={!canCreate || isSaving} className="bg-blue-600 hover:bg-blue-700 text-white">
+            <Bell className="w-4 h-4 mr-2" />
+            {isSaving ? 'Creating...' : 'Create Alert'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Rules */}
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-16 w-full bg-zinc-800/60" />
+          ))}
+        </div>
+      ) : rules.length === 0 ? (
+        <Card className="bg-zinc-900/40 border-zinc-800/60">
+          <CardContent className="text-center text-gray-400 p-12">
+            <Bell className="w-12 h-12 mx-auto mb-4 text-gray-500" />
+            No alerts yet. Rules are checked every minute.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {rules.map(rule => (
+            <Card key={rule.id} className={`bg-zinc-900/50 border-zinc-700/50 ${rule.enabled ? '' : 'opacity-60'}`}>
+              <CardContent className="p-4 flex flex-wrap items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="text-white font-medium">{describeRule(rule)}</div>
+                  <div className="text-sm text-zinc-400 font-mono truncate">
+                    {rule.label ? `${rule.label} · ` : ''}{rule.target}
+                    {rule.type === 'wallet_send' && ` · ${SUPPORTED_CHAINS[rule.chain].name}`}
+                  </div>
+                  {rule.lastTriggeredAt && (
+                    <div className="text-xs text-zinc-500 mt-1">
+                      Last triggered {new Date(rule.lastTriggeredAt).toLocaleString()}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  {rule.channels.map(channel => (
+                    <Badge key={channel} variant="outline" className="text-xs bg-zinc-800/60 text-zinc-300 border-zinc-700">
+                      {CHANNEL_LABELS[channel]}
+                    </Badge>
+                  ))}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700"
+                  onClick={() => setEnabled(rule, !rule.enabled)}
+                  title={rule.enabled ? 'Pause alert' : 'Resume alert'}
+                >
+                  {rule.enabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="bg-zinc-800 text-red-400 border-zinc-700 hover:bg-red-900/40"
+                  onClick={() => deleteRule(rule)}
+                  title="Delete alert"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,13 +27,13 @@ export function BaseCard({ profile }: BaseCardProps) {
       
       setIsLoading(true);
       try {
-        // Try to fetch Base name data using reverse lookup
-        const response = await fetch(`https://api.basescan.org/api?module=account&action=txlist&address=${baseMetadata.address}&startblock=0&endblock=99999999&page=1&offset=1&sort=desc&apikey=4BX3N5QR9QQREKWAKT5IJQTWF5R8SM8ZV9`);
+        // Try to fetch Base name data using reverse lookup (proxied so the API key stays on the server)
+        const response = await fetch(`/api/etherscan/transactions?address=${baseMetadata.address}&offset=1&chain=base`);
         const data = await response.json();
         
-        if (data.status === '1' && data.result && data.result.length > 0) {
+        if (data.success && data.data && data.data.length > 0) {
           // Check if this address has any Base name activity
-          const hasBaseActivity = data.result.some((tx: { to?: string; input?: string }) => 
+          const hasBaseActivity = data.data.some((tx: { to?: string; input?: string }) => 
             (tx.to && tx.to.toLowerCase().includes('base')) || 
             (tx.input && tx.input.includes('base'))
           );
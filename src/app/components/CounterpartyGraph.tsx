@@ -0,0 +1,363 @@
+/**
+ * CounterpartyGraph Component - Fund-Flow Graph of a Wallet's Counterparties
+ *
+ * This component renders the counterparty analysis from
+ * /api/etherscan/counterparties as a force-directed graph: the wallet sits
+ * in the middle and each counterparty is a node sized by volume, with edges
+ * colored by the direction funds moved.
+ *
+ * Features:
+ * - Force-directed layout of the top counterparties
+ * - Node labels from the protocol registry or ENS reverse lookup
+ * - Hover details: direction, transfer counts, USD volume and tokens
+ * - Clicking a node pivots the search to that address
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { client } from "../client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Network } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import type { Counterparty, CounterpartyAnalysis } from "@/lib/counterparties";
+import { ChainKey, SUPPORTED_CHAINS } from "@/lib/chains";
+import { lookupEnsName } from "@/lib/identity";
+
+/**
+ * Props interface for CounterpartyGraph component
+ *
+ * @interface CounterpartyGraphProps
+ * @property {string} address - Wallet address at the center of the graph
+ * @property {ChainKey} chain - Chain the wallet is profiled on
+ * @property {(address: string) => void} [onSelectAddress] - Called when a node is clicked
+ */
+interface CounterpartyGraphProps {
+  address: string;
+  chain: ChainKey;
+  onSelectAddress?: (address: string) => void;
+}
+
+type FlowDirection = 'in' | 'out' | 'both';
+
+/**
+ * Counterparty node with its computed position
+ */
+interface GraphNode {
+  counterparty: Counterparty;
+  direction: FlowDirection;
+  weight: number; // 0-1, relative to the largest counterparty
+  radius: number;
+  x: number;
+  y: number;
+}
+
+const MAX_GRAPH_NODES = 30;
+const MAX_NODE_LABELS = 12; // Largest nodes that get a text label
+const WIDTH = 800;
+const HEIGHT = 480;
+const CENTER_RADIUS = 14;
+const LAYOUT_ITERATIONS = 300;
+
+const DIRECTION_COLORS: Record<FlowDirection, string> = {
+  in: '#22c55e',
+  out: '#ef4444',
+  both: '#3b82f6'
+};
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatUsd = (value: number): string =>
+  `$${value.toLocaleString('en-US', { maximumFractionDigits: value >= 100 ? 0 : 2 })}`;
+
+/**
+ * Direction funds moved between the wallet and a counterparty
+ */
+const getDirection = (counterparty: Counterparty): FlowDirection =>
+  counterparty.sent.count > 0 && counterparty.received.count > 0 ? 'both' : counterparty.sent.count > 0 ? 'out' : 'in';
+
+/**
+ * Size measure of a counterparty: USD volume, or transfer count when nothing is priced
+ */
+const getMagnitude = (counterparty: Counterparty, byVolume: boolean): number =>
+  byVolume
+    ? counterparty.sent.volumeUsd + counterparty.received.volumeUsd
+    : counterparty.sent.count + counterparty.received.count;
+
+/**
+ * Lay counterparties out around the wallet with a small force simulation
+ *
+ * Nodes repel each other and are pulled towards the wallet by a spring whose
+ * rest length shrinks with volume, so the largest counterparties sit closest.
+ * The result is scaled to fit the viewBox with the wallet in the middle.
+ *
+ * @param {Counterparty[]} counterparties - Counterparties to place
+ * @returns {GraphNode[]} Nodes with positions in viewBox coordinates
+ */
+function layoutGraph(counterparties: Counterparty[]): GraphNode[] {
+  const byVolume = counterparties.some(counterparty => getMagnitude(counterparty, true) > 0);
+  const maxMagnitude = Math.max(1e-9, ...counterparties.map(counterparty => getMagnitude(counterparty, byVolume)));
+
+  // Deterministic start: a ring, alternating radius to break symmetry
+  const nodes: GraphNode[] = counterparties.map((counterparty, index) => {
+    const weight = Math.sqrt(getMagnitude(counterparty, byVolume) / maxMagnitude);
+    const angle = (index / counterparties.length) * 2 * Math.PI;
+    const distance = 120 + (index % 3) * 30;
+    return {
+      counterparty,
+      direction: getDirection(counterparty),
+      weight,
+      radius: 5 + weight * 13,
+      x: Math.cos(angle) * distance,
+      y: Math.sin(angle) * distance
+    };
+  });
+
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    const cooling = 1 - iteration / LAYOUT_ITERATIONS;
+    const forces = nodes.map(() => ({ x: 0, y: 0 }));
+
+    nodes.forEach((node, i) => {
+      // Repulsion from the other nodes and from the wallet at the origin
+      for (let j = i + 1; j < nodes.length; j++) {
+        const dx = node.x - nodes[j].x;
+        const dy = node.y - nodes[j].y;
+        const distanceSq = Math.max(dx * dx + dy * dy, 1);
+        const minDistance = node.radius + nodes[j].radius + 6;
+        const strength = 1800 / distanceSq + (distanceSq < minDistance * minDistance ? 0.5 : 0);
+        const distance = Math.sqrt(distanceSq);
+        forces[i].x += (dx / distance) * strength;
+        forces[i].y += (dy / distance) * strength;
+        forces[j].x -= (dx / distance) * strength;
+        forces[j].y -= (dy / distance) * strength;
+      }
+
+      // Spring towards the wallet; bigger counterparties want to be closer
+      const distance = Math.max(Math.sqrt(node.x * node.x + node.y * node.y), 1);
+      const restLength = 70 + (1 - node.weight) * 150;
+      const pull = 0.05 * (distance - restLength);
+      forces[i].x -= (node.x / distance) * pull;
+      forces[i].y -= (node.y / distance) * pull;
+    });
+
+    nodes.forEach((node, i) => {
+      const maxStep = 12 * cooling + 0.5;
+      node.x += Math.max(-maxStep, Math.min(maxStep, forces[i].x));
+      node.y += Math.max(-maxStep, Math.min(maxStep, forces[i].y));
+    });
+  }
+
+  // Fit into the viewBox around the center
+  const margin = 30;
+  const extentX = Math.max(1, ...nodes.map(node => Math.abs(node.x) + node.radius));
+  const extentY = Math.max(1, ...nodes.map(node => Math.abs(node.y) + node.radius));
+  const scale = Math.min((WIDTH / 2 - margin) / extentX, (HEIGHT / 2 - margin) / extentY, 1.5);
+  nodes.forEach(node => {
+    node.x = WIDTH / 2 + node.x * scale;
+    node.y = HEIGHT / 2 + node.y * scale;
+  });
+
+  return nodes;
+}
+
+/**
+ * CounterpartyGraph Component - Interactive fund-flow graph
+ *
+ * @param {CounterpartyGraphProps} props - Component props
+ * @returns JSX.Element - Graph card
+ */
+export function CounterpartyGraph({ address, chain, onSelectAddress }: CounterpartyGraphProps) {
+  const [analysis, setAnalysis] = useState<CounterpartyAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ensNames, setEnsNames] = useState<Record<string, string>>({});
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+
+    const fetchCounterparties = async () => {
+      setIsLoading(true);
+      setError(null);
+      setEnsNames({});
+      try {
+        console.log('🕸️ Analyzing counterparties for:', address, 'on', chain);
+        const response = await fetch(`/api/etherscan/counterparties?address=${address}&chain=${chain}`);
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.details || data.error || 'Failed to analyze counterparties');
+        }
+        if (!cancelled) setAnalysis(data.data);
+      } catch (fetchError) {
+        console.error('❌ Error analyzing counterparties:', fetchError);
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : 'Failed to analyze counterparties');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchCounterparties();
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chain]);
+
+  const graphCounterparties = useMemo(
+    () => analysis?.counterparties.slice(0, MAX_GRAPH_NODES) || [],
+    [analysis]
+  );
+  const nodes = useMemo(() => layoutGraph(graphCounterparties), [graphCounterparties]);
+
+  // ENS reverse lookup for the counterparties the registry doesn't know
+  useEffect(() => {
+    const unlabeled = graphCounterparties.filter(counterparty => !counterparty.label);
+    if (unlabeled.length === 0) return;
+    let cancelled = false;
+
+    Promise.all(unlabeled.map(async counterparty => [counterparty.address, await lookupEnsName(client, counterparty.address)] as const))
+      .then(results => {
+        if (cancelled) return;
+        const names: Record<string, string> = {};
+        results.forEach(([counterpartyAddress, name]) => {
+          if (name) names[counterpartyAddress] = name;
+        });
+        setEnsNames(names);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [graphCounterparties]);
+
+  const getNodeLabel = (counterparty: Counterparty): string =>
+    counterparty.label || ensNames[counterparty.address] || shortenAddress(counterparty.address);
+
+  const labeledNodes = new Set(
+    [...nodes].sort((a, b) => b.weight - a.weight).slice(0, MAX_NODE_LABELS).map(node => node.counterparty.address)
+  );
+  const hoveredNode = nodes.find(node => node.counterparty.address === hovered);
+
+  const handleNodeClick = (counterpartyAddress: string) => {
+    if (onSelectAddress) {
+      onSelectAddress(counterpartyAddress);
+    } else {
+      window.open(`${SUPPORTED_CHAINS[chain].explorerUrl}/address/${counterpartyAddress}`, '_blank', 'noopener,noreferrer');
+    }
+  };
+
+  return (
+    <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-white">
+          <Network className="w-5 h-5 text-cyan-400" />
+          <span>Counterparty Graph</span>
+          {analysis && (
+            <Badge className="bg-cyan-600/20 text-cyan-300 border-cyan-600/30">
+              {analysis.totalCounterparties} counterparties
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-80 w-full bg-zinc-800" />
+        ) : error || !analysis ? (
+          <div className="text-center text-gray-400 p-8">
+            <p>Could not analyze counterparties</p>
+            {error && <p className="text-sm text-gray-500 mt-2">{error}</p>}
+          </div>
+        ) : nodes.length === 0 ? (
+          <div className="text-center text-gray-400 p-8">
+            No transfers found on {SUPPORTED_CHAINS[chain].name}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="relative">
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-zinc-950/40 rounded-lg">
+                {nodes.map(node => (
+                  <line
+                    key={`edge-${node.counterparty.address}`}
+                    x1={WIDTH / 2}
+                    y1={HEIGHT / 2}
+                    x2={node.x}
+                    y2={node.y}
+                    stroke={DIRECTION_COLORS[node.direction]}
+                    strokeWidth={1 + node.weight * 4}
+                    strokeOpacity={hovered && hovered !== node.counterparty.address ? 0.1 : 0.45}
+                  />
+                ))}
+
+                <circle cx={WIDTH / 2} cy={HEIGHT / 2} r={CENTER_RADIUS} fill="#a855f7" stroke="#e9d5ff" strokeWidth={2} />
+                <text x={WIDTH / 2} y={HEIGHT / 2 + CENTER_RADIUS + 14} textAnchor="middle" className="fill-purple-200 text-[11px] font-medium">
+                  {shortenAddress(address)}
+                </text>
+
+                {nodes.map(node => (
+                  <g
+                    key={node.counterparty.address}
+                    className="cursor-pointer"
+                    onMouseEnter={() => setHovered(node.counterparty.address)}
+                    onMouseLeave={() => setHovered(null)}
+                    onClick={() => handleNodeClick(node.counterparty.address)}
+                  >
+                    <circle
+                      cx={node.x}
+                      cy={node.y}
+                      r={node.radius}
+                      fill={DIRECTION_COLORS[node.direction]}
+                      fillOpacity={hovered && hovered !== node.counterparty.address ? 0.3 : 0.85}
+                      stroke={hovered === node.counterparty.address ? '#ffffff' : '#18181b'}
+                      strokeWidth={1.5}
+                    />
+                    {(labeledNodes.has(node.counterparty.address) || hovered === node.counterparty.address) && (
+                      <text x={node.x} y={node.y + node.radius + 12} textAnchor="middle" className="fill-gray-300 text-[10px]">
+                        {getNodeLabel(node.counterparty)}
+                      </text>
+                    )}
+                  </g>
+                ))}
+              </svg>
+
+              {hoveredNode && (
+                <div className="absolute top-2 left-2 max-w-xs p-3 bg-zinc-900/95 border border-zinc-700 rounded-lg text-xs space-y-1 pointer-events-none">
+                  <div className="text-white font-medium">{getNodeLabel(hoveredNode.counterparty)}</div>
+                  <div className="text-gray-400 font-mono">{hoveredNode.counterparty.address}</div>
+                  <div className="text-red-300">
+                    Sent: {hoveredNode.counterparty.sent.count} transfers · {formatUsd(hoveredNode.counterparty.sent.volumeUsd)}
+                  </div>
+                  <div className="text-green-300">
+                    Received: {hoveredNode.counterparty.received.count} transfers · {formatUsd(hoveredNode.counterparty.received.volumeUsd)}
+                  </div>
+                  {hoveredNode.counterparty.tokens.length > 0 && (
+                    <div className="text-gray-300">Tokens: {hoveredNode.counterparty.tokens.slice(0, 6).join(', ')}</div>
+                  )}
+                  <div className="text-gray-500">
+                    {new Date(hoveredNode.counterparty.firstInteraction).toLocaleDateString()} – {new Date(hoveredNode.counterparty.lastInteraction).toLocaleDateString()}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-400">
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-500" /> Received from</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-500" /> Sent to</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-blue-500" /> Both directions</span>
+              <span>Node size: USD volume at current prices · Click a node to {onSelectAddress ? 'profile' : 'open'} it</span>
+            </div>
+            {!analysis.complete && (
+              <p className="text-xs text-gray-500">
+                History truncated at Etherscan&apos;s 10,000 transfer window; older counterparties may be missing.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+/**
+ * NewPairsFeed Component - Fresh Base Pair Launches
+ *
+ * This component renders the Token Explorer's New Pairs tab from
+ * /api/dexscreener/new-pairs: Base pairs created in the last few hours,
+ * newest first.
+ *
+ * Features:
+ * - Age, initial and current liquidity, 24h buys/sells per pair
+ * - Launch platform tags (Clanker, Zora, Virtuals)
+ * - Filters for maximum age and minimum liquidity
+ * - Opens the in-app token detail view or the pair on DEXScreener
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExternalLink, RefreshCw, Sparkles } from "lucide-react";
+import type { LaunchPlatform, NewPair } from "@/lib/new-pairs";
+
+const AGE_OPTIONS = [1, 6, 24, 72];
+const LATE_RECORD_MS = 30 * 60 * 1000; // Initial liquidity recorded this long after launch is flagged
+const LIQUIDITY_OPTIONS = [0, 1000, 10000, 50000];
+
+const PLATFORM_BADGES: Record<LaunchPlatform, { label: string; className: string }> = {
+  clanker: { label: 'Clanker', className: 'bg-purple-500/10 text-purple-300 border-purple-500/30' },
+  zora: { label: 'Zora', className: 'bg-sky-500/10 text-sky-300 border-sky-500/30' },
+  virtuals: { label: 'Virtuals', className: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30' }
+};
+
+/**
+ * Props interface for NewPairsFeed component
+ *
+ * @interface NewPairsFeedProps
+ * @property {(address: string) => void} [onSelectToken] - Open the in-app detail view of a token
+ */
+interface NewPairsFeedProps {
+  onSelectToken?: (address: string) => void;
+}
+
+/**
+ * Format a USD amount compactly ($1.2K, $3.4M)
+ */
+const formatUsd = (value: number | null): string => {
+  if (value === null) return 'N/A';
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+/**
+ * Format a pair age (12m, 3h 5m, 2d 4h)
+ */
+const formatAge = (minutes: number): string => {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`;
+};
+
+/**
+ * Whether a pair's initial liquidity was first recorded well after launch
+ */
+const isSeenLate = (entry: NewPair): boolean =>
+  entry.initialLiquiditySeenAt !== null && entry.initialLiquiditySeenAt - entry.pairCreatedAt > LATE_RECORD_MS;
+
+/**
+ * NewPairsFeed Component - Filterable table of recently created Base pairs
+ *
+ * @param {NewPairsFeedProps} props - Component props
+ * @returns JSX.Element - New pairs feed
+ */
+export function NewPairsFeed({ onSelectToken }: NewPairsFeedProps) {
+  const [pairs, setPairs] = useState<NewPair[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [maxAgeHours, setMaxAgeHours] = useState(24);
+  const [minLiquidity, setMinLiquidity] = useState(1000);
+
+  const fetchPairs = useCallback(async (forceRefresh: boolean = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      console.log('🆕 Fetching new Base pairs:', maxAgeHours, minLiquidity);
+      const response = await fetch(
+        `/api/dexscreener/new-pairs?hours=${maxAgeHours}&minLiquidity=${minLiquidity}`,
+        forceRefresh ? { headers: { 'Cache-Control': 'no-cache' } } : undefined
+      );
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.details || data.error || 'Failed to load new pairs');
+      }
+      setPairs(data.data);
+      if (forceRefresh) {
+        toast.success(`Loaded ${data.data.length} new pairs`, { icon: '🆕' });
+      }
+    } catch (fetchError) {
+      console.error('❌ Error fetching new pairs:', fetchError);
+      setError(fetchError instanceof Error ? fetchError.message : 'Failed to load new pairs');
+      toast.error('Failed to fetch new pairs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [maxAgeHours, minLiquidity]);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
+
+  const filterButton = (active: boolean) =>
+    active
+      ? "bg-blue-600 text-white border-blue-500 hover:bg-blue-700"
+      : "bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700";
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-6">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-zinc-400">Created within</span>
+          {AGE_OPTIONS.map(hours => (
+            <Button key={hours} size="sm" variant="outline" className={filterButton(maxAgeHours === hours)} onClick={() => setMaxAgeHours(hours)}>
+              {hours}h
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-zinc-400">Min liquidity</span>
+          {LIQUIDITY_OPTIONS.map(usd => (
+            <Button key={usd} size="sm" variant="outline" className={filterButton(minLiquidity === usd)} onClick={() => setMinLiquidity(usd)}>
+              {usd === 0 ? 'Any' : formatUsd(usd)}
+            </Button>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="ml-auto bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700"
+          onClick={() => fetchPairs(true)}
+          disabled={isLoading}
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading && pairs.length === 0 ? (
+        <div className="space-y-3">
+          {Array.from({ length: 8 }).map((_, index) => (
+            <Skeleton key={index} className="h-14 w-full bg-zinc-800/60" />
+          ))}
+        </div>
+      ) : error && pairs.length === 0 ? (
+        <Card className="bg-zinc-900/40 border-zinc-800/60">
+          <CardContent className="text-center text-gray-400 p-12">{error}</CardContent>
+        </Card>
+      ) : pairs.length === 0 ? (
+        <Card className="bg-zinc-900/40 border-zinc-800/60">
+          <CardContent className="text-center text-gray-400 p-12">
+            <Sparkles className="w-12 h-12 mx-auto mb-4 text-gray-500" />
+            No pairs created in the last {maxAgeHours}h match these filters.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="bg-zinc-900/50 border border-zinc-700/50 rounded-xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-zinc-800/50 border-b border-zinc-700/50">
+                <tr>
+                  {['Pair', 'Age', 'Initial Liquidity', 'Liquidity', 'Buys / Sells (24h)', ''].map((heading, index) => (
+                    <th
+                      key={heading || index}
+                      className={`px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider ${index === 0 ? 'text-left' : 'text-right'}`}
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800/60">
+                {pairs.map(entry => {
+                  const { pair } = entry;
+                  const platform = entry.platform ? PLATFORM_BADGES[entry.platform] : null;
+                  const change = entry.initialLiquidityUsd
+                    ? ((entry.liquidityUsd - entry.initialLiquidityUsd) / entry.initialLiquidityUsd) * 100
+                    : null;
+                  const seenLate = isSeenLate(entry);
+
+                  return (
+                    <tr key={pair.pairAddress} className="hover:bg-zinc-800/40 transition-colors">
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => onSelectToken?.(pair.baseToken.address)}
+                            disabled={!onSelectToken}
+                            className="text-white font-semibold text-sm enabled:hover:underline"
+                          >
+                            {pair.baseToken.symbol}
+                          </button>
+                          <span className="text-zinc-500 text-sm">/ {pair.quoteToken.symbol}</span>
+                          {platform && (
+                            <Badge variant="outline" className={`text-xs px-2 py-0.5 ${platform.className}`}>
+                              {platform.label}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-zinc-500 text-xs truncate max-w-[220px]">{pair.baseToken.name} · {pair.dexId}</p>
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-white">{formatAge(entry.ageMinutes)}</td>
+                      <td
+                        className="px-6 py-4 text-right text-sm text-zinc-300"
+                        title={seenLate ? `First seen ${formatAge(Math.floor((entry.initialLiquiditySeenAt! - entry.pairCreatedAt) / 60000))} after launch` : undefined}
+                      >
+                        {formatUsd(entry.initialLiquidityUsd)}
+                        {seenLate && <span className="text-zinc-500">*</span>}
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm">
+                        <span className="text-white">{formatUsd(entry.liquidityUsd)}</span>
+                        {change !== null && Math.abs(change) >= 1 && (
+                          <span className={`ml-2 text-xs ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {change >= 0 ? '+' : ''}{change.toFixed(0)}%
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm">
+                        <span className="text-green-400">{entry.txns.buys.toLocaleString()}</span>
+                        <span className="text-zinc-500"> / </span>
+                        <span className="text-red-400">{entry.txns.sells.toLocaleString()}</span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <Button asChild size="sm" variant="outline" className="bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700">
+                          <a href={pair.url} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="w-3 h-3 mr-1" />
+                            DEXScreener
+                          </a>
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {pairs.some(isSeenLate) && (
+            <p className="px-6 py-3 text-xs text-zinc-500 border-t border-zinc-800/60">
+              * Initial liquidity was first recorded more than 30 minutes after launch.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
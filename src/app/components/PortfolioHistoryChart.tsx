@@ -0,0 +1,307 @@
+/**
+ * PortfolioHistoryChart Component - Net Worth Over Time
+ *
+ * This component charts a wallet's reconstructed portfolio value from
+ * /api/portfolio/history: a net-worth area chart and a stacked per-asset
+ * area chart, with 7d/30d/90d/all ranges. Charts are plain SVG.
+ *
+ * Features:
+ * - Net worth over time with range selection
+ * - Stacked per-asset values (top assets, the rest grouped as "Other")
+ * - Hover readout of the value per asset on a given day
+ * - Notes when prices fall back to current values or history is truncated
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TrendingUp } from "lucide-react";
+import { useEffect, useState } from "react";
+import type { PortfolioHistory, PortfolioHistoryPoint } from "@/lib/portfolio-history";
+import { ChainKey, SUPPORTED_CHAINS } from "@/lib/chains";
+
+type HistoryRange = '7d' | '30d' | '90d' | 'all';
+
+const RANGE_DAYS: Record<HistoryRange, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  all: null
+};
+
+const MAX_STACKED_ASSETS = 5; // Assets drawn individually; the rest are grouped as "Other"
+const OTHER_ASSET_ID = 'other';
+const ASSET_COLORS = ['#3b82f6', '#a855f7', '#22c55e', '#f59e0b', '#ec4899', '#64748b'];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+
+/**
+ * Props interface for PortfolioHistoryChart component
+ *
+ * @interface PortfolioHistoryChartProps
+ * @property {string} address - Wallet address to chart
+ * @property {ChainKey} chain - Chain the wallet is profiled on
+ */
+interface PortfolioHistoryChartProps {
+  address: string;
+  chain: ChainKey;
+}
+
+/**
+ * Format a USD amount compactly ($1.2K, $3.4M)
+ */
+const formatUsd = (value: number): string =>
+  `$${value.toLocaleString('en-US', { notation: value >= 10000 ? 'compact' : 'standard', maximumFractionDigits: value >= 10000 ? 1 : 2 })}`;
+
+/**
+ * Build an SVG area path from the top and bottom edges of a band
+ *
+ * @param {number[]} xs - X coordinates
+ * @param {number[]} tops - Top edge per x
+ * @param {number[]} bottoms - Bottom edge per x
+ * @returns {string} Path data
+ */
+const areaPath = (xs: number[], tops: number[], bottoms: number[]): string => {
+  if (xs.length === 0) return '';
+  const upper = xs.map((x, i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${tops[i].toFixed(1)}`).join(' ');
+  const lower = xs.map((x, i) => `L${x.toFixed(1)},${bottoms[i].toFixed(1)}`).reverse().join(' ');
+  return `${upper} ${lower} Z`;
+};
+
+/**
+ * PortfolioHistoryChart Component - Net worth and per-asset value charts
+ *
+ * @param {PortfolioHistoryChartProps} props - Component props
+ * @returns JSX.Element - Portfolio history card
+ */
+export function PortfolioHistoryChart({ address, chain }: PortfolioHistoryChartProps) {
+  const [history, setHistory] = useState<PortfolioHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<HistoryRange>('30d');
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        console.log('📈 Fetching portfolio history for:', address, 'on', chain);
+        const response = await fetch(`/api/portfolio/history?address=${address}&chain=${chain}`);
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.details || data.error || 'Failed to load portfolio history');
+        }
+        if (!cancelled) setHistory(data.data);
+      } catch (fetchError) {
+        console.error('❌ Error fetching portfolio history:', fetchError);
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : 'Failed to load portfolio history');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chain]);
+
+  const rangeDays = RANGE_DAYS[range];
+  const points: PortfolioHistoryPoint[] = (history?.points || []).filter(point =>
+    rangeDays === null || point.timestamp >= Date.now() - rangeDays * 24 * 60 * 60 * 1000
+  );
+
+  // Largest assets in the range get their own band
+  const assetPeaks = (history?.assets || []).map(asset => ({
+    ...asset,
+    peak: Math.max(0, ...points.map(point => point.values[asset.id] || 0))
+  })).filter(asset => asset.peak > 0).sort((a, b) => b.peak - a.peak);
+  const stacked = assetPeaks.slice(0, MAX_STACKED_ASSETS);
+  const grouped = assetPeaks.slice(MAX_STACKED_ASSETS);
+  const bands = [
+    ...stacked.map(asset => ({ id: asset.id, label: asset.symbol })),
+    ...(grouped.length > 0 ? [{ id: OTHER_ASSET_ID, label: `Other (${grouped.length})` }] : [])
+  ];
+  const bandValue = (point: PortfolioHistoryPoint, id: string): number => id === OTHER_ASSET_ID
+    ? grouped.reduce((sum, asset) => sum + (point.values[asset.id] || 0), 0)
+    : point.values[id] || 0;
+
+  const maxTotal = Math.max(0, ...points.map(point => point.totalUsd));
+  const firstTime = points[0]?.timestamp || 0;
+  const lastTime = points[points.length - 1]?.timestamp || 0;
+  const xs = points.map(point => lastTime > firstTime
+    ? ((point.timestamp - firstTime) / (lastTime - firstTime)) * CHART_WIDTH
+    : CHART_WIDTH / 2);
+  const toY = (value: number) => maxTotal > 0 ? CHART_HEIGHT - (value / maxTotal) * (CHART_HEIGHT - 8) : CHART_HEIGHT;
+
+  const change = points.length > 1 ? points[points.length - 1].totalUsd - points[0].totalUsd : 0;
+  const changePercent = points.length > 1 && points[0].totalUsd > 0 ? (change / points[0].totalUsd) * 100 : null;
+  const hovered = hoverIndex !== null ? points[hoverIndex] : points[points.length - 1];
+  const fallbackAssets = (history?.assets || []).filter(asset => asset.priceSource === 'current');
+
+  // Map the pointer to the nearest point
+  const handlePointerMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * CHART_WIDTH;
+    let nearest = 0;
+    xs.forEach((pointX, index) => {
+      if (Math.abs(pointX - x) < Math.abs(xs[nearest] - x)) nearest = index;
+    });
+    setHoverIndex(points.length > 0 ? nearest : null);
+  };
+
+  const renderChart = (children: React.ReactNode) => (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-44"
+      onMouseMove={handlePointerMove}
+      onMouseLeave={() => setHoverIndex(null)}
+    >
+      {children}
+      {hoverIndex !== null && xs[hoverIndex] !== undefined && (
+        <line x1={xs[hoverIndex]} x2={xs[hoverIndex]} y1={0} y2={CHART_HEIGHT} stroke="#a1a1aa" strokeDasharray="4 4" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      )}
+    </svg>
+  );
+
+  // Cumulative band edges for the stacked chart
+  let baseline = points.map(() => CHART_HEIGHT);
+  let stackedTotals = points.map(() => 0);
+  const bandPaths = bands.map((band, bandIndex) => {
+    const nextTotals = points.map((point, i) => stackedTotals[i] + bandValue(point, band.id));
+    const tops = nextTotals.map(toY);
+    const path = areaPath(xs, tops, baseline);
+    baseline = tops;
+    stackedTotals = nextTotals;
+    return { ...band, path, color: ASSET_COLORS[bandIndex % ASSET_COLORS.length] };
+  });
+
+  return (
+    <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white">
+          <div className="flex items-center space-x-2">
+            <TrendingUp className="w-5 h-5 text-green-400" />
+            <span>Portfolio History</span>
+            <Badge className="bg-green-600/20 text-green-300 border-green-600/30">
+              Reconstructed
+            </Badge>
+          </div>
+          <div className="flex items-center space-x-1">
+            {(Object.keys(RANGE_DAYS) as HistoryRange[]).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant="outline"
+                onClick={() => setRange(option)}
+                className={range === option
+                  ? 'bg-blue-600 text-white border-blue-500 hover:bg-blue-500'
+                  : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'}
+              >
+                {option === 'all' ? 'All' : option}
+              </Button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-8 w-48 bg-zinc-800" />
+            <Skeleton className="h-44 w-full bg-zinc-800" />
+            <Skeleton className="h-44 w-full bg-zinc-800" />
+          </div>
+        ) : error ? (
+          <div className="text-center text-gray-400 p-8">
+            <p>Could not reconstruct portfolio history</p>
+            <p className="text-sm text-gray-500 mt-2">{error}</p>
+          </div>
+        ) : points.length === 0 ? (
+          <div className="text-center text-gray-400 p-8">
+            No priced activity on {SUPPORTED_CHAINS[chain].name} in this range
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Net worth */}
+            <div>
+              <div className="flex items-end justify-between mb-2">
+                <div>
+                  <div className="text-2xl font-bold text-white">{formatUsd(hovered?.totalUsd || 0)}</div>
+                  <div className="text-xs text-gray-400">
+                    {hovered ? new Date(hovered.timestamp).toLocaleDateString() : ''}
+                  </div>
+                </div>
+                <div className={`text-sm font-semibold ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {change >= 0 ? '+' : '-'}{formatUsd(Math.abs(change))}
+                  {changePercent !== null ? ` (${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(1)}%)` : ''}
+                </div>
+              </div>
+              {renderChart(
+                <>
+                  <path d={areaPath(xs, points.map(point => toY(point.totalUsd)), points.map(() => CHART_HEIGHT))} fill="#3b82f6" fillOpacity={0.2} />
+                  <path
+                    d={xs.map((x, i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${toY(points[i].totalUsd).toFixed(1)}`).join(' ')}
+                    fill="none"
+                    stroke="#3b82f6"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </>
+              )}
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>{new Date(firstTime).toLocaleDateString()}</span>
+                <span>Peak {formatUsd(maxTotal)}</span>
+                <span>{new Date(lastTime).toLocaleDateString()}</span>
+              </div>
+            </div>
+
+            {/* Per-asset values */}
+            <div>
+              <div className="text-sm font-semibold text-gray-300 mb-2">Value by Asset</div>
+              {renderChart(
+                bandPaths.map(band => (
+                  <path key={band.id} d={band.path} fill={band.color} fillOpacity={0.6} stroke={band.color} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                ))
+              )}
+              <div className="flex flex-wrap gap-3 mt-3">
+                {bandPaths.map(band => (
+                  <div key={band.id} className="flex items-center space-x-1.5 text-xs">
+                    <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: band.color }} />
+                    <span className="text-gray-300">{band.label}</span>
+                    <span className="text-gray-500">{hovered ? formatUsd(bandValue(hovered, band.id)) : ''}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {(fallbackAssets.length > 0 || history?.complete === false) && (
+              <div className="text-xs text-gray-500 space-y-1">
+                {fallbackAssets.length > 0 && (
+                  <p>
+                    No price history for {fallbackAssets.map(asset => asset.symbol).join(', ')}; valued at current DEXScreener prices.
+                  </p>
+                )}
+                {history?.complete === false && (
+                  <p>History truncated at Etherscan&apos;s 10,000 transfer window; early balances may be incomplete.</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * RiskBadge Component - Token Risk Score Badge
+ *
+ * This component shows a token's risk score from the token risk engine as a
+ * colored badge (low, medium, high). Hovering lists the scored reasons.
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, ShieldCheck, ShieldQuestion, ShieldX } from "lucide-react";
+import type { RiskLevel, TokenRisk } from "@/lib/token-risk";
+
+export const RISK_STYLES: Record<RiskLevel, { label: string; className: string; icon: typeof ShieldCheck }> = {
+  low: { label: 'Low risk', className: 'bg-green-500/10 text-green-400 border-green-500/30', icon: ShieldCheck },
+  medium: { label: 'Medium risk', className: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30', icon: ShieldAlert },
+  high: { label: 'High risk', className: 'bg-red-500/10 text-red-400 border-red-500/30', icon: ShieldX }
+};
+
+/**
+ * Props interface for RiskBadge component
+ *
+ * @interface RiskBadgeProps
+ * @property {TokenRisk | null} [risk] - Risk assessment; undefined while loading, null if unavailable
+ * @property {boolean} [showScore=true] - Show the numeric score next to the level
+ */
+interface RiskBadgeProps {
+  risk?: TokenRisk | null;
+  showScore?: boolean;
+}
+
+/**
+ * RiskBadge Component - Colored risk level with reasons on hover
+ *
+ * @param {RiskBadgeProps} props - Component props
+ * @returns JSX.Element - Risk badge
+ */
+export function RiskBadge({ risk, showScore = true }: RiskBadgeProps) {
+  if (!risk) {
+    return (
+      <Badge variant="outline" className="text-xs px-2 py-0.5 bg-zinc-800/60 text-zinc-500 border-zinc-700">
+        <ShieldQuestion className="w-3 h-3 mr-1" />
+        {risk === undefined ? 'Checking' : 'Risk N/A'}
+      </Badge>
+    );
+  }
+
+  const style = RISK_STYLES[risk.level];
+  const Icon = style.icon;
+  const scored = risk.reasons.filter(reason => reason.points > 0);
+  const title = scored.length > 0
+    ? scored.map(reason => `+${reason.points} ${reason.message}`).join('\n')
+    : 'No risk flags found';
+
+  return (
+    <Badge variant="outline" className={`text-xs px-2 py-0.5 ${style.className}`} title={title}>
+      <Icon className="w-3 h-3 mr-1" />
+      {style.label}
+      {showScore && <span className="ml-1 opacity-80">{risk.score}</span>}
+    </Badge>
+  );
+}
@@ -0,0 +1,334 @@
+/**
+ * SearchAutocomplete Component - Search Input with Recent Lookups and Suggestions
+ *
+ * This component renders the main search input with a dropdown that merges
+ * three sources, filtered by what has been typed:
+ * - Recent lookups (lib/recent-lookups.ts), pinned ones first
+ * - Wallets on the user's watchlists (lib/watchlists.ts)
+ * - Live ENS, Basename and Farcaster names from /api/identity/suggest
+ *
+ * Features:
+ * - Keyboard navigation (↑/↓ to move, Enter to pick, Escape to close)
+ * - Pin, remove and clear recent lookups
+ * - Debounced, cancellable name suggestions, remembered per query for the session
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { MediaRenderer } from "thirdweb/react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { History, Pin, PinOff, Search, Sparkles, Star, X } from "lucide-react";
+import { client } from "../client";
+import { isValidEthereumAddress } from "@/lib/identity";
+import type { NameSuggestion } from "@/lib/name-suggestions";
+import { clearRecentLookups, removeRecentLookup, togglePinnedLookup, useRecentLookups } from "@/lib/recent-lookups";
+import { useWatchlists } from "@/lib/watchlists";
+
+const SUGGEST_DEBOUNCE_MS = 300;
+const MAX_RECENT_OPTIONS = 8;
+const MAX_WATCHLIST_OPTIONS = 5;
+const MAX_CACHED_QUERIES = 100;
+
+// Suggestions already fetched this session, including empty ones, so retyping or deleting doesn't refetch
+const suggestionCache = new Map<string, NameSuggestion[]>();
+
+const SOURCE_LABELS: Record<NameSuggestion['source'], string> = {
+  ens: 'ENS',
+  basename: 'Basename',
+  farcaster: 'Farcaster'
+};
+
+/**
+ * An entry in the dropdown
+ *
+ * @interface SearchOption
+ * @property {string} key - Unique key
+ * @property {'recent' | 'watchlist' | 'suggestion'} source - Where the entry comes from
+ * @property {string} value - Address or name searched when picked
+ * @property {string} title - Main label
+ * @property {string} subtitle - Secondary label
+ * @property {string | null} avatar - Avatar URL or URI
+ * @property {boolean} pinned - Pinned recent lookup
+ * @property {string | null} address - Resolved address, for recent lookups
+ */
+interface SearchOption {
+  key: string;
+  source: 'recent' | 'watchlist' | 'suggestion';
+  value: string;
+  title: string;
+  subtitle: string;
+  avatar: string | null;
+  pinned: boolean;
+  address: string | null;
+}
+
+/**
+ * Props interface for SearchAutocomplete component
+ *
+ * @interface SearchAutocompleteProps
+ * @property {string} value - Current input value
+ * @property {(value: string) => void} onChange - Input change handler
+ * @property {(term: string) => void} onSubmit - Search a term (typed or picked)
+ * @property {boolean} canSubmit - Whether the typed value can be searched now
+ * @property {boolean} [disabled] - Disable the input (while searching)
+ */
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (term: string) => void;
+  canSubmit: boolean;
+  disabled?: boolean;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * SearchAutocomplete Component - Search input with a keyboard-navigable dropdown
+ *
+ * @param {SearchAutocompleteProps} props - Component props
+ * @returns JSX.Element - Search input and dropdown
+ */
+export function SearchAutocomplete({ value, onChange, onSubmit, canSubmit, disabled = false }: SearchAutocompleteProps) {
+  const recentLookups = useRecentLookups();
+  const watchlists = useWatchlists();
+  const [suggestions, setSuggestions] = useState<NameSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const query = value.trim().toLowerCase();
+
+  // Live name suggestions, debounced and cancelled when the input changes
+  useEffect(() => {
+    setSuggestions(suggestionCache.get(query) || []);
+    if (query.length < 2 || isValidEthereumAddress(query) || suggestionCache.has(query)) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/identity/suggest?q=${encodeURIComponent(query)}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!data.success) return;
+        if (suggestionCache.size >= MAX_CACHED_QUERIES) {
+          suggestionCache.delete(suggestionCache.keys().next().value as string);
+        }
+        suggestionCache.set(query, data.data);
+        setSuggestions(data.data);
+      } catch (error) {
+        if (!controller.signal.aborted) console.warn('Failed to fetch name suggestions:', error);
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [query]);
+
+  const options = useMemo<SearchOption[]>(() => {
+    const matches = (...fields: (string | null)[]) => !query || fields.some(field => field?.toLowerCase().includes(query));
+    const seen = new Set<string>();
+    const isNew = (...keys: (string | null)[]) => {
+      const fresh = keys.every(key => !key || !seen.has(key.toLowerCase()));
+      keys.forEach(key => key && seen.add(key.toLowerCase()));
+      return fresh;
+    };
+
+    const recent: SearchOption[] = recentLookups
+      .filter(lookup => matches(lookup.query, lookup.name, lookup.address))
+      .slice(0, MAX_RECENT_OPTIONS)
+      .filter(lookup => isNew(lookup.address, lookup.query, lookup.name))
+      .map(lookup => ({
+        key: `recent:${lookup.address}`,
+        source: 'recent',
+        value: lookup.query,
+        title: lookup.name || shortenAddress(lookup.address),
+        subtitle: lookup.name ? shortenAddress(lookup.address) : 'Address',
+        avatar: lookup.avatar,
+        pinned: lookup.pinned,
+        address: lookup.address
+      }));
+
+    const watched: SearchOption[] = watchlists
+      .flatMap(list => list.items
+        .filter(item => item.kind !== 'token')
+        .map(item => ({ item, listName: list.name })))
+      .filter(({ item }) => matches(item.value, item.label))
+      .filter(({ item }) => isNew(item.value))
+      .slice(0, MAX_WATCHLIST_OPTIONS)
+      .map(({ item, listName }) => ({
+        key: `watchlist:${item.value}`,
+        source: 'watchlist',
+        value: item.value,
+        title: item.label || (item.kind === 'name' ? item.value : shortenAddress(item.value)),
+        subtitle: listName,
+        avatar: null,
+        pinned: false,
+        address: null
+      }));
+
+    const live: SearchOption[] = suggestions
+      .filter(suggestion => isNew(suggestion.name, suggestion.source === 'farcaster' ? null : suggestion.address))
+      .map(suggestion => ({
+        key: `suggestion:${suggestion.source}:${suggestion.name}`,
+        source: 'suggestion',
+        // Farcaster usernames aren't searchable names, so search their address
+        value: suggestion.source === 'farcaster' ? suggestion.address : suggestion.name,
+        title: suggestion.name,
+        subtitle: `${SOURCE_LABELS[suggestion.source]}${suggestion.fid ? ` · FID ${suggestion.fid}` : ''} · ${shortenAddress(suggestion.address)}`,
+        avatar: null,
+        pinned: false,
+        address: null
+      }));
+
+    return [...recent, ...watched, ...live];
+  }, [query, recentLookups, watchlists, suggestions]);
+
+  const pick = (option: SearchOption) => {
+    onChange(option.value);
+    setIsOpen(false);
+    onSubmit(option.value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!isOpen) {
+        setIsOpen(true);
+        return;
+      }
+      if (options.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // -1 is the typed value; moving past either end wraps around through it
+      setActiveIndex(prev => {
+        const next = prev + step;
+        if (next >= options.length) return -1;
+        if (next < -1) return options.length - 1;
+        return next;
+      });
+    } else if (e.key === 'Enter') {
+      if (isOpen && activeIndex >= 0 && options[activeIndex]) {
+        e.preventDefault();
+        pick(options[activeIndex]);
+      } else if (canSubmit) {
+        setIsOpen(false);
+        onSubmit(value);
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  const hasRecent = options.some(option => option.source === 'recent' && !option.pinned);
+  const sectionIcon = (source: SearchOption['source']) =>
+    source === 'recent' ? History : source === 'watchlist' ? Star : Sparkles;
+
+  return (
+    <div className="relative flex-1 search-container">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-blue-400" />
+      <Input
+        type="text"
+        placeholder="Enter address or name (ENS/Basename)"
+        className="pl-10 bg-blue-800/30 border-blue-700/50 text-white placeholder:text-blue-300 focus:border-cyan-400 focus:ring-cyan-400/20"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        disabled={disabled}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={isOpen && options.length > 0}
+        aria-controls="search-autocomplete"
+        aria-activedescendant={activeIndex >= 0 ? `search-option-${activeIndex}` : undefined}
+      />
+
+      {isOpen && options.length > 0 && (
+        <div className="absolute top-full left-0 right-0 mt-1 bg-blue-900/95 border border-blue-700/50 rounded-lg shadow-xl z-[9999] backdrop-blur-md max-h-80 overflow-y-auto">
+          <div className="p-2">
+            {hasRecent && (
+              <div className="flex items-center justify-between mb-1 px-1">
+                <span className="text-blue-300 text-xs font-medium">Recent lookups</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onMouseDown={(e) => e.preventDefault()} // Keep the input focused
+                  onClick={clearRecentLookups}
+                  className="text-blue-400 hover:text-red-400 h-6 px-2 text-xs"
+                  title="Clear history (pinned lookups are kept)"
+                >
+                  Clear
+                </Button>
+              </div>
+            )}
+            <ul id="search-autocomplete" role="listbox" className="space-y-1">
+              {options.map((option, index) => {
+                const Icon = sectionIcon(option.source);
+                return (
+                  <li
+                    key={option.key}
+                    id={`search-option-${index}`}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    onMouseDown={(e) => e.preventDefault()} // Keep the input focused
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => pick(option)}
+                    className={`px-3 py-2 rounded-md text-sm flex items-center gap-3 cursor-pointer transition-colors duration-150 ${
+                      index === activeIndex ? 'bg-blue-800/70' : 'hover:bg-blue-800/50'
+                    }`}
+                  >
+                    {option.avatar ? (
+                      <MediaRenderer client={client} src={option.avatar} className="w-6 h-6 rounded-full object-cover flex-shrink-0" />
+                    ) : (
+                      <Icon className="h-4 w-4 flex-shrink-0 text-blue-400" />
+                    )}
+                    <div className="min-w-0 flex-1 text-left">
+                      <div className="text-blue-100 truncate">{option.title}</div>
+                      <div className="text-blue-400 text-xs truncate">{option.subtitle}</div>
+                    </div>
+                    {option.source === 'recent' && option.address && (
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            togglePinnedLookup(option.address!);
+                          }}
+                          className={`p-1 rounded ${option.pinned ? 'text-cyan-300' : 'text-blue-400'} hover:text-white`}
+                          title={option.pinned ? 'Unpin' : 'Pin'}
+                        >
+                          {option.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeRecentLookup(option.address!);
+                          }}
+                          className="p-1 rounded text-blue-400 hover:text-red-400"
+                          title="Remove from history"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,809 @@
+/**
+ * Sniffer Web3 - Main Application
+ * 
+ * This is the main application component for Sniffer Web3, which provides
+ * comprehensive identity discovery and wallet profiling across multiple platforms.
+ * It is rendered by the home page and by the deep-link routes (/address, /name
+ * and /token), which pass in the search and tab encoded in the URL.
+ * 
+ * Features:
+ * - Universal identity search (ENS, Basenames, Farcaster, Lens, Zora)
+ * - Base blockchain wallet profiling with Etherscan API integration
+ * - Social profile aggregation and display
+ * - Search autocomplete with recent lookups, watchlist wallets and live name suggestions
+ * - Search and active tab kept in the URL (shareable, survives refresh, back/forward)
+ * - In-app token detail view at /token/{address}
+ * - Watchlists of wallets and tokens with a dashboard
+ * - Price and wallet activity alerts with in-app and browser notifications
+ * - Modern responsive UI with dark theme
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { getSocialProfiles,SocialProfile } from "thirdweb/social";
+import { client } from "../client";
+// import { shortenAddress } from "thirdweb/utils";
+import { ENSCard } from "./ENSCard";
+import { FarcasterCard } from "./FarcasterCard";
+import { LensCard } from "./LensCard";
+import { CardSkeleton } from "./CardSkeleton";
+import { BaseCard } from "./BaseCard";
+import { ZoraCard } from "./ZoraCard";
+import { WalletProfiler } from "./WalletProfiler";
+import { TokenExplorer } from "./TokenExplorer";
+import { TokenDetail } from "./TokenDetail";
+import { WatchlistPanel } from "./WatchlistPanel";
+import { SearchAutocomplete } from "./SearchAutocomplete";
+import { AlertsPanel } from "./AlertsPanel";
+import { AlertNotifier } from "./AlertNotifier";
+import Footer from "../Footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Search, Sparkles, Users, Globe, Camera, Zap, Moon, Sun, User, BarChart3, Coins, Bell, Star } from "lucide-react";
+import toast from "react-hot-toast";
+import { isBasenameName, isLikelyName, isValidEthereumAddress, resolveIdentityAddress } from "@/lib/identity";
+import { addRecentLookup } from "@/lib/recent-lookups";
+import { DEFAULT_FILTER, FilterType, getSearchPath, getTokenPath, parseRoute } from "@/lib/routes";
+
+/**
+ * Props interface for SnifferApp component
+ * 
+ * @interface SnifferAppProps
+ * @property {string} [initialQuery] - Address or name to search on load (from /address or /name)
+ * @property {FilterType} [initialFilter] - Tab to open on load (from ?tab=)
+ * @property {string} [initialToken] - Token whose detail view to open (from /token)
+ */
+interface SnifferAppProps {
+  initialQuery?: string;
+  initialFilter?: FilterType;
+  initialToken?: string;
+}
+
+/**
+ * Options for a search run
+ * 
+ * @interface SearchOptions
+ * @property {boolean} [updateUrl] - Push the search onto the URL (false when restoring from the URL)
+ * @property {FilterType} [tab] - Tab to show the results in (defaults to the active tab)
+ */
+interface SearchOptions {
+  updateUrl?: boolean;
+  tab?: FilterType;
+}
+
+/**
+ * Update the URL without a navigation (integrates with the Next.js router)
+ * @param path - New path and query string
+ * @param replace - Replace the current history entry instead of pushing one
+ */
+const updateUrl = (path: string, replace: boolean = false) => {
+  if (typeof window === 'undefined') return;
+  if (`${window.location.pathname}${window.location.search}` === path) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+};
+
+/**
+ * SnifferApp Component - Sniffer Web3 Application
+ * 
+ * This component manages the entire application state and user interactions.
+ * It handles search functionality, profile fetching, URL state and UI state management.
+ * 
+ * @param {SnifferAppProps} props - Initial search, tab and token from the URL
+ * @returns JSX.Element - The complete application interface
+ */
+export function SnifferApp({ initialQuery = "", initialFilter = DEFAULT_FILTER, initialToken = "" }: SnifferAppProps) {
+  // Search and address state
+  const [searchInput, setSearchInput] = useState(initialQuery); // Current search input
+  const [searchedAddress, setSearchedAddress] = useState(""); // Resolved address from search
+  const [originalSearchTerm, setOriginalSearchTerm] = useState(""); // Original search term for display
+  
+  // Profile and data state
+  const [userProfiles, setUserProfiles] = useState<SocialProfile[]>([]); // Fetched social profiles
+  const [activeFilter, setActiveFilter] = useState<FilterType>(initialFilter); // Current tab filter
+  const [tokenQuery, setTokenQuery] = useState(initialToken); // Token whose detail view is open (/token/{address})
+  const [hasSearched, setHasSearched] = useState(false); // Whether a search has been performed
+  const [isLoading, setIsLoading] = useState(false); // Loading state for API calls
+  
+  // Validation and UI state
+  const [isValidAddress, setIsValidAddress] = useState(false); // Address format validation
+  const [isDarkMode, setIsDarkMode] = useState(true); // Theme preference
+  const [isHydrated, setIsHydrated] = useState(false); // Hydration state
+  const [searchAbortController, setSearchAbortController] = useState<AbortController | null>(null); // For canceling searches
+  
+  // Computed validation state
+  const isValidSearch = isValidAddress || isLikelyName(searchInput);
+
+  useEffect(() => { setIsValidAddress(isValidEthereumAddress(searchInput)); },
+    [searchInput]
+  );
+
+  // Initialize app state from localStorage with hydration safety
+  useEffect(() => {
+    const initializeApp = () => {
+      try {
+        // Load theme preference
+        const savedTheme = localStorage.getItem('sniffer-theme');
+        setIsDarkMode(savedTheme === 'dark' || savedTheme === null);
+      } catch (error) {
+        console.warn('Failed to load app preferences:', error);
+        // Reset to defaults on error
+        setIsDarkMode(true);
+      } finally {
+        // Mark as hydrated after initialization
+        setIsHydrated(true);
+      }
+    };
+
+    // Only initialize on client side
+    if (typeof window !== 'undefined') {
+      initializeApp();
+    }
+  }, []);
+
+  // Apply theme to document (only after hydration)
+  useEffect(() => {
+    if (isHydrated) {
+      document.body.classList.toggle('dark', isDarkMode);
+      localStorage.setItem('sniffer-theme', isDarkMode ? 'dark' : 'light');
+    }
+  }, [isDarkMode, isHydrated]);
+
+  // Toggle theme
+  const toggleTheme = () => {
+    setIsDarkMode(!isDarkMode);
+  };
+
+  /**
+   * Share profile functionality - allows users to share profiles via Web Share API or clipboard
+   * 
+   * @param address - The wallet address to share
+   * @param name - The display name for the profile
+   * @async
+   * @returns Promise<void>
+   */
+  const shareProfile = async (address: string, name: string) => {
+    const shareData = {
+      title: `${name} - Sniffer Web3 Profile`,
+      text: `Check out ${name}'s Web3 identity on Sniffer`,
+      url: `${window.location.origin}${getSearchPath(name || address, activeFilter)}`
+    };
+
+    if (navigator.share) {
+      try {
+        await navigator.share(shareData);
+      } catch (err) {
+        console.log('Error sharing:', err);
+      }
+    } else {
+      // Fallback: copy to clipboard
+      await navigator.clipboard.writeText(shareData.url);
+      alert('Profile link copied to clipboard!');
+    }
+  };
+
+  const cancelSearch = () => {
+    if (searchAbortController) {
+      searchAbortController.abort();
+      setSearchAbortController(null);
+    }
+    setIsLoading(false);
+    toast.dismiss('search-loading');
+    toast.error('Search cancelled by user', {
+      duration: 2000,
+      icon: '⏹️',
+    });
+  };
+
+  /**
+   * Main search handler - processes user input and fetches social profiles
+   * 
+   * This function:
+   * 1. Validates the search input
+   * 2. Resolves ENS/Basenames to addresses if needed
+   * 3. Fetches social profiles from multiple platforms
+   * 4. Updates application state with results
+   * 
+   * @param term - Address or name to search (defaults to the search input)
+   * @param options - Whether to push the search onto the URL, and the tab to show it in
+   * @async
+   * @returns Promise<void>
+   */
+  const handleSearch = async (term: string = searchInput, { updateUrl: pushToUrl = true, tab = activeFilter }: SearchOptions = {}) => {
+    if (!term.trim()) {
+      toast.error('Please enter an address or username to search', {
+        duration: 4000,
+        icon: '🔍',
+        style: {
+          background: '#f59e0b',
+          color: '#ffffff',
+        },
+      });
+      return;
+    }
+    
+    if (!isValidEthereumAddress(term) && !isLikelyName(term)) {
+      toast.error('Please enter a valid Ethereum address or ENS domain', {
+        duration: 4000,
+        icon: '❌',
+        style: {
+          background: '#ef4444',
+          color: '#ffffff',
+        },
+      });
+      return;
+    }
+    setIsLoading(true);
+    setActiveFilter(tab);
+    setOriginalSearchTerm(term);
+    let addressToLookup = term;
+    
+    // Show initial loading message
+    toast.loading('Starting search...', {
+      id: 'search-loading',
+      duration: 1000,
+    });
+    
+    try {
+      if (!isValidEthereumAddress(term)) {
+        // Update loading message for ENS resolution
+        toast.loading('Resolving ENS/Basename...', {
+          id: 'search-loading',
+          duration: 1000,
+        });
+        
+        // Resolve ENS / Basename to an address
+        addressToLookup = await resolveIdentityAddress(client, term);
+        
+        // Update loading message for profile fetching
+        toast.loading('Fetching social profiles...', {
+          id: 'search-loading',
+          duration: 2000,
+        });
+      }
+    } catch (e) {
+      console.error(e);
+      setIsLoading(false);
+      setHasSearched(true);
+      setUserProfiles([]);
+      toast.dismiss('search-loading');
+      toast.error(`Username "${term}" not found or could not be resolved`, {
+        duration: 5000,
+        icon: '❌',
+        style: {
+          background: '#ef4444',
+          color: '#ffffff',
+        },
+      });
+      return;
+    }
+    
+    setSearchedAddress(addressToLookup);
+    if (pushToUrl) {
+      updateUrl(getSearchPath(term, tab));
+    }
+    
+    try {
+      // Show progress message for social profile fetching
+      toast.loading('Searching social platforms (Farcaster, Lens, ENS, etc.)...', {
+        id: 'search-loading',
+        duration: 3000,
+      });
+      
+      // Add timeout to prevent hanging
+      console.log(`🔍 Starting social profile search for address: ${addressToLookup}`);
+      const startTime = Date.now();
+      
+      const profilesPromise = getSocialProfiles({
+        client: client,
+        address: addressToLookup,
+      });
+      
+      // Race between profiles fetch and timeout
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => {
+          const elapsed = Date.now() - startTime;
+          console.log(`⏰ Social profile search timed out after ${elapsed}ms`);
+          reject(new Error('Social profile fetch timed out after 30 seconds'));
+        }, 30000);
+      });
+      
+      const profiles = await Promise.race([profilesPromise, timeoutPromise]);
+      const elapsed = Date.now() - startTime;
+      console.log(`✅ Social profile search completed in ${elapsed}ms`);
+      console.log(`🔍 Raw profiles data:`, JSON.stringify(profiles, null, 2));
+      
+      // Log each profile's metadata in detail
+      profiles.forEach((profile, index) => {
+        console.log(`📊 Profile ${index + 1} (${profile.type}):`, {
+          name: profile.name,
+          avatar: profile.avatar,
+          bio: profile.bio,
+          metadata: profile.metadata,
+          fullProfile: profile
+        });
+      });
+      
+      // Dismiss loading toast
+      toast.dismiss('search-loading');
+      
+      setUserProfiles(profiles);
+      setHasSearched(true);
+
+      // Remember the lookup for the search autocomplete
+      const primary = profiles.find(profile => profile.type === 'ens' && profile.name) || profiles.find(profile => profile.name);
+      addRecentLookup({
+        query: term,
+        address: addressToLookup,
+        name: isLikelyName(term) ? term.trim().toLowerCase() : primary?.name || null,
+        avatar: primary?.avatar || profiles.find(profile => profile.avatar)?.avatar || null
+      });
+      
+      // Debug log to see what profile data we're getting
+      console.log('🔍 Social profiles fetched:', profiles);
+      profiles.forEach((profile, index) => {
+        console.log(`Profile ${index + 1}:`, {
+          type: profile.type,
+          name: profile.name,
+          metadata: profile.metadata
+        });
+      });
+      
+      // Show notification if no profiles found
+      if (profiles.length === 0) {
+        toast.error(`No social profiles found for "${originalSearchTerm}"`, {
+          duration: 4000,
+          icon: '👤',
+          style: {
+            background: '#f59e0b',
+            color: '#ffffff',
+          },
+        });
+      } else {
+        toast.success(`Found ${profiles.length} profile${profiles.length > 1 ? 's' : ''} for "${originalSearchTerm}"`, {
+          duration: 3000,
+          icon: '✅',
+        });
+      }
+    } catch (error) { 
+      console.error(error);
+      toast.dismiss('search-loading');
+      
+      // Show specific error messages
+      if (error instanceof Error && error.message.includes('timed out')) {
+        toast.error(`Social profile search timed out after 30 seconds. The services may be slow or overloaded. Please try again.`, {
+          duration: 6000,
+          icon: '⏰',
+          style: {
+            background: '#f59e0b',
+            color: '#ffffff',
+          },
+        });
+      } else if (error instanceof Error && error.message.includes('fetch')) {
+        toast.error(`Network error while fetching profiles. Please check your connection and try again.`, {
+          duration: 5000,
+          icon: '🌐',
+          style: {
+            background: '#ef4444',
+            color: '#ffffff',
+          },
+        });
+      } else if (error instanceof Error && error.message.includes('rate limit')) {
+        toast.error(`API rate limit exceeded. Please wait a moment and try again.`, {
+          duration: 5000,
+          icon: '🚦',
+          style: {
+            background: '#f59e0b',
+            color: '#ffffff',
+          },
+        });
+      } else {
+        toast.error(`Failed to fetch profiles for "${originalSearchTerm}". ${error instanceof Error ? error.message : 'Unknown error'}`, {
+          duration: 5000,
+          icon: '⚠️',
+        });
+      }
+    }
+    finally {
+      setIsLoading(false);
+    }
+  }
+
+  /**
+   * Switch tabs, keeping the tab in the URL
+   * 
+   * @param filter - The tab to show
+   */
+  const handleFilterChange = (filter: FilterType) => {
+    setActiveFilter(filter);
+    // Leaving the Token Explorer drops the /token/{address} deep link
+    if (filter !== "tokens") setTokenQuery("");
+    updateUrl(getSearchPath(hasSearched ? originalSearchTerm : "", filter), true);
+  };
+
+  /**
+   * Open a token's detail view, or return to the token list
+   * 
+   * @param address - Token contract address, or null for the list
+   */
+  const openToken = (address: string | null) => {
+    setTokenQuery(address || "");
+    updateUrl(address ? getTokenPath(address) : getSearchPath(hasSearched ? originalSearchTerm : "", "tokens"));
+  };
+
+  // Latest search handler, for the URL effects below
+  const handleSearchRef = useRef(handleSearch);
+  handleSearchRef.current = handleSearch;
+
+  // Run the search encoded in the URL once the app has hydrated
+  useEffect(() => {
+    if (isHydrated && initialQuery) {
+      handleSearchRef.current(initialQuery, { updateUrl: false });
+    }
+  }, [isHydrated, initialQuery]);
+
+  // Restore the search and tab on browser back/forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location.pathname, window.location.search);
+      setActiveFilter(route.tab);
+      setTokenQuery(route.token || "");
+      if (route.query) {
+        setSearchInput(route.query);
+        handleSearchRef.current(route.query, { updateUrl: false });
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  /**
+   * Pivot the search to another address, e.g. a node clicked in the counterparty graph
+   * 
+   * @param address - The address to search
+   * @param tab - Tab to show the results in (defaults to the active tab)
+   */
+  const pivotSearch = (address: string, tab?: FilterType) => {
+    setSearchInput(address);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    handleSearch(address, { tab });
+  };
+
+  const filteredProfiles = userProfiles.filter(profile => {
+    if (activeFilter === "all") return true;
+    if (activeFilter === "profiler") {
+      // Profiler tab shows only the profiler dashboard, no social profiles
+      return false;
+    }
+    if (activeFilter === "base") {
+      return profile.type === "ens" && isBasenameName(profile.name);
+    }
+    if (activeFilter === "zora") {
+      // Show only the Zora card (outside the map), skip social profiles in the grid loop
+      return false;
+    }
+    return profile.type === activeFilter;
+  });
+
+  const includeZoraCard = activeFilter === "zora" || activeFilter === "all";
+
+  // Show loading state during hydration to prevent layout shifts
+  if (!isHydrated) {
+    return (
+      <main className="min-h-screen bg-transparent flex flex-col">
+        <div className="flex-1 container mx-auto px-4 py-8 relative z-10">
+          <div className="text-center mb-8">
+            <div className="flex items-center justify-center mb-6">
+              <div className="p-4 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-3xl shadow-2xl shadow-blue-500/30 animate-pulse">
+                <Sparkles className="h-10 w-10 text-white" />
+              </div>
+            </div>
+            <h1 className="text-6xl md:text-7xl font-black bg-gradient-to-r from-white via-blue-100 via-cyan-200 to-blue-300 bg-clip-text text-transparent leading-tight tracking-tight">
+              Sniffer
+            </h1>
+            <p className="text-xl text-blue-200 mt-4">Web3 Identity Discovery Platform</p>
+          </div>
+          <div className="max-w-4xl mx-auto">
+            <Card className="bg-blue-900/40 border-blue-800/60 backdrop-blur-md shadow-xl">
+              <CardContent className="p-8">
+                <div className="animate-pulse">
+                  <div className="h-4 bg-blue-800/50 rounded w-3/4 mx-auto mb-4"></div>
+                  <div className="h-4 bg-blue-800/50 rounded w-1/2 mx-auto"></div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-transparent flex flex-col">
+      <div className="flex-1 container mx-auto px-4 py-8 relative z-10">
+        {/* Hero Section */}
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-6">
+            <div className="flex items-center gap-4">
+              <div className="p-4 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-3xl shadow-2xl shadow-blue-500/30 animate-pulse">
+                <Sparkles className="h-10 w-10 text-white" />
+              </div>
+              <div className="text-center relative">
+                <h1 className="brand-title text-6xl md:text-7xl font-black bg-gradient-to-r from-white via-blue-100 via-cyan-200 to-blue-300 bg-clip-text text-transparent leading-tight tracking-tight relative">
+                  Sniffer
+                  <span className="brand-shimmer absolute inset-0 bg-gradient-to-r from-white via-blue-100 via-cyan-200 to-blue-300 bg-clip-text text-transparent"></span>
+                </h1>
+                <h2 className="brand-subtitle text-3xl md:text-4xl font-bold bg-gradient-to-r from-cyan-300 via-blue-200 to-white bg-clip-text text-transparent leading-tight tracking-wider relative">
+                  Web3
+                  <span className="brand-shimmer absolute inset-0 bg-gradient-to-r from-cyan-300 via-blue-200 to-white bg-clip-text text-transparent"></span>
+                </h2>
+              </div>
+            </div>
+          </div>
+          <p className="text-lg text-blue-200 mb-8 max-w-2xl mx-auto">
+            Discover onchain identities across ENS, Basenames, Farcaster, Lens, and Zora
+          </p>
+
+          {/* Search Section */}
+          <Card className="max-w-2xl mx-auto bg-blue-900/40 border-blue-800/60 backdrop-blur-md shadow-2xl">
+            <CardContent className="p-6">
+              <div className="flex gap-3">
+                <SearchAutocomplete
+                  value={searchInput}
+                  onChange={setSearchInput}
+                  onSubmit={(term) => handleSearch(term)}
+                  canSubmit={!isLoading && isValidSearch}
+                  disabled={isLoading}
+                />
+                <Button 
+                  onClick={isLoading ? cancelSearch : () => handleSearch()}
+                  disabled={!isValidSearch}
+                  className={`px-8 ${
+                    isLoading 
+                      ? "bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-700 hover:to-orange-700" 
+                      : "bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700"
+                  } text-white`}
+                >
+                  {isLoading ? "Cancel Search" : "Search"}
+                </Button>
+                <Button
+                  onClick={toggleTheme}
+                  variant="outline"
+                  className="border-blue-700/50 text-blue-300 hover:bg-blue-800/30"
+                >
+                  {isDarkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+                </Button>
+              </div>
+              {searchInput && !isValidSearch && (
+                <p className="text-red-400 text-sm mt-2 flex items-center gap-1">
+                  <span>⚠️</span>
+                  Enter a valid address or name (e.g., vitalik.eth or alice.base)
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+
+        {/* Main Dashboard - Always Visible */}
+        <div className="mb-8">
+          <div className="text-center mb-8">
+            <h2 className="text-3xl font-bold text-white mb-4">Choose Your Tool</h2>
+            <p className="text-blue-200 mb-6">Select from our comprehensive Web3 analysis tools</p>
+            
+            <Tabs value={activeFilter} onValueChange={(value) => handleFilterChange(value as FilterType)} className="w-full">
+              <TabsList className="grid w-full grid-cols-10 bg-blue-900/40 border-blue-800/60 backdrop-blur-md shadow-xl">
+                <TabsTrigger value="all" className="flex items-center gap-2">
+                  <Globe className="h-4 w-4" />
+                  All
+                </TabsTrigger>
+                <TabsTrigger value="profiler" className="flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  Profiler
+                </TabsTrigger>
+                <TabsTrigger value="tokens" className="flex items-center gap-2">
+                  <Coins className="h-4 w-4" />
+                  Tokens
+                </TabsTrigger>
+                <TabsTrigger value="watchlist" className="flex items-center gap-2">
+                  <Star className="h-4 w-4" />
+                  Watchlist
+                </TabsTrigger>
+                <TabsTrigger value="alerts" className="flex items-center gap-2">
+                  <Bell className="h-4 w-4" />
+                  Alerts
+                </TabsTrigger>
+                <TabsTrigger value="ens" className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  ENS
+                </TabsTrigger>
+                <TabsTrigger value="base" className="flex items-center gap-2">
+                  <Zap className="h-4 w-4" />
+                  Baseapp
+                </TabsTrigger>
+                <TabsTrigger value="farcaster" className="flex items-center gap-2">
+                  <Camera className="h-4 w-4" />
+                  Farcaster
+                </TabsTrigger>
+                <TabsTrigger value="lens" className="flex items-center gap-2">
+                  <Camera className="h-4 w-4" />
+                  Lens
+                </TabsTrigger>
+                <TabsTrigger value="zora" className="flex items-center gap-2">
+                  <Sparkles className="h-4 w-4" />
+                  Zora
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+
+        {/* Search Results Header - Only show when searched */}
+        {hasSearched && (
+          <div className="mb-6">
+            <div className="text-center mb-6">
+              <p className="text-blue-300 mb-4">
+                Search results for: <span className="text-white font-mono">{originalSearchTerm}</span>
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Main Content Area */}
+        {activeFilter === "tokens" ? (
+          tokenQuery ? (
+            <TokenDetail key={tokenQuery} address={tokenQuery} onBack={() => openToken(null)} />
+          ) : (
+            <TokenExplorer onSelectToken={openToken} />
+          )
+        ) : activeFilter === "watchlist" ? (
+          <WatchlistPanel
+            onSearchAddress={(value) => pivotSearch(value, "profiler")}
+            onSelectToken={(address) => {
+              handleFilterChange("tokens");
+              openToken(address);
+            }}
+          />
+        ) : activeFilter === "alerts" ? (
+          <AlertsPanel />
+        ) : activeFilter === "profiler" ? (
+          hasSearched && userProfiles.length > 0 ? (
+            <WalletProfiler 
+              profiles={userProfiles}
+              searchedAddress={searchedAddress}
+              originalSearchTerm={originalSearchTerm}
+              onShare={() => shareProfile(searchedAddress, originalSearchTerm)}
+              onSearchAddress={pivotSearch}
+            />
+          ) : (
+            <div className="max-w-2xl mx-auto">
+              <Card className="bg-gradient-to-r from-purple-900/40 to-blue-900/40 border-purple-800/60 backdrop-blur-md shadow-xl">
+                <CardContent className="p-12 text-center">
+                  <div className="w-16 h-16 bg-gradient-to-br from-purple-400 to-blue-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <User className="w-8 h-8 text-white" />
+                  </div>
+                  <h3 className="text-xl font-semibold text-white mb-2">Wallet Profiler</h3>
+                  <p className="text-gray-300 mb-6">
+                    Enter an Ethereum address or ENS name above to analyze wallet behavior, transaction history, and Base blockchain activity.
+                  </p>
+                  <div className="flex items-center justify-center space-x-4 text-sm text-gray-400">
+                    <div className="flex items-center space-x-1">
+                      <BarChart3 className="w-4 h-4" />
+                      <span>Transaction Analysis</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Coins className="w-4 h-4" />
+                      <span>Token Holdings</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Zap className="w-4 h-4" />
+                      <span>Base Activity</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )
+        ) : (
+          <div className="flex flex-col gap-6 max-w-2xl mx-auto">
+            {isLoading ? (
+              Array(3).fill(0).map((_, index) => <CardSkeleton key={index} />)
+            ) : hasSearched && filteredProfiles.length > 0 ? (
+              <>
+                {filteredProfiles.map((profile) => (
+                  <div key={`${profile.type}:${profile.name || (profile.metadata as { address?: string })?.address || searchedAddress}`} className="group">
+                    {profile.type === "ens" && (isBasenameName(profile.name) ? <BaseCard profile={profile} /> : <ENSCard profile={profile} />)}
+                    {profile.type === "farcaster" && <FarcasterCard profile={profile} />}
+                    {profile.type === "lens" && <LensCard profile={profile} />}
+                  </div>
+                ))}
+                {includeZoraCard && (
+                  <div className="group">
+                    <ZoraCard profile={{
+                      type: "zora",
+                      address: searchedAddress,
+                      name: "Zora Collector",
+                      metadata: { address: searchedAddress, name: "Zora Collector" }
+                    } as unknown as SocialProfile} />
+                  </div>
+                )}
+              </>
+            ) : hasSearched ? (
+              <Card className="col-span-full bg-blue-900/40 border-blue-800/60 backdrop-blur-md shadow-xl">
+                <CardContent className="p-12 text-center">
+                  <div className="text-blue-300 text-lg">
+                    No profiles found for this address
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-6">
+                {/* Show tool descriptions when no search has been performed */}
+                {activeFilter === "all" && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <Card className="bg-gradient-to-r from-blue-900/40 to-cyan-900/40 border-blue-800/60 backdrop-blur-md shadow-xl">
+                      <CardContent className="p-6 text-center">
+                        <div className="w-12 h-12 bg-gradient-to-br from-blue-400 to-cyan-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                          <Coins className="w-6 h-6 text-white" />
+                        </div>
+                        <h3 className="text-lg font-semibold text-white mb-2">Token Explorer</h3>
+                        <p className="text-gray-300 text-sm">
+                          Explore Base ecosystem tokens with real-time market data and analytics
+                        </p>
+                      </CardContent>
+                    </Card>
+                    <Card className="bg-gradient-to-r from-purple-900/40 to-blue-900/40 border-purple-800/60 backdrop-blur-md shadow-xl">
+                      <CardContent className="p-6 text-center">
+                        <div className="w-12 h-12 bg-gradient-to-br from-purple-400 to-blue-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                          <User className="w-6 h-6 text-white" />
+                        </div>
+                        <h3 className="text-lg font-semibold text-white mb-2">Wallet Profiler</h3>
+                        <p className="text-gray-300 text-sm">
+                          Analyze wallet behavior, transactions, and Base blockchain activity
+                        </p>
+                      </CardContent>
+                    </Card>
+                  </div>
+                )}
+                {(activeFilter === "ens" || activeFilter === "farcaster" || activeFilter === "lens" || activeFilter === "base" || activeFilter === "zora") && (
+                  <Card className="bg-gradient-to-r from-blue-900/40 to-purple-900/40 border-blue-800/60 backdrop-blur-md shadow-xl">
+                    <CardContent className="p-12 text-center">
+                      <div className="w-16 h-16 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <Search className="w-8 h-8 text-white" />
+                      </div>
+                      <h3 className="text-xl font-semibold text-white mb-2">Social Profile Search</h3>
+                      <p className="text-gray-300 mb-6">
+                        Enter an Ethereum address or ENS name above to discover social profiles across {activeFilter} platform.
+                      </p>
+                      <div className="flex items-center justify-center space-x-4 text-sm text-gray-400">
+                        <div className="flex items-center space-x-1">
+                          <Users className="w-4 h-4" />
+                          <span>Identity Discovery</span>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <Camera className="w-4 h-4" />
+                          <span>Social Profiles</span>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      <AlertNotifier />
+      <Footer />
+    </main>
+  );
+}
+
@@ -0,0 +1,510 @@
+/**
+ * TokenDetail Component - In-App Token Detail View
+ *
+ * This component shows a Base token from /api/dexscreener/token/{address}:
+ * market stats, a price chart, the buy/sell breakdown per time window, every
+ * pair the token trades in and its top holders. Charts are plain SVG.
+ *
+ * Features:
+ * - Price, market cap, FDV, liquidity and volume across pairs
+ * - Price chart with 24h/7d/30d ranges and hover readout
+ * - m5/h1/h6/h24 buys vs sells
+ * - Pair table (DEX, quote token, liquidity, volume, 24h txns)
+ * - Top holders with share of supply, linking to their profiles
+ * - Links to Basescan, DEXScreener and the token's websites and socials
+ * - Risk badge and itemized risk reasons
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Activity, ArrowLeft, Copy, ExternalLink, Layers, LineChart, ShieldAlert, Users } from "lucide-react";
+import { useEffect, useState } from "react";
+import type { PriceRange, TokenDetail as TokenDetailData, TxnWindow } from "@/lib/token-detail";
+import { getSearchPath } from "@/lib/routes";
+import type { RiskReason } from "@/lib/token-risk";
+import { RiskBadge } from "./RiskBadge";
+
+const PRICE_RANGES: PriceRange[] = ['24h', '7d', '30d'];
+const TXN_WINDOWS: Array<{ key: TxnWindow; label: string }> = [
+  { key: 'm5', label: '5m' },
+  { key: 'h1', label: '1h' },
+  { key: 'h6', label: '6h' },
+  { key: 'h24', label: '24h' }
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+
+/**
+ * Props interface for TokenDetail component
+ *
+ * @interface TokenDetailProps
+ * @property {string} address - Token contract address
+ * @property {() => void} [onBack] - Return to the token list
+ */
+interface TokenDetailProps {
+  address: string;
+  onBack?: () => void;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Format a USD amount compactly ($1.2K, $3.4M)
+ */
+const formatUsd = (value: number | null): string => {
+  if (value === null) return 'N/A';
+  return `$${value.toLocaleString('en-US', { notation: value >= 10000 ? 'compact' : 'standard', maximumFractionDigits: value >= 10000 ? 1 : 2 })}`;
+};
+
+/**
+ * Format a token price, keeping significant digits for small prices
+ */
+const formatPrice = (price: number | null): string => {
+  if (price === null) return 'N/A';
+  if (price < 0.01) return `$${price.toPrecision(4)}`;
+  if (price < 1) return `$${price.toFixed(4)}`;
+  return `$${price.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+};
+
+const SEVERITY_COLORS: Record<RiskReason['severity'], string> = {
+  info: 'text-gray-400',
+  warning: 'text-yellow-400',
+  danger: 'text-red-400'
+};
+
+const changeColor = (value: number | undefined): string =>
+  value === undefined ? 'text-gray-400' : value >= 0 ? 'text-green-400' : 'text-red-400';
+
+/**
+ * TokenDetail Component - Token stats, chart, trading activity, pairs and holders
+ *
+ * @param {TokenDetailProps} props - Component props
+ * @returns JSX.Element - Token detail view
+ */
+export function TokenDetail({ address, onBack }: TokenDetailProps) {
+  const [token, setToken] = useState<TokenDetailData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<PriceRange>('24h');
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+
+    const fetchToken = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        console.log('🪙 Fetching token detail for:', address, range);
+        const response = await fetch(`/api/dexscreener/token/${address}?range=${range}`);
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.details || data.error || 'Failed to load token');
+        }
+        if (!cancelled) setToken(data.data);
+      } catch (fetchError) {
+        console.error('❌ Error fetching token detail:', fetchError);
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : 'Failed to load token');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchToken();
+    return () => {
+      cancelled = true;
+    };
+  }, [address, range]);
+
+  const copyAddress = () => {
+    navigator.clipboard.writeText(address);
+    toast.success('Contract address copied!');
+  };
+
+  const backButton = onBack && (
+    <Button onClick={onBack} variant="outline" size="sm" className="bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700">
+      <ArrowLeft className="w-4 h-4 mr-2" />
+      Back to tokens
+    </Button>
+  );
+
+  if (!token) {
+    return (
+      <div className="w-full max-w-7xl mx-auto space-y-6">
+        {backButton}
+        {error && !isLoading ? (
+          <Card className="bg-zinc-900/40 border-zinc-800/60">
+            <CardContent className="text-center text-gray-400 p-12">
+              <p>Could not load token</p>
+              <p className="text-sm text-gray-500 mt-2">{error}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <Skeleton className="h-28 w-full bg-zinc-800" />
+            <Skeleton className="h-64 w-full bg-zinc-800" />
+            <Skeleton className="h-48 w-full bg-zinc-800" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Price chart geometry
+  const points = token.priceHistory?.points || [];
+  const prices = points.map(point => point.priceUsd);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const firstTime = points[0]?.timestamp || 0;
+  const lastTime = points[points.length - 1]?.timestamp || 0;
+  const xs = points.map(point => lastTime > firstTime
+    ? ((point.timestamp - firstTime) / (lastTime - firstTime)) * CHART_WIDTH
+    : CHART_WIDTH / 2);
+  const toY = (value: number) => maxPrice > minPrice
+    ? CHART_HEIGHT - 4 - ((value - minPrice) / (maxPrice - minPrice)) * (CHART_HEIGHT - 8)
+    : CHART_HEIGHT / 2;
+  const linePath = xs.map((x, i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${toY(prices[i]).toFixed(1)}`).join(' ');
+  const hovered = hoverIndex !== null ? points[hoverIndex] : points[points.length - 1];
+  const rangeChange = points.length > 1 && points[0].priceUsd > 0
+    ? ((points[points.length - 1].priceUsd - points[0].priceUsd) / points[0].priceUsd) * 100
+    : null;
+
+  // Map the pointer to the nearest point
+  const handlePointerMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * CHART_WIDTH;
+    let nearest = 0;
+    xs.forEach((pointX, index) => {
+      if (Math.abs(pointX - x) < Math.abs(xs[nearest] - x)) nearest = index;
+    });
+    setHoverIndex(points.length > 0 ? nearest : null);
+  };
+
+  return (
+    <div className="w-full max-w-7xl mx-auto space-y-6">
+      {backButton}
+
+      {/* Header */}
+      <Card className="bg-gradient-to-r from-purple-900/40 to-blue-900/40 border-purple-800/60 backdrop-blur-md">
+        <CardContent className="p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
+            <div className="flex items-center space-x-4">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={token.imageUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(token.symbol)}&background=6366f1&color=ffffff&size=64&bold=true`}
+                alt={token.name}
+                className="w-16 h-16 rounded-2xl ring-2 ring-zinc-700/50"
+                onError={(e) => {
+                  e.currentTarget.src = `https://ui-avatars.com/api/?name=${encodeURIComponent(token.symbol)}&background=6366f1&color=ffffff&size=64&bold=true`;
+                }}
+              />
+              <div>
+                <div className="flex items-center space-x-2">
+                  <h2 className="text-2xl font-bold text-white">{token.name}</h2>
+                  <Badge className="bg-blue-600/20 text-blue-300 border-blue-600/30">{token.symbol}</Badge>
+                  <Badge variant="outline" className="bg-blue-500/10 text-blue-400 border-blue-500/20">Base</Badge>
+                  <RiskBadge risk={token.risk} />
+                </div>
+                <button onClick={copyAddress} className="flex items-center space-x-1 text-sm text-gray-400 hover:text-white font-mono mt-1">
+                  <span>{shortenAddress(token.address)}</span>
+                  <Copy className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-col lg:items-end gap-3">
+              <div className="flex items-baseline space-x-3">
+                <span className="text-3xl font-bold text-white">{formatPrice(token.priceUsd)}</span>
+                {token.priceChange && (
+                  <span className={`text-sm font-semibold ${changeColor(token.priceChange.h24)}`}>
+                    {token.priceChange.h24 >= 0 ? '+' : ''}{token.priceChange.h24.toFixed(2)}% (24h)
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button asChild size="sm" variant="outline" className="bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700">
+                  <a href={token.explorerUrl} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="w-3 h-3 mr-1.5" />
+                    Basescan
+                  </a>
+                </Button>
+                {token.pairs[0] && (
+                  <Button asChild size="sm" variant="outline" className="bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700">
+                    <a href={token.pairs[0].url} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="w-3 h-3 mr-1.5" />
+                      DEXScreener
+                    </a>
+                  </Button>
+                )}
+                {token.links.map(link => (
+                  <Button key={link.url} asChild size="sm" variant="outline" className="bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700 capitalize">
+                    <a href={link.url} target="_blank" rel="noopener noreferrer">{link.label}</a>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+            {[
+              { label: 'Market Cap', value: formatUsd(token.marketCap) },
+              { label: 'FDV', value: formatUsd(token.fdv) },
+              { label: 'Liquidity', value: formatUsd(token.liquidityUsd) },
+              { label: 'Volume 24h', value: formatUsd(token.volume24h) }
+            ].map(stat => (
+              <div key={stat.label} className="bg-zinc-900/50 rounded-lg p-3">
+                <div className="text-xs text-gray-400">{stat.label}</div>
+                <div className="text-lg font-semibold text-white">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Price chart */}
+        <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between text-white">
+              <div className="flex items-center space-x-2">
+                <LineChart className="w-5 h-5 text-blue-400" />
+                <span>Price</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                {PRICE_RANGES.map(option => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRange(option)}
+                    className={range === option
+                      ? 'bg-blue-600 text-white border-blue-500 hover:bg-blue-500'
+                      : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'}
+                  >
+                    {option}
+                  </Button>
+                ))}
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-52 w-full bg-zinc-800" />
+            ) : points.length === 0 ? (
+              <div className="text-center text-gray-400 p-8">No price history available for this range</div>
+            ) : (
+              <div>
+                <div className="flex items-end justify-between mb-2">
+                  <div>
+                    <div className="text-2xl font-bold text-white">{formatPrice(hovered?.priceUsd ?? null)}</div>
+                    <div className="text-xs text-gray-400">{hovered ? new Date(hovered.timestamp).toLocaleString() : ''}</div>
+                  </div>
+                  {rangeChange !== null && (
+                    <div className={`text-sm font-semibold ${changeColor(rangeChange)}`}>
+                      {rangeChange >= 0 ? '+' : ''}{rangeChange.toFixed(2)}%
+                    </div>
+                  )}
+                </div>
+                <svg
+                  viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                  preserveAspectRatio="none"
+                  className="w-full h-44"
+                  onMouseMove={handlePointerMove}
+                  onMouseLeave={() => setHoverIndex(null)}
+                >
+                  <path d={`${linePath} L${xs[xs.length - 1].toFixed(1)},${CHART_HEIGHT} L${xs[0].toFixed(1)},${CHART_HEIGHT} Z`} fill="#3b82f6" fillOpacity={0.2} />
+                  <path d={linePath} fill="none" stroke="#3b82f6" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                  {hoverIndex !== null && xs[hoverIndex] !== undefined && (
+                    <line x1={xs[hoverIndex]} x2={xs[hoverIndex]} y1={0} y2={CHART_HEIGHT} stroke="#a1a1aa" strokeDasharray="4 4" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                  )}
+                </svg>
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>{new Date(firstTime).toLocaleString()}</span>
+                  <span>Low {formatPrice(minPrice)} · High {formatPrice(maxPrice)}</span>
+                  <span>{new Date(lastTime).toLocaleString()}</span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Buys vs sells */}
+        <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-white">
+              <Activity className="w-5 h-5 text-green-400" />
+              <span>Buys vs Sells</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {TXN_WINDOWS.map(({ key, label }) => {
+              const { buys, sells } = token.txns[key];
+              const total = buys + sells;
+              const buyShare = total > 0 ? (buys / total) * 100 : 50;
+              return (
+                <div key={key}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-300 font-medium">{label}</span>
+                    <span className="text-gray-400">{total.toLocaleString()} txns</span>
+                  </div>
+                  <div className="flex h-2 rounded-full overflow-hidden bg-zinc-800">
+                    <div className="bg-green-500" style={{ width: `${total > 0 ? buyShare : 0}%` }} />
+                    <div className="bg-red-500" style={{ width: `${total > 0 ? 100 - buyShare : 0}%` }} />
+                  </div>
+                  <div className="flex justify-between text-xs mt-1">
+                    <span className="text-green-400">{buys.toLocaleString()} buys</span>
+                    <span className="text-red-400">{sells.toLocaleString()} sells</span>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Risk */}
+      <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-white">
+            <div className="flex items-center space-x-2">
+              <ShieldAlert className="w-5 h-5 text-yellow-400" />
+              <span>Risk</span>
+            </div>
+            <span className="text-sm font-normal text-gray-400">Score {token.risk.score}/100</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {token.risk.reasons.length === 0 ? (
+            <div className="text-gray-400 text-sm">No risk flags found</div>
+          ) : (
+            <ul className="space-y-2">
+              {token.risk.reasons.map(reason => (
+                <li key={`${reason.check}-${reason.message}`} className="flex items-center justify-between text-sm">
+                  <span className={SEVERITY_COLORS[reason.severity]}>{reason.message}</span>
+                  <span className="text-gray-500 font-mono">{reason.points > 0 ? `+${reason.points}` : '—'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pairs */}
+      <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-white">
+            <Layers className="w-5 h-5 text-purple-400" />
+            <span>Pairs</span>
+            <Badge variant="secondary" className="bg-zinc-700/50 text-zinc-300 border-zinc-600">{token.pairs.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wider text-zinc-400 border-b border-zinc-700/50">
+                  <th className="py-2 pr-4">DEX</th>
+                  <th className="py-2 pr-4">Pair</th>
+                  <th className="py-2 pr-4 text-right">Price</th>
+                  <th className="py-2 pr-4 text-right">Liquidity</th>
+                  <th className="py-2 pr-4 text-right">Volume 24h</th>
+                  <th className="py-2 pr-4 text-right">Txns 24h</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800/60">
+                {token.pairs.map(pair => (
+                  <tr key={pair.pairAddress} className="text-white">
+                    <td className="py-2 pr-4 capitalize">{pair.dexId}</td>
+                    <td className="py-2 pr-4">{token.symbol} / {pair.quoteToken.symbol}</td>
+                    <td className="py-2 pr-4 text-right">{formatPrice(pair.priceUsd)}</td>
+                    <td className="py-2 pr-4 text-right">{formatUsd(pair.liquidityUsd)}</td>
+                    <td className="py-2 pr-4 text-right">{formatUsd(pair.volume24h)}</td>
+                    <td className="py-2 pr-4 text-right">
+                      <span className="text-green-400">{pair.txns.h24.buys}</span>
+                      <span className="text-gray-500"> / </span>
+                      <span className="text-red-400">{pair.txns.h24.sells}</span>
+                    </td>
+                    <td className="py-2 text-right">
+                      <a href={pair.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                        <ExternalLink className="w-4 h-4 inline" />
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Top holders */}
+      <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-white">
+            <Users className="w-5 h-5 text-yellow-400" />
+            <span>Top Holders</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!token.holders ? (
+            <div className="text-center text-gray-400 p-6">
+              <p>Holder list unavailable</p>
+              <p className="text-sm text-gray-500 mt-2">Top holders require an Etherscan API Pro key.</p>
+            </div>
+          ) : token.holders.length === 0 ? (
+            <div className="text-center text-gray-400 p-6">No holders found</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-zinc-400 border-b border-zinc-700/50">
+                    <th className="py-2 pr-4">#</th>
+                    <th className="py-2 pr-4">Holder</th>
+                    <th className="py-2 pr-4 text-right">Balance</th>
+                    <th className="py-2 text-right">Supply</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-800/60">
+                  {token.holders.map((holder, index) => (
+                    <tr key={holder.address} className="text-white">
+                      <td className="py-2 pr-4 text-gray-400">{index + 1}</td>
+                      <td className="py-2 pr-4">
+                        <Link href={getSearchPath(holder.address, 'profiler')} className="font-mono text-blue-400 hover:text-blue-300">
+                          {shortenAddress(holder.address)}
+                        </Link>
+                        {holder.label && (
+                          <Badge variant="outline" className="ml-2 text-xs bg-purple-500/10 text-purple-300 border-purple-500/20 capitalize">
+                            {holder.label}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {holder.balance !== null ? holder.balance.toLocaleString('en-US', { maximumFractionDigits: 2 }) : 'N/A'}
+                      </td>
+                      <td className="py-2 text-right">
+                        {holder.percentage !== null ? `${holder.percentage.toFixed(2)}%` : 'N/A'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,6 +11,10 @@
  * - Token analytics and insights
  * - Social links and community metrics
  * - Responsive design with modern UI
+ * - Token detail view for a selected token (/token/{address})
+ * - New Pairs tab with fresh Base launches
+ * - Risk badge on every token (contract, holder and trading checks)
+ * - Star tokens onto a watchlist
  * 
  * @author Sniffer Web3 Team
  * @version 2.0.0 - Nansen Style
@@ -18,7 +22,7 @@
 
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import toast from "react-hot-toast";
 import Image from "next/image";
 import { Card, CardContent } from "@/components/ui/card";
@@ -36,13 +40,20 @@ import {
   AlertCircle,
   Loader2,
   Search,
+  Sparkles,
+  Star,
   X
 } from "lucide-react";
 import { BaseToken, TokenExplorerState } from "@/lib/types";
 import { Input } from "@/components/ui/input";
+import type { TokenRisk } from "@/lib/token-risk";
+import { ADD_TO_WATCHLIST_ERRORS, addToWatchlist, removeFromWatchlist, useWatchlists } from "@/lib/watchlists";
+import { NewPairsFeed } from "./NewPairsFeed";
+import { RiskBadge } from "./RiskBadge";
 
 interface TokenExplorerProps {
   className?: string;
+  onSelectToken?: (address: string) => void; // Open the in-app detail view of a token
 }
 
 // Utility functions - formatting helpers
@@ -133,7 +144,8 @@ const useBaseTokens = () => {
     setState(prev => ({ ...prev, loading: true, error: null }));
     
     try {
-      const response = await fetch(endpoint);
+      // A manual refresh also skips the shared server-side cache
+      const response = await fetch(endpoint, forceRefresh ? { headers: { 'Cache-Control': 'no-cache' } } : undefined);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -341,7 +353,7 @@ const useBaseTokens = () => {
 };
 
 // Main component
-export function TokenExplorer({ className = "" }: TokenExplorerProps) {
+export function TokenExplorer({ className = "", onSelectToken }: TokenExplorerProps) {
   const {
     state,
     setState,
@@ -361,12 +373,12 @@ export function TokenExplorer({ className = "" }: TokenExplorerProps) {
 
 
   // Handle tab change
-  const handleTabChange = useCallback((value: 'base' | 'search') => {
+  const handleTabChange = useCallback((value: TokenExplorerState['activeTab']) => {
     setState(prev => ({ ...prev, activeTab: value }));
     
     // Fetch appropriate data
-    if (value === 'search') {
-      // Don't fetch anything, wait for search query
+    if (value === 'search' || value === 'new') {
+      // Search waits for a query; the new pairs feed loads its own data
     } else {
       fetchBaseTokens();
     }
@@ -487,7 +499,8 @@ export function TokenExplorer({ className = "" }: TokenExplorerProps) {
                 { key: "market_cap" as const, label: "Market Cap", icon: "📊" },
                 { key: "current_price" as const, label: "Price", icon: "💰" },
                 { key: "total_volume" as const, label: "Volume", icon: "📈" },
-                { key: "price_change_percentage_24h" as const, label: "24h Change", icon: "⚡" }
+                { key: "price_change_percentage_24h" as const, label: "24h Change", icon: "⚡" },
+                { key: "momentum_score" as const, label: "Momentum", icon: "🚀" }
               ].map((option) => (
                 <Button
                   key={option.key}
@@ -544,6 +557,13 @@ export function TokenExplorer({ className = "" }: TokenExplorerProps) {
                 </Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger 
+              value="new" 
+              className="flex items-center justify-center space-x-3 data-[state=active]:bg-blue-600 data-[state=active]:text-white data-[state=active]:shadow-lg rounded-xl font-semibold transition-all duration-200"
+            >
+              <Sparkles className="w-5 h-5" />
+              <span>New Pairs</span>
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -572,6 +592,7 @@ export function TokenExplorer({ className = "" }: TokenExplorerProps) {
               onPageChange={goToPage}
               onNextPage={nextPage}
               onPrevPage={prevPage}
+              onSelectToken={onSelectToken}
             />
           )}
         </TabsContent>
@@ -613,6 +634,7 @@ export function TokenExplorer({ className = "" }: TokenExplorerProps) {
               onPageChange={goToPage}
               onNextPage={nextPage}
               onPrevPage={prevPage}
+              onSelectToken={onSelectToken}
             />
           ) : state.searchQuery ? (
             <EmptyState 
@@ -628,6 +650,11 @@ export function TokenExplorer({ className = "" }: TokenExplorerProps) {
             </div>
           )}
         </TabsContent>
+
+        {/* New Pairs Tab */}
+        <TabsContent value="new" className="space-y-6 mt-6">
+          {state.activeTab === 'new' && <NewPairsFeed onSelectToken={onSelectToken} />}
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -774,7 +801,8 @@ function TokenGrid({
   totalTokens,
   onPageChange,
   onNextPage,
-  onPrevPage 
+  onPrevPage,
+  onSelectToken
 }: { 
   tokens: BaseToken[];
   currentPage: number;
@@ -783,10 +811,63 @@ function TokenGrid({
   onPageChange: (page: number) => void;
   onNextPage: () => void;
   onPrevPage: () => void;
+  onSelectToken?: (address: string) => void;
 }) {
   const totalPages = Math.ceil(totalTokens / tokensPerPage);
   const startToken = (currentPage - 1) * tokensPerPage + 1;
   const endToken = Math.min(currentPage * tokensPerPage, totalTokens);
+  const [risks, setRisks] = useState<Record<string, TokenRisk | null>>({});
+  // Tokens whose risk was already requested, so each is fetched once
+  const requestedRisksRef = useRef(new Set<string>());
+  const watchlists = useWatchlists();
+  const watchedTokens = useMemo(() => new Set(
+    watchlists.flatMap(list => list.items.filter(item => item.kind === 'token').map(item => item.value))
+  ), [watchlists]);
+
+  const toggleWatched = (token: BaseToken) => {
+    if (!token.contract_address) return;
+    const address = token.contract_address.toLowerCase();
+    if (watchedTokens.has(address)) {
+      removeFromWatchlist(null, 'token', address);
+      toast.success(`Removed ${token.symbol} from watchlists`);
+    } else {
+      const result = addToWatchlist(null, 'token', address, token.symbol);
+      if (result === 'added') {
+        toast.success(`Added ${token.symbol} to watchlist`, { icon: '⭐' });
+      } else {
+        toast.error(ADD_TO_WATCHLIST_ERRORS[result]);
+      }
+    }
+  };
+
+  // Risk of the tokens on this page, fetched once per token
+  const pageAddresses = tokens
+    .map(token => token.contract_address?.toLowerCase())
+    .filter((address): address is string => Boolean(address))
+    .join(',');
+
+  useEffect(() => {
+    const requested = requestedRisksRef.current;
+    const missing = pageAddresses.split(',').filter(address => address && !requested.has(address));
+    if (missing.length === 0) return;
+    missing.forEach(address => requested.add(address));
+
+    // Results are kept even if the page changed meanwhile; they're keyed by token
+    const fetchRisks = async () => {
+      try {
+        console.log(`🛡️ Fetching risk for ${missing.length} tokens`);
+        const response = await fetch(`/api/dexscreener/risk?addresses=${missing.join(',')}`);
+        const data = await response.json();
+        if (!data.success) throw new Error(data.details || data.error || 'Failed to load token risk');
+        setRisks(prev => ({ ...prev, ...Object.fromEntries(missing.map(address => [address, data.data[address] || null])) }));
+      } catch (error) {
+        console.error('❌ Error fetching token risk:', error);
+        setRisks(prev => ({ ...prev, ...Object.fromEntries(missing.map(address => [address, null])) }));
+      }
+    };
+
+    fetchRisks();
+  }, [pageAddresses]);
 
   return (
     <div className="space-y-4">
@@ -857,12 +938,37 @@ function TokenGrid({
                       </div>
                       <div className="min-w-0 flex-1">
                         <div className="flex items-center space-x-2">
-                          <span className="text-white font-semibold text-sm tracking-tight group-hover:text-blue-100 transition-colors duration-200">
+                          {token.contract_address && (
+                            <button
+                              onClick={() => toggleWatched(token)}
+                              title={watchedTokens.has(token.contract_address.toLowerCase()) ? 'Remove from watchlists' : 'Add to watchlist'}
+                              className="text-zinc-500 hover:text-yellow-400 transition-colors duration-200"
+                            >
+                              <Star className={`w-4 h-4 ${watchedTokens.has(token.contract_address.toLowerCase()) ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => token.contract_address && onSelectToken?.(token.contract_address)}
+                            disabled={!onSelectToken}
+                            className="text-white font-semibold text-sm tracking-tight group-hover:text-blue-100 enabled:hover:underline transition-colors duration-200"
+                          >
                             {token.symbol}
-                          </span>
+                          </button>
                           <Badge variant="outline" className="text-xs bg-blue-500/10 text-blue-400 border-blue-500/20 px-2 py-0.5">
                             Base
                           </Badge>
+                          {token.momentum_score !== undefined && token.momentum_score >= 60 && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs bg-orange-500/10 text-orange-400 border-orange-500/20 px-2 py-0.5"
+                              title={`Momentum score ${token.momentum_score}/100`}
+                            >
+                              🚀 {token.momentum_score}
+                            </Badge>
+                          )}
+                          {token.contract_address && (
+                            <RiskBadge risk={risks[token.contract_address.toLowerCase()]} showScore={false} />
+                          )}
                         </div>
                         <p className="text-zinc-400 text-xs truncate max-w-[140px] group-hover:text-zinc-300 transition-colors duration-200">{token.name}</p>
                       </div>
@@ -942,6 +1048,10 @@ function TokenGrid({
                     <div className="flex items-center justify-center space-x-2">
                       <Button
                         onClick={() => {
+                          if (onSelectToken && token.contract_address) {
+                            onSelectToken(token.contract_address);
+                            return;
+                          }
                           const url = token.dex_data?.url || `https://dexscreener.com/base/${token.contract_address}`;
                           if (url) window.open(url, '_blank', 'noopener,noreferrer');
                         }}
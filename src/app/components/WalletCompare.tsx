@@ -0,0 +1,510 @@
+/**
+ * WalletCompare Component - Side-by-Side Wallet Comparison
+ *
+ * This component profiles 2-5 wallets (addresses, ENS names or Basenames)
+ * with the same pipeline as the WalletProfiler and shows them side by side,
+ * together with what they have in common.
+ *
+ * Features:
+ * - Activity level, category, value and holdings per wallet
+ * - Portfolio overlap (tokens held by several wallets)
+ * - Common counterparties, labeled from the protocol registry
+ * - Transactions between the compared wallets
+ * - Social profile overlap across ENS, Farcaster and Lens
+ * - Shareable /compare?addresses=...&chain=... URL
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { getSocialProfiles, SocialProfile } from "thirdweb/social";
+import { client } from "../client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowRight, Coins, ExternalLink, Link2, Network, Plus, Users, X } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { formatEther } from "viem";
+import { ChainKey, CHAIN_KEYS, SUPPORTED_CHAINS } from "@/lib/chains";
+import { isLikelyName, isValidEthereumAddress, resolveIdentityAddress } from "@/lib/identity";
+import { getSearchPath } from "@/lib/routes";
+import { createWalletProfile, fetchWalletData } from "@/lib/wallet-profile";
+import {
+  ComparedWallet,
+  compareWallets,
+  MAX_COMPARE_WALLETS,
+  MIN_COMPARE_WALLETS,
+  WalletComparison
+} from "@/lib/wallet-compare";
+
+/**
+ * Props interface for WalletCompare component
+ *
+ * @interface WalletCompareProps
+ * @property {string[]} initialInputs - Addresses or names from the URL
+ * @property {ChainKey} initialChain - Chain from the URL
+ */
+interface WalletCompareProps {
+  initialInputs: string[];
+  initialChain: ChainKey;
+}
+
+// Accent colors identifying each compared wallet across sections
+const WALLET_COLORS = ['bg-blue-500', 'bg-purple-500', 'bg-green-500', 'bg-orange-500', 'bg-pink-500'];
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const isValidInput = (input: string) => isValidEthereumAddress(input.trim()) || isLikelyName(input);
+
+/**
+ * Display name for a compared wallet: the entered name, the profile label or the short address
+ */
+const getWalletName = (wallet: ComparedWallet): string =>
+  !isValidEthereumAddress(wallet.input) ? wallet.input : wallet.socialProfiles.find(p => p.name)?.name || shortenAddress(wallet.address);
+
+/**
+ * WalletCompare Component - Profiles several wallets and shows their overlap
+ *
+ * @param {WalletCompareProps} props - Component props
+ * @returns JSX.Element - Comparison form and results
+ */
+export function WalletCompare({ initialInputs, initialChain }: WalletCompareProps) {
+  const router = useRouter();
+  const [inputs, setInputs] = useState<string[]>(
+    initialInputs.length >= MIN_COMPARE_WALLETS ? initialInputs : [...initialInputs, '', ''].slice(0, Math.max(MIN_COMPARE_WALLETS, initialInputs.length))
+  );
+  const [chain, setChain] = useState<ChainKey>(initialChain);
+  const [comparison, setComparison] = useState<WalletComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const autoComparedRef = useRef(false);
+
+  const filledInputs = inputs.map(input => input.trim()).filter(Boolean);
+  const canCompare = filledInputs.length >= MIN_COMPARE_WALLETS && filledInputs.every(isValidInput);
+
+  // Resolve and profile every wallet, then compute the overlap
+  const runComparison = useCallback(async (entries: string[], comparisonChain: ChainKey) => {
+    setIsComparing(true);
+    setComparison(null);
+    toast.loading(`Profiling ${entries.length} wallets...`, { id: 'compare-loading' });
+
+    try {
+      console.log('⚖️ Comparing wallets:', entries, 'on', comparisonChain);
+      const wallets = await Promise.all(entries.map(async (input): Promise<ComparedWallet> => {
+        const address = await resolveIdentityAddress(client, input).catch(() => {
+          throw new Error(`"${input}" could not be resolved to an address`);
+        });
+
+        const [data, socialProfiles] = await Promise.all([
+          fetchWalletData(address, comparisonChain),
+          getSocialProfiles({ client, address }).catch((error): SocialProfile[] => {
+            console.warn('⚠️ Failed to fetch social profiles for:', address, error);
+            return [];
+          })
+        ]);
+        const label = !isValidEthereumAddress(input) ? input : socialProfiles.find(p => p.name)?.name;
+        const profile = createWalletProfile(data, { address, chain: comparisonChain, label });
+
+        return { input, address, profile, data, socialProfiles };
+      }));
+
+      const addresses = new Set(wallets.map(wallet => wallet.address.toLowerCase()));
+      if (addresses.size < wallets.length) {
+        toast('Some entries resolve to the same address', { icon: 'ℹ️', duration: 3000 });
+      }
+
+      setComparison(compareWallets(wallets, comparisonChain));
+      toast.dismiss('compare-loading');
+      toast.success(`Compared ${wallets.length} wallets`, { duration: 3000, icon: '✅' });
+    } catch (error) {
+      console.error('❌ Error comparing wallets:', error);
+      toast.dismiss('compare-loading');
+      toast.error(error instanceof Error ? error.message : 'Failed to compare wallets', {
+        duration: 5000,
+        icon: '⚠️',
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  }, []);
+
+  // Compare straight away when the URL already lists enough wallets; later comparisons are started from the form
+  useEffect(() => {
+    if (autoComparedRef.current) return;
+    autoComparedRef.current = true;
+
+    const entries = initialInputs.filter(isValidInput);
+    if (entries.length >= MIN_COMPARE_WALLETS) {
+      runComparison(entries, initialChain);
+    }
+  }, [initialInputs, initialChain, runComparison]);
+
+  const handleCompare = () => {
+    if (!canCompare) return;
+    // Keep the URL shareable: it always reflects the current comparison
+    router.replace(`/compare?addresses=${filledInputs.map(encodeURIComponent).join(',')}&chain=${chain}`);
+    runComparison(filledInputs, chain);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Comparison link copied to clipboard!', { duration: 2000, icon: '📋' });
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      toast.error('Failed to copy link', { duration: 3000, icon: '⚠️' });
+    }
+  };
+
+  const walletIndex = (address: string) =>
+    comparison ? comparison.wallets.findIndex(wallet => wallet.address.toLowerCase() === address.toLowerCase()) : -1;
+
+  // Colored chip naming a compared wallet
+  const renderWalletChip = (address: string, suffix?: string) => {
+    const index = walletIndex(address);
+    return (
+      <span key={address} className="inline-flex items-center space-x-1.5 px-2 py-0.5 rounded bg-zinc-800/80 text-xs text-gray-200">
+        <span className={`w-2 h-2 rounded-full ${WALLET_COLORS[index] || 'bg-gray-500'}`} />
+        <span>{index >= 0 ? getWalletName(comparison.wallets[index]) : shortenAddress(address)}</span>
+        {suffix && <span className="text-gray-400">{suffix}</span>}
+      </span>
+    );
+  };
+
+  const explorerUrl = SUPPORTED_CHAINS[comparison?.chain || chain].explorerUrl;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-6">
+      {/* Wallet inputs */}
+      <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-white">
+            <Users className="w-5 h-5 text-blue-400" />
+            <span>Compare Wallets</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {inputs.map((input, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className={`w-3 h-3 rounded-full flex-shrink-0 ${WALLET_COLORS[index]}`} />
+                <Input
+                  type="text"
+                  placeholder="Address or name (ENS/Basename)"
+                  className="bg-zinc-800/50 border-zinc-700/50 text-white placeholder:text-zinc-400"
+                  value={input}
+                  onChange={(e) => setInputs(inputs.map((value, i) => i === index ? e.target.value : value))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !isComparing) handleCompare();
+                  }}
+                  disabled={isComparing}
+                  autoComplete="off"
+                />
+                {inputs.length > MIN_COMPARE_WALLETS && (
+                  <Button
+                    onClick={() => setInputs(inputs.filter((_, i) => i !== index))}
+                    disabled={isComparing}
+                    variant="outline"
+                    size="sm"
+                    className="bg-zinc-800/50 text-zinc-300 hover:bg-zinc-700/50 border-zinc-700/50 h-9 w-9 p-0"
+                    title="Remove wallet"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {CHAIN_KEYS.map(key => (
+              <Button
+                key={key}
+                onClick={() => setChain(key)}
+                disabled={isComparing}
+                variant="outline"
+                size="sm"
+                className={`h-7 px-3 text-xs ${
+                  key === chain
+                    ? 'bg-blue-600 text-white border-blue-500 hover:bg-blue-600'
+                    : 'bg-zinc-800/50 text-zinc-300 hover:bg-zinc-700/50 border-zinc-700/50'
+                }`}
+              >
+                {SUPPORTED_CHAINS[key].name}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              onClick={() => setInputs([...inputs, ''])}
+              disabled={isComparing || inputs.length >= MAX_COMPARE_WALLETS}
+              variant="outline"
+              size="sm"
+              className="bg-zinc-800/50 text-zinc-300 hover:bg-zinc-700/50 border-zinc-700/50"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add wallet
+            </Button>
+            <Button
+              onClick={handleCompare}
+              disabled={!canCompare || isComparing}
+              size="sm"
+              className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white"
+            >
+              {isComparing ? 'Comparing...' : 'Compare'}
+            </Button>
+            {comparison && (
+              <Button
+                onClick={handleCopyLink}
+                variant="outline"
+                size="sm"
+                className="bg-blue-600/20 text-blue-300 hover:bg-blue-600/30 border-blue-500/50"
+              >
+                <Link2 className="w-4 h-4 mr-1" />
+                Copy link
+              </Button>
+            )}
+          </div>
+          {filledInputs.some(input => !isValidInput(input)) && (
+            <p className="text-red-400 text-sm flex items-center gap-1">
+              <span>⚠️</span>
+              Enter valid addresses or names (e.g., vitalik.eth or alice.base)
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {isComparing && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filledInputs.map((_, index) => <Skeleton key={index} className="h-56 bg-zinc-800" />)}
+        </div>
+      )}
+
+      {comparison && !isComparing && (
+        <>
+          {/* Side-by-side profiles */}
+          <div className={`grid grid-cols-1 md:grid-cols-2 ${comparison.wallets.length > 2 ? 'lg:grid-cols-3' : ''} gap-4`}>
+            {comparison.wallets.map((wallet, index) => (
+              <Card key={`${wallet.address}-${index}`} className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <span className={`w-3 h-3 rounded-full ${WALLET_COLORS[index]}`} />
+                    <Link href={getSearchPath(wallet.input, 'profiler')} className="text-white font-semibold truncate hover:text-blue-300 hover:underline">
+                      {getWalletName(wallet)}
+                    </Link>
+                  </div>
+                  <a
+                    href={`${explorerUrl}/address/${wallet.address}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-xs font-mono text-blue-300 hover:underline"
+                  >
+                    {shortenAddress(wallet.address)}
+                    <ExternalLink className="w-3 h-3 ml-1" />
+                  </a>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge className="bg-blue-600/20 text-blue-300 border-blue-600/30">{wallet.profile.category}</Badge>
+                    <Badge className="bg-purple-600/20 text-purple-300 border-purple-600/30">
+                      {wallet.profile.behaviorPatterns.tradingFrequency} activity
+                    </Badge>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div>
+                      <div className="text-gray-400 text-xs">Net Worth</div>
+                      <div className="text-white font-medium">
+                        ${wallet.profile.totalValue.toLocaleString('en-US', { maximumFractionDigits: 2 })}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400 text-xs">Transactions</div>
+                      <div className="text-white font-medium">{wallet.profile.totalTransactions.toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400 text-xs">Tokens</div>
+                      <div className="text-white font-medium">{wallet.profile.portfolio.tokens.length}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400 text-xs">NFT Collections</div>
+                      <div className="text-white font-medium">{wallet.profile.portfolio.nfts.length}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400 text-xs">First Seen</div>
+                      <div className="text-white font-medium">{wallet.profile.firstSeen}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400 text-xs">Last Activity</div>
+                      <div className="text-white font-medium">{wallet.profile.lastActivity}</div>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {wallet.socialProfiles.length > 0 ? wallet.socialProfiles.map(profile => (
+                      <Badge
+                        key={`${profile.type}:${profile.name}`}
+                        variant="outline"
+                        className="text-xs text-gray-300 border-zinc-700"
+                      >
+                        {profile.type}: {profile.name || 'unnamed'}
+                      </Badge>
+                    )) : (
+                      <span className="text-xs text-gray-500">No social profiles</span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Portfolio overlap */}
+            <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-white">
+                  <Coins className="w-5 h-5 text-yellow-400" />
+                  <span>Shared Tokens</span>
+                  <Badge className="bg-yellow-600/20 text-yellow-300 border-yellow-600/30">{comparison.sharedTokens.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {comparison.sharedTokens.length > 0 ? comparison.sharedTokens.map(token => (
+                  <div key={token.contractAddress} className="flex items-center justify-between gap-2 p-2 bg-zinc-800/30 rounded">
+                    <a
+                      href={`${explorerUrl}/token/${token.contractAddress}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-white font-medium hover:text-blue-300 hover:underline"
+                    >
+                      {token.symbol}
+                    </a>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {token.holders.map(holder => renderWalletChip(holder))}
+                    </div>
+                  </div>
+                )) : (
+                  <p className="text-gray-400 text-sm">No token is held by more than one wallet</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Social overlap */}
+            <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-white">
+                  <Users className="w-5 h-5 text-purple-400" />
+                  <span>Shared Social Profiles</span>
+                  <Badge className="bg-purple-600/20 text-purple-300 border-purple-600/30">{comparison.sharedSocialProfiles.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {comparison.sharedSocialProfiles.length > 0 ? comparison.sharedSocialProfiles.map(profile => (
+                  <div key={`${profile.type}:${profile.name}`} className="flex items-center justify-between gap-2 p-2 bg-zinc-800/30 rounded">
+                    <span className="text-white">
+                      <span className="text-gray-400 text-xs mr-2">{profile.type}</span>
+                      {profile.name}
+                    </span>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {profile.wallets.map(address => renderWalletChip(address))}
+                    </div>
+                  </div>
+                )) : (
+                  <p className="text-gray-400 text-sm">No social profile is linked to more than one wallet</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Common counterparties */}
+          <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-white">
+                <Network className="w-5 h-5 text-cyan-400" />
+                <span>Common Counterparties</span>
+                <Badge className="bg-cyan-600/20 text-cyan-300 border-cyan-600/30">{comparison.commonCounterparties.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {comparison.commonCounterparties.length > 0 ? comparison.commonCounterparties.map(counterparty => (
+                <div key={counterparty.address} className="flex items-center justify-between gap-2 p-2 bg-zinc-800/30 rounded">
+                  <a
+                    href={`${explorerUrl}/address/${counterparty.address}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="min-w-0 hover:underline"
+                  >
+                    {counterparty.label ? (
+                      <span className="text-purple-300">{counterparty.label}</span>
+                    ) : (
+                      <span className="text-white font-mono text-sm">{shortenAddress(counterparty.address)}</span>
+                    )}
+                  </a>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {Object.entries(counterparty.interactions).map(([address, count]) => (
+                      renderWalletChip(address, `×${count}`)
+                    ))}
+                  </div>
+                </div>
+              )) : (
+                <p className="text-gray-400 text-sm">No address interacted with more than one wallet</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Transfers between the wallets */}
+          <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-white">
+                <ArrowRight className="w-5 h-5 text-green-400" />
+                <span>Transactions Between Wallets</span>
+                <Badge className="bg-green-600/20 text-green-300 border-green-600/30">{comparison.transfers.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {comparison.transfers.length > 0 ? comparison.transfers.map(transfer => (
+                <div key={transfer.key} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-zinc-800/30 rounded">
+                  <div className="flex items-center gap-2">
+                    {renderWalletChip(transfer.from)}
+                    <ArrowRight className="w-3 h-3 text-gray-400" />
+                    {renderWalletChip(transfer.to)}
+                    {transfer.kind === 'internal' && (
+                      <Badge variant="outline" className="text-[10px] text-gray-400 border-zinc-700">internal</Badge>
+                    )}
+                    {transfer.isError && (
+                      <Badge className="bg-red-600/20 text-red-300 border-red-600/30 text-[10px]">failed</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="text-white">
+                      {parseFloat(formatEther(BigInt(transfer.value || '0'))).toFixed(4)} {SUPPORTED_CHAINS[comparison.chain].nativeSymbol}
+                    </span>
+                    <span className="text-gray-400 text-xs">{new Date(transfer.timestamp * 1000).toLocaleDateString()}</span>
+                    <a
+                      href={`${explorerUrl}/tx/${transfer.hash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-300 hover:underline font-mono text-xs"
+                    >
+                      {transfer.hash.slice(0, 10)}...
+                    </a>
+                  </div>
+                </div>
+              )) : (
+                <p className="text-gray-400 text-sm">No transactions between these wallets</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <p className="text-xs text-gray-500 text-center">
+            Counterparties and transfers are based on each wallet&apos;s 50 most recent transactions and internal transfers
+            on {SUPPORTED_CHAINS[comparison.chain].name}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
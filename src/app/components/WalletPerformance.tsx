@@ -0,0 +1,240 @@
+/**
+ * WalletPerformance Component - Trading PnL Dashboard
+ *
+ * This component shows a wallet's trading performance from
+ * /api/portfolio/pnl: realized and unrealized PnL with FIFO cost basis,
+ * win rate, average holding time and a per-token breakdown.
+ *
+ * Features:
+ * - Realized / unrealized / total PnL summary
+ * - Win rate and average holding time of closed trades
+ * - Per-token buys, sells, PnL and current position
+ * - Notes for unpriced swaps and truncated history
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Clock, DollarSign, Target, TrendingUp } from "lucide-react";
+import { useEffect, useState } from "react";
+import type { WalletPnl } from "@/lib/pnl";
+import { ChainKey, SUPPORTED_CHAINS } from "@/lib/chains";
+
+/**
+ * Props interface for WalletPerformance component
+ *
+ * @interface WalletPerformanceProps
+ * @property {string} address - Wallet address to analyze
+ * @property {ChainKey} chain - Chain the wallet is profiled on
+ */
+interface WalletPerformanceProps {
+  address: string;
+  chain: ChainKey;
+}
+
+/**
+ * Format a signed USD amount, e.g. +$1,234.56 or -$12.00
+ */
+const formatPnl = (value: number): string =>
+  `${value >= 0 ? '+' : '-'}$${Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2, minimumFractionDigits: 2 })}`;
+
+/**
+ * Format a holding time in hours as hours or days
+ */
+const formatHoldingTime = (hours: number | null): string => {
+  if (hours === null) return 'N/A';
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+};
+
+const pnlColor = (value: number | null): string =>
+  value === null ? 'text-gray-400' : value >= 0 ? 'text-green-400' : 'text-red-400';
+
+/**
+ * WalletPerformance Component - Realized/unrealized PnL and trade stats
+ *
+ * @param {WalletPerformanceProps} props - Component props
+ * @returns JSX.Element - Performance cards and per-token table
+ */
+export function WalletPerformance({ address, chain }: WalletPerformanceProps) {
+  const [pnl, setPnl] = useState<WalletPnl | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+
+    const fetchPnl = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        console.log('💹 Calculating PnL for:', address, 'on', chain);
+        const response = await fetch(`/api/portfolio/pnl?address=${address}&chain=${chain}`);
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.details || data.error || 'Failed to calculate PnL');
+        }
+        if (!cancelled) setPnl(data.data);
+      } catch (fetchError) {
+        console.error('❌ Error calculating PnL:', fetchError);
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : 'Failed to calculate PnL');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPnl();
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chain]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {[0, 1, 2, 3].map(index => <Skeleton key={index} className="h-28 bg-zinc-800" />)}
+        </div>
+        <Skeleton className="h-64 w-full bg-zinc-800" />
+      </div>
+    );
+  }
+
+  if (error || !pnl) {
+    return (
+      <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+        <CardContent className="text-center text-gray-400 p-8">
+          <p>Could not calculate trading performance</p>
+          {error && <p className="text-sm text-gray-500 mt-2">{error}</p>}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { totals } = pnl;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="p-4 bg-zinc-900/40 border border-zinc-800/60 rounded-lg">
+          <div className="flex items-center space-x-2 text-sm text-gray-400 mb-2">
+            <DollarSign className="w-4 h-4 text-green-400" />
+            <span>Realized PnL</span>
+          </div>
+          <div className={`text-2xl font-bold ${pnlColor(totals.realizedPnlUsd)}`}>{formatPnl(totals.realizedPnlUsd)}</div>
+        </div>
+        <div className="p-4 bg-zinc-900/40 border border-zinc-800/60 rounded-lg">
+          <div className="flex items-center space-x-2 text-sm text-gray-400 mb-2">
+            <TrendingUp className="w-4 h-4 text-blue-400" />
+            <span>Unrealized PnL</span>
+          </div>
+          <div className={`text-2xl font-bold ${pnlColor(totals.unrealizedPnlUsd)}`}>{formatPnl(totals.unrealizedPnlUsd)}</div>
+          <div className="text-xs text-gray-500 mt-1">Total {formatPnl(totals.totalPnlUsd)}</div>
+        </div>
+        <div className="p-4 bg-zinc-900/40 border border-zinc-800/60 rounded-lg">
+          <div className="flex items-center space-x-2 text-sm text-gray-400 mb-2">
+            <Target className="w-4 h-4 text-purple-400" />
+            <span>Win Rate</span>
+          </div>
+          <div className="text-2xl font-bold text-white">
+            {totals.winRate !== null ? `${Math.round(totals.winRate * 100)}%` : 'N/A'}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">{totals.closedTrades} closed trade{totals.closedTrades === 1 ? '' : 's'}</div>
+        </div>
+        <div className="p-4 bg-zinc-900/40 border border-zinc-800/60 rounded-lg">
+          <div className="flex items-center space-x-2 text-sm text-gray-400 mb-2">
+            <Clock className="w-4 h-4 text-orange-400" />
+            <span>Avg Holding Time</span>
+          </div>
+          <div className="text-2xl font-bold text-white">{formatHoldingTime(totals.avgHoldingHours)}</div>
+          <div className="text-xs text-gray-500 mt-1">{pnl.swapsAnalyzed} swap{pnl.swapsAnalyzed === 1 ? '' : 's'} analyzed</div>
+        </div>
+      </div>
+
+      {/* Per-token breakdown */}
+      <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-white">
+            <TrendingUp className="w-5 h-5 text-green-400" />
+            <span>PnL by Token</span>
+            <Badge className="bg-green-600/20 text-green-300 border-green-600/30">
+              FIFO
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {pnl.tokens.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-zinc-800">
+                    <th className="py-2 pr-4 font-medium">Token</th>
+                    <th className="py-2 pr-4 font-medium text-right">Buys / Sells</th>
+                    <th className="py-2 pr-4 font-medium text-right">Realized</th>
+                    <th className="py-2 pr-4 font-medium text-right">Unrealized</th>
+                    <th className="py-2 pr-4 font-medium text-right">Holding</th>
+                    <th className="py-2 pr-4 font-medium text-right">Win Rate</th>
+                    <th className="py-2 font-medium text-right">Avg Hold</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pnl.tokens.map(token => (
+                    <tr key={token.contractAddress} className="border-b border-zinc-800/50 hover:bg-zinc-800/30">
+                      <td className="py-2 pr-4">
+                        <a
+                          href={`${SUPPORTED_CHAINS[chain].explorerUrl}/token/${token.contractAddress}?a=${address}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-white hover:text-blue-300 hover:underline font-medium"
+                        >
+                          {token.symbol}
+                        </a>
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-300">{token.buys} / {token.sells}</td>
+                      <td className={`py-2 pr-4 text-right ${pnlColor(token.realizedPnlUsd)}`}>{formatPnl(token.realizedPnlUsd)}</td>
+                      <td className={`py-2 pr-4 text-right ${pnlColor(token.unrealizedPnlUsd)}`}>
+                        {token.unrealizedPnlUsd !== null ? formatPnl(token.unrealizedPnlUsd) : 'Unpriced'}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-300">
+                        {token.holdingAmount > 0 ? token.holdingAmount.toLocaleString('en-US', { maximumFractionDigits: 4 }) : '—'}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-300">
+                        {token.closedTrades > 0 ? `${Math.round((token.wins / token.closedTrades) * 100)}%` : 'N/A'}
+                      </td>
+                      <td className="py-2 text-right text-gray-300">{formatHoldingTime(token.avgHoldingHours)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center text-gray-400 p-8">
+              No swaps found on {SUPPORTED_CHAINS[chain].name}
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500 space-y-1 mt-4">
+            <p>Tokens received by plain transfer have no known cost and are left out of PnL when sold.</p>
+            {pnl.unpricedSwaps > 0 && (
+              <p>{pnl.unpricedSwaps} swap{pnl.unpricedSwaps === 1 ? '' : 's'} could not be valued at trade time.</p>
+            )}
+            {!pnl.complete && (
+              <p>
+                History truncated at Etherscan&apos;s 10,000 transfer window
+                {pnl.since ? `: trades since ${new Date(pnl.since * 1000).toLocaleDateString()} are analyzed` : ''}; older positions have no known cost.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
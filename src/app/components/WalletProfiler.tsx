@@ -6,9 +6,17 @@
  * 
  * Features:
  * - Real-time wallet profile creation from Etherscan API data
- * - Portfolio breakdown (tokens, NFTs, diversification)
+ * - Portfolio breakdown (tokens, NFTs by collection, diversification)
+ * - Net worth over time reconstructed from transfer history
  * - Transaction history and behavior patterns
+ * - Trading performance: FIFO realized/unrealized PnL, win rate and holding time
+ * - Full history paging ("load older") and lifetime transaction stats
+ * - Internal transactions merged into one activity timeline, linked to their parent transactions
+ * - Decoded, readable calls and DeFi categories from ABIs and selectors
+ * - Counterparty labels and per-protocol activity from the Base protocol registry
+ * - Force-directed counterparty graph of all native, internal and ERC-20 flows
  * - Risk assessment and network activity
+ * - Link into the side-by-side wallet comparison view
  * - Base blockchain focused analytics
  * - Real-time Basescan API integration for live data
  * 
@@ -21,6 +29,9 @@
 import { SocialProfile } from "thirdweb/social";
 import { MediaRenderer } from "thirdweb/react";
 import { client } from "../client";
+import { CounterpartyGraph } from "./CounterpartyGraph";
+import { PortfolioHistoryChart } from "./PortfolioHistoryChart";
+import { WalletPerformance } from "./WalletPerformance";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -40,119 +51,48 @@ import {
   Coins,
   Database,
   Copy,
-  Check
+  Check,
+  ArrowLeftRight
 } from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
 import { useEffect, useState, useCallback } from "react";
 import toast from "react-hot-toast";
+import { ChainKey, CHAIN_KEYS, DEFAULT_CHAIN, SUPPORTED_CHAINS } from "@/lib/chains";
+import { categorizeCall, CallCategory } from "@/lib/signatures";
+import {
+  buildActivityTimeline,
+  createWalletProfile,
+  EtherscanData,
+  fetchDecodedCalls,
+  fetchWalletData,
+  TimelineEntry,
+  toTransactionData,
+  TransactionData,
+  WalletProfile
+} from "@/lib/wallet-profile";
+import {
+  getCounterparty,
+  getProtocolCallCategory,
+  getProtocolLogo,
+  ProtocolContract,
+  resolveProtocol,
+  summarizeProtocolActivity
+} from "@/lib/protocols";
 
 /**
- * Transaction data interface from Etherscan API
+ * OpenSea page for a collection or a single token
  */
-interface TransactionData {
-  hash: string;
-  from: string;
-  to: string;
-  value: string;
-  gasPrice: string;
-  gasUsed: string;
-  timestamp: string;
-  blockNumber: string;
-  methodId: string;
-  functionName?: string;
-  isError: boolean;
-}
-
-/**
- * Token data interface from Etherscan API
- */
-interface TokenData {
-  contractAddress: string;
-  tokenSymbol?: string;
-  tokenName?: string;
-  tokenDecimal?: string;
-  balanceFormatted?: string;
-}
+const getOpenSeaUrl = (chain: ChainKey, contractAddress: string, tokenId?: string): string =>
+  `https://opensea.io/assets/${SUPPORTED_CHAINS[chain].openseaSlug}/${contractAddress}${tokenId ? `/${tokenId}` : ''}`;
 
 /**
- * Wallet data interface from Etherscan API
+ * Zora page for a collection or a single token, or null if Zora doesn't index the chain
  */
-interface WalletData {
-  address: string;
-  balance: string;
-  transactionCount: number;
-  ethBalance?: {
-    wei: string;
-    eth: string;
-    formatted: string;
-  };
-}
-
-/**
- * Etherscan API response data
- */
-interface EtherscanData {
-  wallet: WalletData;
-  transactions: TransactionData[];
-  tokens: TokenData[];
-}
-
-/**
- * Simple wallet profile interface for Etherscan data
- */
-interface WalletProfile {
-  address: string;
-  label: string;
-  category: string;
-  confidence: number;
-  totalValue: number;
-  totalTransactions: number;
-  firstSeen: string;
-  lastActivity: string;
-  behaviorPatterns: {
-    tradingFrequency: string;
-    avgTransactionSize: number;
-    preferredTokens: string[];
-    tradingHours: string[];
-    weekendActivity: boolean;
-  };
-  portfolio: {
-    tokens: Array<{
-      symbol: string;
-      balance: number;
-      value: number;
-      percentage: number;
-    }>;
-    nfts: unknown[];
-    totalValue: number;
-    diversification: number;
-  };
-  transactionHistory: {
-    totalTxs: number;
-    successfulTxs: number;
-    failedTxs: number;
-    avgGasUsed: number;
-    avgGasPrice: number;
-  };
-  networkActivity: {
-    ethereum: number;
-    polygon: number;
-    arbitrum: number;
-    optimism: number;
-    base: number;
-  };
-  recent_transactions: Array<{
-    hash: string;
-    value: string;
-    tokenSymbol: string;
-    type: string;
-    timestamp: number;
-    from: string;
-    to: string;
-    methodId: string;
-    functionName: string;
-    blockNumber: string;
-  }>;
-}
+const getZoraUrl = (chain: ChainKey, contractAddress: string, tokenId?: string): string | null =>
+  SUPPORTED_CHAINS[chain].zoraSlug
+    ? `https://zora.co/collect/${SUPPORTED_CHAINS[chain].zoraSlug}:${contractAddress}${tokenId ? `/${tokenId}` : ''}`
+    : null;
 
 /**
  * Props interface for WalletProfiler component
@@ -162,12 +102,39 @@ interface WalletProfile {
  * @property {string} searchedAddress - The resolved wallet address being analyzed
  * @property {string} originalSearchTerm - The original search term entered by user
  * @property {() => void} onShare - Callback function to handle profile sharing
+ * @property {(address: string) => void} [onSearchAddress] - Callback to pivot the search to another address
  */
 interface WalletProfilerProps {
   profiles: SocialProfile[];
   searchedAddress: string;
   originalSearchTerm: string;
   onShare: () => void;
+  onSearchAddress?: (address: string) => void;
+}
+
+/**
+ * Protocol logo and name for a registered counterparty contract
+ *
+ * @param {{ match: ProtocolContract }} props - Registry match to display
+ * @returns JSX.Element - Inline protocol label
+ */
+function ProtocolLabel({ match }: { match: ProtocolContract }) {
+  return (
+    <span className="inline-flex items-center space-x-1.5 min-w-0" title={`${match.protocol.name} ${match.label} (${match.address})`}>
+      <Image
+        src={getProtocolLogo(match.protocol)}
+        alt={match.protocol.name}
+        width={16}
+        height={16}
+        className="w-4 h-4 rounded-full flex-shrink-0"
+        onError={(e) => {
+          const target = e.target as HTMLImageElement;
+          target.src = getProtocolLogo({ ...match.protocol, logo: null });
+        }}
+      />
+      <span className="text-purple-300 truncate">{match.protocol.name}</span>
+    </span>
+  );
 }
 
 /**
@@ -182,7 +149,7 @@ interface WalletProfilerProps {
  * @param {WalletProfilerProps} props - Component props
  * @returns JSX.Element - Complete wallet profiling dashboard
  */
-export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletProfilerProps) {
+export function WalletProfiler({ profiles, searchedAddress, onShare, onSearchAddress }: WalletProfilerProps) {
   // Component state management
   const [walletProfile, setWalletProfile] = useState<WalletProfile | null>(null); // Wallet profile data
   const [isLoading, setIsLoading] = useState(true); // Loading state for API calls
@@ -193,9 +160,14 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
   const [hasInitiallyLoaded, setHasInitiallyLoaded] = useState(false); // Track if data has been loaded for current address
   const [addressCopied, setAddressCopied] = useState(false); // Track if address was copied
   const [loadingProgress, setLoadingProgress] = useState(0); // Track loading progress
+  const [selectedChain, setSelectedChain] = useState<ChainKey>(DEFAULT_CHAIN); // Chain the wallet is profiled on
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false); // Loading state for older history pages
+  const [isLoadingStats, setIsLoadingStats] = useState(false); // Loading state for lifetime stats
+
+  const chainConfig = SUPPORTED_CHAINS[selectedChain];
 
-  // Persistent cache key for localStorage
-  const getCacheKey = (address: string) => `wallet_profiler_${address.toLowerCase()}`;
+  // Persistent cache key for localStorage (one entry per address and chain)
+  const getCacheKey = (address: string, chain: ChainKey) => `wallet_profiler_${chain}_${address.toLowerCase()}`;
   
   // Cache duration: 30 minutes for persistent caching
   const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
@@ -204,9 +176,9 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
   const primaryProfile = profiles.find(p => p.avatar) || profiles[0];
 
   // Save data to localStorage cache
-  const saveToCache = useCallback((address: string, data: EtherscanData, profile: WalletProfile, fetchTime: number) => {
+  const saveToCache = useCallback((address: string, chain: ChainKey, data: EtherscanData, profile: WalletProfile, fetchTime: number) => {
     try {
-      const cacheKey = getCacheKey(address);
+      const cacheKey = getCacheKey(address, chain);
       const cacheData = {
         realData: data,
         walletProfile: profile,
@@ -214,16 +186,16 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
         timestamp: Date.now()
       };
       localStorage.setItem(cacheKey, JSON.stringify(cacheData));
-      console.log('💾 Saved wallet profiler data to cache for:', address);
+      console.log('💾 Saved wallet profiler data to cache for:', address, 'on', chain);
     } catch (error) {
       console.warn('⚠️ Failed to save to cache:', error);
     }
   }, []);
 
   // Load data from localStorage cache
-  const loadFromCache = useCallback((address: string): { realData: EtherscanData; walletProfile: WalletProfile; lastFetchTime: number } | null => {
+  const loadFromCache = useCallback((address: string, chain: ChainKey): { realData: EtherscanData; walletProfile: WalletProfile; lastFetchTime: number } | null => {
     try {
-      const cacheKey = getCacheKey(address);
+      const cacheKey = getCacheKey(address, chain);
       const cached = localStorage.getItem(cacheKey);
       
       if (cached) {
@@ -249,178 +221,17 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
   }, [CACHE_DURATION]);
 
   // Create wallet profile from Etherscan data
-  // Helper function to get recent transactions (last 30 days)
-  const getRecentTransactions = (transactions: TransactionData[], days: number = 30, limit: number = 10): TransactionData[] => {
-    const cutoffTime = Math.floor(Date.now() / 1000) - (days * 24 * 60 * 60);
-    return transactions.filter(tx => {
-      const timestamp = typeof tx.timestamp === 'number' ? tx.timestamp : parseInt(tx.timestamp);
-      return timestamp > cutoffTime;
-    }).slice(0, limit); // Limit to specified number
-  };
-
-  const createWalletProfile = useCallback((realData: EtherscanData): WalletProfile => {
-    // Calculate first seen and last activity from real transaction data
-    let firstSeen = 'Unknown';
-    let lastActivity = 'Unknown';
-    
-    if (realData?.transactions && realData.transactions.length > 0) {
-      // Sort transactions by block number to get first and last (timestamps are incorrect)
-      const sortedTxs = realData.transactions.sort((a: TransactionData, b: TransactionData) => {
-        const blockA = parseInt(a.blockNumber || '0', 10);
-        const blockB = parseInt(b.blockNumber || '0', 10);
-        return blockA - blockB;
-      });
-      
-      // First transaction (oldest)
-      const firstTx = sortedTxs[0];
-      if (firstTx.blockNumber) {
-        // API timestamps are incorrect, so we'll show block-based info
-        const blockNumber = parseInt(firstTx.blockNumber, 10);
-        firstSeen = `Block ${blockNumber.toLocaleString()}`;
-      }
-      
-      // Last transaction (newest)
-      const lastTx = sortedTxs[sortedTxs.length - 1];
-      if (lastTx.blockNumber) {
-        const blockNumber = parseInt(lastTx.blockNumber, 10);
-        lastActivity = `Block ${blockNumber.toLocaleString()}`;
-      }
-    }
-
-    // Calculate more realistic behavior patterns
-    const totalTxs = realData?.wallet?.transactionCount || 0;
-    const recentTxs = realData?.transactions || [];
-    
-    // Calculate average transaction size more accurately (only non-zero value transactions)
-    const nonZeroTxs = recentTxs.filter(tx => parseFloat(tx.value || '0') > 0);
-    const avgTxSize = nonZeroTxs.length > 0 ? 
-      nonZeroTxs.reduce((sum: number, tx: TransactionData) => sum + parseFloat(tx.value || '0'), 0) / nonZeroTxs.length / Math.pow(10, 18) : 0;
-    
-    // Calculate additional transaction size metrics (used in display)
-    // const totalValueTxs = nonZeroTxs.length;
-    // const totalValueInETH = nonZeroTxs.reduce((sum: number, tx: TransactionData) => sum + parseFloat(tx.value || '0'), 0) / Math.pow(10, 18);
-    // const maxTxSize = nonZeroTxs.length > 0 ? Math.max(...nonZeroTxs.map(tx => parseFloat(tx.value || '0') / Math.pow(10, 18))) : 0;
-    // const minTxSize = nonZeroTxs.length > 0 ? Math.min(...nonZeroTxs.map(tx => parseFloat(tx.value || '0') / Math.pow(10, 18))) : 0;
-
-    // Calculate trading frequency based on actual time periods and transaction patterns
-    let tradingFrequency = 'Very Low';
-    if (recentTxs.length > 0) {
-      // Sort transactions by timestamp to get time range
-      const sortedTxs = recentTxs.sort((a: TransactionData, b: TransactionData) => {
-        const timeA = typeof a.timestamp === 'number' ? a.timestamp : parseInt(a.timestamp);
-        const timeB = typeof b.timestamp === 'number' ? b.timestamp : parseInt(b.timestamp);
-        return timeA - timeB;
-      });
-
-      const firstTx = sortedTxs[0];
-      const lastTx = sortedTxs[sortedTxs.length - 1];
-      
-      if (firstTx && lastTx) {
-        const firstTime = typeof firstTx.timestamp === 'number' ? firstTx.timestamp : parseInt(firstTx.timestamp);
-        const lastTime = typeof lastTx.timestamp === 'number' ? lastTx.timestamp : parseInt(lastTx.timestamp);
-        
-        // Calculate time span in days
-        const timeSpanDays = Math.max(1, (lastTime - firstTime) / (24 * 60 * 60));
-        
-        // Calculate transactions per day
-        const txsPerDay = recentTxs.length / timeSpanDays;
-        
-        // Determine frequency based on actual transaction rate
-        if (txsPerDay >= 10) tradingFrequency = 'Very High';
-        else if (txsPerDay >= 5) tradingFrequency = 'High';
-        else if (txsPerDay >= 1) tradingFrequency = 'Medium';
-        else if (txsPerDay >= 0.1) tradingFrequency = 'Low';
-        else tradingFrequency = 'Very Low';
-      }
-    } else if (totalTxs > 0) {
-      // Fallback to total transaction count if no recent transactions available
-      if (totalTxs > 1000) tradingFrequency = 'Very High';
-      else if (totalTxs > 500) tradingFrequency = 'High';
-      else if (totalTxs > 100) tradingFrequency = 'Medium';
-      else if (totalTxs > 20) tradingFrequency = 'Low';
-      else tradingFrequency = 'Very Low';
-    }
-
-    // Determine wallet category based on transaction patterns
-    let category = 'Individual';
-    if (totalTxs > 1000) category = 'Active Trader';
-    else if (totalTxs > 100) category = 'Regular User';
-    else if (totalTxs < 10) category = 'Low Activity';
-
-    return {
-      address: searchedAddress,
-      label: primaryProfile?.name || 'Base Wallet',
-      category: category,
-      confidence: 1.0, // Using real data from Etherscan
-      totalValue: realData?.wallet?.balance ? parseFloat(realData.wallet.balance) : 0, // Balance already in ETH format
-      totalTransactions: totalTxs,
-      firstSeen: firstSeen,
-      lastActivity: lastActivity,
-      behaviorPatterns: {
-        tradingFrequency: tradingFrequency,
-        avgTransactionSize: avgTxSize,
-        preferredTokens: realData?.tokens?.slice(0, 3).map((token: TokenData) => token.tokenSymbol || 'Unknown') || [],
-        tradingHours: [],
-        weekendActivity: realData?.transactions?.some((tx: TransactionData) => {
-          const timestamp = typeof tx.timestamp === 'number' ? tx.timestamp : parseInt(tx.timestamp);
-          const date = new Date(timestamp * 1000);
-          const dayOfWeek = date.getDay();
-          return dayOfWeek === 0 || dayOfWeek === 6; // Sunday or Saturday
-        }) || false
-      },
-      portfolio: {
-        tokens: realData?.tokens?.map((token: TokenData) => {
-          const balance = parseFloat(token.balanceFormatted);
-          const tokenValue = balance; // Raw balance value (would need price API for USD value)
-          return {
-            symbol: token.tokenSymbol,
-            balance: balance,
-            value: tokenValue,
-            percentage: realData?.tokens?.length > 0 ? Math.round((balance / realData.tokens.reduce((sum, t) => sum + parseFloat(t.balanceFormatted), 0)) * 100) : 0
-          };
-        }) || [],
-        nfts: [],
-        totalValue: realData?.wallet?.balance ? parseFloat(realData.wallet.balance) : 0, // Balance already in ETH format
-        diversification: realData?.tokens?.length > 0 ? Math.min(realData.tokens.length * 10, 100) : 0 // Based on actual token count
-      },
-      transactionHistory: {
-        totalTxs: realData?.wallet?.transactionCount || 0,
-        successfulTxs: realData?.transactions?.filter((tx: TransactionData) => !tx.isError).length || 0,
-        failedTxs: realData?.transactions?.filter((tx: TransactionData) => tx.isError).length || 0,
-        avgGasUsed: realData?.transactions?.length > 0 ? 
-          Math.round(realData.transactions.reduce((sum: number, tx: TransactionData) => sum + parseInt(tx.gasUsed || '0'), 0) / realData.transactions.length) : 0,
-        avgGasPrice: realData?.transactions?.length > 0 ?
-          Math.round((realData.transactions.reduce((sum: number, tx: TransactionData) => sum + parseInt(tx.gasPrice || '0'), 0) / realData.transactions.length / Math.pow(10, 9)) * 100) / 100 : 0
-      },
-      networkActivity: {
-        ethereum: 0,
-        polygon: 0,
-        arbitrum: 0,
-        optimism: 0,
-        base: 100
-      },
-      recent_transactions: realData?.transactions ? getRecentTransactions(realData.transactions, 30, 6).map((tx: TransactionData) => ({
-        hash: tx.hash,
-        value: tx.value,
-        tokenSymbol: 'ETH',
-        type: tx.isError ? 'Failed' : 'Success',
-        timestamp: typeof tx.timestamp === 'number' ? tx.timestamp : parseInt(tx.timestamp),
-        from: tx.from,
-        to: tx.to,
-        methodId: tx.methodId,
-        functionName: tx.functionName,
-        blockNumber: tx.blockNumber
-      })) : []
-    };
-  }, [searchedAddress, primaryProfile?.name]);
+  const createProfile = useCallback((realData: EtherscanData): WalletProfile =>
+    createWalletProfile(realData, { address: searchedAddress, chain: selectedChain, label: primaryProfile?.name }),
+  [searchedAddress, primaryProfile?.name, selectedChain]);
 
   // Fetch real Etherscan data with persistent caching
   const fetchRealData = useCallback(async (address: string, forceRefresh: boolean = false) => {
     // First, try to load from persistent cache
     if (!forceRefresh) {
-      const cachedData = loadFromCache(address);
+      const cachedData = loadFromCache(address, selectedChain);
       if (cachedData) {
-        console.log('📦 Using persistent cache for:', address);
+        console.log('📦 Using persistent cache for:', address, 'on', selectedChain);
         setRealData(cachedData.realData);
         setWalletProfile(cachedData.walletProfile);
         setLastFetchTime(cachedData.lastFetchTime);
@@ -439,67 +250,31 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
     setIsLoadingRealData(true);
     setLoadingProgress(10);
     try {
-      console.log('🔍 Fetching real Etherscan data for:', address);
-      
-      // Fetch all data in parallel for faster loading
-      console.log('📡 Fetching all data in parallel...');
-      setLoadingProgress(30);
-      
-      const [walletResponse, transactionsResponse, tokensResponse] = await Promise.allSettled([
-        fetch(`/api/etherscan/wallet?address=${address}`),
-        fetch(`/api/etherscan/transactions?address=${address}&offset=50&page=1`),
-        fetch(`/api/etherscan/tokens?address=${address}&type=balances`)
-      ]);
-      
-      setLoadingProgress(70);
-
-      // Process responses
-      const walletData = walletResponse.status === 'fulfilled' ? await walletResponse.value.json() : { success: false, data: null };
-      const transactionsData = transactionsResponse.status === 'fulfilled' ? await transactionsResponse.value.json() : { success: false, data: [] };
-      const tokensData = tokensResponse.status === 'fulfilled' ? await tokensResponse.value.json() : { success: false, data: [] };
-
-      // Handle successful data loading
-      const hasWalletData = walletData.success && walletData.data;
-      const hasTransactionData = transactionsData.success && transactionsData.data;
-      const hasTokenData = tokensData.success && tokensData.data;
-
-      if (hasWalletData || hasTransactionData || hasTokenData) {
-        const newRealData = {
-          wallet: hasWalletData ? {
-            ...walletData.data,
-            balance: walletData.data.ethBalance?.eth || walletData.data.balance || '0'
-          } : null,
-          transactions: hasTransactionData ? transactionsData.data : [],
-          tokens: hasTokenData ? tokensData.data : []
-        };
-        
-        setRealData(newRealData);
-        
-        console.log('✅ Etherscan data loaded (partial success allowed):', {
-          wallet: hasWalletData,
-          transactions: hasTransactionData,
-          tokens: hasTokenData,
-          balance: hasWalletData ? (walletData.data.ethBalance?.eth || walletData.data.balance) : 'N/A',
-          transactionCount: hasWalletData ? walletData.data.transactionCount : 0,
-          tokenCount: hasTokenData ? tokensData.data.length : 0
+      console.log('🔍 Fetching real Etherscan data for:', address, 'on', selectedChain);
+      const newRealData = await fetchWalletData(address, selectedChain, { forceRefresh, onProgress: setLoadingProgress });
+      setRealData(newRealData);
+
+      console.log('✅ Etherscan data loaded (partial success allowed):', {
+        transactions: newRealData.transactions.length,
+        internalTransactions: newRealData.internalTransactions.length,
+        balance: newRealData.wallet?.balance ?? 'N/A',
+        transactionCount: newRealData.wallet?.transactionCount ?? 0,
+        tokenCount: newRealData.tokens.length,
+        nftCollections: newRealData.nfts.length
+      });
+
+      // Show success notification with partial data info
+      const balance = newRealData.wallet?.balance || '0';
+      if (parseFloat(balance) > 0) {
+        toast.success(`Wallet data loaded: ${parseFloat(balance).toFixed(4)} ${SUPPORTED_CHAINS[selectedChain].nativeSymbol}`, {
+          duration: 3000,
+          icon: '💰',
         });
-        
-        // Show success notification with partial data info
-        const balance = hasWalletData ? (walletData.data.ethBalance?.eth || walletData.data.balance || '0') : '0';
-        if (parseFloat(balance) > 0) {
-          toast.success(`Wallet data loaded: ${parseFloat(balance).toFixed(4)} ETH`, {
-            duration: 3000,
-            icon: '💰',
-          });
-        } else {
-          toast.success('Wallet data loaded successfully', {
-            duration: 3000,
-            icon: '✅',
-          });
-        }
       } else {
-        // All API calls failed
-        throw new Error('All API calls failed to fetch wallet data');
+        toast.success('Wallet data loaded successfully', {
+          duration: 3000,
+          icon: '✅',
+        });
       }
       
       // Update cache timestamp
@@ -547,8 +322,101 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
       setIsLoadingRealData(false);
       setLoadingProgress(0);
     }
-  }, [lastFetchTime, setLastFetchTime, setIsLoadingRealData, CACHE_DURATION, loadFromCache]);
+  }, [lastFetchTime, setLastFetchTime, setIsLoadingRealData, CACHE_DURATION, loadFromCache, selectedChain]);
+
+
+  // Load the next (older) page of transaction history and rebuild the profile with it
+  const loadOlderTransactions = useCallback(async () => {
+    if (!realData?.historyCursor || isLoadingHistory) return;
+
+    setIsLoadingHistory(true);
+    try {
+      console.log('📜 Loading older transactions for:', searchedAddress);
+      const response = await fetch(
+        `/api/etherscan/history?address=${searchedAddress}&limit=100&chain=${selectedChain}&cursor=${encodeURIComponent(realData.historyCursor)}`
+      );
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.details || data.error || 'Failed to load older transactions');
+      }
+
+      const olderTransactions: TransactionData[] = data.data.map(toTransactionData);
+      const olderCalls = await fetchDecodedCalls(olderTransactions, selectedChain);
+      setRealData({
+        ...realData,
+        transactions: [...realData.transactions, ...olderTransactions],
+        historyCursor: data.pagination?.nextCursor ?? null,
+        decodedCalls: { ...realData.decodedCalls, ...olderCalls }
+      });
+      setWalletProfile(null); // Recomputed (and re-cached) from the extended history
+    } catch (error) {
+      console.error('❌ Error loading older transactions:', error);
+      toast.error('Failed to load older transactions', {
+        duration: 3000,
+        icon: '⚠️',
+      });
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [realData, isLoadingHistory, searchedAddress, selectedChain]);
+
+  // Walk the full history server-side and attach lifetime stats to the profile
+  const loadLifetimeStats = useCallback(async () => {
+    if (!realData || isLoadingStats) return;
+
+    setIsLoadingStats(true);
+    try {
+      console.log('📈 Computing lifetime stats for:', searchedAddress);
+      const response = await fetch(`/api/etherscan/history/stats?address=${searchedAddress}&chain=${selectedChain}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.details || data.error || 'Failed to compute lifetime stats');
+      }
+
+      setRealData({ ...realData, lifetimeStats: data.data });
+      setWalletProfile(null); // Recomputed (and re-cached) with lifetime totals
+    } catch (error) {
+      console.error('❌ Error computing lifetime stats:', error);
+      toast.error('Failed to compute lifetime stats', {
+        duration: 3000,
+        icon: '⚠️',
+      });
+    } finally {
+      setIsLoadingStats(false);
+    }
+  }, [realData, isLoadingStats, searchedAddress, selectedChain]);
 
+  // Registered protocol on the other side of a transaction, if any
+  const getCounterpartyProtocol = (tx: { from: string; to: string }): ProtocolContract | null =>
+    resolveProtocol(getCounterparty(tx, searchedAddress), selectedChain);
+
+  // Interactions and native volume per registered protocol
+  const protocolActivity = realData?.transactions
+    ? summarizeProtocolActivity(realData.transactions, searchedAddress, selectedChain)
+    : [];
+
+  // Names of the detected protocols in a category, for the DeFi analysis hints
+  const getProtocolNames = (category: CallCategory): string => {
+    const names = protocolActivity
+      .filter(({ protocol }) => getProtocolCallCategory(protocol) === category)
+      .map(({ protocol }) => protocol.name);
+    return names.length > 0 ? names.join(', ') : 'No known protocols';
+  };
+
+  // Activity category of a transaction: the called protocol's category when registered,
+  // else decoded when available, else from the selector and method name
+  const getCallCategory = (tx: TransactionData): CallCategory => {
+    const match = resolveProtocol(tx.to, selectedChain);
+    return (match ? getProtocolCallCategory(match.protocol) : null)
+      ?? realData?.decodedCalls?.[tx.hash]?.category
+      ?? categorizeCall(tx.input ? tx.input.slice(0, 10) : tx.methodId, tx.functionName);
+  };
+
+  // Readable call for display, e.g. swapExactETHForTokens(amountOutMin, path[WETH→DEGEN], ...)
+  const getReadableCall = (tx: { hash: string; functionName?: string }, fallback: string): string =>
+    realData?.decodedCalls?.[tx.hash]?.readable || tx.functionName?.split('(')[0] || fallback;
 
   // Copy address to clipboard function
   const handleCopyAddress = async () => {
@@ -587,14 +455,15 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
    * @effect
    * @dependencies [searchedAddress] - Re-runs when address changes
    */
-  // Reset initial load flag when address changes
+  // Reset initial load flag when address or chain changes
   useEffect(() => {
     if (searchedAddress) {
       setHasInitiallyLoaded(false);
       setWalletProfile(null);
       setRealData(null);
+      setLastFetchTime(null);
     }
-  }, [searchedAddress]);
+  }, [searchedAddress, selectedChain]);
 
   useEffect(() => {
     if (searchedAddress && !hasInitiallyLoaded) {
@@ -604,9 +473,9 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
       setHasInitiallyLoaded(true);
       
       // First check if we have cached data
-      const cachedData = loadFromCache(searchedAddress);
+      const cachedData = loadFromCache(searchedAddress, selectedChain);
       if (cachedData) {
-        console.log('📦 Loading cached wallet profiler data for:', searchedAddress);
+        console.log('📦 Loading cached wallet profiler data for:', searchedAddress, 'on', selectedChain);
         setRealData(cachedData.realData);
         setWalletProfile(cachedData.walletProfile);
         setLastFetchTime(cachedData.lastFetchTime);
@@ -623,21 +492,21 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
       setIsLoading(false);
       setError(null);
     }
-  }, [searchedAddress, hasInitiallyLoaded, realData, fetchRealData, loadFromCache]);
+  }, [searchedAddress, hasInitiallyLoaded, realData, fetchRealData, loadFromCache, selectedChain]);
 
   // Create wallet profile when real data is available
   useEffect(() => {
     if (realData && !walletProfile) {
       console.log('📊 Creating wallet profile from Etherscan data');
-      const profile = createWalletProfile(realData);
+      const profile = createProfile(realData);
       setWalletProfile(profile);
       
       // Save to persistent cache when profile is created
       const fetchTime = Date.now();
-      saveToCache(searchedAddress, realData, profile, fetchTime);
+      saveToCache(searchedAddress, selectedChain, realData, profile, fetchTime);
       setLastFetchTime(fetchTime);
     }
-  }, [realData, createWalletProfile, walletProfile, searchedAddress, saveToCache]);
+  }, [realData, createProfile, walletProfile, searchedAddress, saveToCache, selectedChain]);
 
   if (isLoading) {
     return (
@@ -775,15 +644,47 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                   )}
                 </Button>
                 <Button
-                  onClick={() => window.open(`https://basescan.org/address/${searchedAddress}`, '_blank', 'noopener,noreferrer')}
+                  onClick={() => window.open(`${chainConfig.explorerUrl}/address/${searchedAddress}`, '_blank', 'noopener,noreferrer')}
                   variant="outline"
                   size="sm"
                   className="bg-blue-600/20 text-blue-300 hover:bg-blue-600/30 border-blue-500/50 h-8 px-3"
                 >
                   <ExternalLink className="w-4 h-4 mr-1" />
-                  BaseScan
+                  Explorer
+                </Button>
+                <Button
+                  asChild
+                  variant="outline"
+                  size="sm"
+                  className="bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 border-purple-500/50 h-8 px-3"
+                >
+                  <Link href={`/compare?addresses=${searchedAddress}&chain=${selectedChain}`}>
+                    <ArrowLeftRight className="w-4 h-4 mr-1" />
+                    Compare
+                  </Link>
                 </Button>
               </div>
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                {CHAIN_KEYS.map(chain => (
+                  <Button
+                    key={chain}
+                    onClick={() => setSelectedChain(chain)}
+                    disabled={isLoadingRealData}
+                    variant="outline"
+                    size="sm"
+                    className={`h-7 px-3 text-xs ${
+                      chain === selectedChain
+                        ? 'bg-blue-600 text-white border-blue-500 hover:bg-blue-600'
+                        : 'bg-zinc-800/50 text-zinc-300 hover:bg-zinc-700/50 border-zinc-700/50'
+                    }`}
+                  >
+                    {SUPPORTED_CHAINS[chain].name}
+                    {walletProfile.networkActivity[chain] > 0 && (
+                      <span className="ml-1 text-[10px] opacity-75">{walletProfile.networkActivity[chain]}%</span>
+                    )}
+                  </Button>
+                ))}
+              </div>
               <div className="flex items-center space-x-4 text-sm text-gray-300">
                 <span>Confidence: {Math.round(walletProfile.confidence * 100)}%</span>
                 <span>•</span>
@@ -804,7 +705,7 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
 
       {/* Main Content Tabs */}
       <Tabs defaultValue="overview" className="w-full">
-        <TabsList className="grid w-full grid-cols-5 bg-zinc-900/40 border-zinc-800/60">
+        <TabsList className="grid w-full grid-cols-6 bg-zinc-900/40 border-zinc-800/60">
           <TabsTrigger value="overview" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white">
             Overview
           </TabsTrigger>
@@ -817,6 +718,9 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
           <TabsTrigger value="analytics" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white">
             Analytics
           </TabsTrigger>
+          <TabsTrigger value="performance" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white">
+            Performance
+          </TabsTrigger>
           <TabsTrigger value="insights" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white">
             Insights
           </TabsTrigger>
@@ -843,9 +747,9 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                         <div className="text-white font-medium">Trading Frequency</div>
                         <div className="text-gray-400 text-sm">
                           {(() => {
-                            const recentTxs = realData?.transactions || [];
+                            const recentTxs = buildActivityTimeline(realData?.transactions || [], realData?.internalTransactions);
                             if (recentTxs.length > 0) {
-                              const sortedTxs = recentTxs.sort((a: TransactionData, b: TransactionData) => {
+                              const sortedTxs = recentTxs.sort((a: TimelineEntry, b: TimelineEntry) => {
                                 const timeA = typeof a.timestamp === 'number' ? a.timestamp : parseInt(a.timestamp);
                                 const timeB = typeof b.timestamp === 'number' ? b.timestamp : parseInt(b.timestamp);
                                 return timeA - timeB;
@@ -857,7 +761,7 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                                 const lastTime = typeof lastTx.timestamp === 'number' ? lastTx.timestamp : parseInt(lastTx.timestamp);
                                 const timeSpanDays = Math.max(1, (lastTime - firstTime) / (24 * 60 * 60));
                                 const txsPerDay = (recentTxs.length / timeSpanDays).toFixed(2);
-                                return `${txsPerDay} transactions/day (${recentTxs.length} recent txs)`;
+                                return `${txsPerDay} transfers/day (${recentTxs.length} recent, incl. internal)`;
                               }
                             }
                             return `Based on ${walletProfile.totalTransactions} total transactions`;
@@ -887,7 +791,7 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                             if (nonZeroTxs.length > 0) {
                               const maxTxSize = Math.max(...nonZeroTxs.map(tx => parseFloat(tx.value || '0') / Math.pow(10, 18)));
                               const minTxSize = Math.min(...nonZeroTxs.map(tx => parseFloat(tx.value || '0') / Math.pow(10, 18)));
-                              return `${nonZeroTxs.length} value txs • Range: ${minTxSize.toFixed(4)}-${maxTxSize.toFixed(4)} ETH`;
+                              return `${nonZeroTxs.length} value txs • Range: ${minTxSize.toFixed(4)}-${maxTxSize.toFixed(4)} ${chainConfig.nativeSymbol}`;
                             }
                             return 'No value transactions found';
                           })()}
@@ -897,7 +801,7 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                     <div className="text-right">
                       <div className="text-white font-semibold">
                         {walletProfile.behaviorPatterns.avgTransactionSize > 0 
-                          ? walletProfile.behaviorPatterns.avgTransactionSize.toFixed(6) + ' ETH'
+                          ? walletProfile.behaviorPatterns.avgTransactionSize.toFixed(6) + ` ${chainConfig.nativeSymbol}`
                           : 'No value txs'
                         }
                       </div>
@@ -906,7 +810,7 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                           {(() => {
                             const nonZeroTxs = realData?.transactions?.filter(tx => parseFloat(tx.value || '0') > 0) || [];
                             const totalValueInETH = nonZeroTxs.reduce((sum: number, tx: TransactionData) => sum + parseFloat(tx.value || '0'), 0) / Math.pow(10, 18);
-                            return `Total: ${totalValueInETH.toFixed(4)} ETH`;
+                            return `Total: ${totalValueInETH.toFixed(4)} ${chainConfig.nativeSymbol}`;
                           })()}
                         </div>
                       )}
@@ -946,6 +850,8 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
         </TabsContent>
 
         <TabsContent value="transactions" className="space-y-6">
+          <CounterpartyGraph address={searchedAddress} chain={selectedChain} onSelectAddress={onSearchAddress} />
+
           {/* Transaction History Stats */}
           <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
             <CardHeader>
@@ -978,12 +884,93 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
               </div>
               <div className="mt-4 p-3 bg-zinc-800/30 rounded-lg">
                 <div className="text-sm text-gray-400 text-center">
-                  Success/Failure rates based on recent 10 transactions • Total count from blockchain
+                  Success/Failure rates based on {realData?.transactions?.length || 0} loaded transactions • {realData?.lifetimeStats ? 'Total count from full history' : 'Total count is transactions sent'}
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Lifetime Stats */}
+          <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-white">
+                <div className="flex items-center space-x-2">
+                  <Calendar className="w-5 h-5 text-purple-400" />
+                  <span>Lifetime Stats</span>
+                  {realData?.lifetimeStats && !realData.lifetimeStats.complete && (
+                    <Badge className="bg-yellow-600/20 text-yellow-300 border-yellow-600/30">
+                      Partial
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  onClick={loadLifetimeStats}
+                  disabled={isLoadingStats}
+                  variant="outline"
+                  size="sm"
+                  className="bg-zinc-700 text-zinc-300 hover:bg-zinc-600 border-zinc-600"
+                >
+                  {isLoadingStats ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <BarChart3 className="w-4 h-4 mr-2" />}
+                  {realData?.lifetimeStats ? 'Recompute' : 'Compute'}
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {realData?.lifetimeStats ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
+                    <div className="text-2xl font-bold text-white">{realData.lifetimeStats.totalTransactions.toLocaleString()}</div>
+                    <div className="text-sm text-gray-400">
+                      {realData.lifetimeStats.sent.toLocaleString()} sent • {realData.lifetimeStats.received.toLocaleString()} received
+                    </div>
+                  </div>
+                  <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
+                    <div className="text-2xl font-bold text-green-400">
+                      {(parseFloat(realData.lifetimeStats.valueReceivedWei) / Math.pow(10, 18)).toFixed(4)}
+                    </div>
+                    <div className="text-sm text-gray-400">{chainConfig.nativeSymbol} Received</div>
+                  </div>
+                  <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
+                    <div className="text-2xl font-bold text-red-400">
+                      {(parseFloat(realData.lifetimeStats.valueSentWei) / Math.pow(10, 18)).toFixed(4)}
+                    </div>
+                    <div className="text-sm text-gray-400">{chainConfig.nativeSymbol} Sent</div>
+                  </div>
+                  <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
+                    <div className="text-2xl font-bold text-yellow-400">
+                      {(parseFloat(realData.lifetimeStats.gasSpentWei) / Math.pow(10, 18)).toFixed(5)}
+                    </div>
+                    <div className="text-sm text-gray-400">{chainConfig.nativeSymbol} Spent on Gas</div>
+                  </div>
+                  <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
+                    <div className="text-2xl font-bold text-blue-400">{realData.lifetimeStats.uniqueCounterparties.toLocaleString()}</div>
+                    <div className="text-sm text-gray-400">Counterparties</div>
+                  </div>
+                  <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
+                    <div className="text-2xl font-bold text-red-400">{realData.lifetimeStats.failed.toLocaleString()}</div>
+                    <div className="text-sm text-gray-400">Failed</div>
+                  </div>
+                  <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
+                    <div className="text-lg font-bold text-white">
+                      {realData.lifetimeStats.firstTimestamp ? new Date(realData.lifetimeStats.firstTimestamp).toLocaleDateString() : 'N/A'}
+                    </div>
+                    <div className="text-sm text-gray-400">{realData.lifetimeStats.complete ? 'First Transaction' : 'Oldest Scanned'}</div>
+                  </div>
+                  <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
+                    <div className="text-lg font-bold text-white">
+                      {realData.lifetimeStats.lastTimestamp ? new Date(realData.lifetimeStats.lastTimestamp).toLocaleDateString() : 'N/A'}
+                    </div>
+                    <div className="text-sm text-gray-400">Latest Transaction</div>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-sm text-gray-400 text-center p-4">
+                  Walk this wallet&apos;s full history to compute lifetime totals, value moved and gas spent.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Recent Transactions */}
           <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
             <CardHeader>
@@ -1010,22 +997,25 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                         </div>
                         <div className="flex-1 min-w-0">
                           <div className="text-white font-medium truncate">
-                            {tx.functionName || 'Contract Interaction'}
+                            {getReadableCall(tx, 'Contract Interaction')}
+                          </div>
+                          <div className="flex items-center space-x-2 text-sm min-w-0">
+                            <a
+                              href={`${chainConfig.explorerUrl}/tx/${tx.hash}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-400 hover:text-blue-300 truncate hover:underline"
+                            >
+                              {tx.hash.slice(0, 10)}...{tx.hash.slice(-6)}
+                            </a>
+                            {getCounterpartyProtocol(tx) && <ProtocolLabel match={getCounterpartyProtocol(tx)} />}
                           </div>
-                          <a
-                            href={`https://basescan.org/tx/${tx.hash}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-sm text-blue-400 hover:text-blue-300 truncate block hover:underline"
-                          >
-                            {tx.hash.slice(0, 10)}...{tx.hash.slice(-6)}
-                          </a>
                         </div>
                       </div>
                       <div className="text-right flex-shrink-0 ml-4">
-                        <div className="text-white font-semibold">{(parseFloat(tx.value || '0') / Math.pow(10, 18)).toFixed(6)} ETH</div>
+                        <div className="text-white font-semibold">{(parseFloat(tx.value || '0') / Math.pow(10, 18)).toFixed(6)} {chainConfig.nativeSymbol}</div>
                         <a
-                          href={`https://basescan.org/tx/${tx.hash}`}
+                          href={`${chainConfig.explorerUrl}/tx/${tx.hash}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-xs text-blue-400 hover:text-blue-300 hover:underline"
@@ -1049,6 +1039,100 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
               </div>
             </CardContent>
           </Card>
+
+          {/* Full History */}
+          <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-white">
+                <div className="flex items-center space-x-2">
+                  <Clock className="w-5 h-5 text-blue-400" />
+                  <span>Full History</span>
+                </div>
+                <div className="text-sm text-gray-400">
+                  {(realData?.transactions?.length || 0).toLocaleString()} loaded
+                  {realData?.internalTransactions?.length ? ` · ${realData.internalTransactions.length.toLocaleString()} internal` : ''}
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+                {buildActivityTimeline(realData?.transactions || [], realData?.internalTransactions)
+                  .map((entry: TimelineEntry) => {
+                    if (entry.kind === 'internal') return (
+                      <div key={entry.key} className="flex items-center justify-between p-2 ml-6 bg-zinc-800/30 border-l-2 border-purple-500/40 rounded-lg text-sm">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          <span className="text-purple-400">↳</span>
+                          <Badge className="bg-purple-600/20 text-purple-300 border-purple-600/30">Internal</Badge>
+                          <span className="text-gray-300 truncate text-xs">
+                            {entry.from?.toLowerCase() === searchedAddress.toLowerCase() ? 'to' : 'from'}{' '}
+                            {getCounterpartyProtocol(entry)
+                              ? <ProtocolLabel match={getCounterpartyProtocol(entry)} />
+                              : <span className="font-mono">{getCounterparty(entry, searchedAddress).slice(0, 6)}...{getCounterparty(entry, searchedAddress).slice(-4)}</span>}
+                          </span>
+                          <a
+                            href={`${chainConfig.explorerUrl}/tx/${entry.hash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300 hover:underline font-mono text-xs"
+                            title="Parent transaction"
+                          >
+                            in {entry.hash.slice(0, 10)}...{entry.hash.slice(-6)}
+                          </a>
+                        </div>
+                        <div className="flex items-center space-x-4 flex-shrink-0 ml-4">
+                          <span className={entry.isError ? 'text-red-400 line-through' : 'text-white'}>{(parseFloat(entry.value || '0') / Math.pow(10, 18)).toFixed(6)} {chainConfig.nativeSymbol}</span>
+                          <span className="text-gray-500 w-24 text-right">
+                            {new Date(parseInt(entry.timestamp, 10) * 1000).toLocaleDateString()}
+                          </span>
+                        </div>
+                      </div>
+                    );
+
+                    const tx = entry.transaction;
+                    return (
+                      <div key={tx.hash} className="flex items-center justify-between p-2 bg-zinc-800/50 rounded-lg text-sm">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          <span className={tx.isError ? 'text-red-400' : 'text-green-400'}>{tx.isError ? '✗' : '✓'}</span>
+                          <a
+                            href={`${chainConfig.explorerUrl}/tx/${tx.hash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300 hover:underline font-mono"
+                          >
+                            {tx.hash.slice(0, 10)}...{tx.hash.slice(-6)}
+                          </a>
+                          <span className="text-gray-300 truncate font-mono text-xs" title={realData?.decodedCalls?.[tx.hash]?.signature || tx.functionName}>
+                            {getReadableCall(tx, 'Transfer')}
+                          </span>
+                          {getCounterpartyProtocol(tx) && <ProtocolLabel match={getCounterpartyProtocol(tx)} />}
+                        </div>
+                        <div className="flex items-center space-x-4 flex-shrink-0 ml-4">
+                          <span className="text-white">{(parseFloat(tx.value || '0') / Math.pow(10, 18)).toFixed(6)} {chainConfig.nativeSymbol}</span>
+                          <span className="text-gray-500 w-24 text-right">
+                            {new Date(parseInt(tx.timestamp, 10) * 1000).toLocaleDateString()}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+              </div>
+              {realData?.historyCursor ? (
+                <Button
+                  onClick={loadOlderTransactions}
+                  disabled={isLoadingHistory}
+                  variant="outline"
+                  className="w-full mt-4 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 border-zinc-600"
+                >
+                  {isLoadingHistory ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Clock className="w-4 h-4 mr-2" />}
+                  Load older transactions
+                </Button>
+              ) : (
+                <div className="text-xs text-gray-500 text-center mt-4">
+                  Beginning of history reached
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
 
@@ -1119,7 +1203,25 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                {/* Net Worth */}
+                <div className="text-center p-6 bg-zinc-800/50 rounded-lg">
+                  <div className="w-12 h-12 bg-gradient-to-br from-yellow-500 to-orange-600 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <DollarSign className="w-6 h-6 text-white" />
+                  </div>
+                  <div className="text-2xl font-bold text-white mb-2">
+                    {realData?.valuation
+                      ? `$${walletProfile.portfolio.totalValue.toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+                      : 'N/A'}
+                  </div>
+                  <div className="text-sm text-gray-400">Net Worth (USD)</div>
+                  {realData?.valuation && realData.valuation.flaggedCount > 0 && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {realData.valuation.flaggedCount} illiquid token{realData.valuation.flaggedCount > 1 ? 's' : ''} excluded
+                    </div>
+                  )}
+                </div>
+
                 {/* ETH Balance */}
                 <div className="text-center p-6 bg-zinc-800/50 rounded-lg">
                   <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-cyan-600 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -1138,9 +1240,12 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                         return balance.toFixed(4);
                       }
                       return '0.0000';
-                    })()} ETH
+                    })()} {chainConfig.nativeSymbol}
+                  </div>
+                  <div className="text-sm text-gray-400">
+                    Native Balance
+                    {realData?.valuation?.native.priceUsd ? ` • $${realData.valuation.native.valueUsd.toLocaleString('en-US', { maximumFractionDigits: 2 })}` : ''}
                   </div>
-                  <div className="text-sm text-gray-400">Native Balance</div>
                 </div>
 
                 {/* Token Count */}
@@ -1166,6 +1271,137 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                 </div>
               </div>
 
+              {/* Token Holdings */}
+              <div className="mt-6 p-4 bg-zinc-800/30 rounded-lg">
+                <h4 className="text-lg font-semibold text-white mb-3">Token Holdings</h4>
+                {realData?.tokensComplete === false && (
+                  <p className="text-xs text-yellow-300/80 mb-3">
+                    This wallet has too many token transfers to read in full; tokens last moved long ago may be missing.
+                  </p>
+                )}
+                {walletProfile.portfolio.tokens.length > 0 ? (
+                  <div className="space-y-2">
+                    {walletProfile.portfolio.tokens.map((token) => (
+                      <div key={token.contractAddress} className="flex items-center justify-between p-3 bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          <div className="w-8 h-8 bg-gradient-to-br from-purple-500 to-pink-600 rounded-full flex items-center justify-center text-white text-xs font-bold flex-shrink-0">
+                            {(token.symbol || '?').slice(0, 2)}
+                          </div>
+                          <div className="min-w-0">
+                            <div className="text-white font-medium truncate">{token.symbol || 'Unknown'}</div>
+                            <a
+                              href={`${chainConfig.explorerUrl}/token/${token.contractAddress}?a=${searchedAddress}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-blue-400 hover:text-blue-300 hover:underline"
+                            >
+                              {token.contractAddress.slice(0, 6)}...{token.contractAddress.slice(-4)}
+                            </a>
+                          </div>
+                        </div>
+                        <div className="text-right flex-shrink-0 ml-4">
+                          <div className="text-white font-semibold">
+                            {token.balance.toLocaleString('en-US', { maximumFractionDigits: 6 })}
+                          </div>
+                          {token.flag ? (
+                            <Badge variant="outline" className="border-orange-400/50 text-orange-300 text-xs mt-1">
+                              {token.flag === 'no-pair' ? 'No DEX pair' : 'Illiquid'}
+                            </Badge>
+                          ) : token.priceUsd != null && (
+                            <div className="text-sm text-green-400">
+                              ${token.value.toLocaleString('en-US', { maximumFractionDigits: 2 })} • {token.percentage}%
+                            </div>
+                          )}
+                          <div className="text-xs text-gray-400" title={token.source === 'tokenbalance' ? 'Read from the token contract' : 'Replayed from transfer history'}>
+                            {token.source === 'tokenbalance' ? 'On-chain balance' : 'From transfers'}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center text-gray-400 p-4">
+                    No ERC-20 holdings found
+                  </div>
+                )}
+              </div>
+
+              {/* NFT Holdings */}
+              <div className="mt-6 p-4 bg-zinc-800/30 rounded-lg">
+                <h4 className="text-lg font-semibold text-white mb-3 flex items-center justify-between">
+                  <span>NFT Holdings</span>
+                  <span className="text-sm font-normal text-gray-400">
+                    {walletProfile.portfolio.nfts.reduce((sum, collection) => sum + collection.count, 0).toLocaleString()} items in {walletProfile.portfolio.nfts.length} collection{walletProfile.portfolio.nfts.length === 1 ? '' : 's'}
+                  </span>
+                </h4>
+                {walletProfile.portfolio.nfts.length > 0 ? (
+                  <div className="space-y-3">
+                    {walletProfile.portfolio.nfts.map((collection) => (
+                      <div key={collection.contractAddress} className="p-3 bg-zinc-800/50 rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3 min-w-0">
+                            <div className="w-8 h-8 bg-gradient-to-br from-rose-500 to-pink-600 rounded-lg flex items-center justify-center text-white text-xs font-bold flex-shrink-0">
+                              {(collection.symbol || collection.name || '?').slice(0, 2)}
+                            </div>
+                            <div className="min-w-0">
+                              <div className="text-white font-medium truncate">{collection.name}</div>
+                              <div className="text-xs text-gray-400">
+                                First acquired {collection.firstAcquired ? new Date(collection.firstAcquired).toLocaleDateString() : 'N/A'}
+                              </div>
+                            </div>
+                            <Badge variant="outline" className="border-zinc-600 text-gray-300 text-xs flex-shrink-0">
+                              {collection.standard === 'erc721' ? 'ERC-721' : 'ERC-1155'}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center space-x-3 flex-shrink-0 ml-4">
+                            <span className="text-white font-semibold">{collection.count.toLocaleString()}</span>
+                            {getZoraUrl(selectedChain, collection.contractAddress) && (
+                              <a
+                                href={getZoraUrl(selectedChain, collection.contractAddress)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-rose-400 hover:text-rose-300 hover:underline"
+                              >
+                                Zora
+                              </a>
+                            )}
+                            <a
+                              href={getOpenSeaUrl(selectedChain, collection.contractAddress)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-blue-400 hover:text-blue-300 hover:underline"
+                            >
+                              OpenSea
+                            </a>
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          {collection.tokens.slice(0, 12).map((token) => (
+                            <a
+                              key={token.tokenId}
+                              href={getZoraUrl(selectedChain, collection.contractAddress, token.tokenId) || getOpenSeaUrl(selectedChain, collection.contractAddress, token.tokenId)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="px-2 py-1 bg-zinc-700/50 rounded text-xs font-mono text-gray-300 hover:bg-zinc-600/50 hover:text-white max-w-[10rem] truncate"
+                              title={`#${token.tokenId} • acquired ${new Date(token.acquiredAt).toLocaleDateString()}`}
+                            >
+                              #{token.tokenId}{token.amount !== '1' ? ` ×${token.amount}` : ''}
+                            </a>
+                          ))}
+                          {collection.tokens.length > 12 && (
+                            <span className="px-2 py-1 text-xs text-gray-500">+{collection.tokens.length - 12} more</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center text-gray-400 p-4">
+                    No NFT holdings found
+                  </div>
+                )}
+              </div>
+
               {/* Quick Stats */}
               <div className="mt-6 p-4 bg-zinc-800/30 rounded-lg">
                 <h4 className="text-lg font-semibold text-white mb-3">Quick Stats</h4>
@@ -1188,7 +1424,7 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                         (realData.transactions
                           .filter(tx => parseFloat(tx.value || '0') > 0)
                           .reduce((sum: number, tx: TransactionData) => sum + parseFloat(tx.value || '0'), 0) / Math.pow(10, 18)).toFixed(4)
-                      : '0.0000'} ETH
+                      : '0.0000'} {chainConfig.nativeSymbol}
                     </div>
                     <div className="text-sm text-gray-400">Total Volume</div>
                   </div>
@@ -1207,6 +1443,9 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
         </TabsContent>
 
         <TabsContent value="analytics" className="space-y-6">
+          {/* Portfolio History */}
+          <PortfolioHistoryChart address={searchedAddress} chain={selectedChain} />
+
           {/* Wallet Risk Analysis */}
           <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
             <CardHeader>
@@ -1317,22 +1556,13 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
                     <div className="text-2xl font-bold text-white">
-                      {realData?.transactions?.filter((tx: TransactionData) => 
-                        tx.functionName?.includes('swap') || 
-                        tx.functionName?.includes('addLiquidity') || 
-                        tx.functionName?.includes('removeLiquidity')
-                      ).length || 0}
+                      {realData?.transactions?.filter((tx: TransactionData) => getCallCategory(tx) === 'dex').length || 0}
                     </div>
                     <div className="text-sm text-gray-400">DEX Interactions</div>
                   </div>
                   <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
                     <div className="text-2xl font-bold text-white">
-                      {realData?.transactions?.filter((tx: TransactionData) => 
-                        tx.functionName?.includes('deposit') || 
-                        tx.functionName?.includes('withdraw') || 
-                        tx.functionName?.includes('borrow') || 
-                        tx.functionName?.includes('repay')
-                      ).length || 0}
+                      {realData?.transactions?.filter((tx: TransactionData) => getCallCategory(tx) === 'lending').length || 0}
                     </div>
                     <div className="text-sm text-gray-400">Lending Protocol</div>
                   </div>
@@ -1348,6 +1578,10 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
           </Card>
         </TabsContent>
 
+        <TabsContent value="performance" className="space-y-6">
+          <WalletPerformance address={searchedAddress} chain={selectedChain} />
+        </TabsContent>
+
         <TabsContent value="insights" className="space-y-6">
           {/* DeFi Protocol Analysis */}
           <Card className="bg-zinc-900/40 border-zinc-800/60 backdrop-blur-md">
@@ -1356,7 +1590,7 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                 <Network className="w-5 h-5 text-purple-400" />
                 <span>DeFi Protocol Analysis</span>
                 <Badge className="bg-purple-600/20 text-purple-300 border-purple-600/30">
-                  Enhanced Detection
+                  Decoded Calls
                 </Badge>
               </CardTitle>
             </CardHeader>
@@ -1364,73 +1598,66 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
                   <div className="text-2xl font-bold text-white">
-                    {realData?.transactions?.filter((tx: TransactionData) => {
-                      // Enhanced DEX detection using method IDs and function names
-                      const isDexFunction = tx.functionName?.toLowerCase().includes('swap') || 
-                                          tx.functionName?.toLowerCase().includes('addliquidity') || 
-                                          tx.functionName?.toLowerCase().includes('removeliquidity') ||
-                                          tx.functionName?.toLowerCase().includes('exacttokensforswap') ||
-                                          tx.functionName?.toLowerCase().includes('exactethfortokens');
-                      
-                      // Common DEX method IDs
-                      const isDexMethodId = tx.methodId === '0x38ed1739' || // swapExactTokensForTokens
-                                         tx.methodId === '0x7ff36ab5' || // swapExactETHForTokens
-                                         tx.methodId === '0x18cbafe5' || // swapExactTokensForETH
-                                         tx.methodId === '0x2195995c' || // addLiquidity
-                                         tx.methodId === '0xbaa2abde';   // removeLiquidity
-                      
-                      return isDexFunction || isDexMethodId;
-                    }).length || 0}
+                    {realData?.transactions?.filter((tx: TransactionData) => getCallCategory(tx) === 'dex').length || 0}
                   </div>
                   <div className="text-sm text-gray-400">DEX Interactions</div>
-                  <div className="text-xs text-gray-500 mt-1">Uniswap, SushiSwap, etc.</div>
+                  <div className="text-xs text-gray-500 mt-1">{getProtocolNames('dex')}</div>
                 </div>
                 <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
                   <div className="text-2xl font-bold text-white">
-                    {realData?.transactions?.filter((tx: TransactionData) => {
-                      // Enhanced lending detection
-                      const isLendingFunction = tx.functionName?.toLowerCase().includes('deposit') || 
-                                             tx.functionName?.toLowerCase().includes('withdraw') || 
-                                             tx.functionName?.toLowerCase().includes('borrow') || 
-                                             tx.functionName?.toLowerCase().includes('repay') ||
-                                             tx.functionName?.toLowerCase().includes('supply') ||
-                                             tx.functionName?.toLowerCase().includes('redeem');
-                      
-                      // Common lending method IDs
-                      const isLendingMethodId = tx.methodId === '0x6e553f65' || // supply
-                                             tx.methodId === '0x69328dec' || // withdraw
-                                             tx.methodId === '0xa415bcad' || // borrow
-                                             tx.methodId === '0x573ade81';   // repay
-                      
-                      return isLendingFunction || isLendingMethodId;
-                    }).length || 0}
+                    {realData?.transactions?.filter((tx: TransactionData) => getCallCategory(tx) === 'lending').length || 0}
                   </div>
                   <div className="text-sm text-gray-400">Lending Activity</div>
-                  <div className="text-xs text-gray-500 mt-1">Aave, Compound, etc.</div>
+                  <div className="text-xs text-gray-500 mt-1">{getProtocolNames('lending')}</div>
                 </div>
                 <div className="text-center p-4 bg-zinc-800/50 rounded-lg">
                   <div className="text-2xl font-bold text-white">
-                    {realData?.transactions?.filter((tx: TransactionData) => {
-                      // Enhanced staking detection
-                      const isStakingFunction = tx.functionName?.toLowerCase().includes('stake') || 
-                                             tx.functionName?.toLowerCase().includes('unstake') || 
-                                             tx.functionName?.toLowerCase().includes('claim') ||
-                                             tx.functionName?.toLowerCase().includes('harvest') ||
-                                             tx.functionName?.toLowerCase().includes('compound');
-                      
-                      // Common staking method IDs
-                      const isStakingMethodId = tx.methodId === '0xa694fc3a' || // stake
-                                             tx.methodId === '0x2e17de78' || // unstake
-                                             tx.methodId === '0x2e1a7d4d' || // withdraw
-                                             tx.methodId === '0x1249c58b';   // claim
-                      
-                      return isStakingFunction || isStakingMethodId;
-                    }).length || 0}
+                    {realData?.transactions?.filter((tx: TransactionData) => getCallCategory(tx) === 'staking').length || 0}
                   </div>
                   <div className="text-sm text-gray-400">Staking Activity</div>
                   <div className="text-xs text-gray-500 mt-1">Yield farming, staking</div>
                 </div>
               </div>
+
+              {/* Per-protocol interactions */}
+              <div className="mt-6">
+                <div className="text-sm font-semibold text-gray-300 mb-3">Protocols Used</div>
+                {protocolActivity.length > 0 ? (
+                  <div className="space-y-2">
+                    {protocolActivity.map(({ protocol, count, volume }) => (
+                      <div key={protocol.id} className="flex items-center justify-between p-3 bg-zinc-800/50 rounded-lg text-sm">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          <Image
+                            src={getProtocolLogo(protocol)}
+                            alt={protocol.name}
+                            width={24}
+                            height={24}
+                            className="w-6 h-6 rounded-full flex-shrink-0"
+                            onError={(e) => {
+                              const target = e.target as HTMLImageElement;
+                              target.src = getProtocolLogo({ ...protocol, logo: null });
+                            }}
+                          />
+                          <span className="text-white truncate">{protocol.name}</span>
+                          <Badge className="bg-zinc-700/50 text-gray-300 border-zinc-600/50 capitalize">
+                            {protocol.category}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center space-x-4 flex-shrink-0 ml-4">
+                          <span className="text-gray-300">{count} tx{count === 1 ? '' : 's'}</span>
+                          <span className="text-white w-32 text-right">{volume.toFixed(4)} {chainConfig.nativeSymbol}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-xs text-gray-500">
+                    {selectedChain === 'base'
+                      ? 'No interactions with registered Base protocols in the loaded history'
+                      : 'Protocol labels are available for Base only'}
+                  </div>
+                )}
+              </div>
             </CardContent>
           </Card>
 
@@ -1454,9 +1681,11 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                       {realData?.transactions?.slice(0, 3).map((tx: TransactionData, index: number) => (
                         <div key={index} className="flex items-center justify-between text-sm">
                           <span className="text-gray-300 truncate">
-                            {tx.to ? `${tx.to.slice(0, 6)}...${tx.to.slice(-4)}` : 'Unknown'}
+                            {resolveProtocol(tx.to, selectedChain)
+                              ? <ProtocolLabel match={resolveProtocol(tx.to, selectedChain)} />
+                              : tx.to ? `${tx.to.slice(0, 6)}...${tx.to.slice(-4)}` : 'Unknown'}
                           </span>
-                          <span className="text-blue-400">{tx.functionName || 'Contract Call'}</span>
+                          <span className="text-blue-400 truncate ml-2">{getReadableCall(tx, 'Contract Call')}</span>
                         </div>
                       ))}
                     </div>
@@ -1467,41 +1696,22 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-300">DeFi Protocols</span>
                         <span className="text-green-400">
-                          {realData?.transactions?.filter((tx: TransactionData) => {
-                            const isDexFunction = tx.functionName?.toLowerCase().includes('swap') || 
-                                                tx.functionName?.toLowerCase().includes('addliquidity') || 
-                                                tx.functionName?.toLowerCase().includes('removeliquidity');
-                            const isLendingFunction = tx.functionName?.toLowerCase().includes('deposit') || 
-                                                   tx.functionName?.toLowerCase().includes('withdraw') || 
-                                                   tx.functionName?.toLowerCase().includes('borrow') || 
-                                                   tx.functionName?.toLowerCase().includes('repay');
-                            const isStakingFunction = tx.functionName?.toLowerCase().includes('stake') || 
-                                                   tx.functionName?.toLowerCase().includes('unstake') || 
-                                                   tx.functionName?.toLowerCase().includes('claim');
-                            return isDexFunction || isLendingFunction || isStakingFunction;
-                          }).length || 0}
+                          {realData?.transactions?.filter((tx: TransactionData) =>
+                            ['dex', 'lending', 'staking'].includes(getCallCategory(tx))
+                          ).length || 0}
                         </span>
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-300">Token Operations</span>
                         <span className="text-blue-400">
-                          {realData?.transactions?.filter((tx: TransactionData) => 
-                            tx.functionName?.toLowerCase().includes('transfer') || 
-                            tx.functionName?.toLowerCase().includes('approve') ||
-                            tx.methodId === '0xa9059cbb' || // transfer
-                            tx.methodId === '0x095ea7b3'    // approve
-                          ).length || 0}
+                          {realData?.transactions?.filter((tx: TransactionData) => getCallCategory(tx) === 'token').length || 0}
                         </span>
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-300">Contract Calls</span>
                         <span className="text-purple-400">
-                          {realData?.transactions?.filter((tx: TransactionData) => 
-                            tx.to && tx.to !== '0x0000000000000000000000000000000000000000' &&
-                            !tx.functionName?.toLowerCase().includes('transfer') &&
-                            !tx.functionName?.toLowerCase().includes('approve') &&
-                            !tx.functionName?.toLowerCase().includes('swap') &&
-                            !tx.functionName?.toLowerCase().includes('deposit')
+                          {realData?.transactions?.filter((tx: TransactionData) =>
+                            ['nft', 'bridge', 'other'].includes(getCallCategory(tx))
                           ).length || 0}
                         </span>
                       </div>
@@ -1569,7 +1779,7 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                   <div className="text-2xl font-bold text-white">
                     {realData?.transactions?.length > 0 ? 
                       (realData.transactions.reduce((sum: number, tx: TransactionData) => sum + parseFloat(tx.value || '0'), 0) / realData.transactions.length / Math.pow(10, 18)).toFixed(6)
-                    : 0} ETH
+                    : 0} {chainConfig.nativeSymbol}
                   </div>
                   <div className="text-sm text-gray-400">Avg Tx Value</div>
                   <div className="text-xs text-gray-500 mt-1">Per transaction</div>
@@ -1645,9 +1855,23 @@ export function WalletProfiler({ profiles, searchedAddress, onShare }: WalletPro
                     <div className="flex justify-between items-center p-3 bg-zinc-800/50 rounded-lg">
                       <span className="text-gray-300">Token Operations</span>
                       <span className="text-purple-400 font-semibold">
-                        {realData?.transactions?.filter((tx: TransactionData) => tx.functionName?.includes('transfer')).length || 0}
+                        {realData?.transactions?.filter((tx: TransactionData) => getCallCategory(tx) === 'token').length || 0}
                       </span>
                     </div>
+                    {CHAIN_KEYS.map(chain => (
+                      <div key={chain} className="p-3 bg-zinc-800/50 rounded-lg">
+                        <div className="flex justify-between items-center mb-2">
+                          <span className="text-gray-300">{SUPPORTED_CHAINS[chain].name}</span>
+                          <span className="text-white font-semibold">{walletProfile.networkActivity[chain]}%</span>
+                        </div>
+                        <div className="h-1.5 bg-zinc-700 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-blue-500 rounded-full"
+                            style={{ width: `${walletProfile.networkActivity[chain]}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </div>
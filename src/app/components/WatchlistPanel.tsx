@@ -0,0 +1,473 @@
+/**
+ * WatchlistPanel Component - Watchlists Dashboard
+ *
+ * This component renders the Watchlist tab: the user's named watchlists
+ * (stored locally, see lib/watchlists.ts) and a dashboard table for the
+ * selected list with each wallet's balance, transaction count and last
+ * activity from /api/etherscan/wallet, and each token's price and 24h
+ * change from /api/dexscreener/tokens.
+ *
+ * Features:
+ * - Create, rename, delete and switch between watchlists
+ * - Add wallets (address, ENS name or Basename) and token contracts
+ * - JSON export and import
+ * - One-click refresh; rows open the wallet profile or token detail
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, Pencil, Plus, RefreshCw, Star, Trash2, Upload, X } from "lucide-react";
+import { client } from "../client";
+import { isValidEthereumAddress, resolveIdentityAddress } from "@/lib/identity";
+import {
+  ADD_TO_WATCHLIST_ERRORS,
+  addToWatchlist,
+  createWatchlist,
+  deleteWatchlist,
+  exportWatchlists,
+  getWalletItemKind,
+  importWatchlists,
+  removeFromWatchlist,
+  renameWatchlist,
+  useWatchlists,
+  WatchlistItem
+} from "@/lib/watchlists";
+
+const MAX_TOKENS_PER_REQUEST = 30;
+const MAX_WALLET_REQUESTS = 4; // Wallet summaries loaded at once
+
+/**
+ * Dashboard data of a watched wallet
+ */
+interface WalletSummary {
+  address: string;
+  balance: number;
+  transactionCount: number;
+  lastActivity: number | null;
+}
+
+/**
+ * What a refresh needs of a watchlist entry
+ */
+type WatchedEntry = Pick<WatchlistItem, 'kind' | 'value'>;
+
+/**
+ * Dashboard data of a watched token
+ */
+interface TokenQuote {
+  symbol: string;
+  price: number;
+  change24h: number;
+}
+
+/**
+ * Props interface for WatchlistPanel component
+ *
+ * @interface WatchlistPanelProps
+ * @property {(value: string) => void} [onSearchAddress] - Open the profile of a wallet address or name
+ * @property {(address: string) => void} [onSelectToken] - Open the in-app detail view of a token
+ */
+interface WatchlistPanelProps {
+  onSearchAddress?: (value: string) => void;
+  onSelectToken?: (address: string) => void;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Format a token price with precision that suits its size
+ */
+const formatPrice = (price: number): string => {
+  if (price < 0.01) return `$${price.toPrecision(3)}`;
+  if (price < 100) return `$${price.toFixed(price < 1 ? 4 : 2)}`;
+  return `$${price.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+};
+
+/**
+ * Format a unix timestamp (seconds) as time elapsed (5m ago, 3h ago, 12d ago)
+ */
+const formatTimeAgo = (timestamp: number): string => {
+  const minutes = Math.max(0, Math.floor((Date.now() / 1000 - timestamp) / 60));
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 365 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d ago`;
+  return new Date(timestamp * 1000).toLocaleDateString();
+};
+
+/**
+ * Fetch the dashboard summary of a wallet, resolving names first
+ */
+const fetchWalletSummary = async (item: WatchedEntry, forceRefresh: boolean): Promise<WalletSummary> => {
+  const address = await resolveIdentityAddress(client, item.value);
+  const response = await fetch(
+    `/api/etherscan/wallet?address=${address}`,
+    forceRefresh ? { headers: { 'Cache-Control': 'no-cache' } } : undefined
+  );
+  const data = await response.json();
+  if (!data.success) throw new Error(data.details || data.error || 'Failed to load wallet');
+
+  return {
+    address: data.data.address,
+    balance: data.data.summary.ethBalance,
+    transactionCount: data.data.transactionCount,
+    lastActivity: data.data.lastActivity ?? null
+  };
+};
+
+/**
+ * Fetch prices of tokens in batches the tokens route accepts
+ */
+const fetchTokenQuotes = async (addresses: string[], forceRefresh: boolean): Promise<Record<string, TokenQuote>> => {
+  const batches: string[][] = [];
+  for (let i = 0; i < addresses.length; i += MAX_TOKENS_PER_REQUEST) {
+    batches.push(addresses.slice(i, i + MAX_TOKENS_PER_REQUEST));
+  }
+
+  const results = await Promise.all(batches.map(async batch => {
+    const response = await fetch(
+      `/api/dexscreener/tokens?addresses=${batch.join(',')}`,
+      forceRefresh ? { headers: { 'Cache-Control': 'no-cache' } } : undefined
+    );
+    const data = await response.json();
+    if (!data.success) throw new Error(data.message || data.error || 'Failed to load token prices');
+    return data.data as { id: string; symbol: string; current_price: number; price_change_percentage_24h: number }[];
+  }));
+
+  return Object.fromEntries(results.flat().map(token => [
+    token.id,
+    { symbol: token.symbol, price: token.current_price, change24h: token.price_change_percentage_24h }
+  ]));
+};
+
+/**
+ * WatchlistPanel Component - Manage watchlists and watch their wallets and tokens
+ *
+ * @param {WatchlistPanelProps} props - Component props
+ * @returns JSX.Element - Watchlist tab content
+ */
+export function WatchlistPanel({ onSearchAddress, onSelectToken }: WatchlistPanelProps) {
+  const watchlists = useWatchlists();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [itemKind, setItemKind] = useState<'wallet' | 'token'>('wallet');
+  const [itemValue, setItemValue] = useState('');
+  const [itemLabel, setItemLabel] = useState('');
+  // undefined while loading, null when the lookup failed
+  const [wallets, setWallets] = useState<Record<string, WalletSummary | null | undefined>>({});
+  const [tokens, setTokens] = useState<Record<string, TokenQuote | null | undefined>>({});
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = watchlists.find(list => list.id === selectedId) || watchlists[0] || null;
+  const items = selected?.items || [];
+  // Entries rebuilt only when the selected list's kinds or values change, not on every render
+  const itemsKey = JSON.stringify(items.map(({ kind, value }) => ({ kind, value })));
+  const watchedEntries = useMemo(() => JSON.parse(itemsKey) as WatchedEntry[], [itemsKey]);
+
+  const refresh = useCallback(async (entries: WatchedEntry[], forceRefresh: boolean = false) => {
+    if (entries.length === 0) return;
+    setIsRefreshing(true);
+    console.log(`⭐ Refreshing watchlist with ${entries.length} entries`);
+
+    const walletItems = entries.filter(item => item.kind !== 'token');
+    const tokenAddresses = entries.filter(item => item.kind === 'token').map(item => item.value);
+
+    // A few workers take wallets off a shared queue, so long lists don't flood the wallet route
+    const queue = [...walletItems];
+    const walletTask = Promise.all(Array.from({ length: Math.min(MAX_WALLET_REQUESTS, queue.length) }, async () => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
+        try {
+          const summary = await fetchWalletSummary(item, forceRefresh);
+          setWallets(prev => ({ ...prev, [item.value]: summary }));
+        } catch (error) {
+          console.error(`❌ Error loading wallet ${item.value}:`, error);
+          setWallets(prev => ({ ...prev, [item.value]: null }));
+        }
+      }
+    }));
+
+    const tokenTask = tokenAddresses.length === 0 ? Promise.resolve() : fetchTokenQuotes(tokenAddresses, forceRefresh)
+      .then(quotes => {
+        setTokens(prev => ({ ...prev, ...Object.fromEntries(tokenAddresses.map(address => [address, quotes[address] || null])) }));
+      })
+      .catch(error => {
+        console.error('❌ Error loading token prices:', error);
+        setTokens(prev => ({ ...prev, ...Object.fromEntries(tokenAddresses.map(address => [address, null])) }));
+      });
+
+    await Promise.all([walletTask, tokenTask]);
+    setIsRefreshing(false);
+    if (forceRefresh) {
+      toast.success('Watchlist refreshed', { icon: '⭐' });
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh(watchedEntries);
+  }, [watchedEntries, refresh]);
+
+  const handleCreateList = () => {
+    const list = createWatchlist(newListName);
+    setSelectedId(list.id);
+    setNewListName('');
+    toast.success(`Created ${list.name}`);
+  };
+
+  const handleDeleteList = () => {
+    if (!selected || !window.confirm(`Delete "${selected.name}" and its ${selected.items.length} entries?`)) return;
+    deleteWatchlist(selected.id);
+    setSelectedId(null);
+    toast.success(`Deleted ${selected.name}`);
+  };
+
+  const walletKind = getWalletItemKind(itemValue);
+  const canAdd = itemKind === 'token' ? isValidEthereumAddress(itemValue.trim()) : walletKind !== null;
+
+  const handleAddItem = () => {
+    if (!canAdd) return;
+    const kind = itemKind === 'token' ? 'token' : walletKind!;
+    const result = addToWatchlist(selected?.id || null, kind, itemValue, itemLabel || null);
+    if (result === 'added') {
+      setItemValue('');
+      setItemLabel('');
+      toast.success('Added to watchlist', { icon: '⭐' });
+    } else {
+      toast.error(ADD_TO_WATCHLIST_ERRORS[result]);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportWatchlists()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'sniffer-watchlists.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const added = importWatchlists(await file.text());
+      toast.success(`Imported ${added} ${added === 1 ? 'entry' : 'entries'}`);
+    } catch (error) {
+      console.error('❌ Error importing watchlists:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import watchlists');
+    }
+  };
+
+  const optionButton = (active: boolean) =>
+    active
+      ? "bg-blue-600 text-white border-blue-500 hover:bg-blue-700"
+      : "bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700";
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Lists */}
+      <div className="flex flex-wrap items-center gap-2">
+        {watchlists.map(list => (
+          renaming === list.id ? (
+            <Input
+              key={list.id}
+              autoFocus
+              defaultValue={list.name}
+              maxLength={40}
+              className="w-48 h-9 bg-zinc-800 border-zinc-700 text-white"
+              onBlur={(e) => {
+                renameWatchlist(list.id, e.target.value);
+                setRenaming(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+            />
+          ) : (
+            <Button key={list.id} size="sm" variant="outline" className={optionButton(list.id === selected?.id)} onClick={() => setSelectedId(list.id)}>
+              {list.name}
+              <span className="ml-2 opacity-70">{list.items.length}</span>
+            </Button>
+          )
+        ))}
+        <Input
+          placeholder="New list name"
+          value={newListName}
+          maxLength={40}
+          onChange={(e) => setNewListName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && newListName.trim() && handleCreateList()}
+          className="w-40 h-9 bg-zinc-800 border-zinc-700 text-white"
+        />
+        <Button size="sm" variant="outline" className={optionButton(false)} onClick={handleCreateList} disabled={!newListName.trim()}>
+          <Plus className="w-4 h-4 mr-1" />
+          New List
+        </Button>
+        <div className="ml-auto flex gap-2">
+          <Button size="sm" variant="outline" className={optionButton(false)} onClick={handleExport} disabled={watchlists.length === 0}>
+            <Download className="w-4 h-4 mr-1" />
+            Export
+          </Button>
+          <Button size="sm" variant="outline" className={optionButton(false)} onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-1" />
+            Import
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {/* Add entry */}
+      <Card className="bg-zinc-900/50 border-zinc-700/50">
+        <CardContent className="p-4 flex flex-wrap items-center gap-3">
+          <Button size="sm" variant="outline" className={optionButton(itemKind === 'wallet')} onClick={() => setItemKind('wallet')}>
+            Wallet
+          </Button>
+          <Button size="sm" variant="outline" className={optionButton(itemKind === 'token')} onClick={() => setItemKind('token')}>
+            Token
+          </Button>
+          <Input
+            placeholder={itemKind === 'wallet' ? 'Address, ENS name or Basename' : 'Token contract (0x...)'}
+            value={itemValue}
+            onChange={(e) => setItemValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddItem()}
+            className="flex-1 min-w-[240px] bg-zinc-800 border-zinc-700 text-white font-mono"
+          />
+          <Input
+            placeholder="Label (optional)"
+            value={itemLabel}
+            maxLength={40}
+            onChange={(e) => setItemLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddItem()}
+            className="w-40 bg-zinc-800 border-zinc-700 text-white"
+          />
+          <Button onClick={handleAddItem} disabled={!canAdd} className="bg-blue-600 hover:bg-blue-700 text-white">
+            <Star className="w-4 h-4 mr-2" />
+            Watch
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Dashboard */}
+      {items.length === 0 ? (
+        <Card className="bg-zinc-900/40 border-zinc-800/60">
+          <CardContent className="text-center text-gray-400 p-12">
+            <Star className="w-12 h-12 mx-auto mb-4 text-gray-500" />
+            {selected ? `${selected.name} is empty.` : 'No watchlists yet.'} Add a wallet or token above, or star tokens in the Token Explorer.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="bg-zinc-900/50 border border-zinc-700/50 rounded-xl overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-3 border-b border-zinc-700/50">
+            <div className="flex items-center gap-2 text-white font-medium">
+              {selected?.name}
+              <button onClick={() => selected && setRenaming(selected.id)} className="text-zinc-400 hover:text-white" title="Rename list">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={handleDeleteList} className="text-zinc-400 hover:text-red-400" title="Delete list">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className={optionButton(false)}
+              onClick={() => refresh(items, true)}
+              disabled={isRefreshing}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-zinc-800/50 border-b border-zinc-700/50">
+                <tr>
+                  {['Entry', 'Balance / Price', '24h Change', 'Transactions', 'Last Activity', ''].map((heading, index) => (
+                    <th
+                      key={heading || index}
+                      className={`px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider ${index === 0 ? 'text-left' : 'text-right'}`}
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800/60">
+                {items.map(item => {
+                  const isToken = item.kind === 'token';
+                  const wallet = isToken ? undefined : wallets[item.value];
+                  const token = isToken ? tokens[item.value] : undefined;
+                  const data = isToken ? token : wallet;
+                  const title = item.label || (isToken && token ? token.symbol : item.kind === 'name' ? item.value : shortenAddress(item.value));
+                  const placeholder = data === null ? 'N/A' : '...';
+
+                  return (
+                    <tr key={`${item.kind}:${item.value}`} className="hover:bg-zinc-800/40 transition-colors">
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => isToken ? onSelectToken?.(item.value) : onSearchAddress?.(item.value)}
+                            className="text-white font-medium hover:underline"
+                          >
+                            {title}
+                          </button>
+                          <Badge variant="outline" className={`text-xs px-2 py-0.5 ${isToken ? 'bg-blue-500/10 text-blue-400 border-blue-500/20' : 'bg-purple-500/10 text-purple-300 border-purple-500/20'}`}>
+                            {isToken ? 'Token' : 'Wallet'}
+                          </Badge>
+                        </div>
+                        <div className="text-xs text-zinc-500 font-mono">
+                          {isToken ? shortenAddress(item.value) : wallet ? shortenAddress(wallet.address) : item.value}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-right text-white text-sm">
+                        {isToken
+                          ? token ? formatPrice(token.price) : placeholder
+                          : wallet ? `${wallet.balance.toLocaleString('en-US', { maximumFractionDigits: 4 })} ETH` : placeholder}
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm">
+                        {isToken && token ? (
+                          <span className={token.change24h >= 0 ? 'text-green-400' : 'text-red-400'}>
+                            {token.change24h >= 0 ? '+' : ''}{token.change24h.toFixed(2)}%
+                          </span>
+                        ) : (
+                          <span className="text-zinc-500">{isToken ? placeholder : '-'}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right text-white text-sm">
+                        {isToken ? <span className="text-zinc-500">-</span> : wallet ? wallet.transactionCount.toLocaleString('en-US') : placeholder}
+                      </td>
+                      <td className="px-6 py-4 text-right text-zinc-300 text-sm">
+                        {isToken ? <span className="text-zinc-500">-</span> : wallet ? (wallet.lastActivity ? formatTimeAgo(wallet.lastActivity) : 'Never') : placeholder}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => selected && removeFromWatchlist(selected.id, item.kind, item.value)}
+                          className="text-zinc-500 hover:text-red-400"
+                          title="Remove from watchlist"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
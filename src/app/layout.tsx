@@ -15,9 +15,29 @@ const geistMono = localFont({
   weight: "100 900",
 });
 
+const title = "Sniffer Web3 - Web3 Identity Explorer";
+const description = "Explore social profiles, wallet activity and holdings for any address, ENS name or Basename.";
+
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"),
+  title: {
+    default: title,
+    template: "%s | Sniffer Web3",
+  },
+  description,
+  openGraph: {
+    type: "website",
+    siteName: "Sniffer Web3",
+    title,
+    description,
+    images: [{ url: "/api/og", width: 1200, height: 630, alt: "Sniffer Web3" }],
+  },
+  twitter: {
+    card: "summary_large_image",
+    title,
+    description,
+    images: ["/api/og"],
+  },
 };
 
 export default function RootLayout({
@@ -0,0 +1,70 @@
+/**
+ * Sniffer Web3 - Name Profile Page
+ * 
+ * Deep link to the profile of an ENS name or Basename:
+ * /name/{name}?tab={tab}. Loads the main application and runs the same
+ * resolution pipeline as typing the name into the search box.
+ * Link previews show the profile's generated share card.
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { SnifferApp } from "../../components/SnifferApp";
+import { isLikelyName } from "@/lib/identity";
+import { parseFilter } from "@/lib/routes";
+import { getProfileMetadata } from "@/lib/share-card";
+
+/**
+ * Props for the name page
+ * 
+ * @interface NamePageProps
+ * @property {Promise<{ name: string }>} params - Route parameters
+ * @property {Promise<{ tab?: string }>} searchParams - URL query parameters
+ */
+interface NamePageProps {
+  params: Promise<{ name: string }>;
+  searchParams: Promise<{ tab?: string }>;
+}
+
+/**
+ * Decode the name segment, rejecting malformed escapes
+ * 
+ * @param {string} name - Raw route segment
+ * @returns {string | null} Decoded name, or null if the segment is malformed
+ */
+function decodeName(name: string): string | null {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    // A stray "%" throws a URIError
+    return null;
+  }
+}
+
+/**
+ * Page metadata with the profile's share card as link preview
+ * 
+ * @param {NamePageProps} props - Page props
+ * @returns Promise<Metadata> - Title, description and preview image
+ */
+export async function generateMetadata({ params }: NamePageProps): Promise<Metadata> {
+  const decoded = decodeName((await params).name);
+  return decoded && isLikelyName(decoded) ? getProfileMetadata(decoded) : {};
+}
+
+/**
+ * Name Page - Main application resolving the name from the URL
+ * 
+ * @param {NamePageProps} props - Page props
+ * @returns JSX.Element - The complete application interface
+ */
+export default async function NamePage({ params, searchParams }: NamePageProps) {
+  const [{ name }, { tab }] = await Promise.all([params, searchParams]);
+  const decoded = decodeName(name);
+  if (!decoded || !isLikelyName(decoded)) notFound();
+
+  return <SnifferApp initialQuery={decoded} initialFilter={parseFilter(tab)} />;
+}
@@ -0,0 +1,36 @@
+/**
+ * Sniffer Web3 - Token Page
+ * 
+ * Deep link to a token: /token/{address}. Loads the main application on the
+ * Tokens tab with the token's detail view open.
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { notFound } from "next/navigation";
+import { SnifferApp } from "../../components/SnifferApp";
+import { isValidEthereumAddress } from "@/lib/identity";
+
+/**
+ * Props for the token page
+ * 
+ * @interface TokenPageProps
+ * @property {Promise<{ address: string }>} params - Route parameters
+ */
+interface TokenPageProps {
+  params: Promise<{ address: string }>;
+}
+
+/**
+ * Token Page - Main application on the detail view of the token from the URL
+ * 
+ * @param {TokenPageProps} props - Page props
+ * @returns JSX.Element - The complete application interface
+ */
+export default async function TokenPage({ params }: TokenPageProps) {
+  const { address } = await params;
+  if (!isValidEthereumAddress(address)) notFound();
+
+  return <SnifferApp initialFilter="tokens" initialToken={address} />;
+}
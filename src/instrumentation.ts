@@ -0,0 +1,16 @@
+/**
+ * Next.js Instrumentation
+ * 
+ * Runs once when a server instance starts. Starts the alert scheduler in
+ * the Node.js runtime (see lib/alerts.ts).
+ * 
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startAlertScheduler } = await import('./lib/alerts');
+    startAlertScheduler();
+  }
+}
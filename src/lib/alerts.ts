@@ -0,0 +1,670 @@
+/**
+ * Alerts Service - Price and Wallet Activity Alert Rules
+ *
+ * This server-side service stores per-user alert rules and evaluates them
+ * on a schedule against DEXScreener and Etherscan data. Triggered alerts are
+ * kept per user for the in-app notifier (toasts and browser notifications)
+ * and posted to the rule's webhook, if any (https, public hosts only).
+ *
+ * Rule types:
+ * - price_above / price_below: token price crosses a USD threshold
+ * - change_24h: 24h price change beyond ±threshold percent
+ * - liquidity_below: token liquidity drops below a USD threshold
+ * - wallet_send: watched wallet sends a transaction over threshold ETH
+ *
+ * Token rules fire when their condition becomes true and re-arm once it is
+ * false again, so a price sitting above a threshold alerts once. Wallet
+ * rules fire once per matching transaction.
+ *
+ * Users are identified by an opaque client-generated ID. Rules and alerts
+ * live in their own store: Redis REST when configured (see cache.ts),
+ * otherwise a JSON file under SNIFFER_DATA_DIR. Where the file can't be
+ * written they are kept in memory only, which getAlertStorage reports so the
+ * UI can warn that rules won't survive a restart. Users, rules and wallet rules are capped
+ * globally, and wallet checks run at background rate-limiter priority, so
+ * alerts can't exhaust the Etherscan quota that searches depend on. Since
+ * user IDs are self-chosen, users and rules are also capped per client IP,
+ * so one client can't take the whole global allowance. Rule writes are
+ * serialized in this process so concurrent saves don't drop rules.
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { createHash } from 'node:crypto';
+import { request as httpsRequest } from 'node:https';
+import { formatEther } from 'viem';
+import { createPersistentStore } from './cache';
+import { ChainKey, DEFAULT_CHAIN, SUPPORTED_CHAINS } from './chains';
+import { DexScreenerToken, fetchTokenPairs, getBestPair } from './dexscreener';
+import { EtherscanTransaction, getEtherscanAPI } from './etherscan';
+import { resolvePublicUrl } from './public-url';
+import { getTokenPath } from './routes';
+
+export const ALERT_EVALUATION_INTERVAL_MS = 60 * 1000;
+export const MAX_RULES_PER_USER = 25;
+// Global caps, since every rule is evaluated every minute on the shared Etherscan and DEXScreener quota
+export const MAX_ALERT_USERS = 500;
+export const MAX_ALERT_RULES = 2000;
+export const MAX_WALLET_ALERT_RULES = 100; // One Etherscan request per rule per run
+// Per client IP, so self-chosen user IDs can't fill the global caps
+export const MAX_ALERT_USERS_PER_CLIENT = 5;
+export const MAX_ALERT_RULES_PER_CLIENT = 50;
+export const MAX_WALLET_ALERT_RULES_PER_CLIENT = 10;
+const MAX_EVENTS_PER_USER = 50;
+const ALERT_RETENTION_MS = 365 * 24 * 60 * 60 * 1000; // Refreshed on every write
+const WEBHOOK_TIMEOUT_MS = 5000;
+const USERS_KEY = 'alerts:user-index';
+
+const WALLET_PAGE_SIZE = 1000;
+const MAX_WALLET_PAGES = 5; // Per rule per run; a wallet further behind catches up on the next runs
+
+// Dedicated store so cache churn never evicts rules
+const alertStore = createPersistentStore('alerts', 5000);
+
+/**
+ * Kind of alert rule
+ */
+export type AlertRuleType = 'price_above' | 'price_below' | 'change_24h' | 'liquidity_below' | 'wallet_send';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['price_above', 'price_below', 'change_24h', 'liquidity_below', 'wallet_send'];
+
+/**
+ * Where a triggered alert is delivered
+ */
+export type AlertChannel = 'in_app' | 'browser' | 'webhook';
+
+export const ALERT_CHANNELS: AlertChannel[] = ['in_app', 'browser', 'webhook'];
+
+/**
+ * An alert rule
+ *
+ * @interface AlertRule
+ * @property {string} id - Rule ID
+ * @property {AlertRuleType} type - Rule type
+ * @property {string} target - Token address (token rules) or wallet address (wallet_send)
+ * @property {ChainKey} chain - Chain of the target; token rules are Base only
+ * @property {number} threshold - USD price, percent, USD liquidity or ETH amount, by type
+ * @property {string | null} label - Display name of the target, e.g. token symbol
+ * @property {AlertChannel[]} channels - Delivery channels
+ * @property {string | null} webhookUrl - Webhook for the webhook channel
+ * @property {boolean} enabled - Whether the rule is evaluated
+ * @property {number} createdAt - Creation time (ms)
+ * @property {number | null} lastTriggeredAt - Last trigger time (ms)
+ * @property {boolean} armed - Token rules: whether the condition was false at the last check
+ * @property {number | null} lastBlock - Wallet rules: highest block already checked
+ */
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  target: string;
+  chain: ChainKey;
+  threshold: number;
+  label: string | null;
+  channels: AlertChannel[];
+  webhookUrl: string | null;
+  enabled: boolean;
+  createdAt: number;
+  lastTriggeredAt: number | null;
+  armed: boolean;
+  lastBlock: number | null;
+}
+
+/**
+ * Fields a user sets when creating a rule
+ */
+export type AlertRuleInput = Pick<AlertRule, 'type' | 'target' | 'threshold' | 'channels'> &
+  Partial<Pick<AlertRule, 'chain' | 'label' | 'webhookUrl'>>;
+
+/**
+ * A triggered alert
+ *
+ * @interface AlertEvent
+ * @property {string} id - Event ID
+ * @property {string} ruleId - Rule that triggered
+ * @property {AlertRuleType} type - Rule type
+ * @property {string} target - Token or wallet address
+ * @property {string} title - Short headline
+ * @property {string} message - Human-readable details
+ * @property {number} value - Observed value (price, percent, liquidity or ETH)
+ * @property {string | null} url - Link to the transaction or token page
+ * @property {AlertChannel[]} channels - Channels of the rule when it triggered
+ * @property {number} triggeredAt - Trigger time (ms)
+ */
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  type: AlertRuleType;
+  target: string;
+  title: string;
+  message: string;
+  value: number;
+  url: string | null;
+  channels: AlertChannel[];
+  triggeredAt: number;
+}
+
+/**
+ * Outcome of one evaluation run
+ */
+export interface AlertEvaluationSummary {
+  users: number;
+  rules: number;
+  triggered: number;
+  durationMs: number;
+}
+
+/**
+ * Token market data a token rule is checked against
+ */
+interface TokenSnapshot {
+  symbol: string;
+  priceUsd: number | null;
+  change24h: number | null;
+  liquidityUsd: number;
+}
+
+/**
+ * Rule counts per user, kept alongside the rules for the global and per-client
+ * caps. `client` is a hash of the IP that registered the user.
+ */
+type AlertUserIndex = Record<string, { rules: number; walletRules: number; client?: string }>;
+
+const rulesKey = (userId: string) => `alerts:rules:${userId}`;
+const eventsKey = (userId: string) => `alerts:events:${userId}`;
+const newId = () => crypto.randomUUID();
+const clientKey = (clientIp: string) => createHash('sha256').update(clientIp).digest('hex').slice(0, 16);
+
+let ruleWrites: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a rule write after the ones already queued in this process
+ */
+function withRuleLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = ruleWrites.then(task);
+  ruleWrites = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Read a value from the alert store
+ */
+async function readValue<T>(key: string, fallback: T): Promise<T> {
+  const entry = await alertStore.get<T>(key);
+  return entry ? entry.value : fallback;
+}
+
+/**
+ * Write a value to the alert store, renewing its retention
+ */
+async function writeValue<T>(key: string, value: T): Promise<void> {
+  const now = Date.now();
+  await alertStore.set(key, { value, storedAt: now, freshUntil: now + ALERT_RETENTION_MS, staleUntil: now + ALERT_RETENTION_MS });
+}
+
+/**
+ * Where alert rules are stored
+ *
+ * @returns {string} 'redis' or 'file' when rules survive a restart, 'memory' when they don't
+ */
+export function getAlertStorage(): string {
+  return alertStore.name;
+}
+
+/**
+ * Check that a user ID looks like a client-generated ID
+ *
+ * @param {string | null} userId - Candidate user ID
+ * @returns {boolean} Whether the ID is usable
+ */
+export function isValidUserId(userId: string | null): userId is string {
+  return typeof userId === 'string' && /^[A-Za-z0-9-]{16,64}$/.test(userId);
+}
+
+/**
+ * Alert rules of a user
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<AlertRule[]>} Rules, oldest first
+ */
+export function getAlertRules(userId: string): Promise<AlertRule[]> {
+  return readValue<AlertRule[]>(rulesKey(userId), []);
+}
+
+/**
+ * Read-modify-write a user's rules, registering the user and their rule counts for evaluation
+ *
+ * Runs under the rule lock, so the update sees every earlier write. A user
+ * registered by this write is attributed to `clientIp`.
+ */
+function updateAlertRules(
+  userId: string,
+  update: (rules: AlertRule[], index: AlertUserIndex) => AlertRule[],
+  clientIp?: string
+): Promise<AlertRule[]> {
+  return withRuleLock(async () => {
+    const [stored, index] = await Promise.all([getAlertRules(userId), readValue<AlertUserIndex>(USERS_KEY, {})]);
+    const rules = update(stored, index);
+    await writeValue(rulesKey(userId), rules);
+
+    const current = index[userId];
+    const counts = {
+      rules: rules.length,
+      walletRules: rules.filter(rule => rule.type === 'wallet_send').length,
+      client: current?.client ?? (clientIp ? clientKey(clientIp) : undefined)
+    };
+    const changed = counts.rules > 0
+      ? current?.rules !== counts.rules || current?.walletRules !== counts.walletRules
+      : Boolean(current);
+    if (changed) {
+      const updated = { ...index, [userId]: counts };
+      if (counts.rules === 0) delete updated[userId];
+      await writeValue(USERS_KEY, updated);
+    }
+    return rules;
+  });
+}
+
+/**
+ * Why a user can't create another rule of a type, checked against their rules and the user index
+ */
+function getCapacityError(
+  userId: string,
+  type: AlertRuleType,
+  clientIp: string,
+  rules: AlertRule[],
+  index: AlertUserIndex
+): string | null {
+  const sum = (entries: AlertUserIndex[string][]) => entries.reduce(
+    (total, counts) => ({ rules: total.rules + counts.rules, walletRules: total.walletRules + counts.walletRules }),
+    { rules: 0, walletRules: 0 }
+  );
+  // Rules count against the client that registered the user
+  const client = index[userId]?.client ?? clientKey(clientIp);
+  const clientEntries = Object.values(index).filter(counts => counts.client === client);
+  const totals = sum(Object.values(index));
+  const clientTotals = sum(clientEntries);
+
+  if (rules.length >= MAX_RULES_PER_USER) return `At most ${MAX_RULES_PER_USER} alert rules per user`;
+  if (!index[userId] && clientEntries.length >= MAX_ALERT_USERS_PER_CLIENT) {
+    return `At most ${MAX_ALERT_USERS_PER_CLIENT} alert users per client`;
+  }
+  if (clientTotals.rules >= MAX_ALERT_RULES_PER_CLIENT) return `At most ${MAX_ALERT_RULES_PER_CLIENT} alert rules per client`;
+  if (type === 'wallet_send' && clientTotals.walletRules >= MAX_WALLET_ALERT_RULES_PER_CLIENT) {
+    return `At most ${MAX_WALLET_ALERT_RULES_PER_CLIENT} wallet alerts per client`;
+  }
+  if (!index[userId] && Object.keys(index).length >= MAX_ALERT_USERS) return 'Alert capacity reached: no new users can create alerts right now';
+  if (totals.rules >= MAX_ALERT_RULES) return 'Alert capacity reached: no new alert rules can be created right now';
+  if (type === 'wallet_send' && totals.walletRules >= MAX_WALLET_ALERT_RULES) {
+    return 'Wallet alert capacity reached: no new wallet alerts can be created right now';
+  }
+  return null;
+}
+
+/**
+ * Check whether a user may create another rule of a type
+ *
+ * @param {string} userId - User ID
+ * @param {AlertRuleType} type - Type of the new rule
+ * @param {string} clientIp - IP of the requesting client
+ * @returns {Promise<string | null>} Why the rule can't be created, or null if it can
+ */
+export async function checkAlertCapacity(userId: string, type: AlertRuleType, clientIp: string): Promise<string | null> {
+  const [rules, index] = await Promise.all([getAlertRules(userId), readValue<AlertUserIndex>(USERS_KEY, {})]);
+  return getCapacityError(userId, type, clientIp, rules, index);
+}
+
+/**
+ * Create an alert rule
+ *
+ * @param {string} userId - User ID
+ * @param {AlertRuleInput} input - Rule fields (validated by the caller)
+ * @param {string} clientIp - IP of the requesting client
+ * @returns {Promise<AlertRule>} Created rule
+ * @throws {Error} When a per-user, per-client or global rule cap is reached
+ */
+export async function createAlertRule(userId: string, input: AlertRuleInput, clientIp: string): Promise<AlertRule> {
+  const rule: AlertRule = {
+    id: newId(),
+    type: input.type,
+    target: input.target.toLowerCase(),
+    chain: input.type === 'wallet_send' ? input.chain || DEFAULT_CHAIN : 'base',
+    threshold: input.threshold,
+    label: input.label || null,
+    channels: input.channels,
+    webhookUrl: input.channels.includes('webhook') ? input.webhookUrl || null : null,
+    enabled: true,
+    createdAt: Date.now(),
+    lastTriggeredAt: null,
+    armed: true,
+    lastBlock: null
+  };
+
+  await updateAlertRules(userId, (rules, index) => {
+    const capacityError = getCapacityError(userId, input.type, clientIp, rules, index);
+    if (capacityError) throw new Error(capacityError);
+    return [...rules, rule];
+  }, clientIp);
+  return rule;
+}
+
+/**
+ * Enable or disable an alert rule
+ *
+ * @param {string} userId - User ID
+ * @param {string} ruleId - Rule ID
+ * @param {boolean} enabled - New state
+ * @returns {Promise<AlertRule | null>} Updated rule, or null if not found
+ */
+export async function setAlertRuleEnabled(userId: string, ruleId: string, enabled: boolean): Promise<AlertRule | null> {
+  const rules = await updateAlertRules(userId, rules =>
+    rules.map(rule => rule.id === ruleId ? { ...rule, enabled, armed: true } : rule)
+  );
+  return rules.find(rule => rule.id === ruleId) || null;
+}
+
+/**
+ * Delete an alert rule
+ *
+ * @param {string} userId - User ID
+ * @param {string} ruleId - Rule ID
+ * @returns {Promise<boolean>} Whether the rule existed
+ */
+export async function deleteAlertRule(userId: string, ruleId: string): Promise<boolean> {
+  let found = false;
+  await updateAlertRules(userId, rules => {
+    found = rules.some(rule => rule.id === ruleId);
+    return rules.filter(rule => rule.id !== ruleId);
+  });
+  return found;
+}
+
+/**
+ * Triggered alerts of a user
+ *
+ * @param {string} userId - User ID
+ * @param {number} [since=0] - Only alerts triggered after this time (ms)
+ * @returns {Promise<AlertEvent[]>} Alerts, newest first
+ */
+export async function getAlertEvents(userId: string, since: number = 0): Promise<AlertEvent[]> {
+  const events = await readValue<AlertEvent[]>(eventsKey(userId), []);
+  return events.filter(event => event.triggeredAt > since);
+}
+
+/**
+ * Market data for the tokens of token rules, in one batched lookup
+ */
+async function getTokenSnapshots(addresses: string[]): Promise<Map<string, TokenSnapshot>> {
+  const snapshots = new Map<string, TokenSnapshot>();
+  if (addresses.length === 0) return snapshots;
+
+  const pairs = await fetchTokenPairs(addresses);
+  addresses.forEach(address => {
+    const best = getBestPair(pairs, address);
+    if (!best) return;
+
+    const tokenPairs = pairs.filter((pair: DexScreenerToken) => pair.baseToken.address.toLowerCase() === address);
+    const priceUsd = best.priceUsd ? parseFloat(best.priceUsd) : NaN;
+    snapshots.set(address, {
+      symbol: best.baseToken.symbol,
+      priceUsd: isNaN(priceUsd) ? null : priceUsd,
+      change24h: best.priceChange?.h24 ?? null,
+      liquidityUsd: tokenPairs.reduce((sum, pair) => sum + (pair.liquidity?.usd || 0), 0)
+    });
+  });
+  return snapshots;
+}
+
+/**
+ * Check a token rule against its snapshot
+ *
+ * @returns {{ met: boolean; value: number; title: string; message: string } | null} Condition state, or null without data
+ */
+function checkTokenRule(rule: AlertRule, snapshot: TokenSnapshot | undefined) {
+  if (!snapshot) return null;
+  const name = rule.label || snapshot.symbol;
+  const price = (value: number) => `$${value.toPrecision(4)}`;
+
+  switch (rule.type) {
+    case 'price_above':
+    case 'price_below': {
+      if (snapshot.priceUsd === null) return null;
+      const above = rule.type === 'price_above';
+      return {
+        met: above ? snapshot.priceUsd > rule.threshold : snapshot.priceUsd < rule.threshold,
+        value: snapshot.priceUsd,
+        title: `${name} ${above ? 'above' : 'below'} ${price(rule.threshold)}`,
+        message: `${name} is trading at ${price(snapshot.priceUsd)}`
+      };
+    }
+    case 'change_24h': {
+      if (snapshot.change24h === null) return null;
+      return {
+        met: Math.abs(snapshot.change24h) >= rule.threshold,
+        value: snapshot.change24h,
+        title: `${name} moved ${snapshot.change24h >= 0 ? '+' : ''}${snapshot.change24h.toFixed(1)}% in 24h`,
+        message: `24h change passed ±${rule.threshold}%; price ${snapshot.priceUsd !== null ? price(snapshot.priceUsd) : 'unknown'}`
+      };
+    }
+    case 'liquidity_below':
+      return {
+        met: snapshot.liquidityUsd < rule.threshold,
+        value: snapshot.liquidityUsd,
+        title: `${name} liquidity below $${rule.threshold.toLocaleString('en-US')}`,
+        message: `Liquidity is down to $${Math.round(snapshot.liquidityUsd).toLocaleString('en-US')}`
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * New outgoing transactions of a watched wallet over the rule's threshold
+ *
+ * The first check only records the current block, so earlier history never
+ * alerts. Later checks page forward from the cursor block, oldest first, so
+ * a busy wallet's sends between runs are all seen; a wallet more than
+ * MAX_WALLET_PAGES pages behind resumes from where this run stopped.
+ *
+ * @returns {Promise<{ events: Omit<AlertEvent, 'id' | 'ruleId' | 'channels'>[]; lastBlock: number | null }>} Events and the new block cursor
+ */
+async function checkWalletRule(rule: AlertRule) {
+  const api = getEtherscanAPI(rule.chain);
+  const chain = SUPPORTED_CHAINS[rule.chain];
+
+  if (rule.lastBlock === null) {
+    const currentBlock = await api.getBlockNumber('background');
+    return { events: [], lastBlock: currentBlock || null };
+  }
+
+  const transactions: EtherscanTransaction[] = [];
+  let latestBlock = rule.lastBlock;
+  for (let page = 0; page < MAX_WALLET_PAGES; page++) {
+    const rows = await api.getTransactionList(rule.target, latestBlock + 1, 99999999, 1, WALLET_PAGE_SIZE, 'asc', 'background');
+    const blockOf = (tx: EtherscanTransaction) => parseInt(tx.blockNumber) || 0;
+
+    if (rows.length < WALLET_PAGE_SIZE) {
+      transactions.push(...rows);
+      latestBlock = rows.reduce((max, tx) => Math.max(max, blockOf(tx)), latestBlock);
+      break;
+    }
+
+    // A full page may end partway through its last block, so resume at that block
+    const lastRowBlock = blockOf(rows[rows.length - 1]);
+    const complete = rows.filter(tx => blockOf(tx) < lastRowBlock);
+    transactions.push(...(complete.length > 0 ? complete : rows));
+    latestBlock = complete.length > 0 ? lastRowBlock - 1 : lastRowBlock;
+  }
+
+  const name = rule.label || `${rule.target.slice(0, 6)}...${rule.target.slice(-4)}`;
+  const events = transactions
+    .filter(tx => tx.from.toLowerCase() === rule.target && tx.isError !== '1')
+    .map(tx => ({ tx, amount: parseFloat(formatEther(BigInt(tx.value || '0'))) }))
+    .filter(({ amount }) => amount >= rule.threshold)
+    .map(({ tx, amount }) => ({
+      type: rule.type,
+      target: rule.target,
+      title: `${name} sent ${amount.toLocaleString('en-US', { maximumFractionDigits: 4 })} ${chain.nativeSymbol}`,
+      message: `To ${tx.to ? `${tx.to.slice(0, 6)}...${tx.to.slice(-4)}` : 'contract creation'} on ${chain.name}`,
+      value: amount,
+      url: `${chain.explorerUrl}/tx/${tx.hash}`,
+      triggeredAt: Date.now() // Detection time, so the notifier's cursor never skips it
+    }));
+
+  return { events, lastBlock: latestBlock };
+}
+
+/**
+ * POST a JSON body to an already-checked address, keeping the URL's host for
+ * the Host header and TLS certificate check
+ *
+ * @returns {Promise<number>} Response status
+ */
+function postToAddress(url: URL, address: string, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const request = httpsRequest({
+      host: address,
+      port: url.port || 443,
+      path: `${url.pathname}${url.search}`,
+      method: 'POST',
+      servername: host === address ? undefined : host,
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body), Host: url.host },
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Post an alert to a webhook, with a timeout
+ *
+ * The host is re-checked on every delivery (its DNS may have changed since
+ * the rule was created) and the request goes to the address that was
+ * checked, so the host can't be re-resolved to an internal one in between.
+ * Redirects are not followed.
+ */
+async function deliverWebhook(url: string, event: AlertEvent): Promise<void> {
+  try {
+    const { url: target, addresses } = await resolvePublicUrl(url);
+    const status = await postToAddress(target, addresses[0], JSON.stringify({ source: 'sniffer-web3', alert: event }));
+    if (status < 200 || status >= 300) {
+      console.warn(`Alert webhook returned ${status}`);
+    }
+  } catch (error) {
+    console.warn('Alert webhook delivery failed:', error);
+  }
+}
+
+/**
+ * Evaluate one user's rules, store triggered alerts and deliver webhooks
+ */
+async function evaluateUser(userId: string, snapshots: Map<string, TokenSnapshot>): Promise<{ rules: number; triggered: number }> {
+  const rules = await getAlertRules(userId);
+  const updates = new Map<string, Partial<AlertRule>>();
+  const events: AlertEvent[] = [];
+
+  for (const rule of rules.filter(rule => rule.enabled)) {
+    const emit = (event: Omit<AlertEvent, 'id' | 'ruleId' | 'channels'>) =>
+      events.push({ ...event, id: newId(), ruleId: rule.id, channels: rule.channels });
+
+    if (rule.type === 'wallet_send') {
+      const { events: walletEvents, lastBlock } = await checkWalletRule(rule);
+      walletEvents.forEach(emit);
+      updates.set(rule.id, { lastBlock, ...(walletEvents.length > 0 && { lastTriggeredAt: Date.now() }) });
+      continue;
+    }
+
+    const check = checkTokenRule(rule, snapshots.get(rule.target));
+    if (!check) continue;
+
+    if (check.met && rule.armed) {
+      emit({ type: rule.type, target: rule.target, title: check.title, message: check.message, value: check.value, url: `${process.env.NEXT_PUBLIC_SITE_URL || ''}${getTokenPath(rule.target)}`, triggeredAt: Date.now() });
+      updates.set(rule.id, { armed: false, lastTriggeredAt: Date.now() });
+    } else if (!check.met && !rule.armed) {
+      updates.set(rule.id, { armed: true });
+    }
+  }
+
+  if (updates.size > 0) {
+    // Re-read so rules edited during evaluation aren't overwritten
+    await updateAlertRules(userId, current => current.map(rule => updates.has(rule.id) ? { ...rule, ...updates.get(rule.id) } : rule));
+  }
+
+  if (events.length > 0) {
+    const stored = await readValue<AlertEvent[]>(eventsKey(userId), []);
+    await writeValue(eventsKey(userId), [...events, ...stored].slice(0, MAX_EVENTS_PER_USER));
+
+    const webhooks = new Map(rules.map(rule => [rule.id, rule.webhookUrl]));
+    await Promise.all(events
+      .filter(event => event.channels.includes('webhook') && webhooks.get(event.ruleId))
+      .map(event => deliverWebhook(webhooks.get(event.ruleId) as string, event)));
+  }
+
+  return { rules: rules.length, triggered: events.length };
+}
+
+let running: Promise<AlertEvaluationSummary> | null = null;
+
+/**
+ * Evaluate every user's alert rules once
+ *
+ * Overlapping calls (scheduler and the evaluate route) share the run in progress.
+ *
+ * @returns {Promise<AlertEvaluationSummary>} Users, rules and alerts triggered
+ */
+export function evaluateAlerts(): Promise<AlertEvaluationSummary> {
+  if (running) return running;
+
+  running = (async () => {
+    const startedAt = Date.now();
+    const users = Object.keys(await readValue<AlertUserIndex>(USERS_KEY, {})).slice(0, MAX_ALERT_USERS);
+    const rulesByUser = await Promise.all(users.map(getAlertRules));
+
+    const tokens = Array.from(new Set(rulesByUser.flat()
+      .filter(rule => rule.enabled && rule.type !== 'wallet_send')
+      .map(rule => rule.target)));
+    const snapshots = await getTokenSnapshots(tokens);
+
+    let rules = 0;
+    let triggered = 0;
+    for (const userId of users) {
+      try {
+        const result = await evaluateUser(userId, snapshots);
+        rules += result.rules;
+        triggered += result.triggered;
+      } catch (error) {
+        console.error(`Error evaluating alerts for user ${userId}:`, error);
+      }
+    }
+
+    const summary = { users: users.length, rules, triggered, durationMs: Date.now() - startedAt };
+    if (triggered > 0) console.log('🔔 Alert evaluation:', summary);
+    return summary;
+  })().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+/**
+ * Evaluate alerts every ALERT_EVALUATION_INTERVAL_MS in this process
+ *
+ * Called from instrumentation.ts. Set ALERTS_SCHEDULER=off where a process
+ * can't keep timers (serverless) and call /api/alerts/evaluate from a cron
+ * job instead.
+ */
+export function startAlertScheduler(): void {
+  const scope = globalThis as typeof globalThis & { __snifferAlertScheduler?: ReturnType<typeof setInterval> };
+  if (process.env.ALERTS_SCHEDULER === 'off' || scope.__snifferAlertScheduler) return;
+
+  console.log(`Starting alert scheduler (every ${ALERT_EVALUATION_INTERVAL_MS / 1000}s)`);
+  scope.__snifferAlertScheduler = setInterval(() => {
+    evaluateAlerts().catch(error => console.error('Alert evaluation failed:', error));
+  }, ALERT_EVALUATION_INTERVAL_MS);
+}
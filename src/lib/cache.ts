@@ -0,0 +1,313 @@
+/**
+ * Server Cache Stores - Pluggable Key/Value Storage
+ *
+ * This module defines the storage layer behind the shared server-side
+ * response cache. The default store keeps entries in process memory; when a
+ * Redis REST endpoint is configured (Upstash-compatible), entries are shared
+ * across server instances instead.
+ *
+ * Data that must outlive the process (alert rules) can use a JSON file
+ * store instead of memory when Redis isn't configured.
+ *
+ * Environment (optional):
+ * - REDIS_REST_URL / UPSTASH_REDIS_REST_URL: Redis REST endpoint
+ * - REDIS_REST_TOKEN / UPSTASH_REDIS_REST_TOKEN: Bearer token for the endpoint
+ * - SNIFFER_DATA_DIR: Directory of file stores (default: .data)
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+const KEY_PREFIX = 'sniffer:';
+const FILE_STORE_WRITE_DELAY_MS = 1000; // Coalesces bursts of writes into one file write
+
+/**
+ * Cached value with its lifetime
+ *
+ * @interface CacheEntry
+ * @property {T} value - Cached value
+ * @property {number} storedAt - When the value was stored (ms)
+ * @property {number} freshUntil - Served as a hit until this time (ms)
+ * @property {number} staleUntil - Served stale while revalidating until this time (ms)
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+/**
+ * Storage backend for cache entries
+ *
+ * Stores only need to keep an entry until `staleUntil`; freshness is decided
+ * by the caller.
+ */
+export interface CacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * MemoryCacheStore Class - In-process store with LRU eviction
+ *
+ * @class MemoryCacheStore
+ * @property {Map<string, CacheEntry>} entries - Entries in least to most recently used order
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  /**
+   * @param {number} [maxEntries=500] - Entries kept before the least recently used is evicted
+   */
+  constructor(maxEntries: number = MEMORY_CACHE_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  get name(): string {
+    return 'memory';
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.staleUntil <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * FileCacheStore Class - In-process store persisted to a JSON file
+ *
+ * Entries are loaded from the file on first use and the whole store is
+ * written back shortly after each change (to a temporary file, then renamed),
+ * so it survives restarts on hosts with a writable disk. If the file can't be
+ * written, e.g. on a read-only or serverless filesystem, the store keeps
+ * working in memory and reports its name as 'memory'.
+ *
+ * @class FileCacheStore
+ * @property {string} path - JSON file of the store
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  private path: string;
+  private persistent = true;
+  private loading: Promise<void> | null = null;
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param {string} path - JSON file of the store
+   * @param {number} [maxEntries=500] - Entries kept before the least recently used is evicted
+   */
+  constructor(path: string, maxEntries: number = MEMORY_CACHE_MAX_ENTRIES) {
+    super(maxEntries);
+    this.path = path;
+  }
+
+  get name(): string {
+    return this.persistent ? 'file' : 'memory';
+  }
+
+  /**
+   * Load entries from the file once; a missing file is an empty store
+   *
+   * @private
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = readFile(this.path, 'utf8')
+        .then(contents => {
+          const now = Date.now();
+          const saved = JSON.parse(contents) as [string, CacheEntry][];
+          saved.filter(([, entry]) => entry.staleUntil > now).forEach(([key, entry]) => this.entries.set(key, entry));
+        })
+        .catch(error => {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.warn(`Failed to load file store ${this.path}:`, error);
+          }
+        });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Write the store to its file after FILE_STORE_WRITE_DELAY_MS
+   *
+   * @private
+   */
+  private scheduleWrite(): void {
+    if (this.writeTimer || !this.persistent) return;
+    this.writeTimer = setTimeout(async () => {
+      this.writeTimer = null;
+      const temporary = `${this.path}.tmp`;
+      try {
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(temporary, JSON.stringify(Array.from(this.entries.entries())));
+        await rename(temporary, this.path);
+      } catch (error) {
+        this.persistent = false;
+        console.warn(`Failed to write file store ${this.path}; keeping it in memory only:`, error);
+      }
+    }, FILE_STORE_WRITE_DELAY_MS);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    await this.load();
+    return super.get<T>(key);
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.load();
+    await super.set(key, entry);
+    this.scheduleWrite();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.load();
+    await super.delete(key);
+    this.scheduleWrite();
+  }
+}
+
+/**
+ * RedisRestCacheStore Class - Shared store over a Redis REST API
+ *
+ * Speaks the Upstash REST protocol: each command is POSTed as a JSON array.
+ * Failures are logged and treated as misses so a Redis outage only costs
+ * cache hits, never requests.
+ *
+ * @class RedisRestCacheStore
+ * @property {string} url - REST endpoint
+ * @property {string} token - Bearer token
+ */
+export class RedisRestCacheStore implements CacheStore {
+  readonly name = 'redis';
+  private url: string;
+  private token: string;
+
+  /**
+   * @param {string} url - Redis REST endpoint
+   * @param {string} token - Bearer token
+   */
+  constructor(url: string, token: string) {
+    this.url = url.replace(/\/$/, '');
+    this.token = token;
+  }
+
+  /**
+   * Run a single Redis command
+   *
+   * @param {(string | number)[]} command - Command and arguments
+   * @returns {Promise<unknown>} Command result
+   * @private
+   */
+  private async command(command: (string | number)[]): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(command),
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Redis REST error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { result?: unknown; error?: string };
+    if (data.error) {
+      throw new Error(`Redis REST error: ${data.error}`);
+    }
+    return data.result;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const result = await this.command(['GET', KEY_PREFIX + key]);
+      return typeof result === 'string' ? JSON.parse(result) as CacheEntry<T> : null;
+    } catch (error) {
+      console.warn('Redis cache read failed:', error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const ttlMs = Math.max(1, entry.staleUntil - Date.now());
+    try {
+      await this.command(['SET', KEY_PREFIX + key, JSON.stringify(entry), 'PX', ttlMs]);
+    } catch (error) {
+      console.warn('Redis cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.command(['DEL', KEY_PREFIX + key]);
+    } catch (error) {
+      console.warn('Redis cache delete failed:', error);
+    }
+  }
+}
+
+/**
+ * Create the cache store from environment configuration
+ *
+ * @param {number} [maxEntries=500] - Entries kept by the in-memory store
+ * @returns {CacheStore} Redis REST store if configured, otherwise in-memory
+ */
+export function createCacheStore(maxEntries: number = MEMORY_CACHE_MAX_ENTRIES): CacheStore {
+  const url = process.env.REDIS_REST_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.REDIS_REST_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (url && token) {
+    console.log('Using Redis REST cache store');
+    return new RedisRestCacheStore(url, token);
+  }
+  return new MemoryCacheStore(maxEntries);
+}
+
+/**
+ * Create a store for data that should survive restarts
+ *
+ * @param {string} name - Store name, used for its file
+ * @param {number} [maxEntries=500] - Entries kept by the file store
+ * @returns {CacheStore} Redis REST store if configured, otherwise a JSON file store under SNIFFER_DATA_DIR
+ */
+export function createPersistentStore(name: string, maxEntries: number = MEMORY_CACHE_MAX_ENTRIES): CacheStore {
+  const store = createCacheStore(maxEntries);
+  if (store.name === 'redis') return store;
+  return new FileCacheStore(join(process.env.SNIFFER_DATA_DIR || '.data', `${name}.json`), maxEntries);
+}
+
+// Shared store for the process
+export const cacheStore = createCacheStore();
@@ -0,0 +1,141 @@
+/**
+ * Supported Chains - Etherscan V2 Multi-Chain Configuration
+ *
+ * This file defines the EVM chains the application can profile through the
+ * unified Etherscan V2 API. Each entry carries the Etherscan chain ID, the
+ * DEXScreener chain identifier, the wrapped native token used for pricing
+ * and the block explorer and NFT marketplaces used for outbound links.
+ *
+ * @see https://docs.etherscan.io/etherscan-v2/getting-started/supported-chains
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+export type ChainKey = 'base' | 'ethereum' | 'polygon' | 'arbitrum' | 'optimism';
+
+/**
+ * Supported chain configuration
+ *
+ * @interface SupportedChain
+ * @property {ChainKey} key - Short chain key used in URLs and query parameters
+ * @property {number} id - EVM chain ID passed to Etherscan V2 as `chainid`
+ * @property {string} name - Display name
+ * @property {string} nativeSymbol - Native gas token symbol
+ * @property {string} wrappedNative - Wrapped native token address used for USD pricing
+ * @property {string[]} stablecoins - USD stablecoin addresses (valued at $1 in trade accounting)
+ * @property {string} explorerUrl - Block explorer base URL
+ * @property {string} openseaSlug - Chain segment in OpenSea asset URLs
+ * @property {string | null} zoraSlug - Chain prefix in Zora collect URLs, or null if Zora doesn't index the chain
+ */
+export interface SupportedChain {
+  key: ChainKey;
+  id: number;
+  name: string;
+  nativeSymbol: string;
+  wrappedNative: string;
+  stablecoins: string[];
+  explorerUrl: string;
+  openseaSlug: string;
+  zoraSlug: string | null;
+}
+
+export const SUPPORTED_CHAINS: Record<ChainKey, SupportedChain> = {
+  base: {
+    key: 'base',
+    id: 8453,
+    name: 'Base',
+    nativeSymbol: 'ETH',
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+    stablecoins: [
+      '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913', // USDC
+      '0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca', // USDbC
+      '0x50c5725949a6f0c72e6c4a641f24049a917db0cb' // DAI
+    ],
+    explorerUrl: 'https://basescan.org',
+    openseaSlug: 'base',
+    zoraSlug: 'base'
+  },
+  ethereum: {
+    key: 'ethereum',
+    id: 1,
+    name: 'Ethereum',
+    nativeSymbol: 'ETH',
+    wrappedNative: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+    stablecoins: [
+      '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', // USDC
+      '0xdac17f958d2ee523a2206206994597c13d831ec7', // USDT
+      '0x6b175474e89094c44da98b954eedeac495271d0f' // DAI
+    ],
+    explorerUrl: 'https://etherscan.io',
+    openseaSlug: 'ethereum',
+    zoraSlug: 'eth'
+  },
+  polygon: {
+    key: 'polygon',
+    id: 137,
+    name: 'Polygon',
+    nativeSymbol: 'POL',
+    wrappedNative: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270',
+    stablecoins: [
+      '0x3c499c542cef5e3811e1192ce70d8cc03d5c3359', // USDC
+      '0x2791bca1f2de4661ed88a30c99a7a9449aa84174', // USDC.e
+      '0xc2132d05d31c914a87c6611c10748aeb04b58e8f' // USDT
+    ],
+    explorerUrl: 'https://polygonscan.com',
+    openseaSlug: 'matic',
+    zoraSlug: null
+  },
+  arbitrum: {
+    key: 'arbitrum',
+    id: 42161,
+    name: 'Arbitrum',
+    nativeSymbol: 'ETH',
+    wrappedNative: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1',
+    stablecoins: [
+      '0xaf88d065e77c8cc2239327c5edb3a432268e5831', // USDC
+      '0xff970a61a04b1ca14834a43f5de4533ebddb5cc8', // USDC.e
+      '0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9' // USDT
+    ],
+    explorerUrl: 'https://arbiscan.io',
+    openseaSlug: 'arbitrum',
+    zoraSlug: 'arb'
+  },
+  optimism: {
+    key: 'optimism',
+    id: 10,
+    name: 'Optimism',
+    nativeSymbol: 'ETH',
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+    stablecoins: [
+      '0x0b2c639c533813f4aa9d7837caf62653d097ff85', // USDC
+      '0x7f5c764cbc14f9669b88837ca1490cca17c31607', // USDC.e
+      '0x94b008aa00579c1307b0ef2c499ad98a8ce58e58' // USDT
+    ],
+    explorerUrl: 'https://optimistic.etherscan.io',
+    openseaSlug: 'optimism',
+    zoraSlug: 'oeth'
+  }
+};
+
+export const DEFAULT_CHAIN: ChainKey = 'base';
+
+export const CHAIN_KEYS = Object.keys(SUPPORTED_CHAINS) as ChainKey[];
+
+/**
+ * Resolve a chain from a query parameter value
+ *
+ * Accepts a chain key ("base") or a numeric chain ID ("8453"). An empty
+ * value resolves to the default chain.
+ *
+ * @param {string | null | undefined} value - Chain key or ID
+ * @returns {SupportedChain | null} Matching chain, or null if unsupported
+ */
+export function resolveChain(value?: string | null): SupportedChain | null {
+  if (!value) return SUPPORTED_CHAINS[DEFAULT_CHAIN];
+
+  const normalized = value.trim().toLowerCase();
+  if (Object.hasOwn(SUPPORTED_CHAINS, normalized)) return SUPPORTED_CHAINS[normalized as ChainKey];
+
+  const chainId = parseInt(normalized, 10);
+  return Object.values(SUPPORTED_CHAINS).find(chain => chain.id === chainId) || null;
+}
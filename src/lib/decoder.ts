@@ -0,0 +1,338 @@
+/**
+ * Transaction Decoder Service - ABI and Selector Based Calldata Decoding
+ *
+ * This server-side service turns raw transaction calldata into readable calls.
+ * Signatures are resolved from, in order: the contract's verified ABI
+ * (Etherscan `getabi`, cached per contract), the function name Etherscan
+ * attaches to the transaction, and the bundled selector database.
+ *
+ * Features:
+ * - Argument decoding with viem
+ * - Per-contract ABI cache in the shared cache store (unverified contracts too)
+ * - Token paths rendered with symbols, e.g. path[WETH→DEGEN]
+ * - Activity categories for DeFi analytics
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { Abi, AbiFunction, AbiParameter, decodeFunctionData, parseAbiItem, toFunctionSelector } from 'viem';
+import { cacheStore } from './cache';
+import { ChainKey, DEFAULT_CHAIN, SUPPORTED_CHAINS } from './chains';
+import { fetchTokenPairs } from './dexscreener';
+import { getEtherscanAPI } from './etherscan';
+import {
+  categorizeCall,
+  DecodedArgument,
+  DecodedCall,
+  DecodeSource,
+  formatReadableCall,
+  getMethodName,
+  lookupSelector
+} from './signatures';
+
+const VERIFIED_ABI_TTL_MS = 24 * 60 * 60 * 1000; // Verified ABIs rarely change
+const UNVERIFIED_ABI_TTL_MS = 60 * 60 * 1000; // Contracts may get verified later
+const MAX_ABI_LOOKUPS = 10; // Most-called contracts per batch that get an ABI lookup
+
+/**
+ * Transaction fields needed for decoding
+ */
+export interface DecodableTransaction {
+  hash: string;
+  to: string;
+  input: string;
+  functionName?: string;
+}
+
+/**
+ * Call decoded against a signature, before token symbols are resolved
+ */
+interface RawCall {
+  selector: string;
+  fn: AbiFunction;
+  values: readonly unknown[];
+  source: DecodeSource;
+}
+
+/**
+ * Get a contract's verified ABI, using the shared cache
+ *
+ * @param {ChainKey} chain - Chain the contract lives on
+ * @param {string} address - Contract address
+ * @returns {Promise<Abi | null>} Parsed ABI, or null if unverified
+ * @throws {Error} If the lookup fails; failures aren't cached, so the next call retries
+ */
+export async function getContractAbi(chain: ChainKey, address: string): Promise<Abi | null> {
+  const key = `abi:${chain}:${address.toLowerCase()}`;
+  const cached = await cacheStore.get<string | null>(key);
+  let abiJson = cached ? cached.value : undefined;
+
+  if (abiJson === undefined) {
+    abiJson = await getEtherscanAPI(chain).getContractAbi(address);
+    const now = Date.now();
+    const expiresAt = now + (abiJson ? VERIFIED_ABI_TTL_MS : UNVERIFIED_ABI_TTL_MS);
+    await cacheStore.set(key, { value: abiJson, storedAt: now, freshUntil: expiresAt, staleUntil: expiresAt });
+  }
+
+  if (!abiJson) return null;
+  try {
+    return JSON.parse(abiJson) as Abi;
+  } catch {
+    console.warn(`Could not parse ABI for ${address}`);
+    return null;
+  }
+}
+
+/**
+ * Decode calldata against the functions of an ABI whose selector matches
+ *
+ * @param {AbiFunction[]} candidates - Candidate functions
+ * @param {string} selector - Calldata selector
+ * @param {string} input - Calldata
+ * @returns {{ fn: AbiFunction; values: readonly unknown[] } | null} Matching function and values
+ */
+function tryDecode(candidates: AbiFunction[], selector: string, input: string): { fn: AbiFunction; values: readonly unknown[] } | null {
+  const fn = candidates.find(item => toFunctionSelector(item) === selector);
+  if (!fn) return null;
+
+  try {
+    const { args } = decodeFunctionData({ abi: [fn], data: input as `0x${string}` });
+    return { fn, values: args || [] };
+  } catch {
+    // Selector matched but calldata doesn't fit the signature; keep the name without arguments
+    return { fn, values: [] };
+  }
+}
+
+/**
+ * Parse a "name(type name, ...)" signature into an ABI function
+ *
+ * @param {string} signature - Function signature
+ * @returns {AbiFunction | null} ABI function, or null if unparseable
+ */
+function parseSignature(signature: string): AbiFunction | null {
+  try {
+    const item = parseAbiItem(`function ${signature}`);
+    return item.type === 'function' ? item : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a transaction's call from the available signature sources
+ *
+ * @param {DecodableTransaction} tx - Transaction
+ * @param {Abi | null} abi - Verified ABI of the called contract
+ * @returns {RawCall | null} Decoded call, or null if no source knows the selector
+ */
+function resolveCall(tx: DecodableTransaction, abi: Abi | null): RawCall | null {
+  const selector = tx.input.slice(0, 10).toLowerCase();
+
+  if (abi) {
+    const functions = abi.filter((item): item is AbiFunction => item.type === 'function');
+    const decoded = tryDecode(functions, selector, tx.input);
+    if (decoded) return { selector, ...decoded, source: 'abi' };
+  }
+
+  const fromEtherscan = tx.functionName ? parseSignature(tx.functionName) : null;
+  if (fromEtherscan) {
+    const decoded = tryDecode([fromEtherscan], selector, tx.input);
+    if (decoded) return { selector, ...decoded, source: 'etherscan' };
+  }
+
+  const known = lookupSelector(selector);
+  const fromDatabase = known ? parseSignature(known.signature) : null;
+  if (fromDatabase) {
+    const decoded = tryDecode([fromDatabase], selector, tx.input);
+    if (decoded) return { selector, ...decoded, source: 'signature-db' };
+  }
+
+  return null;
+}
+
+/**
+ * Collect token addresses that should be shown as symbols
+ *
+ * @param {AbiParameter} param - ABI parameter
+ * @param {unknown} value - Decoded value
+ * @returns {string[]} Token addresses in path order
+ */
+function getTokenPath(param: AbiParameter, value: unknown): string[] | null {
+  if (param.type === 'address[]' && Array.isArray(value)) {
+    return value as string[];
+  }
+
+  if (param.type === 'tuple' && value && typeof value === 'object') {
+    const tuple = value as Record<string, unknown>;
+    const tokenIn = tuple.tokenIn || tuple.srcToken;
+    const tokenOut = tuple.tokenOut || tuple.dstToken;
+    if (typeof tokenIn === 'string' && typeof tokenOut === 'string') {
+      return [tokenIn, tokenOut];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format a decoded value for display
+ *
+ * @param {AbiParameter} param - ABI parameter
+ * @param {unknown} value - Decoded value
+ * @returns {string} Display value
+ */
+function formatValue(param: AbiParameter, value: unknown): string {
+  if (typeof value === 'bigint' || typeof value === 'number' || typeof value === 'boolean') {
+    return value.toString();
+  }
+  if (typeof value === 'string') {
+    if (param.type.startsWith('bytes') && value.length > 42) {
+      return `${value.slice(0, 10)}… (${(value.length - 2) / 2} bytes)`;
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.length} items]`;
+  }
+  return param.type;
+}
+
+/**
+ * Shorten an address for display when no symbol is known
+ */
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * Look up token symbols for a set of addresses
+ *
+ * @param {string[]} addresses - Token addresses
+ * @param {ChainKey} chain - Chain the tokens live on
+ * @returns {Promise<Map<string, string>>} Symbols keyed by lowercased address
+ */
+async function resolveTokenSymbols(addresses: string[], chain: ChainKey): Promise<Map<string, string>> {
+  const symbols = new Map<string, string>();
+  const { wrappedNative, nativeSymbol } = SUPPORTED_CHAINS[chain];
+  symbols.set(wrappedNative.toLowerCase(), `W${nativeSymbol}`);
+
+  const unknown = addresses.filter(address => !symbols.has(address.toLowerCase()));
+  if (unknown.length === 0) return symbols;
+
+  const pairs = await fetchTokenPairs(unknown, chain);
+  pairs.forEach(pair => {
+    [pair.baseToken, pair.quoteToken].forEach(token => {
+      const key = token.address.toLowerCase();
+      if (!symbols.has(key)) symbols.set(key, token.symbol);
+    });
+  });
+
+  return symbols;
+}
+
+/**
+ * Decode a batch of transactions
+ *
+ * ABIs are fetched for the most frequently called contracts only; calls to
+ * other contracts still decode from Etherscan's function name or the bundled
+ * selector database.
+ *
+ * @param {DecodableTransaction[]} transactions - Transactions to decode
+ * @param {ChainKey} [chain='base'] - Chain the transactions are on
+ * @returns {Promise<Record<string, DecodedCall>>} Decoded calls keyed by transaction hash
+ */
+export async function decodeTransactions(
+  transactions: DecodableTransaction[],
+  chain: ChainKey = DEFAULT_CHAIN
+): Promise<Record<string, DecodedCall>> {
+  const contractCalls = transactions.filter(tx => tx.to && tx.input && tx.input.length >= 10);
+
+  // Fetch ABIs for the most-called contracts
+  const callCounts = new Map<string, number>();
+  contractCalls.forEach(tx => {
+    const to = tx.to.toLowerCase();
+    callCounts.set(to, (callCounts.get(to) || 0) + 1);
+  });
+  const abiTargets = Array.from(callCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_ABI_LOOKUPS)
+    .map(([address]) => address);
+
+  const abis = new Map<string, Abi | null>();
+  await Promise.all(abiTargets.map(async address => {
+    abis.set(address, await getContractAbi(chain, address).catch(() => null));
+  }));
+
+  const rawCalls = new Map<string, RawCall | null>();
+  const pathTokens = new Set<string>();
+
+  contractCalls.forEach(tx => {
+    const call = resolveCall(tx, abis.get(tx.to.toLowerCase()) || null);
+    rawCalls.set(tx.hash, call);
+
+    call?.fn.inputs.forEach((param, index) => {
+      getTokenPath(param, call.values[index])?.forEach(address => pathTokens.add(address.toLowerCase()));
+    });
+  });
+
+  const symbols = await resolveTokenSymbols(Array.from(pathTokens), chain);
+  const symbolFor = (address: string) => symbols.get(address.toLowerCase()) || shortAddress(address);
+  const { nativeSymbol } = SUPPORTED_CHAINS[chain];
+  const decoded: Record<string, DecodedCall> = {};
+
+  transactions.forEach(tx => {
+    if (!tx.input || tx.input === '0x' || tx.input.length < 10) {
+      decoded[tx.hash] = {
+        selector: '0x',
+        method: 'transfer',
+        signature: null,
+        category: 'transfer',
+        source: 'none',
+        args: [],
+        readable: `${nativeSymbol} transfer`
+      };
+      return;
+    }
+
+    const call = rawCalls.get(tx.hash);
+    if (!call) {
+      const selector = tx.input.slice(0, 10).toLowerCase();
+      decoded[tx.hash] = {
+        selector,
+        method: selector,
+        signature: null,
+        category: categorizeCall(selector, tx.functionName),
+        source: 'none',
+        args: [],
+        readable: `${selector}(...)`
+      };
+      return;
+    }
+
+    const expanded = new Set<string>();
+    const args: DecodedArgument[] = call.values.length === 0 ? [] : call.fn.inputs.map((param, index) => {
+      const name = param.name || `arg${index}`;
+      const path = getTokenPath(param, call.values[index]);
+      if (path) {
+        expanded.add(name);
+        return { name, type: param.type, value: path.map(symbolFor).join('→') };
+      }
+      return { name, type: param.type, value: formatValue(param, call.values[index]) };
+    });
+
+    const signature = `${call.fn.name}(${call.fn.inputs.map(param => param.name ? `${param.type} ${param.name}` : param.type).join(', ')})`;
+    decoded[tx.hash] = {
+      selector: call.selector,
+      method: call.fn.name,
+      signature,
+      category: categorizeCall(call.selector, getMethodName(signature)),
+      source: call.source,
+      args,
+      readable: formatReadableCall(call.fn.name, args, expanded)
+    };
+  });
+
+  return decoded;
+}
@@ -0,0 +1,270 @@
+/**
+ * DEXScreener API Client - Shared Types and Fetch Helpers
+ *
+ * This module holds the DEXScreener response types and the low-level fetch
+ * helpers shared by the DEXScreener API routes and server-side services
+ * such as portfolio pricing.
+ *
+ * Features:
+ * - DEXScreener pair and response type definitions
+ * - Batched token and pair lookups (up to 30 addresses per request)
+ * - Chain filtering (Base by default)
+ * - Best-pair selection by liquidity
+ * - Token profiles and boosts (latest and top) for trending discovery
+ *
+ * @see https://docs.dexscreener.com/api/reference - DEXScreener API Documentation
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { isAddress } from 'viem';
+
+const DEXSCREENER_API_URL = 'https://api.dexscreener.com';
+const MAX_ADDRESSES_PER_REQUEST = 30; // DEXScreener limit for comma-separated token lookups
+
+// DEXScreener API types
+export interface DexScreenerToken {
+  chainId: string;
+  dexId: string;
+  url: string;
+  pairAddress: string;
+  baseToken: {
+    address: string;
+    name: string;
+    symbol: string;
+  };
+  quoteToken: {
+    address: string;
+    name: string;
+    symbol: string;
+  };
+  priceNative: string;
+  priceUsd?: string;
+  txns: {
+    m5: { buys: number; sells: number; };
+    h1: { buys: number; sells: number; };
+    h6: { buys: number; sells: number; };
+    h24: { buys: number; sells: number; };
+  };
+  volume: {
+    h24: number;
+    h6: number;
+    h1: number;
+    m5: number;
+  };
+  priceChange: {
+    m5: number;
+    h1: number;
+    h6: number;
+    h24: number;
+  };
+  liquidity?: {
+    usd?: number;
+    base?: number;
+  };
+  fdv?: number;
+  marketCap?: number;
+  pairCreatedAt?: number;
+  info?: {
+    imageUrl?: string;
+    header?: string;
+    openGraph?: string;
+    websites?: Array<{ label: string; url: string }>;
+    socials?: Array<{ type: string; url: string }>;
+  };
+}
+
+export interface DexScreenerResponse {
+  schemaVersion: string;
+  pairs: DexScreenerToken[];
+}
+
+/**
+ * Token profile from /token-profiles/latest/v1, or boost from /token-boosts/{latest,top}/v1
+ *
+ * @interface DexScreenerTokenProfile
+ * @property {string} chainId - DEXScreener chain identifier
+ * @property {string} tokenAddress - Token contract address
+ * @property {number} [amount] - Active boost amount (boosts only)
+ * @property {number} [totalAmount] - Total boost amount (boosts only)
+ */
+export interface DexScreenerTokenProfile {
+  url: string;
+  chainId: string;
+  tokenAddress: string;
+  icon?: string;
+  header?: string;
+  description?: string;
+  links?: Array<{ type?: string; label?: string; url: string }>;
+  amount?: number;
+  totalAmount?: number;
+}
+
+export type TokenBoostList = 'latest' | 'top';
+
+/**
+ * Check whether a DEXScreener pair lives on Base
+ */
+export function isBasePair(pair: DexScreenerToken): boolean {
+  return pair.chainId === 'base' || pair.chainId === '8453';
+}
+
+/**
+ * Pairs found for a token lookup
+ *
+ * @interface TokenPairLookup
+ * @property {DexScreenerToken[]} pairs - Pairs where any of the tokens is base or quote
+ * @property {boolean} complete - False when a batch failed and its tokens are missing
+ */
+export interface TokenPairLookup {
+  pairs: DexScreenerToken[];
+  complete: boolean;
+}
+
+/**
+ * Fetch every pair on a chain for a list of token addresses
+ *
+ * Addresses are looked up in batches of 30, the maximum DEXScreener accepts
+ * in a single request. Failed batches are logged and skipped.
+ *
+ * @param {string[]} addresses - Token contract addresses
+ * @param {string} [chainId='base'] - DEXScreener chain identifier
+ * @returns {Promise<DexScreenerToken[]>} Pairs where any of the tokens is base or quote
+ */
+export async function fetchTokenPairs(addresses: string[], chainId: string = 'base'): Promise<DexScreenerToken[]> {
+  return (await lookupTokenPairs(addresses, chainId)).pairs;
+}
+
+/**
+ * Fetch every pair on a chain for a list of token addresses, reporting failed batches
+ *
+ * @param {string[]} addresses - Token contract addresses
+ * @param {string} [chainId='base'] - DEXScreener chain identifier
+ * @returns {Promise<TokenPairLookup>} Pairs found, and whether every batch succeeded
+ */
+export async function lookupTokenPairs(addresses: string[], chainId: string = 'base'): Promise<TokenPairLookup> {
+  const unique = Array.from(new Set(addresses.map(address => address.toLowerCase())));
+  const batches: string[][] = [];
+
+  for (let i = 0; i < unique.length; i += MAX_ADDRESSES_PER_REQUEST) {
+    batches.push(unique.slice(i, i + MAX_ADDRESSES_PER_REQUEST));
+  }
+
+  const results = await Promise.all(batches.map(async (batch): Promise<DexScreenerToken[] | null> => {
+    try {
+      const response = await fetch(`${DEXSCREENER_API_URL}/latest/dex/tokens/${batch.join(',')}`);
+      if (!response.ok) {
+        console.warn(`DEXScreener API error: ${response.status}`);
+        return null;
+      }
+
+      const data: DexScreenerResponse = await response.json();
+      if (!Array.isArray(data.pairs)) return [];
+      return data.pairs.filter(pair => chainId === 'base' ? isBasePair(pair) : pair.chainId === chainId);
+    } catch (error) {
+      console.warn('Error fetching DEXScreener token pairs:', error);
+      return null;
+    }
+  }));
+
+  return {
+    pairs: results.flatMap(pairs => pairs || []),
+    complete: results.every(pairs => pairs !== null)
+  };
+}
+
+/**
+ * Fetch pairs by pair (pool) address
+ *
+ * Like token lookups, pair lookups are batched 30 addresses per request and
+ * failed batches are skipped.
+ *
+ * @param {string[]} pairAddresses - Pair contract addresses
+ * @param {string} [chainId='base'] - DEXScreener chain identifier
+ * @returns {Promise<DexScreenerToken[]>} Pairs found on DEXScreener
+ */
+export async function fetchPairsByAddress(pairAddresses: string[], chainId: string = 'base'): Promise<DexScreenerToken[]> {
+  const unique = Array.from(new Set(pairAddresses.map(address => address.toLowerCase())));
+  const batches: string[][] = [];
+
+  for (let i = 0; i < unique.length; i += MAX_ADDRESSES_PER_REQUEST) {
+    batches.push(unique.slice(i, i + MAX_ADDRESSES_PER_REQUEST));
+  }
+
+  const results = await Promise.all(batches.map(async (batch) => {
+    try {
+      const response = await fetch(`${DEXSCREENER_API_URL}/latest/dex/pairs/${chainId}/${batch.join(',')}`);
+      if (!response.ok) {
+        console.warn(`DEXScreener API error: ${response.status}`);
+        return [];
+      }
+
+      const data: DexScreenerResponse = await response.json();
+      return Array.isArray(data.pairs) ? data.pairs : [];
+    } catch (error) {
+      console.warn('Error fetching DEXScreener pairs:', error);
+      return [];
+    }
+  }));
+
+  return results.flat();
+}
+
+/**
+ * Pick the most liquid pair in which the given token is the base token
+ *
+ * @param {DexScreenerToken[]} pairs - Candidate pairs
+ * @param {string} address - Token contract address
+ * @returns {DexScreenerToken | null} Most liquid matching pair, or null if none
+ */
+export function getBestPair(pairs: DexScreenerToken[], address: string): DexScreenerToken | null {
+  const target = address.toLowerCase();
+
+  return pairs
+    .filter(pair => pair.baseToken.address.toLowerCase() === target)
+    .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0] || null;
+}
+
+/**
+ * Fetch a DEXScreener token list endpoint, keeping valid addresses on a chain
+ */
+async function fetchTokenList(path: string, chainId: string): Promise<DexScreenerTokenProfile[]> {
+  try {
+    const response = await fetch(`${DEXSCREENER_API_URL}${path}`);
+    if (!response.ok) {
+      console.warn(`DEXScreener API error: ${response.status}`);
+      return [];
+    }
+
+    const data: DexScreenerTokenProfile[] = await response.json();
+    if (!Array.isArray(data)) return [];
+    return data.filter(entry =>
+      (chainId === 'base' ? entry.chainId === 'base' || entry.chainId === '8453' : entry.chainId === chainId) &&
+      typeof entry.tokenAddress === 'string' && isAddress(entry.tokenAddress, { strict: false })
+    );
+  } catch (error) {
+    console.warn(`Error fetching DEXScreener ${path}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Fetch the latest token profiles on a chain
+ *
+ * @param {string} [chainId='base'] - DEXScreener chain identifier
+ * @returns {Promise<DexScreenerTokenProfile[]>} Recently created or updated token profiles
+ */
+export function fetchTokenProfiles(chainId: string = 'base'): Promise<DexScreenerTokenProfile[]> {
+  return fetchTokenList('/token-profiles/latest/v1', chainId);
+}
+
+/**
+ * Fetch boosted tokens on a chain
+ *
+ * @param {TokenBoostList} list - Latest boosts or tokens with the most active boosts
+ * @param {string} [chainId='base'] - DEXScreener chain identifier
+ * @returns {Promise<DexScreenerTokenProfile[]>} Boosted tokens with their boost amounts
+ */
+export function fetchTokenBoosts(list: TokenBoostList, chainId: string = 'base'): Promise<DexScreenerTokenProfile[]> {
+  return fetchTokenList(`/token-boosts/${list}/v1`, chainId);
+}
@@ -0,0 +1,110 @@
+/**
+ * Etherscan API Key Pool - Server-Side Key Rotation
+ *
+ * This module loads Etherscan API keys from environment configuration and
+ * hands them out round-robin to the Etherscan client. A key that hits a rate
+ * limit is put on cooldown so the next request uses another key. Keys never
+ * leave the server: browser code calls the /api/etherscan/* routes instead.
+ *
+ * Environment:
+ * - ETHERSCAN_API_KEYS: comma-separated list of keys (preferred)
+ * - ETHERSCAN_API_KEY: single key, used alone or added to the list
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+const RATE_LIMIT_COOLDOWN_MS = 1000; // Etherscan limits are per second
+
+/**
+ * EtherscanKeyPool Class - Round-robin key selection with cooldowns
+ *
+ * @class EtherscanKeyPool
+ * @property {string[]} keys - Configured API keys
+ * @property {Map<string, number>} cooldowns - Key to time (ms) it becomes usable again
+ */
+export class EtherscanKeyPool {
+  private keys: string[];
+  private cooldowns = new Map<string, number>();
+  private nextIndex = 0;
+
+  /**
+   * Constructor for EtherscanKeyPool class
+   *
+   * @param {string[]} keys - API keys; blanks and duplicates are dropped
+   */
+  constructor(keys: string[]) {
+    this.keys = Array.from(new Set(keys.map(key => key.trim()).filter(Boolean)));
+  }
+
+  /**
+   * Number of configured keys
+   */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Get the next key that is not cooling down
+   *
+   * If every key is cooling down, the one that recovers first is returned so
+   * the caller's own backoff decides how long to wait.
+   *
+   * @returns {string} API key
+   * @throws {Error} If no keys are configured
+   */
+  acquire(): string {
+    if (this.keys.length === 0) {
+      throw new Error('Etherscan API key is not configured. Set ETHERSCAN_API_KEYS or ETHERSCAN_API_KEY.');
+    }
+
+    const now = Date.now();
+    for (let i = 0; i < this.keys.length; i++) {
+      const key = this.keys[(this.nextIndex + i) % this.keys.length];
+      if ((this.cooldowns.get(key) || 0) <= now) {
+        this.nextIndex = (this.nextIndex + i + 1) % this.keys.length;
+        return key;
+      }
+    }
+
+    return this.keys.reduce((best, key) =>
+      (this.cooldowns.get(key) || 0) < (this.cooldowns.get(best) || 0) ? key : best
+    );
+  }
+
+  /**
+   * Put a key on cooldown after Etherscan reported a rate limit for it
+   *
+   * @param {string} key - Rate-limited API key
+   * @param {number} [cooldownMs=1000] - How long to skip the key
+   */
+  markRateLimited(key: string, cooldownMs: number = RATE_LIMIT_COOLDOWN_MS): void {
+    this.cooldowns.set(key, Date.now() + cooldownMs);
+  }
+
+  /**
+   * Whether another key is available right now besides the given one
+   *
+   * @param {string} key - Key that just failed
+   * @returns {boolean} True if retrying immediately with another key makes sense
+   */
+  hasAvailableKey(key: string): boolean {
+    const now = Date.now();
+    return this.keys.some(candidate => candidate !== key && (this.cooldowns.get(candidate) || 0) <= now);
+  }
+}
+
+/**
+ * Read Etherscan API keys from the environment
+ *
+ * @returns {string[]} Keys from ETHERSCAN_API_KEYS followed by ETHERSCAN_API_KEY
+ */
+export function loadEtherscanKeys(): string[] {
+  return [
+    ...(process.env.ETHERSCAN_API_KEYS || '').split(','),
+    process.env.ETHERSCAN_API_KEY || ''
+  ];
+}
+
+// Shared pool; one Etherscan V2 key works on every chain
+export const etherscanKeyPool = new EtherscanKeyPool(loadEtherscanKeys());
@@ -2,16 +2,24 @@
  * Etherscan API Service - Base Blockchain Real Data (V2 API)
  * 
  * This service provides real blockchain data using Etherscan's unified V2 API
- * for Base blockchain (Chain ID: 8453). The V2 API allows querying data from
- * 50+ supported chains with a single API key.
+ * for Base blockchain (Chain ID: 8453) by default. The V2 API allows querying
+ * data from 50+ supported chains with a single API key; one client instance
+ * is kept per chain in SUPPORTED_CHAINS.
  * 
  * Features:
  * - Real transaction history and details
+ * - Internal transactions (ETH moved by contract calls), linked to their parent transaction
+ * - Cursor-based history pagination past the 10,000 result window
+ * - Lifetime transaction statistics, cached per address for transaction counts
  * - Actual token balances and transfers
+ * - NFT holdings (ERC-721 and ERC-1155) replayed from transfer history
  * - Gas usage and transaction costs
  * - Block information and confirmations
- * - Base blockchain specific endpoints (Chain ID: 8453)
- * - Error handling and rate limiting
+ * - Contract verification, source and owner lookups
+ * - Base blockchain by default, plus Ethereum, Polygon, Arbitrum and Optimism
+ * - Per-chain transaction activity across all supported chains
+ * - Error handling and shared per-key rate limiting (see rate-limiter.ts)
+ * - API keys from environment, rotated through a server-side key pool
  * - Unified V2 API across multiple chains
  * 
  * @see https://docs.etherscan.io/ - Etherscan V2 API Documentation
@@ -19,10 +27,27 @@
  * @version 1.0.0
  */
 
-// Etherscan API Configuration for Base (V2 API)
-const ETHERSCAN_API_KEY = '4BX3N5QR9QQREKWAKT5IJQTWF5R8SM8ZV9';
+import { formatUnits } from 'viem';
+import { cacheStore } from './cache';
+import { ChainKey, CHAIN_KEYS, DEFAULT_CHAIN, SUPPORTED_CHAINS } from './chains';
+import { EtherscanKeyPool, etherscanKeyPool } from './etherscan-keys';
+import { getRateLimiter, RequestPriority } from './rate-limiter';
+
+// Etherscan API Configuration (V2 API); keys come from the environment via the key pool
 const BASE_API_URL = 'https://api.etherscan.io/v2/api'; // Unified Etherscan V2 API endpoint
 
+// Token balance configuration
+const DUST_THRESHOLD = 0.000001; // Balances below this (in whole tokens) are treated as dust
+const MAX_BALANCE_LOOKUPS = 20; // Max per-contract tokenbalance calls per wallet
+const MAX_TOKEN_TRANSFER_PAGES = 5; // Windows of 10,000 token transfers walked per balance lookup
+
+// Transaction history configuration
+const MAX_RESULT_WINDOW = 10000; // Etherscan caps page * offset at 10,000 rows
+const MAX_HISTORY_PAGE_SIZE = 1000; // Largest page a history cursor may request
+const LATEST_BLOCK = 99999999;
+const LIFETIME_STATS_TTL_MS = 15 * 60 * 1000; // Stats used for transaction counts are refreshed after this
+const LIFETIME_STATS_STALE_MS = 24 * 60 * 60 * 1000; // ...and served stale, topped up with the nonce, meanwhile
+
 /**
  * Etherscan Transaction Interface
  * 
@@ -39,6 +64,7 @@ const BASE_API_URL = 'https://api.etherscan.io/v2/api'; // Unified Etherscan V2
  * @property {string} isError - Error status (0 = success, 1 = error)
  * @property {string} methodId - Method ID
  * @property {string} functionName - Function name
+ * @property {string} input - Calldata sent with the transaction ("0x" for plain transfers)
  */
 export interface EtherscanTransaction {
   hash: string;
@@ -53,6 +79,7 @@ export interface EtherscanTransaction {
   isError: string;
   methodId: string;
   functionName: string;
+  input: string;
 }
 
 /**
@@ -83,16 +110,65 @@ export interface EtherscanTokenTransfer {
   contractAddress: string;
 }
 
+/**
+ * Etherscan Internal Transaction Interface
+ * 
+ * ETH moved by a contract during another transaction (DEX payouts, bridge
+ * withdrawals, claims). `hash` is the parent transaction's hash.
+ * 
+ * @interface EtherscanInternalTransaction
+ * @property {string} blockNumber - Block number
+ * @property {string} timeStamp - Transaction timestamp
+ * @property {string} hash - Parent transaction hash
+ * @property {string} from - Sending contract
+ * @property {string} to - Recipient address
+ * @property {string} value - Amount in wei
+ * @property {string} contractAddress - Created contract (for create traces)
+ * @property {string} input - Calldata of the internal call (often empty)
+ * @property {string} type - Trace type (call, create, ...)
+ * @property {string} gas - Gas limit of the internal call
+ * @property {string} gasUsed - Gas used by the internal call
+ * @property {string} traceId - Position of the call in the parent's trace
+ * @property {string} isError - Error status (0 = success, 1 = error)
+ * @property {string} errCode - Error reason when isError is 1
+ */
+export interface EtherscanInternalTransaction {
+  blockNumber: string;
+  timeStamp: string;
+  hash: string;
+  from: string;
+  to: string;
+  value: string;
+  contractAddress: string;
+  input: string;
+  type: string;
+  gas: string;
+  gasUsed: string;
+  traceId: string;
+  isError: string;
+  errCode: string;
+}
+
+/**
+ * How a token balance was obtained
+ * 
+ * - tokenbalance: read from the token contract via Etherscan's tokenbalance action
+ * - transfer-replay: inflows minus outflows from the wallet's tokentx history
+ */
+export type TokenBalanceSource = 'tokenbalance' | 'transfer-replay';
+
 /**
  * Etherscan Token Balance Interface
  * 
  * @interface EtherscanTokenBalance
  * @property {string} account - Wallet address
- * @property {string} balance - Token balance
+ * @property {string} balance - Token balance in the token's smallest unit
+ * @property {string} balanceFormatted - Token balance adjusted for decimals
  * @property {string} tokenName - Token name
  * @property {string} tokenSymbol - Token symbol
  * @property {string} tokenDecimal - Token decimals
  * @property {string} contractAddress - Token contract address
+ * @property {TokenBalanceSource} source - Method that produced the balance
  */
 export interface EtherscanTokenBalance {
   account: string;
@@ -102,6 +178,229 @@ export interface EtherscanTokenBalance {
   tokenSymbol: string;
   tokenDecimal: string;
   contractAddress: string;
+  source?: TokenBalanceSource;
+}
+
+/**
+ * Token balances of a wallet
+ * 
+ * @interface TokenBalanceList
+ * @property {EtherscanTokenBalance[]} balances - Non-zero token balances
+ * @property {boolean} complete - False when the transfer history was longer than the walk, so tokens may be missing
+ */
+export interface TokenBalanceList {
+  balances: EtherscanTokenBalance[];
+  complete: boolean;
+}
+
+/**
+ * Limits of a token balance lookup
+ * 
+ * @interface TokenBalanceOptions
+ * @property {number} [maxPages] - Pages of transfers to walk (default MAX_TOKEN_TRANSFER_PAGES)
+ * @property {number} [pageSize] - Transfers per page (default and max 10,000)
+ * @property {number} [maxBalanceLookups] - tokenbalance calls for the most recently active tokens (default MAX_BALANCE_LOOKUPS)
+ * @property {RequestPriority} [priority] - Rate limiter queue priority (default interactive)
+ */
+export interface TokenBalanceOptions {
+  maxPages?: number;
+  pageSize?: number;
+  maxBalanceLookups?: number;
+  priority?: RequestPriority;
+}
+
+/**
+ * NFT token standard
+ */
+export type NftStandard = 'erc721' | 'erc1155';
+
+/**
+ * Etherscan NFT Transfer Interface (tokennfttx / token1155tx)
+ * 
+ * @interface EtherscanNftTransfer
+ * @property {string} blockNumber - Block number
+ * @property {string} timeStamp - Transfer timestamp
+ * @property {string} hash - Transaction hash
+ * @property {string} from - Sender address
+ * @property {string} to - Recipient address
+ * @property {string} contractAddress - Collection contract address
+ * @property {string} tokenID - Token ID
+ * @property {string} [tokenValue] - Amount transferred (ERC-1155 only)
+ * @property {string} tokenName - Collection name
+ * @property {string} tokenSymbol - Collection symbol
+ */
+export interface EtherscanNftTransfer {
+  blockNumber: string;
+  timeStamp: string;
+  hash: string;
+  from: string;
+  to: string;
+  contractAddress: string;
+  tokenID: string;
+  tokenValue?: string;
+  tokenName: string;
+  tokenSymbol: string;
+}
+
+/**
+ * NFT currently held by an address
+ * 
+ * @interface NftToken
+ * @property {string} tokenId - Token ID
+ * @property {string} amount - Units held (always "1" for ERC-721)
+ * @property {number} acquiredAt - When the current holding started (ms)
+ */
+export interface NftToken {
+  tokenId: string;
+  amount: string;
+  acquiredAt: number;
+}
+
+/**
+ * NFT holdings in one collection
+ * 
+ * @interface NftCollectionHolding
+ * @property {string} contractAddress - Collection contract address
+ * @property {string} name - Collection name
+ * @property {string} symbol - Collection symbol
+ * @property {NftStandard} standard - Token standard
+ * @property {number} count - Units held across all token IDs
+ * @property {NftToken[]} tokens - Held tokens, most recently acquired first
+ * @property {number} firstAcquired - Earliest acquisition among held tokens (ms)
+ */
+export interface NftCollectionHolding {
+  contractAddress: string;
+  name: string;
+  symbol: string;
+  standard: NftStandard;
+  count: number;
+  tokens: NftToken[];
+  firstAcquired: number;
+}
+
+/**
+ * Token Holder Interface
+ * 
+ * @interface EtherscanTokenHolder
+ * @property {string} TokenHolderAddress - Holder address
+ * @property {string} TokenHolderQuantity - Balance in the token's smallest unit
+ */
+export interface EtherscanTokenHolder {
+  TokenHolderAddress: string;
+  TokenHolderQuantity: string;
+}
+
+/**
+ * Contract Source Interface
+ * 
+ * One entry of a `getsourcecode` result. Unverified contracts come back with
+ * an empty SourceCode and an ABI of "Contract source code not verified".
+ * 
+ * @interface EtherscanContractSource
+ * @property {string} SourceCode - Verified source, empty if unverified
+ * @property {string} ABI - ABI JSON, or the "not verified" message
+ * @property {string} ContractName - Contract name
+ * @property {string} Proxy - "1" if Etherscan detected a proxy
+ * @property {string} Implementation - Implementation address of a proxy
+ */
+export interface EtherscanContractSource {
+  SourceCode: string;
+  ABI: string;
+  ContractName: string;
+  CompilerVersion: string;
+  Proxy: string;
+  Implementation: string;
+}
+
+/**
+ * History Cursor Interface
+ * 
+ * Position in an address's transaction history, walking newest to oldest.
+ * Serialized as base64url JSON so clients treat it as an opaque string.
+ * 
+ * @interface HistoryCursor
+ * @property {number} b - Highest block still to be read
+ * @property {number} s - Transactions in block `b` that were already returned
+ */
+interface HistoryCursor {
+  b: number;
+  s: number;
+}
+
+/**
+ * Transaction History Page Interface
+ * 
+ * @interface TransactionHistoryPage
+ * @property {EtherscanTransaction[]} transactions - Transactions, newest first
+ * @property {string | null} nextCursor - Cursor for the next (older) page, or null at the end
+ */
+export interface TransactionHistoryPage {
+  transactions: EtherscanTransaction[];
+  nextCursor: string | null;
+}
+
+/**
+ * Lifetime Transaction Stats Interface
+ * 
+ * Aggregates over an address's full normal-transaction history. Values are
+ * in wei as decimal strings to avoid precision loss.
+ * 
+ * @interface TransactionLifetimeStats
+ * @property {number} totalTransactions - Transactions scanned
+ * @property {number} sent - Transactions sent by the address
+ * @property {number} received - Transactions received by the address
+ * @property {number} failed - Transactions that reverted
+ * @property {string} valueSentWei - Native value sent
+ * @property {string} valueReceivedWei - Native value received
+ * @property {string} gasSpentWei - Gas fees paid on sent transactions
+ * @property {number} uniqueCounterparties - Distinct addresses interacted with
+ * @property {number | null} firstBlock - Oldest block seen
+ * @property {number | null} firstTimestamp - Oldest transaction time (ms)
+ * @property {number | null} lastTimestamp - Newest transaction time (ms)
+ * @property {boolean} complete - False if the walk stopped at the page limit
+ */
+export interface TransactionLifetimeStats {
+  totalTransactions: number;
+  sent: number;
+  received: number;
+  failed: number;
+  valueSentWei: string;
+  valueReceivedWei: string;
+  gasSpentWei: string;
+  uniqueCounterparties: number;
+  firstBlock: number | null;
+  firstTimestamp: number | null;
+  lastTimestamp: number | null;
+  complete: boolean;
+}
+
+/**
+ * Encode a history cursor as an opaque string
+ * 
+ * @param {HistoryCursor} cursor - Cursor position
+ * @returns {string} base64url-encoded cursor
+ */
+function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a history cursor produced by encodeCursor
+ * 
+ * @param {string} value - Opaque cursor string
+ * @returns {HistoryCursor} Cursor position
+ * @throws {Error} If the cursor is malformed
+ */
+function decodeCursor(value: string): HistoryCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (Number.isInteger(cursor?.b) && Number.isInteger(cursor?.s) && cursor.b >= 0 && cursor.s >= 0) {
+      return { b: cursor.b, s: cursor.s };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid history cursor');
 }
 
 /**
@@ -126,39 +425,27 @@ export interface EtherscanTokenBalance {
  * transactions, token transfers, and wallet balances.
  * 
  * @class EtherscanAPI
- * @property {string} apiKey - Etherscan API key for authentication
- * @property {string} baseUrl - Base URL for Etherscan Base API endpoints
+ * @property {EtherscanKeyPool} keyPool - Pool of Etherscan API keys to rotate through
+ * @property {string} baseUrl - Base URL for Etherscan V2 API endpoints
+ * @property {number} chainId - Chain ID sent as `chainid` with every request
+ * @property {Map<string, Promise<TransactionLifetimeStats>>} statsInFlight - Lifetime stats walks running, by address
  */
 class EtherscanAPI {
-  private apiKey: string;
+  private keyPool: EtherscanKeyPool;
   private baseUrl: string;
-  private lastRequestTime: number = 0;
+  private chainId: number;
+  private statsInFlight = new Map<string, Promise<TransactionLifetimeStats>>();
 
   /**
    * Constructor for EtherscanAPI class
    * 
-   * @param {string} apiKey - Etherscan API key for authentication
+   * @param {EtherscanKeyPool} keyPool - Pool of Etherscan API keys
+   * @param {number} [chainId=8453] - Chain to query (defaults to Base)
    */
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(keyPool: EtherscanKeyPool, chainId: number = SUPPORTED_CHAINS[DEFAULT_CHAIN].id) {
+    this.keyPool = keyPool;
     this.baseUrl = BASE_API_URL;
-  }
-
-  /**
-   * Rate limiting helper - ensures max 4 requests per second
-   */
-  private async rateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const minInterval = 250; // 250ms = 4 requests per second (safe margin)
-    
-    if (timeSinceLastRequest < minInterval) {
-      const waitTime = minInterval - timeSinceLastRequest;
-      console.log(`Rate limiting: waiting ${waitTime}ms`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    this.lastRequestTime = Date.now();
+    this.chainId = chainId;
   }
 
   /**
@@ -168,6 +455,7 @@ class EtherscanAPI {
    * @param {string} action - API action (txlist, tokentx, etc.)
    * @param {Record<string, string | number>} params - Additional parameters
    * @param {number} maxRetries - Maximum number of retries (default: 3)
+   * @param {RequestPriority} priority - Rate limiter queue priority (default: interactive)
    * @returns {Promise<unknown>} API response data
    * @private
    */
@@ -175,31 +463,39 @@ class EtherscanAPI {
     module: string,
     action: string,
     params: Record<string, string | number> = {},
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    priority: RequestPriority = 'interactive'
   ): Promise<unknown> {
     const url = new URL(this.baseUrl);
     
     // V2 API format
-    url.searchParams.append('chainid', '8453'); // Base chain ID
+    url.searchParams.append('chainid', this.chainId.toString());
     url.searchParams.append('module', module);
     url.searchParams.append('action', action);
-    url.searchParams.append('apikey', this.apiKey);
     
     // Add additional parameters
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.append(key, value.toString());
     });
 
-    console.log(`Making Base V2 API request: ${module}.${action}`, params);
-
-    // Apply rate limiting
-    await this.rateLimit();
+    console.log(`Making V2 API request (chain ${this.chainId}): ${module}.${action}`, params);
 
     let lastError: Error | null = null;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         console.log(`Attempt ${attempt}/${maxRetries} for ${module}.${action}`);
+
+        // Pick a key per attempt so a rate-limited key is swapped out on retry
+        const apiKey = this.keyPool.acquire();
+        url.searchParams.set('apikey', apiKey);
+
+        // Wait for a token from the key's shared bucket
+        const limiter = getRateLimiter(apiKey);
+        const waitMs = await limiter.acquire(priority);
+        if (waitMs > 0) {
+          console.log(`Rate limiting: waited ${waitMs}ms (${priority})`);
+        }
         
         // Add timeout to prevent hanging requests
         const controller = new AbortController();
@@ -218,7 +514,7 @@ class EtherscanAPI {
         
         if (!response.ok) {
           const errorText = await response.text();
-          console.error(`Base V2 API HTTP error: ${response.status} ${response.statusText}`, errorText);
+          console.error(`Etherscan V2 API HTTP error: ${response.status} ${response.statusText}`, errorText);
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
@@ -236,18 +532,26 @@ class EtherscanAPI {
             const errorMsg = data.message || 'Unknown error';
             const errorResult = data.result;
             
-            console.error(`Base V2 API returned error: ${errorMsg} - ${errorResult}`);
+            console.error(`Etherscan V2 API returned error: ${errorMsg} - ${errorResult}`);
             
             // Handle specific error cases
             if (errorMsg === 'NOTOK' && typeof errorResult === 'string') {
               if (errorResult.includes('rate limit') || errorResult.includes('Max rate limit reached')) {
-                const waitTime = Math.min(1000 * attempt, 5000); // Exponential backoff, max 5 seconds
-                console.log(`Rate limit hit, waiting ${waitTime}ms before retry...`);
-                await new Promise(resolve => setTimeout(resolve, waitTime));
+                // Slow this key's bucket down; the next acquire waits out the backoff
+                limiter.reportRateLimited();
+                this.keyPool.markRateLimited(apiKey);
+                if (this.keyPool.hasAvailableKey(apiKey)) {
+                  console.log('Rate limit hit, rotating to another API key');
+                }
                 continue; // Retry
-              } else if (errorResult.includes('Invalid address') || errorResult.includes('No transactions found')) {
+              } else if (
+                errorResult.includes('Invalid address') ||
+                errorResult.includes('No transactions found') ||
+                errorResult.includes('not verified')
+              ) {
                 // These are not retryable errors
                 console.log(`Non-retryable error: ${errorResult}`);
+                limiter.reportSuccess();
                 return []; // Return empty array for missing data
               }
             }
@@ -260,9 +564,11 @@ class EtherscanAPI {
               continue;
             }
             
-            throw new Error(`Base V2 API error: ${errorMsg} - ${errorResult}`);
+            throw new Error(`Etherscan V2 API error: ${errorMsg} - ${errorResult}`);
           }
           
+          limiter.reportSuccess();
+
           // Validate result data
           if (data.result === null || data.result === undefined) {
             console.warn(`API returned null result for ${module}.${action}`);
@@ -273,8 +579,9 @@ class EtherscanAPI {
         } else if ((data as { jsonrpc?: string }).jsonrpc !== undefined) {
           // JSON-RPC format
           const jsonRpcData = data as unknown as { jsonrpc: string; result?: unknown; error?: { message: string; code: number } };
+          limiter.reportSuccess();
           if (jsonRpcData.error) {
-            console.error(`Base V2 JSON-RPC error: ${jsonRpcData.error.message} - ${jsonRpcData.error.code}`);
+            console.error(`Etherscan V2 JSON-RPC error: ${jsonRpcData.error.message} - ${jsonRpcData.error.code}`);
             throw new Error(`JSON-RPC error: ${jsonRpcData.error.message} (${jsonRpcData.error.code})`);
           }
           
@@ -334,6 +641,7 @@ class EtherscanAPI {
    * @param {number} [page=1] - Page number
    * @param {number} [offset=10] - Number of transactions per page
    * @param {string} [sort='desc'] - Sort order (asc/desc)
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
    * @returns {Promise<EtherscanTransaction[]>} Array of transactions
    */
   async getTransactionList(
@@ -342,7 +650,8 @@ class EtherscanAPI {
     endBlock: number = 99999999,
     page: number = 1,
     offset: number = 10,
-    sort: string = 'desc'
+    sort: string = 'desc',
+    priority: RequestPriority = 'interactive'
   ): Promise<EtherscanTransaction[]> {
     try {
       const result = await this.makeRequest('account', 'txlist', {
@@ -352,7 +661,7 @@ class EtherscanAPI {
         page,
         offset,
         sort
-      });
+      }, 3, priority);
 
       return Array.isArray(result) ? result : [];
     } catch (error) {
@@ -361,6 +670,218 @@ class EtherscanAPI {
     }
   }
 
+  /**
+   * Get one page of an address's transaction history, newest first
+   * 
+   * Etherscan rejects queries where page * offset exceeds 10,000, so offset
+   * pagination cannot reach older transactions of busy wallets. Instead each
+   * page queries the window [0, cursor block] from the top and skips the rows
+   * of the cursor block that were already returned. Errors are thrown rather
+   * than swallowed so callers never mistake a failure for the end of history.
+   * 
+   * @param {string} address - Wallet address
+   * @param {string | null} [cursor=null] - Cursor from a previous page, or null for the newest page
+   * @param {number} [limit=100] - Transactions per page (max 1000)
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
+   * @returns {Promise<TransactionHistoryPage>} Transactions and the cursor for the next page
+   * @throws {Error} If the cursor is malformed or the request fails
+   */
+  async getTransactionHistory(
+    address: string,
+    cursor: string | null = null,
+    limit: number = 100,
+    priority: RequestPriority = 'interactive'
+  ): Promise<TransactionHistoryPage> {
+    const position = cursor ? decodeCursor(cursor) : { b: LATEST_BLOCK, s: 0 };
+    const pageSize = Math.max(1, Math.min(limit, MAX_HISTORY_PAGE_SIZE));
+    const offset = Math.min(position.s + pageSize, MAX_RESULT_WINDOW);
+
+    if (position.s >= MAX_RESULT_WINDOW) {
+      // A single block holds more of this wallet's transactions than Etherscan can page through
+      console.warn(`History cursor for ${address} is stuck in block ${position.b}`);
+      return { transactions: [], nextCursor: null };
+    }
+
+    const result = await this.makeRequest('account', 'txlist', {
+      address: address.toLowerCase(),
+      startblock: 0,
+      endblock: position.b,
+      page: 1,
+      offset,
+      sort: 'desc'
+    }, 3, priority);
+
+    const rows: EtherscanTransaction[] = Array.isArray(result) ? result : [];
+    const transactions = rows.slice(position.s);
+
+    if (rows.length < offset || transactions.length === 0) {
+      return { transactions, nextCursor: null };
+    }
+
+    // Resume at the last block seen, skipping its rows that were already returned
+    const lastBlock = parseInt(rows[rows.length - 1].blockNumber, 10);
+    const seenInLastBlock = rows.filter(tx => parseInt(tx.blockNumber, 10) === lastBlock).length;
+
+    return {
+      transactions,
+      nextCursor: encodeCursor({ b: lastBlock, s: seenInLastBlock })
+    };
+  }
+
+  /**
+   * Aggregate lifetime statistics by walking an address's full history
+   * 
+   * The walk can take dozens of requests, so it queues behind interactive lookups.
+   * 
+   * @param {string} address - Wallet address
+   * @param {number} [maxPages=20] - Pages of 1000 transactions to walk before stopping
+   * @returns {Promise<TransactionLifetimeStats>} Lifetime stats
+   */
+  async getTransactionStats(address: string, maxPages: number = 20): Promise<TransactionLifetimeStats> {
+    const self = address.toLowerCase();
+    const counterparties = new Set<string>();
+    let valueSent = BigInt(0);
+    let valueReceived = BigInt(0);
+    let gasSpent = BigInt(0);
+    let stats: TransactionLifetimeStats = {
+      totalTransactions: 0,
+      sent: 0,
+      received: 0,
+      failed: 0,
+      valueSentWei: '0',
+      valueReceivedWei: '0',
+      gasSpentWei: '0',
+      uniqueCounterparties: 0,
+      firstBlock: null,
+      firstTimestamp: null,
+      lastTimestamp: null,
+      complete: false
+    };
+
+    let cursor: string | null = null;
+    for (let page = 0; page < maxPages; page++) {
+      const result = await this.getTransactionHistory(address, cursor, MAX_HISTORY_PAGE_SIZE, 'background');
+
+      result.transactions.forEach(tx => {
+        const from = tx.from?.toLowerCase();
+        const to = tx.to?.toLowerCase();
+        const value = BigInt(tx.value || '0');
+        const timestamp = parseInt(tx.timeStamp, 10) * 1000;
+
+        stats.totalTransactions++;
+        if (tx.isError === '1') stats.failed++;
+
+        if (from === self) {
+          stats.sent++;
+          valueSent += value;
+          gasSpent += BigInt(tx.gasUsed || '0') * BigInt(tx.gasPrice || '0');
+          if (to) counterparties.add(to);
+        }
+        if (to === self) {
+          stats.received++;
+          valueReceived += value;
+          if (from) counterparties.add(from);
+        }
+
+        // Pages run newest to oldest, so the last row seen is the oldest
+        stats.lastTimestamp = stats.lastTimestamp ?? timestamp;
+        stats.firstTimestamp = timestamp;
+        stats.firstBlock = parseInt(tx.blockNumber, 10);
+      });
+
+      cursor = result.nextCursor;
+      if (!cursor) {
+        stats.complete = true;
+        break;
+      }
+    }
+
+    counterparties.delete(self);
+    stats = {
+      ...stats,
+      valueSentWei: valueSent.toString(),
+      valueReceivedWei: valueReceived.toString(),
+      gasSpentWei: gasSpent.toString(),
+      uniqueCounterparties: counterparties.size
+    };
+
+    console.log(`Lifetime stats for ${address}: ${stats.totalTransactions} transactions (complete: ${stats.complete})`);
+    return stats;
+  }
+
+  /**
+   * Lifetime stats from the shared cache, walking the history once per address
+   * 
+   * Stale stats are returned while a single background walk refreshes them.
+   * 
+   * @param {string} address - Wallet address
+   * @returns {Promise<TransactionLifetimeStats>} Lifetime stats, possibly up to a day old
+   */
+  async getCachedTransactionStats(address: string): Promise<TransactionLifetimeStats> {
+    const key = `tx-stats:${this.chainId}:${address.toLowerCase()}`;
+    const refresh = () => {
+      let pending = this.statsInFlight.get(key);
+      if (!pending) {
+        pending = this.getTransactionStats(address)
+          .then(async stats => {
+            const now = Date.now();
+            await cacheStore.set(key, {
+              value: stats,
+              storedAt: now,
+              freshUntil: now + LIFETIME_STATS_TTL_MS,
+              staleUntil: now + LIFETIME_STATS_STALE_MS
+            });
+            return stats;
+          })
+          .finally(() => this.statsInFlight.delete(key));
+        this.statsInFlight.set(key, pending);
+      }
+      return pending;
+    };
+
+    const cached = await cacheStore.get<TransactionLifetimeStats>(key);
+    const now = Date.now();
+    if (cached && cached.staleUntil > now) {
+      if (cached.freshUntil <= now) {
+        refresh().catch(error => console.warn(`Background stats refresh failed for ${address}:`, error));
+      }
+      return cached.value;
+    }
+    return refresh();
+  }
+
+  /**
+   * Get internal transactions (contract-initiated ETH transfers) for an address
+   * 
+   * @param {string} address - Wallet address
+   * @param {number} [page=1] - Page number
+   * @param {number} [offset=100] - Number of internal transactions per page
+   * @param {string} [sort='desc'] - Sort order (asc/desc)
+   * @returns {Promise<EtherscanInternalTransaction[]>} Array of internal transactions
+   */
+  async getInternalTransactions(
+    address: string,
+    page: number = 1,
+    offset: number = 100,
+    sort: string = 'desc'
+  ): Promise<EtherscanInternalTransaction[]> {
+    try {
+      const result = await this.makeRequest('account', 'txlistinternal', {
+        address: address.toLowerCase(),
+        startblock: 0,
+        endblock: LATEST_BLOCK,
+        page,
+        offset,
+        sort
+      });
+
+      return Array.isArray(result) ? result : [];
+    } catch (error) {
+      console.error('Error fetching internal transactions:', error);
+      return [];
+    }
+  }
+
   /**
    * Get token transfers for an address
    * 
@@ -396,119 +917,505 @@ class EtherscanAPI {
     }
   }
 
+  /**
+   * Get the balance of a single ERC-20 token for an address
+   * 
+   * @param {string} contractAddress - Token contract address
+   * @param {string} address - Wallet address
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
+   * @returns {Promise<string | null>} Raw token balance, or null if the lookup failed
+   */
+  async getTokenBalance(contractAddress: string, address: string, priority: RequestPriority = 'interactive'): Promise<string | null> {
+    try {
+      const result = await this.makeRequest('account', 'tokenbalance', {
+        contractaddress: contractAddress.toLowerCase(),
+        address: address.toLowerCase(),
+        tag: 'latest'
+      }, 3, priority);
+
+      return typeof result === 'string' && /^\d+$/.test(result) ? result : null;
+    } catch (error) {
+      console.error(`Error fetching token balance for ${contractAddress}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the largest holders of a token
+   * 
+   * `tokenholderlist` is an Etherscan API Pro endpoint; on other plans the
+   * request fails and null is returned.
+   * 
+   * @param {string} contractAddress - Token contract address
+   * @param {number} [offset=25] - Number of holders
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
+   * @returns {Promise<EtherscanTokenHolder[] | null>} Holders by balance, or null if unavailable
+   */
+  async getTokenHolders(contractAddress: string, offset: number = 25, priority: RequestPriority = 'interactive'): Promise<EtherscanTokenHolder[] | null> {
+    try {
+      const result = await this.makeRequest('token', 'tokenholderlist', {
+        contractaddress: contractAddress.toLowerCase(),
+        page: 1,
+        offset
+      }, 1, priority); // Single attempt: the plan error on non-Pro keys is permanent
+
+      return Array.isArray(result) ? result : null;
+    } catch (error) {
+      console.error(`Error fetching token holders for ${contractAddress}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the total supply of a token
+   * 
+   * @param {string} contractAddress - Token contract address
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
+   * @returns {Promise<string | null>} Raw total supply, or null if the lookup failed
+   */
+  async getTokenSupply(contractAddress: string, priority: RequestPriority = 'interactive'): Promise<string | null> {
+    try {
+      const result = await this.makeRequest('stats', 'tokensupply', {
+        contractaddress: contractAddress.toLowerCase()
+      }, 3, priority);
+
+      return typeof result === 'string' && /^\d+$/.test(result) ? result : null;
+    } catch (error) {
+      console.error(`Error fetching token supply for ${contractAddress}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the decimals of a token by calling `decimals()` on the contract
+   * 
+   * @param {string} contractAddress - Token contract address
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
+   * @returns {Promise<number | null>} Token decimals, or null if the call failed
+   */
+  async getTokenDecimals(contractAddress: string, priority: RequestPriority = 'interactive'): Promise<number | null> {
+    try {
+      const result = await this.makeRequest('proxy', 'eth_call', {
+        to: contractAddress.toLowerCase(),
+        data: '0x313ce567', // decimals()
+        tag: 'latest'
+      }, 3, priority);
+
+      if (typeof result !== 'string' || !/^0x[0-9a-fA-F]+$/.test(result)) return null;
+      const decimals = parseInt(result, 16);
+      return decimals <= 255 ? decimals : null;
+    } catch (error) {
+      console.error(`Error fetching token decimals for ${contractAddress}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Walk an address's token transfers, newest first, past the 10,000-row window
+   * 
+   * Each page queries [0, cursor block] from the top; a full page drops its
+   * oldest block, which the next page reads again in full.
+   * 
+   * @param {string} address - Wallet address
+   * @param {number} maxPages - Pages to walk
+   * @param {number} pageSize - Transfers per page
+   * @param {RequestPriority} priority - Rate limiter queue priority
+   * @returns {Promise<{ transfers: EtherscanTokenTransfer[]; complete: boolean }>} Transfers, and whether they reach back to the first one
+   * @private
+   */
+  private async walkTokenTransfers(
+    address: string,
+    maxPages: number,
+    pageSize: number,
+    priority: RequestPriority
+  ): Promise<{ transfers: EtherscanTokenTransfer[]; complete: boolean }> {
+    const transfers: EtherscanTokenTransfer[] = [];
+    let endBlock = LATEST_BLOCK;
+
+    for (let page = 0; page < maxPages; page++) {
+      const result = await this.makeRequest('account', 'tokentx', {
+        address: address.toLowerCase(),
+        startblock: 0,
+        endblock: endBlock,
+        page: 1,
+        offset: pageSize,
+        sort: 'desc'
+      }, 3, priority);
+      const rows: EtherscanTokenTransfer[] = Array.isArray(result) ? result : [];
+      if (rows.length < pageSize) {
+        transfers.push(...rows);
+        return { transfers, complete: true };
+      }
+
+      // The oldest block may continue past this page, so read it again on the next one
+      const oldestBlock = parseInt(rows[rows.length - 1].blockNumber, 10);
+      const newer = rows.filter(transfer => parseInt(transfer.blockNumber, 10) > oldestBlock);
+      if (newer.length === 0) {
+        // One block holds more transfers than a page; nothing older can be reached
+        transfers.push(...rows);
+        return { transfers, complete: false };
+      }
+      transfers.push(...newer);
+      endBlock = oldestBlock;
+    }
+
+    return { transfers, complete: false };
+  }
+
   /**
    * Get token balances for an address
    * 
+   * Replays the wallet's tokentx history (inflows minus outflows per
+   * contract), newest first and up to MAX_TOKEN_TRANSFER_PAGES windows of
+   * 10,000 transfers, to find every token it has held, then confirms the
+   * remaining positions with per-contract tokenbalance calls. Dust and
+   * fully-exited positions are dropped.
+   * 
+   * When the history is longer than the walk, replayed balances are partial,
+   * so every token seen is a candidate for a tokenbalance check and the
+   * result is flagged incomplete.
+   * 
    * @param {string} address - Wallet address
-   * @returns {Promise<EtherscanTokenBalance[]>} Array of token balances
+   * @param {TokenBalanceOptions} [options] - Walk and lookup limits
+   * @returns {Promise<TokenBalanceList>} Non-zero token balances, and whether the full history was read
    */
-  async getTokenBalances(address: string): Promise<EtherscanTokenBalance[]> {
+  async getTokenBalances(address: string, options: TokenBalanceOptions = {}): Promise<TokenBalanceList> {
+    const {
+      maxPages = MAX_TOKEN_TRANSFER_PAGES,
+      pageSize = MAX_RESULT_WINDOW,
+      maxBalanceLookups = MAX_BALANCE_LOOKUPS,
+      priority = 'interactive'
+    } = options;
+
     try {
       console.log(`Fetching token balances for address: ${address}`);
+      const wallet = address.toLowerCase();
       
-      // Use token transfers to get token information
-      const tokenTransfers = await this.getTokenTransfers(address);
-      console.log(`Found ${tokenTransfers.length} token transfers`);
+      // Newest first, so the first transfer seen per token is the most recent one
+      const { transfers: tokenTransfers, complete } = await this.walkTokenTransfers(
+        address,
+        maxPages,
+        Math.max(1, Math.min(pageSize, MAX_RESULT_WINDOW)),
+        priority
+      );
+      console.log(`Found ${tokenTransfers.length} token transfers (complete: ${complete})`);
       
-      // Extract unique tokens from transfers
-      const tokenMap = new Map<string, EtherscanTokenBalance>();
+      // Replay transfers into net balances per contract
+      const replayed = new Map<string, { balance: bigint; lastActivity: number; transfer: EtherscanTokenTransfer }>();
       
-      tokenTransfers.forEach((transfer: { contractAddress?: string; address?: string; tokenSymbol?: string; tokenName?: string; tokenDecimal?: string }) => {
-        const contractAddress = transfer.contractAddress || transfer.address;
-        if (contractAddress && !tokenMap.has(contractAddress)) {
-          tokenMap.set(contractAddress, {
-            account: address,
-            balance: '0', // We'll calculate this separately
-            tokenName: transfer.tokenName || 'Unknown Token',
-            tokenSymbol: transfer.tokenSymbol || 'UNKNOWN',
-            tokenDecimal: transfer.tokenDecimal || '18',
-            contractAddress: contractAddress,
-            balanceFormatted: '0' // Default to 0 for now
-          });
+      tokenTransfers.forEach(transfer => {
+        const contractAddress = transfer.contractAddress?.toLowerCase();
+        if (!contractAddress) return;
+
+        let amount: bigint;
+        try {
+          amount = BigInt(transfer.value);
+        } catch {
+          return; // Skip malformed values
         }
+
+        const entry = replayed.get(contractAddress) || { balance: BigInt(0), lastActivity: parseInt(transfer.timeStamp) || 0, transfer };
+        if (transfer.to?.toLowerCase() === wallet) entry.balance += amount;
+        if (transfer.from?.toLowerCase() === wallet) entry.balance -= amount;
+        replayed.set(contractAddress, entry);
       });
 
-      console.log(`Found ${tokenMap.size} unique tokens from transfers`);
+      console.log(`Found ${replayed.size} unique tokens from transfers`);
+
+      // Confirm the most recently active open positions against the contract itself.
+      // Without the full history a token's older inflows are missing, so any token seen may be held.
+      const openPositions = Array.from(replayed.entries())
+        .filter(([, entry]) => !complete || entry.balance > BigInt(0))
+        .sort(([, a], [, b]) => b.lastActivity - a.lastActivity);
+
+      const tokens: EtherscanTokenBalance[] = [];
+
+      for (let i = 0; i < openPositions.length; i++) {
+        const [contractAddress, entry] = openPositions[i];
+        const decimals = parseInt(entry.transfer.tokenDecimal) || 0;
+
+        let balance = entry.balance;
+        let source: TokenBalanceSource = 'transfer-replay';
+
+        if (i < maxBalanceLookups) {
+          const onchainBalance = await this.getTokenBalance(contractAddress, address, priority);
+          if (onchainBalance !== null) {
+            balance = BigInt(onchainBalance);
+            source = 'tokenbalance';
+          }
+        }
+
+        if (balance <= BigInt(0)) continue; // Exited, or partially replayed without a tokenbalance check
+        const balanceFormatted = formatUnits(balance, decimals);
+        if (parseFloat(balanceFormatted) < DUST_THRESHOLD) continue; // Dust or exited position
+
+        tokens.push({
+          account: address,
+          balance: balance.toString(),
+          balanceFormatted,
+          tokenName: entry.transfer.tokenName || 'Unknown Token',
+          tokenSymbol: entry.transfer.tokenSymbol || 'UNKNOWN',
+          tokenDecimal: decimals.toString(),
+          contractAddress,
+          source
+        });
+      }
 
-      // Convert map to array and return all tokens (even with zero balance for now)
-      const tokens = Array.from(tokenMap.values());
-      console.log(`Returning ${tokens.length} tokens`);
+      console.log(`Returning ${tokens.length} tokens with non-zero balances`);
       
-      return tokens;
+      return { balances: tokens, complete };
     } catch (error) {
       console.error('Error fetching token balances:', error);
-      return [];
+      return { balances: [], complete: false };
     }
   }
 
   /**
-   * Get ETH balance for an address
+   * Get NFT transfers for an address
    * 
    * @param {string} address - Wallet address
-   * @returns {Promise<string>} ETH balance in wei
+   * @param {NftStandard} standard - ERC-721 (tokennfttx) or ERC-1155 (token1155tx)
+   * @param {number} [page=1] - Page number
+   * @param {number} [offset=10000] - Number of transfers per page
+   * @param {string} [sort='asc'] - Sort order (asc/desc)
+   * @returns {Promise<EtherscanNftTransfer[]>} Array of NFT transfers
    */
-  async getETHBalance(address: string): Promise<string> {
+  async getNftTransfers(
+    address: string,
+    standard: NftStandard,
+    page: number = 1,
+    offset: number = MAX_RESULT_WINDOW,
+    sort: string = 'asc'
+  ): Promise<EtherscanNftTransfer[]> {
     try {
-      const result = await this.makeRequest('account', 'balance', {
+      const result = await this.makeRequest('account', standard === 'erc721' ? 'tokennfttx' : 'token1155tx', {
         address: address.toLowerCase(),
-        tag: 'latest'
+        page,
+        offset,
+        sort
       });
 
-      return typeof result === 'string' ? result : '0';
+      return Array.isArray(result) ? result : [];
     } catch (error) {
-      console.error('Error fetching ETH balance:', error);
-      return '0';
+      console.error(`Error fetching ${standard} transfers:`, error);
+      return [];
     }
   }
 
   /**
-   * Get transaction count (nonce) for an address with enhanced reliability
+   * Get current NFT holdings grouped by collection
+   * 
+   * Holdings are replayed from ERC-721 and ERC-1155 transfer history: each
+   * token's balance is inflows minus outflows, and its acquisition date is the
+   * transfer that last took the balance above zero. Only the most recent
+   * 10,000 transfers per standard are read, so very old holdings of busy
+   * wallets may be missing.
    * 
    * @param {string} address - Wallet address
-   * @returns {Promise<number>} Transaction count
+   * @returns {Promise<NftCollectionHolding[]>} Collections with held tokens, largest first
    */
-  async getTransactionCount(address: string): Promise<number> {
+  async getNftHoldings(address: string): Promise<NftCollectionHolding[]> {
     try {
-      // First, try to get the actual transaction count from the transaction list
-      // This gives us the most accurate count including both incoming and outgoing
-      console.log(`Fetching transaction count for address: ${address}`);
-      
-      const result = await this.makeRequest('account', 'txlist', {
-        address: address.toLowerCase(),
-        startblock: 0,
-        endblock: 99999999,
-        page: 1,
-        offset: 10000, // Get up to 10k transactions to count
-        sort: 'desc'
+      console.log(`Fetching NFT holdings for address: ${address}`);
+      const wallet = address.toLowerCase();
+      const [erc721, erc1155] = await Promise.all([
+        this.getNftTransfers(address, 'erc721'),
+        this.getNftTransfers(address, 'erc1155')
+      ]);
+      console.log(`Found ${erc721.length} ERC-721 and ${erc1155.length} ERC-1155 transfers`);
+
+      // Replay transfers into balances per (collection, token ID)
+      const replayed = new Map<string, { standard: NftStandard; balance: bigint; acquiredAt: number; transfer: EtherscanNftTransfer }>();
+      const replay = (transfers: EtherscanNftTransfer[], standard: NftStandard) => {
+        [...transfers]
+          .sort((a, b) => parseInt(a.blockNumber) - parseInt(b.blockNumber))
+          .forEach(transfer => {
+            const contractAddress = transfer.contractAddress?.toLowerCase();
+            if (!contractAddress || !transfer.tokenID) return;
+
+            let amount: bigint;
+            try {
+              amount = standard === 'erc721' ? BigInt(1) : BigInt(transfer.tokenValue || '1');
+            } catch {
+              return; // Skip malformed values
+            }
+
+            const key = `${contractAddress}:${transfer.tokenID}`;
+            const entry = replayed.get(key) || { standard, balance: BigInt(0), acquiredAt: 0, transfer };
+            const wasHeld = entry.balance > BigInt(0);
+            if (transfer.to?.toLowerCase() === wallet) entry.balance += amount;
+            if (transfer.from?.toLowerCase() === wallet) entry.balance -= amount;
+            if (!wasHeld && entry.balance > BigInt(0)) {
+              entry.acquiredAt = parseInt(transfer.timeStamp) * 1000;
+            }
+            entry.transfer = transfer;
+            replayed.set(key, entry);
+          });
+      };
+      replay(erc721, 'erc721');
+      replay(erc1155, 'erc1155');
+
+      // Group held tokens by collection
+      const collections = new Map<string, NftCollectionHolding>();
+      replayed.forEach(entry => {
+        if (entry.balance <= BigInt(0)) return;
+
+        const contractAddress = entry.transfer.contractAddress.toLowerCase();
+        const collection = collections.get(contractAddress) || {
+          contractAddress,
+          name: entry.transfer.tokenName || 'Unknown Collection',
+          symbol: entry.transfer.tokenSymbol || '',
+          standard: entry.standard,
+          count: 0,
+          tokens: [],
+          firstAcquired: entry.acquiredAt
+        };
+
+        collection.tokens.push({
+          tokenId: entry.transfer.tokenID,
+          amount: entry.balance.toString(),
+          acquiredAt: entry.acquiredAt
+        });
+        collection.count += Number(entry.balance);
+        collection.firstAcquired = Math.min(collection.firstAcquired, entry.acquiredAt);
+        collections.set(contractAddress, collection);
       });
 
-      if (Array.isArray(result)) {
-        const count = result.length;
-        console.log(`Found ${count} transactions for address ${address}`);
-        return count;
-      }
+      const holdings = Array.from(collections.values())
+        .map(collection => ({
+          ...collection,
+          tokens: collection.tokens.sort((a, b) => b.acquiredAt - a.acquiredAt)
+        }))
+        .sort((a, b) => b.count - a.count);
 
-      // Fallback: try to get nonce (outgoing transactions only)
-      console.log('Falling back to nonce-based transaction count');
-      const nonceResult = await this.makeRequest('proxy', 'eth_getTransactionCount', {
-        address: address.toLowerCase(),
+      console.log(`Returning ${holdings.length} NFT collections`);
+
+      return holdings;
+    } catch (error) {
+      console.error('Error fetching NFT holdings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get ETH balance for an address
+   * 
+   * @param {string} address - Wallet address
+   * @returns {Promise<string>} ETH balance in wei
+   * @throws {Error} If the request fails, so a failed lookup isn't shown as an empty wallet
+   */
+  async getETHBalance(address: string): Promise<string> {
+    const result = await this.makeRequest('account', 'balance', {
+      address: address.toLowerCase(),
+      tag: 'latest'
+    });
+
+    return typeof result === 'string' ? result : '0';
+  }
+
+  /**
+   * Get the number of transactions sent by an address (its nonce)
+   * 
+   * One cheap call, but received transactions are not counted; use
+   * getTransactionCount for a count that includes them.
+   * 
+   * @param {string} address - Wallet address
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
+   * @returns {Promise<number>} Number of transactions sent
+   * @throws {Error} If the request fails, so a failed lookup isn't shown as zero transactions
+   */
+  async getSentTransactionCount(address: string, priority: RequestPriority = 'interactive'): Promise<number> {
+    console.log(`Fetching sent transaction count for address: ${address}`);
+    const nonceResult = await this.makeRequest('proxy', 'eth_getTransactionCount', {
+      address: address.toLowerCase(),
+      tag: 'latest'
+    }, 3, priority);
+
+    const nonceCount = typeof nonceResult === 'string'
+      ? parseInt(nonceResult, 16) || 0
+      : parseInt(String(nonceResult)) || 0;
+    console.log(`Nonce-based count: ${nonceCount}`);
+    return nonceCount;
+  }
+
+  /**
+   * Get the number of transactions of an address, sent and received
+   * 
+   * Combines the lifetime stats walk (cached per address, see
+   * getCachedTransactionStats) with the current nonce, so transactions sent
+   * since the stats were taken are counted too. Wallets past the walk's page
+   * limit count the transactions walked plus any further sent ones.
+   * 
+   * @param {string} address - Wallet address
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority for the nonce
+   * @returns {Promise<number>} Number of transactions, sent and received
+   * @throws {Error} If the nonce or history lookup fails
+   */
+  async getTransactionCount(address: string, priority: RequestPriority = 'interactive'): Promise<number> {
+    const [sent, stats] = await Promise.all([
+      this.getSentTransactionCount(address, priority),
+      this.getCachedTransactionStats(address)
+    ]);
+    return stats.totalTransactions + Math.max(0, sent - stats.sent);
+  }
+
+
+  /**
+   * Get the verified ABI of a contract
+   * 
+   * @param {string} contractAddress - Contract address
+   * @param {RequestPriority} [priority='background'] - Rate limiter queue priority
+   * @returns {Promise<string | null>} ABI JSON, or null if the contract is not verified
+   * @throws {Error} If the request fails or stays rate limited, so callers don't mistake it for "not verified"
+   */
+  async getContractAbi(contractAddress: string, priority: RequestPriority = 'background'): Promise<string | null> {
+    const result = await this.makeRequest('contract', 'getabi', {
+      address: contractAddress.toLowerCase()
+    }, 3, priority);
+
+    return typeof result === 'string' && result.startsWith('[') ? result : null;
+  }
+
+  /**
+   * Get the verified source, ABI and proxy status of a contract
+   * 
+   * @param {string} contractAddress - Contract address
+   * @param {RequestPriority} [priority='background'] - Rate limiter queue priority
+   * @returns {Promise<EtherscanContractSource | null>} Source entry (unverified contracts included), or null if the lookup failed
+   */
+  async getContractSource(contractAddress: string, priority: RequestPriority = 'background'): Promise<EtherscanContractSource | null> {
+    try {
+      const result = await this.makeRequest('contract', 'getsourcecode', {
+        address: contractAddress.toLowerCase()
+      }, 3, priority);
+
+      return Array.isArray(result) && result.length > 0 ? result[0] : null;
+    } catch (error) {
+      console.error(`Error fetching contract source for ${contractAddress}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the owner of a contract by calling `owner()`
+   * 
+   * @param {string} contractAddress - Contract address
+   * @param {RequestPriority} [priority='background'] - Rate limiter queue priority
+   * @returns {Promise<string | null>} Owner address (zero address when renounced), or null if the call failed
+   */
+  async getContractOwner(contractAddress: string, priority: RequestPriority = 'background'): Promise<string | null> {
+    try {
+      const result = await this.makeRequest('proxy', 'eth_call', {
+        to: contractAddress.toLowerCase(),
+        data: '0x8da5cb5b', // owner()
         tag: 'latest'
-      });
+      }, 3, priority);
 
-      if (typeof nonceResult === 'string') {
-        const nonceCount = parseInt(nonceResult, 16) || 0;
-        console.log(`Nonce-based count: ${nonceCount}`);
-        return nonceCount;
-      }
-      
-      const nonceCount = parseInt(String(nonceResult)) || 0;
-      console.log(`Nonce-based count (parsed): ${nonceCount}`);
-      return nonceCount;
+      if (typeof result !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(result)) return null;
+      return `0x${result.slice(-40)}`.toLowerCase();
     } catch (error) {
-      console.error('Error fetching transaction count:', error);
-      // Return 0 as fallback - this is better than crashing
-      console.log('Returning 0 as fallback transaction count');
-      return 0;
+      console.error(`Error fetching contract owner for ${contractAddress}:`, error);
+      return null;
     }
   }
 
@@ -530,11 +1437,12 @@ class EtherscanAPI {
   /**
    * Get block number
    * 
+   * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
    * @returns {Promise<number>} Latest block number
    */
-  async getBlockNumber(): Promise<number> {
+  async getBlockNumber(priority: RequestPriority = 'interactive'): Promise<number> {
     try {
-      const result = await this.makeRequest('proxy', 'eth_blockNumber', {});
+      const result = await this.makeRequest('proxy', 'eth_blockNumber', {}, 3, priority);
       return parseInt(String(result), 16) || 0;
     } catch (error) {
       console.error('Error fetching block number:', error);
@@ -567,7 +1475,29 @@ class EtherscanAPI {
       blockNumber: parseInt(tx.blockNumber),
       isError: tx.isError === '1',
       methodId: tx.methodId,
-      functionName: tx.functionName || 'Transfer'
+      functionName: tx.functionName || 'Transfer',
+      input: tx.input || '0x'
+    };
+  }
+
+  /**
+   * Format internal transaction data for display
+   * 
+   * @param {EtherscanInternalTransaction} tx - Raw internal transaction data
+   * @returns {object} Formatted internal transaction data
+   */
+  formatInternalTransaction(tx: EtherscanInternalTransaction) {
+    return {
+      parentHash: tx.hash,
+      traceId: tx.traceId || '0',
+      from: tx.from,
+      to: tx.to || tx.contractAddress,
+      value: (parseInt(tx.value) / Math.pow(10, 18)).toFixed(6),
+      valueWei: tx.value,
+      type: tx.type || 'call',
+      timestamp: parseInt(tx.timeStamp) * 1000,
+      blockNumber: parseInt(tx.blockNumber),
+      isError: tx.isError === '1'
     };
   }
 
@@ -599,89 +1529,77 @@ class EtherscanAPI {
   /**
    * Get comprehensive wallet information with enhanced error handling
    * 
+   * The balance and transaction count are required: if either lookup fails
+   * the error is thrown rather than reported as an empty wallet. Gas price,
+   * block number and last activity are optional; `complete` is false when
+   * one of them could not be fetched.
+   * 
    * @param {string} address - Wallet address
    * @returns {Promise<object>} Complete wallet information
+   * @throws {Error} If the address is malformed or the balance or transaction count lookup fails
    */
   async getWalletInfo(address: string): Promise<{
     ethBalance: { wei: string; eth: string; formatted: string };
     transactionCount: number;
     gasPrice: string;
     blockNumber: number;
+    lastActivity: number | null;
+    complete: boolean;
   }> {
-    try {
-      console.log(`Fetching comprehensive wallet info for: ${address}`);
-      
-      // Validate address format
-      if (!address || !address.match(/^0x[a-fA-F0-9]{40}$/)) {
-        throw new Error('Invalid Ethereum address format');
-      }
+    console.log(`Fetching comprehensive wallet info for: ${address}`);
 
-      // Fetch basic info with individual error handling
-      const ethBalance = await this.getETHBalance(address).catch(error => {
-        console.warn('Failed to fetch ETH balance:', error);
-        return '0';
-      });
+    // Validate address format
+    if (!address || !address.match(/^0x[a-fA-F0-9]{40}$/)) {
+      throw new Error('Invalid Ethereum address format');
+    }
 
-      const gasPrice = await this.getGasPrice().catch(error => {
-        console.warn('Failed to fetch gas price:', error);
-        return '0';
-      });
+    let complete = true;
+    const [ethBalance, transactionCount, gasPrice, blockNumber, lastActivity] = await Promise.all([
+      this.getETHBalance(address),
+      this.getTransactionCount(address),
+      // getGasPrice and getBlockNumber report failures as zero
+      this.getGasPrice(),
+      this.getBlockNumber(),
+      // Timestamp of the latest transaction, if any
+      this.getTransactionList(address, 0, 99999999, 1, 1, 'desc')
+        .then(transactions => transactions.length > 0 ? parseInt(transactions[0].timeStamp) || null : null)
+        .catch(error => {
+          console.warn('Failed to fetch last activity:', error);
+          complete = false;
+          return null;
+        })
+    ]);
+    if (gasPrice === '0' || blockNumber === 0) complete = false;
 
-      const blockNumber = await this.getBlockNumber().catch(error => {
-        console.warn('Failed to fetch block number:', error);
-        return 0;
-      });
-
-      // Try to get transaction count separately to avoid failing the whole request
-      let transactionCount = 0;
-      try {
-        transactionCount = await this.getTransactionCount(address);
-      } catch (txError) {
-        console.warn('Could not fetch transaction count, using 0:', txError);
-        transactionCount = 0;
-      }
-
-      // Format ETH balance safely
-      let ethBalanceFormatted = '0';
-      try {
-        const balanceWei = parseInt(ethBalance);
-        if (!isNaN(balanceWei) && balanceWei >= 0) {
-          ethBalanceFormatted = (balanceWei / Math.pow(10, 18)).toFixed(6);
-        }
-      } catch (formatError) {
-        console.warn('Failed to format ETH balance:', formatError);
-        ethBalanceFormatted = '0';
-      }
+    // Format ETH balance safely
+    let ethBalanceFormatted = '0';
+    const balanceWei = parseInt(ethBalance);
+    if (!isNaN(balanceWei) && balanceWei >= 0) {
+      ethBalanceFormatted = (balanceWei / Math.pow(10, 18)).toFixed(6);
+    }
 
-      const walletInfo = {
-        ethBalance: {
-          wei: ethBalance,
-          eth: ethBalanceFormatted,
-          formatted: `${ethBalanceFormatted} ETH`
-        },
-        transactionCount,
-        gasPrice,
-        blockNumber
-      };
+    const walletInfo = {
+      ethBalance: {
+        wei: ethBalance,
+        eth: ethBalanceFormatted,
+        formatted: `${ethBalanceFormatted} ETH`
+      },
+      transactionCount,
+      gasPrice,
+      blockNumber,
+      lastActivity,
+      complete
+    };
 
-      console.log(`Successfully fetched wallet info:`, {
-        balance: walletInfo.ethBalance.formatted,
-        transactionCount: walletInfo.transactionCount,
-        gasPrice: walletInfo.gasPrice,
-        blockNumber: walletInfo.blockNumber
-      });
+    console.log(`Successfully fetched wallet info:`, {
+      balance: walletInfo.ethBalance.formatted,
+      transactionCount: walletInfo.transactionCount,
+      gasPrice: walletInfo.gasPrice,
+      blockNumber: walletInfo.blockNumber,
+      complete
+    });
 
-      return walletInfo;
-    } catch (error) {
-      console.error('Error fetching wallet info:', error);
-      // Return safe defaults instead of throwing
-      return {
-        ethBalance: { wei: '0', eth: '0', formatted: '0 ETH' },
-        transactionCount: 0,
-        gasPrice: '0',
-        blockNumber: 0
-      };
-    }
+    return walletInfo;
   }
 
   /**
@@ -696,5 +1614,60 @@ class EtherscanAPI {
   }
 }
 
-// Create singleton instance
-export const etherscanAPI = new EtherscanAPI(ETHERSCAN_API_KEY);
+// One client per chain, created on first use
+const clients = new Map<ChainKey, EtherscanAPI>();
+
+/**
+ * Get the Etherscan client for a supported chain
+ * 
+ * @param {ChainKey} [chain='base'] - Chain to query
+ * @returns {EtherscanAPI} Client bound to the chain
+ */
+export function getEtherscanAPI(chain: ChainKey = DEFAULT_CHAIN): EtherscanAPI {
+  let client = clients.get(chain);
+  if (!client) {
+    client = new EtherscanAPI(etherscanKeyPool, SUPPORTED_CHAINS[chain].id);
+    clients.set(chain, client);
+  }
+  return client;
+}
+
+/**
+ * Per-chain transaction activity for an address
+ * 
+ * @interface ChainActivity
+ * @property {ChainKey} chain - Chain key
+ * @property {number} transactionCount - Transactions sent or received on the chain
+ * @property {number} share - Percentage of the address's transactions across all chains
+ */
+export interface ChainActivity {
+  chain: ChainKey;
+  transactionCount: number;
+  share: number;
+}
+
+/**
+ * Get transaction counts and shares for an address on every supported chain
+ * 
+ * Uses the same sent-plus-received count as the wallet route, so chains an
+ * address only receives on still get a share. Runs at background priority so
+ * it never delays the profiled chain's lookups.
+ * 
+ * @param {string} address - Wallet address
+ * @returns {Promise<ChainActivity[]>} Activity per chain, in SUPPORTED_CHAINS order
+ */
+export async function getNetworkActivity(address: string): Promise<ChainActivity[]> {
+  const counts = await Promise.all(
+    CHAIN_KEYS.map(chain => getEtherscanAPI(chain).getTransactionCount(address, 'background').catch(() => 0))
+  );
+  const total = counts.reduce((sum, count) => sum + count, 0);
+
+  return CHAIN_KEYS.map((chain, index) => ({
+    chain,
+    transactionCount: counts[index],
+    share: total > 0 ? Math.round((counts[index] / total) * 1000) / 10 : 0
+  }));
+}
+
+// Default Base client
+export const etherscanAPI = getEtherscanAPI(DEFAULT_CHAIN);
@@ -0,0 +1,333 @@
+/**
+ * Identity Resolver - One Identity Document Across Name Systems
+ *
+ * This server-side module resolves any identity input to a canonical
+ * identity document: the address, every name linked to it, its reverse
+ * records and its social profiles. It backs /api/identity/resolve and the
+ * share cards.
+ *
+ * Features:
+ * - Accepts addresses, ENS names (vitalik.eth), Basenames (jesse.base,
+ *   jesse.cb.id, jesse.base.eth), Farcaster usernames (@dwr) and IDs
+ *   (fid:3), and Lens handles (stani.lens, lens/stani)
+ * - Farcaster usernames resolve through the public fname registry and FIDs
+ *   through the IdRegistry on Optimism, both to the custody address
+ * - Reverse records: primary ENS name, primary Basename and Farcaster ID
+ * - Linked names deduplicated across reverse records and social profiles
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { getAddress, zeroAddress } from 'viem';
+import { readContract } from 'thirdweb';
+import { base } from 'thirdweb/chains';
+import { BASENAME_RESOLVER_ADDRESS, resolveL2Name } from 'thirdweb/extensions/ens';
+import { getFid, getIdRegistry } from 'thirdweb/extensions/farcaster';
+import { resolveAddress as resolveLensAddress } from 'thirdweb/extensions/lens';
+import { getSocialProfiles, SocialProfile } from 'thirdweb/social';
+import {
+  isBasenameName,
+  isLikelyName,
+  isValidEthereumAddress,
+  lookupEnsName,
+  normalizeBasename,
+  resolveIdentityAddress
+} from './identity';
+import { serverClient } from './thirdweb-server';
+
+const FNAME_REGISTRY_URL = 'https://fnames.farcaster.xyz/transfers/current';
+const LOOKUP_TIMEOUT_MS = 4000;
+
+/**
+ * Name system of a linked name, in order of preference for display
+ */
+export type IdentitySource = 'ens' | 'basename' | 'farcaster' | 'lens';
+
+const IDENTITY_PRIORITY: IdentitySource[] = ['ens', 'basename', 'farcaster', 'lens'];
+
+/**
+ * Kind of input an identity was resolved from
+ */
+export type IdentityInputType = 'address' | IdentitySource | 'fid';
+
+/**
+ * Parsed identity input
+ *
+ * @interface IdentityInput
+ * @property {IdentityInputType} type - Input kind
+ * @property {string} value - Normalized value: address, name, username (no @), Lens local name or FID
+ */
+export interface IdentityInput {
+  type: IdentityInputType;
+  value: string;
+}
+
+/**
+ * A name linked to the address
+ *
+ * @interface LinkedName
+ * @property {string} name - Name as the name system spells it
+ * @property {IdentitySource} source - Name system
+ * @property {boolean} reverse - Whether the address's reverse record (primary name) points back to it
+ */
+export interface LinkedName {
+  name: string;
+  source: IdentitySource;
+  reverse: boolean;
+}
+
+/**
+ * Names and IDs the address itself points to
+ *
+ * @interface ReverseRecords
+ * @property {string | null} ens - Primary ENS name
+ * @property {string | null} basename - Primary Basename
+ * @property {number | null} farcasterFid - FID whose custody address this is
+ */
+export interface ReverseRecords {
+  ens: string | null;
+  basename: string | null;
+  farcasterFid: number | null;
+}
+
+/**
+ * Canonical identity document
+ *
+ * @interface IdentityDocument
+ * @property {string} query - Input as given
+ * @property {IdentityInputType} inputType - How the input was interpreted
+ * @property {string} address - Checksummed address
+ * @property {string | null} primaryName - Name to display: the searched name, else by source priority
+ * @property {IdentitySource | null} primarySource - Name system of the primary name
+ * @property {string | null} avatar - Avatar URL or ipfs:// URI of the primary profile
+ * @property {LinkedName[]} names - Every name linked to the address
+ * @property {ReverseRecords} reverseRecords - Reverse records of the address
+ * @property {SocialProfile[]} profiles - Social profiles (ENS, Farcaster, Lens)
+ * @property {string} resolvedAt - Resolution time (ISO 8601)
+ */
+export interface IdentityDocument {
+  query: string;
+  inputType: IdentityInputType;
+  address: string;
+  primaryName: string | null;
+  primarySource: IdentitySource | null;
+  avatar: string | null;
+  names: LinkedName[];
+  reverseRecords: ReverseRecords;
+  profiles: SocialProfile[];
+  resolvedAt: string;
+}
+
+/**
+ * Farcaster username record from the fname registry
+ */
+export interface FarcasterName {
+  username: string;
+  fid: number;
+  custodyAddress: string;
+}
+
+/**
+ * Resolve with null if the promise takes longer than LOOKUP_TIMEOUT_MS or fails
+ */
+const settleWithin = <T>(promise: Promise<T>): Promise<T | null> =>
+  Promise.race([
+    promise.catch(() => null),
+    new Promise<null>(resolve => setTimeout(() => resolve(null), LOOKUP_TIMEOUT_MS))
+  ]);
+
+/**
+ * Comparable form of a name (drops the @ and lens/ prefixes)
+ */
+const nameKey = (name: string) => name.toLowerCase().replace(/^@|^lens\//, '');
+
+/**
+ * Name system of a name or social profile (Basenames are ENS names under base.eth)
+ */
+const getNameSource = (type: SocialProfile['type'], name: string): IdentitySource =>
+  type === 'ens' && isBasenameName(name) ? 'basename' : type;
+
+/**
+ * Interpret an identity input
+ *
+ * @param {string} input - Address, name, @username, fid:N or Lens handle
+ * @returns {IdentityInput | null} Parsed input, or null if it matches no format
+ */
+export function parseIdentityInput(input: string): IdentityInput | null {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  if (isValidEthereumAddress(value)) return { type: 'address', value };
+
+  const fid = value.match(/^fid:(\d{1,10})$/);
+  if (fid) return parseInt(fid[1]) > 0 ? { type: 'fid', value: fid[1] } : null;
+
+  const farcaster = value.match(/^@([a-z0-9][a-z0-9-]{0,15})$/);
+  if (farcaster) return { type: 'farcaster', value: farcaster[1] };
+
+  const lens = value.match(/^(?:lens\/([a-z0-9_]+)|@?([a-z0-9_]+)\.lens)$/);
+  if (lens) return { type: 'lens', value: lens[1] || lens[2] };
+
+  if (!isLikelyName(value)) return null;
+  const name = normalizeBasename(value);
+  return { type: isBasenameName(name) ? 'basename' : 'ens', value: name };
+}
+
+/**
+ * Look up a Farcaster username in the fname registry
+ *
+ * @param {string} username - Username without the @
+ * @returns {Promise<FarcasterName | null>} FID and custody address, or null if unregistered
+ */
+export async function lookupFarcasterName(username: string): Promise<FarcasterName | null> {
+  const response = await settleWithin(fetch(`${FNAME_REGISTRY_URL}?name=${encodeURIComponent(username)}`, {
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+  }));
+  if (!response?.ok) return null;
+
+  const data = await response.json().catch(() => null);
+  const transfer = data?.transfer;
+  if (!transfer?.owner || !transfer.to) return null;
+  return { username: transfer.username || username, fid: transfer.to, custodyAddress: transfer.owner };
+}
+
+/**
+ * Custody address of a Farcaster ID, from the IdRegistry
+ */
+async function lookupFidCustody(fid: number): Promise<string | null> {
+  const custody = await settleWithin(readContract({
+    contract: getIdRegistry({ client: serverClient }),
+    method: 'function custodyOf(uint256 fid) view returns (address)',
+    params: [BigInt(fid)]
+  }));
+  return custody && custody !== zeroAddress ? custody : null;
+}
+
+/**
+ * Resolve a parsed input to an address
+ */
+async function resolveInputAddress(input: IdentityInput): Promise<string | null> {
+  switch (input.type) {
+    case 'address':
+      return input.value;
+    case 'ens':
+    case 'basename':
+      return settleWithin(resolveIdentityAddress(serverClient, input.value));
+    case 'farcaster':
+      return (await lookupFarcasterName(input.value))?.custodyAddress || null;
+    case 'fid':
+      return lookupFidCustody(parseInt(input.value));
+    case 'lens':
+      return settleWithin(resolveLensAddress({ client: serverClient, name: input.value }));
+  }
+}
+
+/**
+ * Reverse records of an address, each lookup bounded by LOOKUP_TIMEOUT_MS
+ */
+async function getReverseRecords(address: string): Promise<ReverseRecords> {
+  const [ens, basename, fid] = await Promise.all([
+    settleWithin(lookupEnsName(serverClient, address)),
+    settleWithin(resolveL2Name({
+      client: serverClient,
+      address: address as `0x${string}`,
+      resolverAddress: BASENAME_RESOLVER_ADDRESS,
+      resolverChain: base
+    })),
+    settleWithin(getFid({ client: serverClient, address: address as `0x${string}` }))
+  ]);
+
+  return {
+    ens: ens || null,
+    basename: basename || null,
+    farcasterFid: fid ? Number(fid) : null
+  };
+}
+
+/**
+ * Display name of an input, in the form its name system uses
+ */
+const getInputName = (input: IdentityInput): string | null => {
+  switch (input.type) {
+    case 'ens':
+    case 'basename':
+    case 'farcaster':
+      return input.value;
+    case 'lens':
+      return `lens/${input.value}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Pick the primary name: the searched one, else reverse records, else by source priority
+ */
+function pickPrimaryName(input: IdentityInput, names: LinkedName[]): LinkedName | null {
+  const searched = getInputName(input);
+  const match = searched ? names.find(name => nameKey(name.name) === nameKey(searched)) : undefined;
+  if (match) return match;
+
+  const rank = (name: LinkedName) => IDENTITY_PRIORITY.indexOf(name.source) - (name.reverse ? IDENTITY_PRIORITY.length : 0);
+  return [...names].sort((a, b) => rank(a) - rank(b))[0] || null;
+}
+
+/**
+ * Resolve an identity input to its canonical identity document
+ *
+ * @param {string} query - Address, ENS name, Basename, @username, fid:N or Lens handle
+ * @returns {Promise<IdentityDocument | null>} Identity, or null when the input doesn't resolve
+ * @throws {Error} When the input matches no supported format
+ */
+export async function resolveIdentity(query: string): Promise<IdentityDocument | null> {
+  const input = parseIdentityInput(query);
+  if (!input) throw new Error(`"${query}" is not an address, name, Farcaster username, FID or Lens handle`);
+
+  const resolved = await resolveInputAddress(input);
+  if (!resolved || !isValidEthereumAddress(resolved)) return null;
+  const address = getAddress(resolved);
+
+  const [reverseRecords, profiles] = await Promise.all([
+    getReverseRecords(address),
+    getSocialProfiles({ client: serverClient, address }).catch(error => {
+      console.warn('Failed to fetch social profiles for identity:', error);
+      return [] as SocialProfile[];
+    })
+  ]);
+
+  const names: LinkedName[] = [];
+  const addName = (name: string | null | undefined, source: IdentitySource, reverse: boolean) => {
+    if (!name) return;
+    const existing = names.find(item => item.source === source && nameKey(item.name) === nameKey(name));
+    if (existing) {
+      existing.reverse = existing.reverse || reverse;
+    } else {
+      names.push({ name, source, reverse });
+    }
+  };
+
+  const inputName = getInputName(input);
+  if (inputName && input.type !== 'fid') addName(inputName, input.type as IdentitySource, false);
+  addName(reverseRecords.ens, 'ens', true);
+  addName(reverseRecords.basename, 'basename', true);
+  profiles.forEach(profile => addName(profile.name, getNameSource(profile.type, profile.name || ''), false));
+
+  const primary = pickPrimaryName(input, names);
+  const primaryProfile = primary
+    ? profiles.find(profile => profile.name && nameKey(profile.name) === nameKey(primary.name))
+    : undefined;
+
+  return {
+    query,
+    inputType: input.type,
+    address,
+    primaryName: primary?.name || null,
+    primarySource: primary?.source || null,
+    avatar: primaryProfile?.avatar || profiles.find(profile => profile.avatar)?.avatar || null,
+    names,
+    reverseRecords,
+    profiles,
+    resolvedAt: new Date().toISOString()
+  };
+}
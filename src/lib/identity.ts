@@ -0,0 +1,116 @@
+/**
+ * Identity Helpers - Address and Name Input Handling
+ *
+ * This module validates search input and resolves ENS names and Basenames to
+ * addresses. It is shared by the main search and the wallet comparison view.
+ *
+ * Features:
+ * - Ethereum address and ENS/Basename input detection
+ * - Basename normalization ("name.base" / "name.cb.id" to "name.base.eth")
+ * - Name resolution through thirdweb, using the Basename resolver on Base
+ * - ENS reverse lookup (primary name of an address)
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import type { ThirdwebClient } from "thirdweb";
+import { resolveAddress, resolveName, BASENAME_RESOLVER_ADDRESS } from "thirdweb/extensions/ens";
+import { base } from "thirdweb/chains";
+
+/**
+ * Validates if a string is a valid Ethereum address
+ * @param address - The string to validate
+ * @returns boolean - True if valid Ethereum address format
+ */
+export const isValidEthereumAddress = (address: string) => {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+};
+
+/**
+ * Determines if a search term is likely a name (ENS/Basename) rather than an address
+ * @param value - The search term to analyze
+ * @returns boolean - True if likely a name format
+ */
+export const isLikelyName = (value: string) => {
+  if (!value) return false;
+  const lower = value.trim().toLowerCase();
+  // Accept common ENS/Basenames inputs: .eth, .base, .cb.id, and names with dots
+  return lower.endsWith(".eth") || lower.endsWith(".base") || lower.endsWith(".cb.id") || lower.includes(".");
+};
+
+/**
+ * Normalizes Basename formats to canonical ENS format
+ * Converts "name.base" or "name.cb.id" to "name.base.eth" format
+ * @param value - The name to normalize
+ * @returns string - Normalized name in ENS format
+ */
+export const normalizeBasename = (value: string) => {
+  const lower = value.trim().toLowerCase();
+  // Map "name.base" or "name.cb.id" to the canonical L2 ENS style under base: name.base.eth
+  if (lower.endsWith(".base")) return `${lower}.eth`;
+  if (lower.endsWith(".cb.id")) return `${lower.replace(/\.cb\.id$/, ".base")}.eth`;
+  return lower;
+};
+
+/**
+ * Checks if a name is a Basename (Base blockchain ENS name)
+ * @param name - The name to check
+ * @returns boolean - True if it's a Basename
+ */
+export const isBasenameName = (name: string | undefined | null) => {
+  if (!name) return false;
+  const lower = name.toLowerCase();
+  return (
+    lower.endsWith('.base.eth') ||
+    lower.endsWith('.base') ||
+    lower.endsWith('.cb.id') ||
+    lower.includes('.base') ||
+    lower.includes('.cb.id')
+  );
+};
+
+/**
+ * Resolves an address, ENS name or Basename to an address
+ *
+ * Addresses are returned as-is; names are resolved through ENS, with the
+ * Basename resolver on Base for Basename variants.
+ *
+ * @param client - thirdweb client used for resolution
+ * @param input - Address or name entered by the user
+ * @returns Promise<string> - Resolved address
+ * @throws {Error} When the input is neither an address nor a resolvable name
+ */
+export const resolveIdentityAddress = async (client: ThirdwebClient, input: string): Promise<string> => {
+  const value = input.trim();
+  if (isValidEthereumAddress(value)) return value;
+  if (!isLikelyName(value)) throw new Error(`"${value}" is not a valid address or name`);
+
+  const maybeBasename = normalizeBasename(value);
+  // If it's a basename variant, use the Basename resolver on Base
+  const isBasenameLike = maybeBasename.endsWith(".base.eth");
+  const resolved = await resolveAddress({
+    client,
+    name: maybeBasename,
+    ...(isBasenameLike ? { resolverAddress: BASENAME_RESOLVER_ADDRESS, resolverChain: base } : {}),
+  });
+  if (!resolved) throw new Error("Name could not be resolved to an address");
+  return resolved;
+};
+
+/**
+ * Looks up the primary ENS name of an address
+ *
+ * @param client - thirdweb client used for resolution
+ * @param address - Address to look up
+ * @returns Promise<string | null> - Primary name, or null when unset or the lookup fails
+ */
+export const lookupEnsName = async (client: ThirdwebClient, address: string): Promise<string | null> => {
+  if (!isValidEthereumAddress(address)) return null;
+  try {
+    return await resolveName({ client, address: address as `0x${string}` });
+  } catch (error) {
+    console.warn('ENS reverse lookup failed for:', address, error);
+    return null;
+  }
+};
@@ -0,0 +1,179 @@
+/**
+ * Name Suggestions - Live ENS, Basename and Farcaster Matches
+ *
+ * This server-side module turns a partial search into names that actually
+ * resolve, for the search autocomplete. A bare label ("jes") is matched as a
+ * prefix against ENS names (jesse.eth), Basenames (jesse.base.eth) and
+ * Farcaster usernames; a full name ("jesse.base") is resolved as typed.
+ *
+ * Features:
+ * - ENS and Basename prefix search through their subgraphs (ENS_SUBGRAPH_URL,
+ *   BASENAMES_SUBGRAPH_URL), limited to names with an address record
+ * - Farcaster username search through Neynar (NEYNAR_API_KEY)
+ * - Without a search backend, the label is resolved exactly (label.eth,
+ *   label.base.eth, fname registry), as before
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { namehash } from 'viem';
+import { isBasenameName, isLikelyName, normalizeBasename, resolveIdentityAddress } from './identity';
+import { IdentitySource, lookupFarcasterName } from './identity-resolver';
+import { serverClient } from './thirdweb-server';
+
+const LOOKUP_TIMEOUT_MS = 3000;
+const LABEL_PATTERN = /^[a-z0-9-]{2,32}$/;
+const MAX_SUGGESTIONS_PER_SOURCE = 5;
+const NEYNAR_USER_SEARCH_URL = 'https://api.neynar.com/v2/farcaster/user/search';
+
+// Second-level names under the parent with an address record, by label prefix
+const SUBGRAPH_PREFIX_QUERY = `query Suggestions($parent: String!, $prefix: String!, $first: Int!) {
+  domains(first: $first, orderBy: labelName, where: { parent: $parent, labelName_starts_with: $prefix, resolvedAddress_not: null }) {
+    name
+    resolvedAddress { id }
+  }
+}`;
+
+/**
+ * A name that resolves to an address
+ *
+ * @interface NameSuggestion
+ * @property {string} name - Display name (ENS name, Basename or @username)
+ * @property {Exclude<IdentitySource, 'lens'>} source - Name system
+ * @property {string} address - Resolved address (custody address for Farcaster)
+ * @property {number | null} fid - Farcaster ID, for Farcaster names
+ */
+export interface NameSuggestion {
+  name: string;
+  source: Exclude<IdentitySource, 'lens'>;
+  address: string;
+  fid: number | null;
+}
+
+/**
+ * Resolve with null if the promise takes longer than LOOKUP_TIMEOUT_MS or fails
+ */
+const settleWithin = <T>(promise: Promise<T>): Promise<T | null> =>
+  Promise.race([
+    promise.catch(() => null),
+    new Promise<null>(resolve => setTimeout(() => resolve(null), LOOKUP_TIMEOUT_MS))
+  ]);
+
+/**
+ * Resolve an ENS name or Basename into a suggestion
+ */
+async function resolveNameSuggestion(name: string): Promise<NameSuggestion | null> {
+  const address = await settleWithin(resolveIdentityAddress(serverClient, name));
+  if (!address) return null;
+  return { name, source: isBasenameName(normalizeBasename(name)) ? 'basename' : 'ens', address, fid: null };
+}
+
+/**
+ * Look up a Farcaster username in the fname registry
+ */
+async function resolveFarcasterSuggestion(username: string): Promise<NameSuggestion | null> {
+  const farcaster = await settleWithin(lookupFarcasterName(username));
+  if (!farcaster) return null;
+  return { name: `@${farcaster.username}`, source: 'farcaster', address: farcaster.custodyAddress, fid: farcaster.fid };
+}
+
+/**
+ * Names under a parent whose label starts with a prefix, from an ENS-style subgraph
+ *
+ * @param {string} url - Subgraph endpoint
+ * @param {string} parent - Parent name (eth or base.eth)
+ * @param {string} prefix - Label prefix
+ * @returns {Promise<NameSuggestion[] | null>} Matching names, or null if the search failed
+ */
+async function searchSubgraph(url: string, parent: string, prefix: string): Promise<NameSuggestion[] | null> {
+  const response = await settleWithin(fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query: SUBGRAPH_PREFIX_QUERY,
+      variables: { parent: namehash(parent), prefix, first: MAX_SUGGESTIONS_PER_SOURCE }
+    }),
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+  }));
+  if (!response?.ok) return null;
+
+  const data = await response.json().catch(() => null);
+  const domains: { name: string | null; resolvedAddress: { id: string } | null }[] | undefined = data?.data?.domains;
+  if (!Array.isArray(domains)) return null;
+
+  return domains
+    .filter(domain => domain.name && domain.resolvedAddress?.id)
+    .map((domain): NameSuggestion => ({
+      name: domain.name as string,
+      source: parent === 'eth' ? 'ens' : 'basename',
+      address: (domain.resolvedAddress as { id: string }).id,
+      fid: null
+    }));
+}
+
+/**
+ * Farcaster users whose username matches a prefix, from Neynar
+ *
+ * @param {string} apiKey - Neynar API key
+ * @param {string} prefix - Username prefix
+ * @returns {Promise<NameSuggestion[] | null>} Matching users, or null if the search failed
+ */
+async function searchFarcaster(apiKey: string, prefix: string): Promise<NameSuggestion[] | null> {
+  const response = await settleWithin(fetch(
+    `${NEYNAR_USER_SEARCH_URL}?q=${encodeURIComponent(prefix)}&limit=${MAX_SUGGESTIONS_PER_SOURCE}`,
+    { headers: { 'x-api-key': apiKey }, signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) }
+  ));
+  if (!response?.ok) return null;
+
+  const data = await response.json().catch(() => null);
+  const users: { fid: number; username: string; custody_address: string | null }[] | undefined = data?.result?.users;
+  if (!Array.isArray(users)) return null;
+
+  return users
+    .filter(user => user.username && user.custody_address)
+    .slice(0, MAX_SUGGESTIONS_PER_SOURCE)
+    .map((user): NameSuggestion => ({ name: `@${user.username}`, source: 'farcaster', address: user.custody_address as string, fid: user.fid }));
+}
+
+/**
+ * Matches for a label from one name system: prefix search when configured,
+ * falling back to the exact name when the search is unset or fails
+ */
+async function suggestFrom(
+  search: (() => Promise<NameSuggestion[] | null>) | null,
+  exact: () => Promise<NameSuggestion | null>
+): Promise<NameSuggestion[]> {
+  const matches = search ? await search() : null;
+  if (matches) return matches;
+
+  const suggestion = await exact();
+  return suggestion ? [suggestion] : [];
+}
+
+/**
+ * Names matching a partial search, in the order ENS, Basename, Farcaster
+ *
+ * @param {string} query - What the user has typed
+ * @returns {Promise<NameSuggestion[]>} Names that resolve; empty for addresses and unusable input
+ */
+export async function getNameSuggestions(query: string): Promise<NameSuggestion[]> {
+  const value = query.trim().toLowerCase().replace(/^@/, '');
+
+  if (isLikelyName(value)) {
+    const suggestion = await resolveNameSuggestion(value);
+    return suggestion ? [suggestion] : [];
+  }
+  if (!LABEL_PATTERN.test(value)) return [];
+
+  const ensUrl = process.env.ENS_SUBGRAPH_URL;
+  const basenamesUrl = process.env.BASENAMES_SUBGRAPH_URL;
+  const neynarKey = process.env.NEYNAR_API_KEY;
+
+  const suggestions = await Promise.all([
+    suggestFrom(ensUrl ? () => searchSubgraph(ensUrl, 'eth', value) : null, () => resolveNameSuggestion(`${value}.eth`)),
+    suggestFrom(basenamesUrl ? () => searchSubgraph(basenamesUrl, 'base.eth', value) : null, () => resolveNameSuggestion(`${value}.base.eth`)),
+    suggestFrom(neynarKey ? () => searchFarcaster(neynarKey, value) : null, () => resolveFarcasterSuggestion(value))
+  ]);
+  return suggestions.flat();
+}
@@ -0,0 +1,282 @@
+/**
+ * New Pairs Service - Fresh Token Launches on Base
+ *
+ * This server-side service builds the feed behind the Token Explorer's New
+ * Pairs tab: Base pairs created in the last few hours, with their age,
+ * liquidity at launch and now, buy/sell counts and the launchpad that
+ * created the token.
+ *
+ * Features:
+ * - Candidates from GeckoTerminal's newest Base pools plus DEXScreener's
+ *   latest token profiles and boosts
+ * - Pair data (creation time, liquidity, txns) from DEXScreener
+ * - Launch platform tags: Clanker, Zora coins, Virtuals
+ * - Initial liquidity: the first liquidity we saw for the pair, kept in the
+ *   shared server cache with the time it was seen
+ * - Filters for maximum age and minimum liquidity
+ *
+ * The unfiltered feed is cached for a minute so different filters share the
+ * same upstream requests.
+ *
+ * @see https://apiguide.geckoterminal.com - GeckoTerminal API Documentation
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { isAddress } from 'viem';
+import { cacheStore } from './cache';
+import { DexScreenerToken, fetchPairsByAddress, fetchTokenBoosts, fetchTokenPairs, fetchTokenProfiles, isBasePair } from './dexscreener';
+
+const GECKOTERMINAL_API_URL = 'https://api.geckoterminal.com/api/v2';
+const GECKOTERMINAL_NETWORK = 'base';
+const GECKOTERMINAL_NEW_POOL_PAGES = 3; // 20 pools per page
+const FEED_CACHE_KEY = 'new-pairs:feed';
+const FEED_TTL_MS = 60 * 1000;
+const FIRST_SEEN_CACHE_KEY = 'new-pairs:first-seen';
+
+export const MAX_PAIR_AGE_HOURS = 72;
+export const DEFAULT_PAIR_AGE_HOURS = 24;
+
+/**
+ * Launchpad that created a token
+ */
+export type LaunchPlatform = 'clanker' | 'zora' | 'virtuals';
+
+/**
+ * How a launch platform is recognized from a DEXScreener pair
+ *
+ * @interface LaunchPlatformRule
+ * @property {string[]} dexIds - DEXScreener DEX identifiers of the platform's own pools
+ * @property {string[]} quoteTokens - Tokens the platform pairs every launch against
+ * @property {string} [addressSuffix] - Vanity suffix of the platform's token addresses
+ * @property {string[]} websiteHosts - Hosts of the platform's token pages
+ */
+interface LaunchPlatformRule {
+  platform: LaunchPlatform;
+  dexIds: string[];
+  quoteTokens: string[];
+  addressSuffix?: string;
+  websiteHosts: string[];
+}
+
+const LAUNCH_PLATFORM_RULES: LaunchPlatformRule[] = [
+  {
+    platform: 'virtuals',
+    dexIds: ['virtuals'],
+    quoteTokens: ['0x0b3e328455c4059eeb9e3f84b5543f74e24e7e1b'], // VIRTUAL
+    websiteHosts: ['app.virtuals.io']
+  },
+  {
+    platform: 'zora',
+    dexIds: ['zora'],
+    quoteTokens: ['0x1111111111166b7fe7bd91427724b487980afc69'], // ZORA
+    websiteHosts: ['zora.co']
+  },
+  {
+    platform: 'clanker',
+    dexIds: ['clanker'],
+    quoteTokens: [],
+    addressSuffix: 'b07', // Clanker v4 deploys tokens at vanity addresses
+    websiteHosts: ['clanker.world']
+  }
+];
+
+/**
+ * A recently created pair
+ *
+ * @interface NewPair
+ * @property {DexScreenerToken} pair - DEXScreener pair data
+ * @property {number} pairCreatedAt - Creation time (ms since epoch)
+ * @property {number} ageMinutes - Minutes since creation
+ * @property {number} liquidityUsd - Current liquidity in USD
+ * @property {number | null} initialLiquidityUsd - Liquidity when the pair was first seen
+ * @property {number | null} initialLiquiditySeenAt - When that liquidity was recorded (ms since epoch)
+ * @property {{ buys: number; sells: number }} txns - Buys and sells over the last 24 hours
+ * @property {LaunchPlatform | null} platform - Launchpad, if recognized
+ */
+export interface NewPair {
+  pair: DexScreenerToken;
+  pairCreatedAt: number;
+  ageMinutes: number;
+  liquidityUsd: number;
+  initialLiquidityUsd: number | null;
+  initialLiquiditySeenAt: number | null;
+  txns: { buys: number; sells: number };
+  platform: LaunchPlatform | null;
+}
+
+/**
+ * New pair feed filters
+ *
+ * @interface NewPairFilters
+ * @property {number} maxAgeHours - Only pairs created within this many hours
+ * @property {number} minLiquidityUsd - Only pairs with at least this much liquidity
+ */
+export interface NewPairFilters {
+  maxAgeHours: number;
+  minLiquidityUsd: number;
+}
+
+interface FirstSeenLiquidity {
+  liquidityUsd: number;
+  at: number;
+}
+
+interface GeckoTerminalPoolsResponse {
+  data?: Array<{ attributes?: { address?: string } }>;
+}
+
+/**
+ * Recognize the launch platform of a pair
+ *
+ * @param {DexScreenerToken} pair - DEXScreener pair
+ * @returns {LaunchPlatform | null} Platform, or null if none matches
+ */
+export function detectLaunchPlatform(pair: DexScreenerToken): LaunchPlatform | null {
+  const dexId = pair.dexId?.toLowerCase() || '';
+  const tokenAddress = pair.baseToken.address.toLowerCase();
+  const quoteAddress = pair.quoteToken?.address?.toLowerCase() || '';
+  const websites = (pair.info?.websites || []).map(website => website.url.toLowerCase());
+
+  const rule = LAUNCH_PLATFORM_RULES.find(rule =>
+    rule.dexIds.includes(dexId) ||
+    rule.quoteTokens.includes(quoteAddress) ||
+    (rule.addressSuffix !== undefined && tokenAddress.endsWith(rule.addressSuffix)) ||
+    websites.some(url => rule.websiteHosts.some(host => url.includes(host)))
+  );
+  return rule?.platform || null;
+}
+
+/**
+ * Addresses of the newest Base pools on GeckoTerminal
+ *
+ * @returns {Promise<string[]>} Pool addresses, newest first; empty if unavailable
+ */
+async function fetchNewPoolAddresses(): Promise<string[]> {
+  const pages = await Promise.all(
+    Array.from({ length: GECKOTERMINAL_NEW_POOL_PAGES }, async (_, index) => {
+      try {
+        const response = await fetch(
+          `${GECKOTERMINAL_API_URL}/networks/${GECKOTERMINAL_NETWORK}/new_pools?page=${index + 1}`,
+          { headers: { Accept: 'application/json' } }
+        );
+        if (!response.ok) {
+          console.warn(`GeckoTerminal API error: ${response.status}`);
+          return [];
+        }
+
+        const data: GeckoTerminalPoolsResponse = await response.json();
+        return (data.data || []).map(pool => pool.attributes?.address || '');
+      } catch (error) {
+        console.warn('Error fetching GeckoTerminal new pools:', error);
+        return [];
+      }
+    })
+  );
+
+  // Uniswap v4 pools are 32-byte IDs rather than addresses; DEXScreener can't look those up by pair
+  return pages.flat().filter(address => isAddress(address, { strict: false }));
+}
+
+/**
+ * Record the first liquidity seen for each pair and return the records
+ *
+ * @param {DexScreenerToken[]} pairs - Pairs in the current feed
+ * @returns {Promise<Record<string, FirstSeenLiquidity>>} First-seen liquidity keyed by lowercased pair address
+ */
+async function recordFirstSeenLiquidity(pairs: DexScreenerToken[]): Promise<Record<string, FirstSeenLiquidity>> {
+  const now = Date.now();
+  const maxAgeMs = MAX_PAIR_AGE_HOURS * 60 * 60 * 1000;
+  const stored = await cacheStore.get<Record<string, FirstSeenLiquidity>>(FIRST_SEEN_CACHE_KEY);
+  const records: Record<string, FirstSeenLiquidity> = {};
+
+  // Drop pairs too old to appear in the feed
+  Object.entries(stored?.value || {}).forEach(([pairAddress, record]) => {
+    if (now - record.at < maxAgeMs) records[pairAddress] = record;
+  });
+
+  pairs.forEach(pair => {
+    const key = pair.pairAddress.toLowerCase();
+    if (!records[key]) {
+      records[key] = { liquidityUsd: pair.liquidity?.usd || 0, at: now };
+    }
+  });
+
+  await cacheStore.set(FIRST_SEEN_CACHE_KEY, {
+    value: records,
+    storedAt: now,
+    freshUntil: now + maxAgeMs,
+    staleUntil: now + maxAgeMs
+  });
+  return records;
+}
+
+/**
+ * Build the unfiltered feed of Base pairs created within MAX_PAIR_AGE_HOURS
+ *
+ * @returns {Promise<NewPair[]>} New pairs, newest first
+ */
+async function buildNewPairFeed(): Promise<NewPair[]> {
+  const [poolAddresses, profiles, boosts] = await Promise.all([
+    fetchNewPoolAddresses(),
+    fetchTokenProfiles(),
+    fetchTokenBoosts('latest')
+  ]);
+
+  const tokenAddresses = [...profiles, ...boosts].map(entry => entry.tokenAddress);
+  const [poolPairs, tokenPairs] = await Promise.all([
+    fetchPairsByAddress(poolAddresses),
+    fetchTokenPairs(tokenAddresses)
+  ]);
+
+  const now = Date.now();
+  const cutoff = now - MAX_PAIR_AGE_HOURS * 60 * 60 * 1000;
+  const pairs = new Map<string, DexScreenerToken>();
+
+  [...poolPairs, ...tokenPairs].forEach(pair => {
+    if (!isBasePair(pair) || !pair.pairCreatedAt || pair.pairCreatedAt < cutoff) return;
+    if (!isAddress(pair.baseToken?.address || '', { strict: false })) return;
+    pairs.set(pair.pairAddress.toLowerCase(), pair);
+  });
+
+  const firstSeen = await recordFirstSeenLiquidity(Array.from(pairs.values()));
+  console.log(`New pairs feed: ${pairs.size} pairs (${poolAddresses.length} new pools, ${tokenAddresses.length} profiled or boosted tokens)`);
+
+  return Array.from(pairs.values())
+    .map(pair => {
+      const record = firstSeen[pair.pairAddress.toLowerCase()];
+      return {
+        pair,
+        pairCreatedAt: pair.pairCreatedAt as number,
+        ageMinutes: Math.max(0, Math.floor((now - (pair.pairCreatedAt as number)) / 60000)),
+        liquidityUsd: pair.liquidity?.usd || 0,
+        initialLiquidityUsd: record?.liquidityUsd ?? null,
+        initialLiquiditySeenAt: record?.at ?? null,
+        txns: { buys: pair.txns?.h24?.buys || 0, sells: pair.txns?.h24?.sells || 0 },
+        platform: detectLaunchPlatform(pair)
+      };
+    })
+    .sort((a, b) => b.pairCreatedAt - a.pairCreatedAt);
+}
+
+/**
+ * Base pairs created recently, filtered by age and liquidity
+ *
+ * @param {NewPairFilters} filters - Maximum age and minimum liquidity
+ * @returns {Promise<NewPair[]>} Matching pairs, newest first
+ */
+export async function getNewPairs({ maxAgeHours, minLiquidityUsd }: NewPairFilters): Promise<NewPair[]> {
+  const cached = await cacheStore.get<NewPair[]>(FEED_CACHE_KEY);
+  let feed = cached && cached.freshUntil > Date.now() ? cached.value : null;
+
+  if (!feed) {
+    feed = await buildNewPairFeed();
+    const now = Date.now();
+    await cacheStore.set(FEED_CACHE_KEY, { value: feed, storedAt: now, freshUntil: now + FEED_TTL_MS, staleUntil: now + FEED_TTL_MS });
+  }
+
+  const cutoff = Date.now() - maxAgeHours * 60 * 60 * 1000;
+  return feed
+    .filter(entry => entry.pairCreatedAt >= cutoff && entry.liquidityUsd >= minLiquidityUsd)
+    .map(entry => ({ ...entry, ageMinutes: Math.max(0, Math.floor((Date.now() - entry.pairCreatedAt) / 60000)) }));
+}
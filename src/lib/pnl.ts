@@ -0,0 +1,479 @@
+/**
+ * PnL Service - FIFO Cost Basis and Trading Performance per Token
+ *
+ * This server-side service works out whether a wallet makes money trading.
+ * Swaps are the wallet's DEX transactions (registered DEX contracts or DEX
+ * call signatures, the same detection the profiler uses) that both send and
+ * receive assets; their legs come from `tokentx`, the transaction value and
+ * `txlistinternal`. Every other token transfer moves lots without realizing
+ * anything.
+ *
+ * Features:
+ * - FIFO cost basis per token
+ * - Trades valued through their quote leg: the native token (historical
+ *   price) or a USD stablecoin ($1); token-for-token swaps use historical
+ *   prices of the tokens
+ * - Swaps with several bought or sold tokens split their value by each
+ *   leg's historical value; legs that can't be priced get no known cost
+ * - The newest 10,000 rows of each list, cut to the span all lists cover,
+ *   so busy wallets are analyzed over their recent history
+ * - Realized PnL, unrealized PnL against current DEXScreener prices
+ * - Win rate and average holding time of closed trades
+ *
+ * Tokens received by plain transfer (airdrops, deposits from other wallets)
+ * have no known cost; selling them is counted as a trade but not as PnL.
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { formatUnits } from 'viem';
+import { ChainKey, DEFAULT_CHAIN, SUPPORTED_CHAINS } from './chains';
+import { EtherscanInternalTransaction, EtherscanTokenTransfer, getEtherscanAPI } from './etherscan';
+import { getHistoricalPriceSource } from './price-history';
+import { getTokenPrices, MIN_LIQUIDITY_USD } from './pricing';
+import { resolveProtocol } from './protocols';
+import { categorizeCall } from './signatures';
+
+const MAX_TRANSFERS = 10000; // Etherscan result window per list
+const PRICE_BUCKET_SECONDS = 60 * 60; // Trades are priced to the hour
+const DUST_AMOUNT = 1e-9;
+
+/**
+ * Trading performance for one token
+ *
+ * @interface TokenPnl
+ * @property {string} contractAddress - Token contract address
+ * @property {string} symbol - Token symbol
+ * @property {number} buys - Swaps that received the token
+ * @property {number} sells - Swaps that sent the token
+ * @property {number} realizedPnlUsd - Proceeds minus FIFO cost of sold lots with a known cost
+ * @property {number | null} unrealizedPnlUsd - Current value minus cost of held lots with a known cost, or null if unpriced
+ * @property {number} holdingAmount - Tokens still held according to the replay
+ * @property {number} costBasisUsd - Known cost of the held amount
+ * @property {number | null} currentPriceUsd - Current DEXScreener price (liquid pairs only)
+ * @property {number} closedTrades - Sells that matched lots with a known cost
+ * @property {number} wins - Closed trades with positive realized PnL
+ * @property {number | null} avgHoldingHours - Average time sold lots were held
+ */
+export interface TokenPnl {
+  contractAddress: string;
+  symbol: string;
+  buys: number;
+  sells: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number | null;
+  holdingAmount: number;
+  costBasisUsd: number;
+  currentPriceUsd: number | null;
+  closedTrades: number;
+  wins: number;
+  avgHoldingHours: number | null;
+}
+
+/**
+ * Wallet trading performance
+ *
+ * @interface WalletPnl
+ * @property {ChainKey} chain - Chain the wallet was analyzed on
+ * @property {string} address - Wallet address
+ * @property {TokenPnl[]} tokens - Per-token performance, largest PnL first
+ * @property {object} totals - Wallet-wide totals
+ * @property {number} swapsAnalyzed - Swaps found in the history
+ * @property {number} unpricedSwaps - Swaps that could not be valued (their lots have no known cost)
+ * @property {boolean} complete - False when a transfer list hit the 10,000 row window
+ * @property {number | null} since - Unix time (s) the analysis starts at when it isn't complete
+ * @property {string} generatedAt - ISO timestamp of the analysis
+ */
+export interface WalletPnl {
+  chain: ChainKey;
+  address: string;
+  tokens: TokenPnl[];
+  totals: {
+    realizedPnlUsd: number;
+    unrealizedPnlUsd: number;
+    totalPnlUsd: number;
+    closedTrades: number;
+    winRate: number | null;
+    avgHoldingHours: number | null;
+  };
+  swapsAnalyzed: number;
+  unpricedSwaps: number;
+  complete: boolean;
+  since: number | null;
+  generatedAt: string;
+}
+
+/**
+ * Token amount moved in one direction within a transaction
+ */
+interface Leg {
+  token: string;
+  symbol: string;
+  amount: number;
+}
+
+/**
+ * Swap with its legs split into traded tokens and quote value
+ */
+interface Swap {
+  hash: string;
+  timestamp: number;
+  sold: Leg[];
+  bought: Leg[];
+  nativeOut: number;
+  nativeIn: number;
+  usdOut: number;
+  usdIn: number;
+}
+
+/**
+ * Open position lot; costUsd is null when the tokens arrived by plain transfer
+ */
+interface Lot {
+  amount: number;
+  costUsd: number | null;
+  acquiredAt: number;
+}
+
+/**
+ * Running FIFO state for one token
+ */
+interface Position {
+  symbol: string;
+  lots: Lot[];
+  buys: number;
+  sells: number;
+  realizedPnlUsd: number;
+  closedTrades: number;
+  wins: number;
+  holdingSeconds: number[];
+}
+
+/**
+ * Remove an amount from a position's lots, oldest first
+ *
+ * @param {Position} position - Position to take from
+ * @param {number} amount - Amount leaving the wallet
+ * @returns {{ knownAmount: number; knownCost: number; avgHeldAt: number | null }} Amount and cost of
+ *   matched lots with a known cost, and the amount-weighted acquisition time of all matched lots
+ */
+function consumeLots(position: Position, amount: number): { knownAmount: number; knownCost: number; avgHeldAt: number | null } {
+  let remaining = amount;
+  let knownAmount = 0;
+  let knownCost = 0;
+  let matched = 0;
+  let weightedTime = 0;
+
+  while (remaining > DUST_AMOUNT && position.lots.length > 0) {
+    const lot = position.lots[0];
+    const take = Math.min(lot.amount, remaining);
+    const share = take / lot.amount;
+
+    if (lot.costUsd !== null) {
+      knownAmount += take;
+      knownCost += lot.costUsd * share;
+      lot.costUsd -= lot.costUsd * share;
+    }
+    matched += take;
+    weightedTime += take * lot.acquiredAt;
+    lot.amount -= take;
+    remaining -= take;
+    if (lot.amount <= DUST_AMOUNT) position.lots.shift();
+  }
+
+  // Anything beyond the lots was acquired before the history window
+  return { knownAmount, knownCost, avgHeldAt: matched > 0 ? weightedTime / matched : null };
+}
+
+/**
+ * Parse a token amount adjusted for decimals
+ */
+function toAmount(value: string, decimals: string | number): number {
+  try {
+    return parseFloat(formatUnits(BigInt(value || '0'), parseInt(String(decimals)) || 0));
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Analyze a wallet's trading performance
+ *
+ * @param {string} address - Wallet address
+ * @param {ChainKey} [chain='base'] - Chain to analyze
+ * @returns {Promise<WalletPnl>} Per-token and total PnL
+ */
+export async function calculateWalletPnl(address: string, chain: ChainKey = DEFAULT_CHAIN): Promise<WalletPnl> {
+  const api = getEtherscanAPI(chain);
+  const wallet = address.toLowerCase();
+  const { wrappedNative, stablecoins } = SUPPORTED_CHAINS[chain];
+  const wrapped = wrappedNative.toLowerCase();
+  const stables = new Set(stablecoins.map(stablecoin => stablecoin.toLowerCase()));
+
+  // Newest rows first, so a busy wallet's window covers its recent trading
+  const lists = await Promise.all([
+    api.getTransactionList(address, 0, 99999999, 1, MAX_TRANSFERS, 'desc'),
+    api.getInternalTransactions(address, 1, MAX_TRANSFERS, 'desc'),
+    api.getTokenTransfers(address, 1, MAX_TRANSFERS, 'desc')
+  ]);
+
+  // A full list stops partway back in time; keep only blocks every list covers in full
+  const blockOf = (row: { blockNumber: string }) => parseInt(row.blockNumber) || 0;
+  const truncated = lists.filter(list => list.length >= MAX_TRANSFERS);
+  const cutoffBlock = truncated.reduce((max, list) => Math.max(max, blockOf(list[list.length - 1])), -1);
+  const inWindow = <T extends { blockNumber: string }>(list: T[]): T[] =>
+    list.filter(row => blockOf(row) > cutoffBlock).reverse();
+
+  const transactions = inWindow(lists[0]);
+  const internalTransactions = inWindow(lists[1]);
+  const tokenTransfers = inWindow(lists[2]);
+  const firstTimes = [transactions, tokenTransfers].filter(list => list.length > 0).map(list => parseInt(list[0].timeStamp) || 0);
+  const since = truncated.length > 0 && firstTimes.length > 0 ? Math.min(...firstTimes) : null;
+  console.log(`Analyzing PnL from ${transactions.length} transactions and ${tokenTransfers.length} token transfers`);
+
+  const transfersByHash = new Map<string, EtherscanTokenTransfer[]>();
+  tokenTransfers.forEach(transfer => {
+    const hash = transfer.hash.toLowerCase();
+    transfersByHash.set(hash, [...(transfersByHash.get(hash) || []), transfer]);
+  });
+  const internalByHash = new Map<string, EtherscanInternalTransaction[]>();
+  internalTransactions.forEach(tx => {
+    const hash = tx.hash.toLowerCase();
+    internalByHash.set(hash, [...(internalByHash.get(hash) || []), tx]);
+  });
+
+  // Detect swaps: DEX calls sent by the wallet that move assets both ways
+  const swaps = new Map<string, Swap>();
+  transactions.forEach(tx => {
+    if (tx.isError === '1' || tx.from?.toLowerCase() !== wallet) return;
+
+    const protocol = resolveProtocol(tx.to, chain);
+    const isDexCall = protocol
+      ? protocol.protocol.category === 'dex'
+      : categorizeCall(tx.input ? tx.input.slice(0, 10) : tx.methodId, tx.functionName) === 'dex';
+    if (!isDexCall) return;
+
+    const hash = tx.hash.toLowerCase();
+    const swap: Swap = {
+      hash,
+      timestamp: parseInt(tx.timeStamp),
+      sold: [],
+      bought: [],
+      nativeOut: toAmount(tx.value, 18),
+      nativeIn: (internalByHash.get(hash) || [])
+        .filter(internal => internal.isError !== '1' && internal.to?.toLowerCase() === wallet)
+        .reduce((sum, internal) => sum + toAmount(internal.value, 18), 0),
+      usdOut: 0,
+      usdIn: 0
+    };
+
+    (transfersByHash.get(hash) || []).forEach(transfer => {
+      const token = transfer.contractAddress.toLowerCase();
+      const amount = toAmount(transfer.value, transfer.tokenDecimal);
+      const outgoing = transfer.from?.toLowerCase() === wallet;
+      const incoming = transfer.to?.toLowerCase() === wallet;
+      if (outgoing === incoming || amount <= 0) return;
+
+      if (token === wrapped) {
+        if (outgoing) swap.nativeOut += amount; else swap.nativeIn += amount;
+      } else if (stables.has(token)) {
+        if (outgoing) swap.usdOut += amount; else swap.usdIn += amount;
+      } else {
+        (outgoing ? swap.sold : swap.bought).push({ token, symbol: transfer.tokenSymbol || 'UNKNOWN', amount });
+      }
+    });
+
+    const sends = swap.sold.length > 0 || swap.nativeOut > 0 || swap.usdOut > 0;
+    const receives = swap.bought.length > 0 || swap.nativeIn > 0 || swap.usdIn > 0;
+    if (sends && receives && swap.sold.length + swap.bought.length > 0) swaps.set(hash, swap);
+  });
+
+  // Historical prices: the native token for every swap, traded tokens for token-for-token
+  // swaps and for swaps whose value is split across several tokens
+  const bucket = (timestamp: number) => Math.floor(timestamp / PRICE_BUCKET_SECONDS) * PRICE_BUCKET_SECONDS;
+  const swapList = Array.from(swaps.values());
+  const nativeTimes = swapList.filter(swap => swap.nativeOut > 0 || swap.nativeIn > 0).map(swap => bucket(swap.timestamp));
+  const legSwaps = swapList.filter(swap => swap.sold.length > 1 || swap.bought.length > 1 || (swap.sold.length > 0 && swap.bought.length > 0
+    && swap.nativeOut + swap.nativeIn + swap.usdOut + swap.usdIn === 0));
+
+  // Each token is priced only at the hours it was actually traded
+  const priceRequests = new Map<string, number[]>();
+  const requestPrice = (token: string, timestamp: number) =>
+    priceRequests.set(token, [...(priceRequests.get(token) || []), bucket(timestamp)]);
+  if (nativeTimes.length > 0) priceRequests.set(wrapped, nativeTimes);
+  legSwaps.forEach(swap => [...swap.sold, ...swap.bought].forEach(leg => requestPrice(leg.token, swap.timestamp)));
+
+  // Raw source prices only: each is within the source's search width of the trade, so usable for cost basis
+  const tradePrices = priceRequests.size > 0
+    ? await getHistoricalPriceSource().getPrices(chain, priceRequests)
+    : new Map<string, Map<number, number>>();
+  const historicalPrice = (token: string, timestamp: number): number | null =>
+    tradePrices.get(token)?.get(bucket(timestamp)) ?? null;
+
+  /**
+   * USD value of a swap, measured on its quote side
+   */
+  const valueSwap = (swap: Swap): number | null => {
+    const nativePrice = historicalPrice(wrapped, swap.timestamp);
+    const quoteOut = swap.usdOut + (swap.nativeOut > 0 ? (nativePrice !== null ? swap.nativeOut * nativePrice : NaN) : 0);
+    const quoteIn = swap.usdIn + (swap.nativeIn > 0 ? (nativePrice !== null ? swap.nativeIn * nativePrice : NaN) : 0);
+
+    // Buying tokens: value what was paid; selling tokens: value what came back
+    if (swap.bought.length > 0 && quoteOut > 0) return quoteOut;
+    if (swap.sold.length > 0 && quoteIn > 0) return quoteIn;
+
+    // Token for token: value the sold side, else the bought side
+    for (const side of [swap.sold, swap.bought]) {
+      const prices = side.map(leg => historicalPrice(leg.token, swap.timestamp));
+      if (side.length > 0 && prices.every(price => price !== null)) {
+        return side.reduce((sum, leg, index) => sum + leg.amount * prices[index], 0);
+      }
+    }
+    return null;
+  };
+
+  /**
+   * Split a swap's value across the legs of one side by each leg's value at trade time
+   *
+   * @returns {(number | null)[]} USD value per leg; all null when a leg of a multi-leg side can't be priced
+   */
+  const allocateValue = (swap: Swap, legs: Leg[], value: number | null): (number | null)[] => {
+    if (value === null) return legs.map(() => null);
+    if (legs.length === 1) return [value];
+
+    const legValues = legs.map(leg => {
+      const price = historicalPrice(leg.token, swap.timestamp);
+      return price !== null ? leg.amount * price : null;
+    });
+    const total = legValues.reduce((sum, legValue) => sum + (legValue || 0), 0);
+    if (legValues.some(legValue => legValue === null) || total <= 0) return legs.map(() => null);
+    return legValues.map(legValue => value * legValue / total);
+  };
+
+  // Replay every token movement in order through FIFO positions
+  const positions = new Map<string, Position>();
+  const getPosition = (token: string, symbol: string): Position => {
+    let position = positions.get(token);
+    if (!position) {
+      position = { symbol, lots: [], buys: 0, sells: 0, realizedPnlUsd: 0, closedTrades: 0, wins: 0, holdingSeconds: [] };
+      positions.set(token, position);
+    }
+    return position;
+  };
+
+  let unpricedSwaps = 0;
+  const processed = new Set<string>();
+
+  tokenTransfers.forEach(transfer => {
+    const hash = transfer.hash.toLowerCase();
+    const timestamp = parseInt(transfer.timeStamp);
+    const swap = swaps.get(hash);
+
+    if (swap) {
+      if (processed.has(hash)) return;
+      processed.add(hash);
+
+      const value = valueSwap(swap);
+      const boughtValues = allocateValue(swap, swap.bought, value);
+      const soldValues = allocateValue(swap, swap.sold, value);
+      if ([...boughtValues, ...soldValues].some(legValue => legValue === null)) unpricedSwaps++;
+
+      swap.bought.forEach((leg, index) => {
+        const position = getPosition(leg.token, leg.symbol);
+        position.buys++;
+        position.lots.push({ amount: leg.amount, costUsd: boughtValues[index], acquiredAt: timestamp });
+      });
+
+      swap.sold.forEach((leg, index) => {
+        const position = getPosition(leg.token, leg.symbol);
+        position.sells++;
+        const { knownAmount, knownCost, avgHeldAt } = consumeLots(position, leg.amount);
+        if (avgHeldAt !== null) position.holdingSeconds.push(timestamp - avgHeldAt);
+
+        const legValue = soldValues[index];
+        if (legValue !== null && knownAmount > 0) {
+          const proceeds = legValue * (knownAmount / leg.amount);
+          const pnl = proceeds - knownCost;
+          position.realizedPnlUsd += pnl;
+          position.closedTrades++;
+          if (pnl > 0) position.wins++;
+        }
+      });
+      return;
+    }
+
+    // Plain transfers only move tokens that are traded somewhere in the history
+    const token = transfer.contractAddress.toLowerCase();
+    if (token === wrapped || stables.has(token)) return;
+    const amount = toAmount(transfer.value, transfer.tokenDecimal);
+    const outgoing = transfer.from?.toLowerCase() === wallet;
+    const incoming = transfer.to?.toLowerCase() === wallet;
+    if (outgoing === incoming || amount <= 0) return;
+
+    const position = getPosition(token, transfer.tokenSymbol || 'UNKNOWN');
+    if (incoming) {
+      position.lots.push({ amount, costUsd: null, acquiredAt: timestamp });
+    } else {
+      consumeLots(position, amount);
+    }
+  });
+
+  const traded = Array.from(positions.entries()).filter(([, position]) => position.buys + position.sells > 0);
+  const currentPrices = await getTokenPrices(traded.map(([token]) => token), chain);
+
+  const tokens: TokenPnl[] = traded.map(([token, position]) => {
+    const holdingAmount = position.lots.reduce((sum, lot) => sum + lot.amount, 0);
+    const knownLots = position.lots.filter(lot => lot.costUsd !== null);
+    const costBasisUsd = knownLots.reduce((sum, lot) => sum + lot.costUsd, 0);
+    const price = currentPrices.get(token);
+    const currentPriceUsd = price && price.liquidityUsd >= MIN_LIQUIDITY_USD ? price.priceUsd : null;
+    const knownAmount = knownLots.reduce((sum, lot) => sum + lot.amount, 0);
+
+    return {
+      contractAddress: token,
+      symbol: position.symbol,
+      buys: position.buys,
+      sells: position.sells,
+      realizedPnlUsd: position.realizedPnlUsd,
+      unrealizedPnlUsd: currentPriceUsd !== null ? knownAmount * currentPriceUsd - costBasisUsd : null,
+      holdingAmount: holdingAmount > DUST_AMOUNT ? holdingAmount : 0,
+      costBasisUsd,
+      currentPriceUsd,
+      closedTrades: position.closedTrades,
+      wins: position.wins,
+      avgHoldingHours: position.holdingSeconds.length > 0
+        ? position.holdingSeconds.reduce((sum, seconds) => sum + seconds, 0) / position.holdingSeconds.length / 3600
+        : null
+    };
+  }).sort((a, b) =>
+    (Math.abs(b.realizedPnlUsd) + Math.abs(b.unrealizedPnlUsd || 0)) - (Math.abs(a.realizedPnlUsd) + Math.abs(a.unrealizedPnlUsd || 0))
+  );
+
+  const realizedPnlUsd = tokens.reduce((sum, token) => sum + token.realizedPnlUsd, 0);
+  const unrealizedPnlUsd = tokens.reduce((sum, token) => sum + (token.unrealizedPnlUsd || 0), 0);
+  const closedTrades = tokens.reduce((sum, token) => sum + token.closedTrades, 0);
+  const wins = tokens.reduce((sum, token) => sum + token.wins, 0);
+  const holdingSeconds = Array.from(positions.values()).flatMap(position => position.holdingSeconds);
+
+  return {
+    chain,
+    address,
+    tokens,
+    totals: {
+      realizedPnlUsd,
+      unrealizedPnlUsd,
+      totalPnlUsd: realizedPnlUsd + unrealizedPnlUsd,
+      closedTrades,
+      winRate: closedTrades > 0 ? wins / closedTrades : null,
+      avgHoldingHours: holdingSeconds.length > 0
+        ? holdingSeconds.reduce((sum, seconds) => sum + seconds, 0) / holdingSeconds.length / 3600
+        : null
+    },
+    swapsAnalyzed: swaps.size,
+    unpricedSwaps,
+    complete: truncated.length === 0,
+    since,
+    generatedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Price History Service - Historical USD Prices with Pluggable Sources
+ *
+ * This server-side service prices tokens at past points in time. The
+ * historical source is pluggable (PRICE_HISTORY_SOURCE, DefiLlama by
+ * default); tokens the source knows nothing about fall back to their current
+ * DEXScreener price so charts still show them, valued at today's price.
+ *
+ * Features:
+ * - HistoricalPriceSource interface for swapping providers
+ * - DefiLlama batchHistorical source (arbitrary timestamps per token),
+ *   with a request timeout and a cap on requests per lookup
+ * - DEXScreener current-price fallback (liquid pairs only)
+ * - Per-token record of which source priced it
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { ChainKey } from './chains';
+import { getTokenPrices, MIN_LIQUIDITY_USD } from './pricing';
+
+const DEFILLAMA_COINS_URL = 'https://coins.llama.fi';
+const MAX_TIMESTAMPS_PER_COIN = 100; // Per coin and request, to keep URLs short
+const MAX_COINS_PER_REQUEST = 5;
+const SEARCH_WIDTH_SECONDS = 12 * 60 * 60; // Accept prices up to 12h from the requested time
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_REQUESTS_PER_LOOKUP = 20; // Further (token, time) pairs are left unpriced
+
+/**
+ * Where a token's prices came from
+ *
+ * - historical: the configured historical price source
+ * - current: DEXScreener's current price, applied to every point in time
+ * - none: no usable price
+ */
+export type PriceSourceKind = 'historical' | 'current' | 'none';
+
+/**
+ * Provider of historical USD prices
+ *
+ * @interface HistoricalPriceSource
+ * @property {string} name - Source name for logs and responses
+ */
+export interface HistoricalPriceSource {
+  name: string;
+
+  /**
+   * Price each token at its own list of times
+   *
+   * Only prices within SEARCH_WIDTH_SECONDS of a requested time are returned.
+   *
+   * @param {ChainKey} chain - Chain the tokens live on
+   * @param {Map<string, number[]>} requests - Unix timestamps (seconds) to price, keyed by token contract address
+   * @returns {Promise<Map<string, Map<number, number>>>} Prices keyed by lowercased address, then timestamp;
+   *   timestamps without a price are left out
+   */
+  getPrices(chain: ChainKey, requests: Map<string, number[]>): Promise<Map<string, Map<number, number>>>;
+}
+
+/**
+ * Prices for a set of tokens over time
+ *
+ * @interface PriceSeries
+ * @property {Map<string, Map<number, number>>} prices - USD prices keyed by lowercased address, then timestamp
+ * @property {Map<string, PriceSourceKind>} sources - Source used per token
+ * @property {string} source - Name of the historical source
+ */
+export interface PriceSeries {
+  prices: Map<string, Map<number, number>>;
+  sources: Map<string, PriceSourceKind>;
+  source: string;
+}
+
+interface DefiLlamaBatchResponse {
+  coins?: Record<string, { symbol?: string; prices?: Array<{ timestamp: number; price: number }> }>;
+}
+
+/**
+ * Pick the price closest to a timestamp
+ *
+ * @param {Array<{ timestamp: number; price: number }>} points - Returned price points
+ * @param {number} timestamp - Requested timestamp
+ * @returns {number | null} Closest price within SEARCH_WIDTH_SECONDS, or null
+ */
+function closestPrice(points: Array<{ timestamp: number; price: number }>, timestamp: number): number | null {
+  if (points.length === 0) return null;
+  const best = points.reduce((a, b) => Math.abs(b.timestamp - timestamp) < Math.abs(a.timestamp - timestamp) ? b : a);
+  return Math.abs(best.timestamp - timestamp) <= SEARCH_WIDTH_SECONDS ? best.price : null;
+}
+
+/**
+ * DefiLlama coins API source
+ *
+ * Coins are identified as "{chain}:{address}"; the chain keys in
+ * SUPPORTED_CHAINS match DefiLlama's chain names.
+ */
+export const defiLlamaPriceSource: HistoricalPriceSource = {
+  name: 'defillama',
+
+  async getPrices(chain, requests) {
+    const prices = new Map<string, Map<number, number>>();
+    const coins = new Map<string, Set<number>>();
+    requests.forEach((timestamps, address) => {
+      const key = address.toLowerCase();
+      const times = coins.get(key) || new Set<number>();
+      timestamps.forEach(timestamp => times.add(timestamp));
+      coins.set(key, times);
+    });
+
+    // Split into (coin, timestamp chunk) requests, several coins per call
+    const jobs: Array<{ address: string; timestamps: number[] }> = [];
+    coins.forEach((times, address) => {
+      const sortedTimestamps = Array.from(times).sort((a, b) => a - b);
+      for (let i = 0; i < sortedTimestamps.length; i += MAX_TIMESTAMPS_PER_COIN) {
+        jobs.push({ address, timestamps: sortedTimestamps.slice(i, i + MAX_TIMESTAMPS_PER_COIN) });
+      }
+    });
+
+    const maxJobs = MAX_REQUESTS_PER_LOOKUP * MAX_COINS_PER_REQUEST;
+    if (jobs.length > maxJobs) {
+      console.warn(`DefiLlama lookup needs ${Math.ceil(jobs.length / MAX_COINS_PER_REQUEST)} requests, pricing the first ${MAX_REQUESTS_PER_LOOKUP}`);
+    }
+
+    for (let i = 0; i < Math.min(jobs.length, maxJobs); i += MAX_COINS_PER_REQUEST) {
+      const batch = jobs.slice(i, i + MAX_COINS_PER_REQUEST);
+      const query: Record<string, number[]> = {};
+      batch.forEach(job => {
+        query[`${chain}:${job.address}`] = [...(query[`${chain}:${job.address}`] || []), ...job.timestamps];
+      });
+
+      try {
+        const url = `${DEFILLAMA_COINS_URL}/batchHistorical?coins=${encodeURIComponent(JSON.stringify(query))}&searchWidth=${SEARCH_WIDTH_SECONDS}`;
+        const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+        if (!response.ok) {
+          console.warn(`DefiLlama API error: ${response.status}`);
+          continue;
+        }
+
+        const data: DefiLlamaBatchResponse = await response.json();
+        batch.forEach(job => {
+          const points = data.coins?.[`${chain}:${job.address}`]?.prices || [];
+          if (points.length === 0) return;
+
+          const series = prices.get(job.address) || new Map<number, number>();
+          job.timestamps.forEach(timestamp => {
+            const price = closestPrice(points, timestamp);
+            if (price !== null) series.set(timestamp, price);
+          });
+          if (series.size > 0) prices.set(job.address, series);
+        });
+      } catch (error) {
+        console.warn('Error fetching DefiLlama historical prices:', error);
+      }
+    }
+
+    return prices;
+  }
+};
+
+// Registered historical sources, selectable through PRICE_HISTORY_SOURCE
+const PRICE_SOURCES: Record<string, HistoricalPriceSource> = {
+  [defiLlamaPriceSource.name]: defiLlamaPriceSource
+};
+
+/**
+ * Get the configured historical price source
+ *
+ * @param {string} [name] - Source name (defaults to PRICE_HISTORY_SOURCE, then DefiLlama)
+ * @returns {HistoricalPriceSource} Price source
+ */
+export function getHistoricalPriceSource(name: string | undefined = process.env.PRICE_HISTORY_SOURCE): HistoricalPriceSource {
+  const source = name ? PRICE_SOURCES[name.toLowerCase()] : undefined;
+  if (name && !source) {
+    console.warn(`Unknown price history source "${name}", using ${defiLlamaPriceSource.name}`);
+  }
+  return source || defiLlamaPriceSource;
+}
+
+/**
+ * Price tokens over time, falling back to current DEXScreener prices
+ *
+ * Tokens the historical source has no prices for at all are valued at their
+ * current price at every timestamp (liquid pairs only). Gaps for tokens that
+ * do have history are filled from the nearest priced timestamp, however far
+ * away, which suits charts; trade-time pricing should use the source directly.
+ *
+ * @param {ChainKey} chain - Chain the tokens live on
+ * @param {string[]} addresses - Token contract addresses
+ * @param {number[]} timestamps - Unix timestamps (seconds)
+ * @param {HistoricalPriceSource} [source] - Historical source (defaults to the configured one)
+ * @returns {Promise<PriceSeries>} Prices for every timestamp, plus the source used per token
+ */
+export async function getPriceSeries(
+  chain: ChainKey,
+  addresses: string[],
+  timestamps: number[],
+  source: HistoricalPriceSource = getHistoricalPriceSource()
+): Promise<PriceSeries> {
+  const keys = Array.from(new Set(addresses.map(address => address.toLowerCase())));
+  const historical = await source.getPrices(chain, new Map(keys.map(address => [address, timestamps])));
+  const prices = new Map<string, Map<number, number>>();
+  const sources = new Map<string, PriceSourceKind>();
+
+  keys.forEach(address => {
+    const known = historical.get(address);
+    if (!known || known.size === 0) return;
+
+    const pricedAt = Array.from(known.keys());
+    const series = new Map<number, number>();
+    timestamps.forEach(timestamp => {
+      if (known.has(timestamp)) {
+        series.set(timestamp, known.get(timestamp));
+        return;
+      }
+      const nearest = pricedAt.reduce((a, b) => Math.abs(b - timestamp) < Math.abs(a - timestamp) ? b : a);
+      series.set(timestamp, known.get(nearest));
+    });
+
+    prices.set(address, series);
+    sources.set(address, 'historical');
+  });
+
+  const missing = keys.filter(address => !prices.has(address));
+  if (missing.length > 0) {
+    console.log(`No ${source.name} history for ${missing.length} tokens, using current DEXScreener prices`);
+    const current = await getTokenPrices(missing, chain);
+
+    missing.forEach(address => {
+      const price = current.get(address);
+      if (!price || price.liquidityUsd < MIN_LIQUIDITY_USD) {
+        sources.set(address, 'none');
+        return;
+      }
+      prices.set(address, new Map(timestamps.map(timestamp => [timestamp, price.priceUsd])));
+      sources.set(address, 'current');
+    });
+  }
+
+  return { prices, sources, source: source.name };
+}
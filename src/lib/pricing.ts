@@ -0,0 +1,173 @@
+/**
+ * Portfolio Pricing Service - USD Valuation via DEXScreener
+ *
+ * This server-side service values a wallet's holdings in USD. Token prices
+ * come from the most liquid pair on DEXScreener for the wallet's chain, and
+ * the native balance is priced through the wrapped native token (WETH on Base).
+ *
+ * Features:
+ * - Batch pricing of token contract lists (30 addresses per request)
+ * - Native balance valuation via the wrapped native token
+ * - Works on every chain in SUPPORTED_CHAINS (DEXScreener uses the same keys)
+ * - Per-holding USD value and portfolio percentage
+ * - Illiquid or unlisted tokens are flagged and excluded from the total
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { fetchTokenPairs, getBestPair } from './dexscreener';
+import { ChainKey, DEFAULT_CHAIN, SUPPORTED_CHAINS } from './chains';
+
+export const WETH_ADDRESS = SUPPORTED_CHAINS.base.wrappedNative;
+
+// Pairs with less liquidity than this cannot be trusted for pricing
+export const MIN_LIQUIDITY_USD = 10000;
+
+/**
+ * Reason a holding was left out of the portfolio total
+ *
+ * - no-pair: no pair exists for the token on DEXScreener for the chain
+ * - illiquid: the best pair has less than MIN_LIQUIDITY_USD of liquidity
+ */
+export type PricingFlag = 'no-pair' | 'illiquid';
+
+/**
+ * Current USD price of a token
+ */
+export interface TokenPrice {
+  address: string;
+  priceUsd: number;
+  liquidityUsd: number;
+  pairAddress: string;
+  dexId: string;
+}
+
+/**
+ * Holding to be valued
+ */
+export interface PricingInput {
+  contractAddress: string;
+  symbol?: string;
+  balance: number;
+}
+
+/**
+ * Valued holding in a portfolio
+ */
+export interface PricedHolding {
+  contractAddress: string;
+  symbol: string;
+  balance: number;
+  priceUsd: number | null;
+  valueUsd: number;
+  percentage: number;
+  liquidityUsd: number;
+  priced: boolean;
+  flag?: PricingFlag;
+}
+
+/**
+ * Full USD valuation of a wallet
+ */
+export interface PortfolioValuation {
+  chain: ChainKey;
+  native: {
+    symbol: string;
+    balance: number;
+    priceUsd: number | null;
+    valueUsd: number;
+    percentage: number;
+  };
+  tokens: PricedHolding[];
+  totalValueUsd: number;
+  flaggedCount: number;
+  pricedAt: string;
+}
+
+/**
+ * Get current USD prices for a list of token addresses
+ *
+ * Every address is returned in the map; tokens without a usable pair have
+ * a null price.
+ *
+ * @param {string[]} addresses - Token contract addresses
+ * @param {ChainKey} [chain='base'] - Chain the tokens live on
+ * @returns {Promise<Map<string, TokenPrice | null>>} Prices keyed by lowercased address
+ */
+export async function getTokenPrices(addresses: string[], chain: ChainKey = DEFAULT_CHAIN): Promise<Map<string, TokenPrice | null>> {
+  const pairs = await fetchTokenPairs(addresses, chain);
+  const prices = new Map<string, TokenPrice | null>();
+
+  addresses.forEach(address => {
+    const key = address.toLowerCase();
+    const pair = getBestPair(pairs, key);
+    const priceUsd = pair?.priceUsd ? parseFloat(pair.priceUsd) : NaN;
+
+    prices.set(key, pair && !isNaN(priceUsd) ? {
+      address: key,
+      priceUsd,
+      liquidityUsd: pair.liquidity?.usd || 0,
+      pairAddress: pair.pairAddress,
+      dexId: pair.dexId
+    } : null);
+  });
+
+  return prices;
+}
+
+/**
+ * Value a wallet's native balance and token holdings in USD
+ *
+ * @param {number} nativeBalance - Native balance (ETH on Base)
+ * @param {PricingInput[]} holdings - Token holdings with balances adjusted for decimals
+ * @param {ChainKey} [chain='base'] - Chain the wallet was profiled on
+ * @returns {Promise<PortfolioValuation>} USD values, percentages and total
+ */
+export async function valuePortfolio(nativeBalance: number, holdings: PricingInput[], chain: ChainKey = DEFAULT_CHAIN): Promise<PortfolioValuation> {
+  const { wrappedNative, nativeSymbol } = SUPPORTED_CHAINS[chain];
+  const prices = await getTokenPrices([wrappedNative, ...holdings.map(holding => holding.contractAddress)], chain);
+
+  const nativePrice = prices.get(wrappedNative)?.priceUsd ?? null;
+  const nativeValue = nativePrice !== null ? nativeBalance * nativePrice : 0;
+
+  const tokens: PricedHolding[] = holdings.map(holding => {
+    const price = prices.get(holding.contractAddress.toLowerCase());
+    const isLiquid = !!price && price.liquidityUsd >= MIN_LIQUIDITY_USD;
+
+    return {
+      contractAddress: holding.contractAddress,
+      symbol: holding.symbol || 'UNKNOWN',
+      balance: holding.balance,
+      priceUsd: price?.priceUsd ?? null,
+      valueUsd: isLiquid ? holding.balance * price.priceUsd : 0,
+      percentage: 0,
+      liquidityUsd: price?.liquidityUsd || 0,
+      priced: isLiquid,
+      flag: !price ? 'no-pair' : !isLiquid ? 'illiquid' : undefined
+    };
+  });
+
+  const totalValueUsd = nativeValue + tokens.reduce((sum, token) => sum + token.valueUsd, 0);
+  const toPercentage = (value: number) => totalValueUsd > 0 ? Math.round((value / totalValueUsd) * 10000) / 100 : 0;
+
+  tokens.forEach(token => {
+    token.percentage = toPercentage(token.valueUsd);
+  });
+  tokens.sort((a, b) => b.valueUsd - a.valueUsd);
+
+  return {
+    chain,
+    native: {
+      symbol: nativeSymbol,
+      balance: nativeBalance,
+      priceUsd: nativePrice,
+      valueUsd: nativeValue,
+      percentage: toPercentage(nativeValue)
+    },
+    tokens,
+    totalValueUsd,
+    flaggedCount: tokens.filter(token => !token.priced).length,
+    pricedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Protocol Registry - Known Contract Labels for Base
+ *
+ * This module resolves contract addresses against the versioned registry of
+ * Base protocols in src/data/base-protocols.json (routers, pools, bridges,
+ * the Basenames registrar and so on). Like the signature database it has no
+ * server dependencies, so client components can label counterparties directly.
+ *
+ * Features:
+ * - Address to protocol lookup (name, category, logo, contract label)
+ * - Counterparty resolution relative to the searched wallet
+ * - Per-protocol interaction counts and native volume
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import protocolRegistry from '@/data/base-protocols.json';
+import { ChainKey, SUPPORTED_CHAINS } from './chains';
+import { CallCategory } from './signatures';
+
+export type ProtocolCategory = 'dex' | 'lending' | 'staking' | 'bridge' | 'naming' | 'nft' | 'token' | 'wallet';
+
+/**
+ * Protocol entry in the registry
+ *
+ * @interface Protocol
+ * @property {string} id - Stable protocol identifier
+ * @property {string} name - Display name
+ * @property {ProtocolCategory} category - Protocol category
+ * @property {string | null} logo - Logo URL, or null to use generated initials
+ * @property {string} [website] - Protocol website
+ */
+export interface Protocol {
+  id: string;
+  name: string;
+  category: ProtocolCategory;
+  logo: string | null;
+  website?: string;
+}
+
+/**
+ * Registry match for a single contract
+ *
+ * @interface ProtocolContract
+ * @property {Protocol} protocol - Protocol the contract belongs to
+ * @property {string} address - Contract address (checksummed as in the registry)
+ * @property {string} label - Contract label, e.g. "V3 SwapRouter02"
+ */
+export interface ProtocolContract {
+  protocol: Protocol;
+  address: string;
+  label: string;
+}
+
+/**
+ * Interactions with one protocol
+ *
+ * @interface ProtocolActivity
+ * @property {Protocol} protocol - Protocol
+ * @property {number} count - Transactions with any of the protocol's contracts
+ * @property {number} volume - Native value sent or received, in whole units (e.g. ETH)
+ */
+export interface ProtocolActivity {
+  protocol: Protocol;
+  count: number;
+  volume: number;
+}
+
+interface RegistryEntry extends Protocol {
+  contracts: Array<{ address: string; label: string }>;
+}
+
+// Protocol categories that double as call categories for DeFi analytics
+const CALL_CATEGORIES: ProtocolCategory[] = ['dex', 'lending', 'staking', 'bridge', 'nft', 'token'];
+
+export const PROTOCOL_REGISTRY_VERSION = protocolRegistry.version;
+
+// Contracts keyed by lowercased address
+const CONTRACTS = new Map<string, ProtocolContract>();
+(protocolRegistry.protocols as RegistryEntry[]).forEach(({ contracts, ...protocol }) => {
+  contracts.forEach(contract => {
+    CONTRACTS.set(contract.address.toLowerCase(), { protocol, address: contract.address, label: contract.label });
+  });
+});
+
+/**
+ * Look up a contract in the registry
+ *
+ * Only Base addresses are registered; other chains always resolve to null.
+ *
+ * @param {string} address - Contract address
+ * @param {ChainKey} [chain='base'] - Chain the address is on
+ * @returns {ProtocolContract | null} Registry match, or null if unknown
+ */
+export function resolveProtocol(address: string, chain: ChainKey = 'base'): ProtocolContract | null {
+  if (!address || SUPPORTED_CHAINS[chain].id !== protocolRegistry.chainId) return null;
+  return CONTRACTS.get(address.toLowerCase()) || null;
+}
+
+/**
+ * Get the other side of a transaction relative to a wallet
+ *
+ * @param {{ from: string; to: string }} tx - Transaction
+ * @param {string} wallet - Wallet being profiled
+ * @returns {string} Recipient for outgoing transactions, sender for incoming ones
+ */
+export function getCounterparty(tx: { from: string; to: string }, wallet: string): string {
+  return tx.from?.toLowerCase() === wallet.toLowerCase() ? tx.to : tx.from;
+}
+
+/**
+ * Call category implied by a protocol, for protocols that map onto one
+ *
+ * @param {Protocol} protocol - Protocol
+ * @returns {CallCategory | null} Call category, or null for naming/wallet infrastructure
+ */
+export function getProtocolCallCategory(protocol: Protocol): CallCategory | null {
+  return CALL_CATEGORIES.includes(protocol.category) ? protocol.category as CallCategory : null;
+}
+
+/**
+ * Logo for a protocol, falling back to generated initials
+ *
+ * @param {Protocol} protocol - Protocol
+ * @returns {string} Image URL
+ */
+export function getProtocolLogo(protocol: Protocol): string {
+  return protocol.logo || `https://ui-avatars.com/api/?name=${encodeURIComponent(protocol.name)}&background=6366f1&color=ffffff&size=48&bold=true`;
+}
+
+/**
+ * Count interactions and native volume per protocol
+ *
+ * @param {Array<{ from: string; to: string; value: string }>} transactions - Transactions (value in wei)
+ * @param {string} wallet - Wallet being profiled
+ * @param {ChainKey} [chain='base'] - Chain the transactions are on
+ * @returns {ProtocolActivity[]} Activity per protocol, most interactions first
+ */
+export function summarizeProtocolActivity(
+  transactions: Array<{ from: string; to: string; value: string }>,
+  wallet: string,
+  chain: ChainKey = 'base'
+): ProtocolActivity[] {
+  const totals = new Map<string, { protocol: Protocol; count: number; volumeWei: bigint }>();
+
+  transactions.forEach(tx => {
+    const match = resolveProtocol(getCounterparty(tx, wallet), chain);
+    if (!match) return;
+
+    const entry = totals.get(match.protocol.id) || { protocol: match.protocol, count: 0, volumeWei: BigInt(0) };
+    entry.count++;
+    try {
+      entry.volumeWei += BigInt(tx.value || '0');
+    } catch {
+      // Non-integer value; count the interaction without volume
+    }
+    totals.set(match.protocol.id, entry);
+  });
+
+  return Array.from(totals.values())
+    .map(({ protocol, count, volumeWei }) => ({ protocol, count, volume: Number(volumeWei) / 1e18 }))
+    .sort((a, b) => b.count - a.count || b.volume - a.volume);
+}
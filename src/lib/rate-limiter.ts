@@ -0,0 +1,286 @@
+/**
+ * Rate Limiter - Shared Token Buckets for Etherscan API Keys
+ *
+ * Every Etherscan request waits on the token bucket of the API key it uses,
+ * so concurrent requests from parallel routes are spaced out instead of all
+ * going out at once. Buckets live at module scope and are shared by every
+ * EtherscanAPI instance in the process.
+ *
+ * Features:
+ * - One token bucket per API key (ETHERSCAN_RATE_LIMIT requests/second, default 4)
+ * - Priority queue: interactive lookups are served before background work
+ * - Adaptive backoff: "Max rate limit reached" halves the rate and pauses the
+ *   bucket; successes restore the rate step by step
+ * - Wait-time metrics per key and priority
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+const DEFAULT_RATE_PER_SECOND = 4; // Etherscan free tier allows 5/s; keep a safety margin
+const MIN_RATE_PER_SECOND = 0.5;
+const RATE_RECOVERY_STEP = 0.25; // Requests/second regained per successful request
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 8000;
+
+/**
+ * Request priority; interactive requests always leave the queue first
+ */
+export type RequestPriority = 'interactive' | 'background';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  interactive: 0,
+  background: 1
+};
+
+/**
+ * Queued request waiting for a token
+ */
+interface Waiter {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  resolve: (waitMs: number) => void;
+}
+
+/**
+ * Wait-time metrics for one priority
+ */
+export interface PriorityMetrics {
+  granted: number;
+  queued: number;
+  avgWaitMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Limiter metrics snapshot
+ *
+ * @interface RateLimiterMetrics
+ * @property {string} key - Masked API key
+ * @property {number} ratePerSecond - Current (possibly reduced) rate
+ * @property {number} baseRatePerSecond - Configured rate
+ * @property {number} tokens - Tokens currently available
+ * @property {number} pausedForMs - Remaining backoff pause
+ * @property {number} rateLimitHits - "Max rate limit reached" responses seen
+ * @property {Record<RequestPriority, PriorityMetrics>} priorities - Wait metrics per priority
+ */
+export interface RateLimiterMetrics {
+  key: string;
+  ratePerSecond: number;
+  baseRatePerSecond: number;
+  tokens: number;
+  pausedForMs: number;
+  rateLimitHits: number;
+  priorities: Record<RequestPriority, PriorityMetrics>;
+}
+
+/**
+ * TokenBucketLimiter Class - Token bucket with a priority queue
+ *
+ * @class TokenBucketLimiter
+ * @property {number} rate - Tokens added per second
+ * @property {number} capacity - Maximum tokens (burst size)
+ * @property {Waiter[]} queue - Waiting requests, ordered by priority then arrival
+ */
+export class TokenBucketLimiter {
+  private baseRate: number;
+  private rate: number;
+  private capacity: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private backoffMs = 0;
+  private rateLimitHits = 0;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private waitStats: Record<RequestPriority, { granted: number; totalWaitMs: number; maxWaitMs: number }> = {
+    interactive: { granted: 0, totalWaitMs: 0, maxWaitMs: 0 },
+    background: { granted: 0, totalWaitMs: 0, maxWaitMs: 0 }
+  };
+
+  /**
+   * @param {number} ratePerSecond - Sustained requests per second
+   * @param {number} [capacity] - Burst size (defaults to one second of requests)
+   */
+  constructor(ratePerSecond: number, capacity: number = Math.max(1, Math.floor(ratePerSecond))) {
+    this.baseRate = ratePerSecond;
+    this.rate = ratePerSecond;
+    this.capacity = capacity;
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait for a token
+   *
+   * @param {RequestPriority} [priority='interactive'] - Queue priority
+   * @returns {Promise<number>} Milliseconds spent waiting
+   */
+  acquire(priority: RequestPriority = 'interactive'): Promise<number> {
+    return new Promise(resolve => {
+      const waiter: Waiter = { priority, enqueuedAt: Date.now(), resolve };
+      const index = this.queue.findIndex(queued => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[priority]);
+
+      if (index === -1) {
+        this.queue.push(waiter);
+      } else {
+        this.queue.splice(index, 0, waiter);
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * Back off after Etherscan reported a rate limit
+   *
+   * Halves the rate and pauses the bucket; the pause doubles on consecutive
+   * hits up to MAX_BACKOFF_MS.
+   */
+  reportRateLimited(): void {
+    const now = Date.now();
+    this.rateLimitHits++;
+    this.rate = Math.max(MIN_RATE_PER_SECOND, this.rate / 2);
+    this.backoffMs = this.backoffMs ? Math.min(this.backoffMs * 2, MAX_BACKOFF_MS) : INITIAL_BACKOFF_MS;
+    this.pausedUntil = now + this.backoffMs;
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+
+    console.log(`Rate limiter backing off ${this.backoffMs}ms, rate now ${this.rate}/s`);
+    this.reschedule();
+  }
+
+  /**
+   * Record a successful request, gradually restoring the configured rate
+   */
+  reportSuccess(): void {
+    this.backoffMs = 0;
+    if (this.rate < this.baseRate) {
+      this.rate = Math.min(this.baseRate, this.rate + RATE_RECOVERY_STEP);
+    }
+  }
+
+  /**
+   * Snapshot of the limiter state
+   *
+   * @param {string} key - Masked key to label the snapshot with
+   * @returns {RateLimiterMetrics} Metrics
+   */
+  getMetrics(key: string): RateLimiterMetrics {
+    this.refill();
+    const priorities = {} as Record<RequestPriority, PriorityMetrics>;
+
+    (Object.keys(this.waitStats) as RequestPriority[]).forEach(priority => {
+      const stats = this.waitStats[priority];
+      priorities[priority] = {
+        granted: stats.granted,
+        queued: this.queue.filter(waiter => waiter.priority === priority).length,
+        avgWaitMs: stats.granted > 0 ? Math.round(stats.totalWaitMs / stats.granted) : 0,
+        maxWaitMs: stats.maxWaitMs
+      };
+    });
+
+    return {
+      key,
+      ratePerSecond: this.rate,
+      baseRatePerSecond: this.baseRate,
+      tokens: Math.round(this.tokens * 100) / 100,
+      pausedForMs: Math.max(0, this.pausedUntil - Date.now()),
+      rateLimitHits: this.rateLimitHits,
+      priorities
+    };
+  }
+
+  /**
+   * Add tokens for the time elapsed since the last refill
+   * @private
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.rate);
+    this.lastRefill = Math.max(this.lastRefill, now);
+  }
+
+  /**
+   * Hand out available tokens to queued requests and schedule the next check
+   * @private
+   */
+  private drain(): void {
+    if (this.timer) return;
+
+    this.refill();
+    const now = Date.now();
+
+    while (this.queue.length > 0 && now >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens -= 1;
+      const waiter = this.queue.shift();
+      const waitMs = now - waiter.enqueuedAt;
+      const stats = this.waitStats[waiter.priority];
+
+      stats.granted++;
+      stats.totalWaitMs += waitMs;
+      stats.maxWaitMs = Math.max(stats.maxWaitMs, waitMs);
+      waiter.resolve(waitMs);
+    }
+
+    if (this.queue.length > 0) {
+      const delay = now < this.pausedUntil
+        ? this.pausedUntil - now
+        : Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, Math.max(1, delay));
+    }
+  }
+
+  /**
+   * Drop the pending timer so the next drain uses the updated rate and pause
+   * @private
+   */
+  private reschedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.drain();
+  }
+}
+
+/**
+ * Mask an API key for logs and metrics
+ *
+ * @param {string} key - API key
+ * @returns {string} Last four characters of the key
+ */
+export function maskKey(key: string): string {
+  return `…${key.slice(-4)}`;
+}
+
+// One bucket per API key, shared across all clients in the process
+const limiters = new Map<string, TokenBucketLimiter>();
+
+/**
+ * Get the shared limiter for an API key
+ *
+ * @param {string} key - API key
+ * @returns {TokenBucketLimiter} Limiter for the key
+ */
+export function getRateLimiter(key: string): TokenBucketLimiter {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    const rate = parseFloat(process.env.ETHERSCAN_RATE_LIMIT || '') || DEFAULT_RATE_PER_SECOND;
+    limiter = new TokenBucketLimiter(rate);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Metrics for every limiter created so far
+ *
+ * @returns {RateLimiterMetrics[]} Metrics per API key (keys masked)
+ */
+export function getRateLimiterMetrics(): RateLimiterMetrics[] {
+  return Array.from(limiters.entries()).map(([key, limiter]) => limiter.getMetrics(maskKey(key)));
+}
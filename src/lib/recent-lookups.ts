@@ -0,0 +1,142 @@
+/**
+ * Recent Lookups - Search History with Resolved Identities
+ *
+ * This client-side module keeps the user's recent searches in localStorage,
+ * each with what it resolved to: the address, the primary name and the
+ * avatar. The search autocomplete lists them; pinned lookups stay at the
+ * top and survive clearing.
+ *
+ * Features:
+ * - Most recent first, deduplicated by address
+ * - Pin, remove and clear (unpinned) lookups
+ * - useRecentLookups hook that stays in sync across components and tabs
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'sniffer-recent-lookups';
+const CHANGE_EVENT = 'sniffer-recent-lookups-change';
+const MAX_RECENT_LOOKUPS = 20; // Unpinned lookups kept
+
+/**
+ * A resolved search
+ *
+ * @interface RecentLookup
+ * @property {string} query - What was searched (address or name)
+ * @property {string} address - Lowercased resolved address
+ * @property {string | null} name - Primary name of the address, if any
+ * @property {string | null} avatar - Avatar URL or ipfs:// URI, if any
+ * @property {boolean} pinned - Whether the lookup is pinned
+ * @property {number} lookedUpAt - Time of the latest search (ms)
+ */
+export interface RecentLookup {
+  query: string;
+  address: string;
+  name: string | null;
+  avatar: string | null;
+  pinned: boolean;
+  lookedUpAt: number;
+}
+
+/**
+ * Read recent lookups from localStorage
+ * @returns RecentLookup[] - Pinned first, then most recent first
+ */
+export const getRecentLookups = (): RecentLookup[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const lookups: RecentLookup[] = saved ? JSON.parse(saved) : [];
+    return lookups.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.lookedUpAt - a.lookedUpAt);
+  } catch (error) {
+    console.warn('Failed to read recent lookups:', error);
+    return [];
+  }
+};
+
+/**
+ * Persist lookups, trimming unpinned ones, and notify subscribers in this tab
+ */
+const saveRecentLookups = (lookups: RecentLookup[]) => {
+  const pinned = lookups.filter(lookup => lookup.pinned);
+  const recent = lookups
+    .filter(lookup => !lookup.pinned)
+    .sort((a, b) => b.lookedUpAt - a.lookedUpAt)
+    .slice(0, MAX_RECENT_LOOKUPS);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...pinned, ...recent]));
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  } catch (error) {
+    console.warn('Failed to save recent lookups:', error);
+  }
+};
+
+/**
+ * Record a resolved search, replacing an earlier lookup of the same address
+ * @param lookup - Search and what it resolved to
+ */
+export const addRecentLookup = (lookup: Omit<RecentLookup, 'pinned' | 'lookedUpAt'>) => {
+  const address = lookup.address.toLowerCase();
+  const lookups = getRecentLookups();
+  const existing = lookups.find(item => item.address === address);
+
+  saveRecentLookups([
+    { ...lookup, address, pinned: existing?.pinned || false, lookedUpAt: Date.now() },
+    ...lookups.filter(item => item.address !== address)
+  ]);
+};
+
+/**
+ * Pin or unpin a lookup
+ * @param address - Resolved address of the lookup
+ */
+export const togglePinnedLookup = (address: string) => {
+  const target = address.toLowerCase();
+  saveRecentLookups(getRecentLookups().map(lookup =>
+    lookup.address === target ? { ...lookup, pinned: !lookup.pinned } : lookup));
+};
+
+/**
+ * Remove a lookup, pinned or not
+ * @param address - Resolved address of the lookup
+ */
+export const removeRecentLookup = (address: string) => {
+  const target = address.toLowerCase();
+  saveRecentLookups(getRecentLookups().filter(lookup => lookup.address !== target));
+};
+
+/**
+ * Clear the search history, keeping pinned lookups
+ */
+export const clearRecentLookups = () => {
+  saveRecentLookups(getRecentLookups().filter(lookup => lookup.pinned));
+};
+
+/**
+ * Recent lookups, re-rendering on changes from any component or browser tab
+ * @returns RecentLookup[] - Current lookups (empty until mounted)
+ */
+export const useRecentLookups = (): RecentLookup[] => {
+  const [lookups, setLookups] = useState<RecentLookup[]>([]);
+
+  useEffect(() => {
+    const sync = () => setLookups(getRecentLookups());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) sync();
+    };
+
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return lookups;
+};
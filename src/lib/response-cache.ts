@@ -0,0 +1,237 @@
+/**
+ * Response Cache - Shared Server-Side Caching for API Routes
+ *
+ * This module wraps GET route handlers with a shared cache so identical
+ * requests from different visitors reuse one upstream call to Etherscan or
+ * DEXScreener.
+ *
+ * Features:
+ * - TTL per endpoint (CACHE_POLICIES)
+ * - Stale-while-revalidate: expired entries are served while a refresh runs
+ * - Coalescing of identical in-flight requests
+ * - Pluggable store (in-memory by default, Redis REST optional)
+ * - X-Cache (HIT / STALE / MISS / BYPASS) and X-Cache-Age response headers
+ *
+ * Sending `Cache-Control: no-cache` skips the cached copy and refreshes it,
+ * unless the copy is younger than MIN_BYPASS_AGE_SECONDS, so clients can't
+ * force more than one upstream call per key in that time.
+ * Only 200 responses are stored, and not when their `data` is empty (the libs
+ * return empty lists when an upstream call fails) or when the handler marks a
+ * degraded response with `Cache-Control: no-store`. Endpoints where an empty
+ * list is a normal answer (name suggestions) set `emptyTtl` to store it briefly.
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheStore, CacheEntry } from './cache';
+
+/**
+ * Cache lifetime for an endpoint
+ *
+ * @interface CachePolicy
+ * @property {number} ttl - Seconds a response is served as fresh
+ * @property {number} staleWhileRevalidate - Further seconds it is served stale while refreshing
+ * @property {number} [emptyTtl] - Seconds an empty `data` list is served; not stored when unset
+ */
+export interface CachePolicy {
+  ttl: number;
+  staleWhileRevalidate: number;
+  emptyTtl?: number;
+}
+
+export const CACHE_POLICIES = {
+  'etherscan/wallet': { ttl: 60, staleWhileRevalidate: 300 },
+  'etherscan/transactions': { ttl: 60, staleWhileRevalidate: 300 },
+  'etherscan/history': { ttl: 60, staleWhileRevalidate: 600 },
+  'etherscan/history/stats': { ttl: 600, staleWhileRevalidate: 3600 },
+  'etherscan/internal': { ttl: 60, staleWhileRevalidate: 300 },
+  'etherscan/tokens': { ttl: 120, staleWhileRevalidate: 600 },
+  'etherscan/nfts': { ttl: 300, staleWhileRevalidate: 1800 },
+  'etherscan/activity': { ttl: 600, staleWhileRevalidate: 3600 },
+  'etherscan/counterparties': { ttl: 600, staleWhileRevalidate: 3600 },
+  'dexscreener/tokens': { ttl: 180, staleWhileRevalidate: 600 },
+  'dexscreener/token': { ttl: 60, staleWhileRevalidate: 300 },
+  'dexscreener/new-pairs': { ttl: 60, staleWhileRevalidate: 120 },
+  'dexscreener/risk': { ttl: 600, staleWhileRevalidate: 1800 },
+  'portfolio/history': { ttl: 900, staleWhileRevalidate: 3600 },
+  'portfolio/pnl': { ttl: 900, staleWhileRevalidate: 3600 },
+  'identity/suggest': { ttl: 600, staleWhileRevalidate: 3600, emptyTtl: 60 },
+  'identity/resolve': { ttl: 300, staleWhileRevalidate: 1800 }
+} satisfies Record<string, CachePolicy>;
+
+export type CachedEndpoint = keyof typeof CACHE_POLICIES;
+
+const MIN_BYPASS_AGE_SECONDS = 30;
+
+type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'BYPASS';
+
+/**
+ * Serialized route response
+ */
+interface CachedResponse {
+  status: number;
+  body: string;
+  contentType: string;
+  storable: boolean;
+}
+
+// Dynamic routes receive their segment params as the context argument
+type RouteHandler<C = undefined> = (request: NextRequest, context: C) => Promise<Response>;
+
+// Requests currently hitting upstream, keyed by cache key
+const inFlight = new Map<string, Promise<CacheEntry<CachedResponse>>>();
+
+/**
+ * Build a cache key from the endpoint, its path and sorted query parameters
+ *
+ * @param {CachedEndpoint} endpoint - Endpoint name
+ * @param {NextRequest} request - Incoming request
+ * @returns {string} Cache key
+ */
+function getCacheKey(endpoint: CachedEndpoint, request: NextRequest): string {
+  const { pathname, searchParams } = new URL(request.url);
+  const params = Array.from(searchParams.entries())
+    .map(([key, value]) => [key, key === 'address' ? value.toLowerCase() : value])
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  // Path segments (e.g. a token address) are part of the key for dynamic routes
+  return `${endpoint}:${pathname.toLowerCase()}?${params}`;
+}
+
+/**
+ * How long a handler response may be stored
+ *
+ * Upstream failures often surface as a 200 with an empty `data` list, which
+ * would otherwise be served for the whole TTL and stale window, so empty
+ * lists are only kept for the policy's `emptyTtl`, without a stale window.
+ *
+ * @param {Response} response - Handler response
+ * @param {string} body - Response body
+ * @param {CachePolicy} policy - Endpoint cache policy
+ * @returns {CachePolicy | null} Lifetime to store the response with, or null if it isn't stored
+ */
+function getStoredLifetime(response: Response, body: string, policy: CachePolicy): CachePolicy | null {
+  if (response.status !== 200 || response.headers.get('cache-control')?.includes('no-store')) {
+    return null;
+  }
+  if (!response.headers.get('content-type')?.includes('json')) return policy;
+
+  try {
+    const { data } = JSON.parse(body) as { data?: unknown };
+    if (data === null) return null;
+    if (Array.isArray(data) && data.length === 0) {
+      return policy.emptyTtl ? { ttl: policy.emptyTtl, staleWhileRevalidate: 0 } : null;
+    }
+    return policy;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run the handler once per key, storing successful responses
+ *
+ * @param {string} key - Cache key
+ * @param {CachePolicy} policy - Endpoint cache policy
+ * @param {RouteHandler} handler - Route handler
+ * @param {NextRequest} request - Incoming request
+ * @param {C} context - Route context passed to the handler
+ * @returns {Promise<CacheEntry<CachedResponse>>} Fresh entry
+ */
+function revalidate<C>(
+  key: string,
+  policy: CachePolicy,
+  handler: RouteHandler<C>,
+  request: NextRequest,
+  context: C
+): Promise<CacheEntry<CachedResponse>> {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    const response = await handler(request, context);
+    const body = await response.text();
+    const now = Date.now();
+    const lifetime = getStoredLifetime(response, body, policy);
+    const { ttl, staleWhileRevalidate } = lifetime || policy;
+    const entry: CacheEntry<CachedResponse> = {
+      value: {
+        status: response.status,
+        body,
+        contentType: response.headers.get('content-type') || 'application/json',
+        storable: lifetime !== null
+      },
+      storedAt: now,
+      freshUntil: now + ttl * 1000,
+      staleUntil: now + (ttl + staleWhileRevalidate) * 1000
+    };
+
+    if (entry.value.storable) {
+      await cacheStore.set(key, entry);
+    }
+    return entry;
+  })().finally(() => {
+    inFlight.delete(key);
+  });
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Turn a cache entry into a response with cache-status headers, advertising the entry's own lifetime
+ */
+function toResponse(entry: CacheEntry<CachedResponse>, status: CacheStatus): NextResponse {
+  const headers = new Headers({
+    'Content-Type': entry.value.contentType,
+    'X-Cache': status,
+    'X-Cache-Age': Math.max(0, Math.floor((Date.now() - entry.storedAt) / 1000)).toString()
+  });
+
+  if (entry.value.storable) {
+    const ttl = Math.round((entry.freshUntil - entry.storedAt) / 1000);
+    const staleWhileRevalidate = Math.round((entry.staleUntil - entry.freshUntil) / 1000);
+    headers.set('Cache-Control', `public, s-maxage=${ttl}, stale-while-revalidate=${staleWhileRevalidate}`);
+  }
+
+  return new NextResponse(entry.value.body, { status: entry.value.status, headers });
+}
+
+/**
+ * Wrap a GET route handler with the shared response cache
+ *
+ * @param {CachedEndpoint} endpoint - Endpoint name, selecting its CACHE_POLICIES entry
+ * @param {RouteHandler} handler - Route handler to cache
+ * @returns {RouteHandler} Cached route handler
+ */
+export function withResponseCache<C = undefined>(endpoint: CachedEndpoint, handler: RouteHandler<C>): RouteHandler<C> {
+  const policy: CachePolicy = CACHE_POLICIES[endpoint];
+
+  return async (request: NextRequest, context: C) => {
+    const key = getCacheKey(endpoint, request);
+    const cached = await cacheStore.get<CachedResponse>(key);
+    const now = Date.now();
+
+    if (request.headers.get('cache-control')?.includes('no-cache')
+      && !(cached && now - cached.storedAt < MIN_BYPASS_AGE_SECONDS * 1000)) {
+      return toResponse(await revalidate(key, policy, handler, request, context), 'BYPASS');
+    }
+
+    if (cached && cached.freshUntil > now) {
+      return toResponse(cached, 'HIT');
+    }
+
+    if (cached && cached.staleUntil > now) {
+      // Serve the stale copy and refresh it in the background
+      revalidate(key, policy, handler, request, context).catch(error => {
+        console.warn(`Background revalidation failed for ${key}:`, error);
+      });
+      return toResponse(cached, 'STALE');
+    }
+
+    return toResponse(await revalidate(key, policy, handler, request, context), 'MISS');
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * App Routes - Deep-Linkable URLs for Searches, Tabs and Tokens
+ *
+ * This module builds and parses the app's shareable URLs so a refresh or a
+ * shared link opens straight onto the same profile and tab:
+ *
+ * - /address/{address}?tab={tab} - profile of an address
+ * - /name/{name}?tab={tab}       - profile of an ENS name or Basename
+ * - /token/{address}             - token in the Token Explorer
+ * - /?tab={tab}                  - a tab without a search
+ *
+ * Features:
+ * - Tab (filter) type and validation
+ * - Path builders for searches and tokens
+ * - Path parser for restoring state on back/forward navigation
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { isValidEthereumAddress } from './identity';
+
+/**
+ * Filter types for the tab navigation system
+ * Controls which profiles are displayed in the results grid
+ */
+export type FilterType = "all" | "ens" | "farcaster" | "lens" | "base" | "zora" | "profiler" | "tokens" | "watchlist" | "alerts";
+
+export const FILTER_TYPES: FilterType[] = ["all", "ens", "farcaster", "lens", "base", "zora", "profiler", "tokens", "watchlist", "alerts"];
+
+export const DEFAULT_FILTER: FilterType = "all";
+
+/**
+ * Parses a `tab` query parameter into a filter type
+ * @param value - Raw query parameter value
+ * @param fallback - Filter to use when the value is missing or unknown
+ * @returns FilterType - Valid filter type
+ */
+export const parseFilter = (value: string | null | undefined, fallback: FilterType = DEFAULT_FILTER): FilterType =>
+  FILTER_TYPES.includes(value as FilterType) ? value as FilterType : fallback;
+
+/**
+ * Appends the tab query parameter, leaving the default tab out
+ */
+const withTab = (path: string, tab: FilterType = DEFAULT_FILTER) =>
+  tab === DEFAULT_FILTER ? path : `${path}?tab=${tab}`;
+
+/**
+ * Builds the URL of a search: /address/0x... for addresses, /name/... for names
+ * @param term - Address or name that was searched
+ * @param tab - Active tab
+ * @returns string - Path with the tab query parameter
+ */
+export const getSearchPath = (term: string, tab: FilterType = DEFAULT_FILTER): string => {
+  const value = term.trim();
+  if (!value) return withTab('/', tab);
+  return withTab(isValidEthereumAddress(value) ? `/address/${value}` : `/name/${encodeURIComponent(value.toLowerCase())}`, tab);
+};
+
+/**
+ * Builds the URL of a token in the Token Explorer
+ * @param address - Token contract address
+ * @returns string - Token path
+ */
+export const getTokenPath = (address: string): string => `/token/${address}`;
+
+/**
+ * Search state encoded in a URL
+ *
+ * @interface RouteState
+ * @property {string | null} query - Address or name searched, or null
+ * @property {string | null} token - Token address opened in the explorer, or null
+ * @property {FilterType} tab - Active tab
+ */
+export interface RouteState {
+  query: string | null;
+  token: string | null;
+  tab: FilterType;
+}
+
+/**
+ * Reads the search state back from a path and query string
+ * @param pathname - URL path, e.g. /name/vitalik.eth
+ * @param search - URL query string, e.g. ?tab=profiler
+ * @returns RouteState - Search, token and tab encoded in the URL
+ */
+export const parseRoute = (pathname: string, search: string): RouteState => {
+  const params = new URLSearchParams(search);
+  const [, section, value] = pathname.split('/');
+  const decoded = value ? decodeURIComponent(value) : null;
+
+  if (section === 'token' && decoded) {
+    return { query: null, token: decoded, tab: 'tokens' };
+  }
+  return {
+    query: (section === 'address' || section === 'name') && decoded ? decoded : params.get('search'),
+    token: null,
+    tab: parseFilter(params.get('tab'))
+  };
+};
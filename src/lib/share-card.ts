@@ -0,0 +1,321 @@
+/**
+ * Share Cards - Open Graph Previews for Wallet Profiles
+ *
+ * This server-side module gathers what a profile's share card shows and
+ * builds the page metadata that points link previews (Farcaster, X,
+ * Telegram) at the generated card image.
+ *
+ * Features:
+ * - Primary identity from the identity resolver: the searched name, else
+ *   ENS, Basename, Farcaster, Lens
+ * - Avatar inlined as a data URL (IPFS resolved through thirdweb), fetched
+ *   only from public hosts and capped in size
+ * - Wallet category and transaction count, using the profiler's rules
+ * - Net worth and top holdings valued at current DEXScreener prices, from a
+ *   bounded lookup (the newest token transfers) at background priority
+ * - Cards cached in the shared server cache, partial cards briefly; one
+ *   build at a time per card
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import type { Metadata } from 'next';
+import { formatUnits } from 'viem';
+import { resolveScheme } from 'thirdweb/storage';
+import { cacheStore } from './cache';
+import { ChainKey, DEFAULT_CHAIN } from './chains';
+import { getEtherscanAPI } from './etherscan';
+import { isValidEthereumAddress } from './identity';
+import { IdentitySource, resolveIdentity } from './identity-resolver';
+import { valuePortfolio } from './pricing';
+import { assertPublicUrl } from './public-url';
+import { getSearchPath } from './routes';
+import { serverClient } from './thirdweb-server';
+import { getWalletCategory } from './wallet-profile';
+
+const CARD_TTL_SECONDS = 600;
+const PARTIAL_CARD_TTL_SECONDS = 60; // Cards drawn without holdings or the full count, so crawler retries don't rebuild them
+const HOLDINGS_TIMEOUT_MS = 8000; // Crawlers give up on slow previews; the card is drawn without holdings
+const CARD_TRANSFER_PAGE_SIZE = 1000; // Newest token transfers read for holdings
+const CARD_BALANCE_LOOKUPS = 5;
+const AVATAR_TIMEOUT_MS = 4000;
+const MAX_AVATAR_BYTES = 1024 * 1024;
+const MAX_AVATAR_REDIRECTS = 3;
+const AVATAR_TYPES = ['image/png', 'image/jpeg', 'image/gif'];
+const MAX_TOP_HOLDINGS = 3;
+
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 };
+
+/**
+ * Holding shown on a share card
+ *
+ * @interface ShareCardHolding
+ * @property {string} symbol - Token symbol
+ * @property {number} valueUsd - USD value of the holding
+ * @property {number} percentage - Share of the wallet's net worth
+ */
+export interface ShareCardHolding {
+  symbol: string;
+  valueUsd: number;
+  percentage: number;
+}
+
+/**
+ * Everything a profile's share card shows
+ *
+ * @interface ShareCard
+ * @property {string} query - Address or name the profile was opened with
+ * @property {string} address - Resolved wallet address
+ * @property {ChainKey} chain - Chain the wallet stats come from
+ * @property {string | null} name - Primary identity name, if any
+ * @property {IdentitySource | null} identitySource - Where the name comes from
+ * @property {string | null} avatar - Avatar as a data URL, if one could be loaded
+ * @property {string} category - Wallet category
+ * @property {number} transactionCount - Transactions of the wallet, sent and received
+ * @property {number | null} totalValueUsd - Net worth, or null when holdings couldn't be valued in time
+ * @property {ShareCardHolding[]} topHoldings - Largest holdings by USD value
+ */
+export interface ShareCard {
+  query: string;
+  address: string;
+  chain: ChainKey;
+  name: string | null;
+  identitySource: IdentitySource | null;
+  avatar: string | null;
+  category: string;
+  transactionCount: number;
+  totalValueUsd: number | null;
+  topHoldings: ShareCardHolding[];
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Resolve with the fallback if the promise takes longer than `ms`
+ */
+const withTimeout = <T>(promise: Promise<T>, ms: number, fallback: T): Promise<T> =>
+  Promise.race([promise, new Promise<T>(resolve => setTimeout(() => resolve(fallback), ms))]);
+
+// Cards being built, keyed by cache key
+const inFlight = new Map<string, Promise<ShareCard>>();
+
+/**
+ * Fetch a URL from a public host, checking every redirect hop the same way
+ *
+ * Avatar records are user-controlled, so a record pointing (or redirecting)
+ * at an internal address must not be fetched.
+ */
+async function fetchPublic(url: string, signal: AbortSignal): Promise<Response> {
+  let target = url;
+  for (let hop = 0; hop <= MAX_AVATAR_REDIRECTS; hop++) {
+    await assertPublicUrl(target, ['https:', 'http:']);
+    const response = await fetch(target, { signal, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    await response.body?.cancel();
+    target = new URL(location, target).toString();
+  }
+  throw new Error('Too many redirects');
+}
+
+/**
+ * Read a response body, giving up once it exceeds `maxBytes`
+ *
+ * @returns {Promise<Buffer | null>} Body, or null if it's too large
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer | null> {
+  if (parseInt(response.headers.get('content-length') || '0') > maxBytes || !response.body) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download an avatar and inline it, so the image renderer never fetches remote URLs
+ *
+ * @param {string} [uri] - Avatar URL or ipfs:// URI
+ * @returns {Promise<string | null>} Data URL, or null for missing, unsupported, private, oversized or slow images
+ */
+async function loadAvatar(uri?: string): Promise<string | null> {
+  if (!uri) return null;
+  try {
+    const url = uri.startsWith('ipfs://') ? resolveScheme({ client: serverClient, uri }) : uri;
+    if (!/^https?:\/\//.test(url)) return null;
+
+    const response = await fetchPublic(url, AbortSignal.timeout(AVATAR_TIMEOUT_MS));
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim();
+    if (!response.ok || !contentType || !AVATAR_TYPES.includes(contentType)) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const buffer = await readLimited(response, MAX_AVATAR_BYTES);
+    if (!buffer) return null;
+    return `data:${contentType};base64,${buffer.toString('base64')}`;
+  } catch (error) {
+    console.warn('Failed to load avatar:', uri, error);
+    return null;
+  }
+}
+
+/**
+ * Net worth and largest holdings of a wallet, the native balance included
+ */
+async function getHoldings(address: string, chain: ChainKey, nativeBalance: number): Promise<Pick<ShareCard, 'totalValueUsd' | 'topHoldings'>> {
+  const { balances } = await getEtherscanAPI(chain).getTokenBalances(address, {
+    maxPages: 1,
+    pageSize: CARD_TRANSFER_PAGE_SIZE,
+    maxBalanceLookups: CARD_BALANCE_LOOKUPS,
+    priority: 'background'
+  });
+  const valuation = await valuePortfolio(nativeBalance, balances.map(token => ({
+    contractAddress: token.contractAddress,
+    symbol: token.tokenSymbol,
+    balance: parseFloat(token.balanceFormatted || formatUnits(BigInt(token.balance || '0'), parseInt(token.tokenDecimal) || 0)) || 0
+  })), chain);
+
+  const holdings: ShareCardHolding[] = [
+    { symbol: valuation.native.symbol, valueUsd: valuation.native.valueUsd, percentage: valuation.native.percentage },
+    ...valuation.tokens.map(token => ({ symbol: token.symbol, valueUsd: token.valueUsd, percentage: token.percentage }))
+  ];
+
+  return {
+    totalValueUsd: valuation.totalValueUsd,
+    topHoldings: holdings
+      .filter(holding => holding.valueUsd > 0)
+      .sort((a, b) => b.valueUsd - a.valueUsd)
+      .slice(0, MAX_TOP_HOLDINGS)
+  };
+}
+
+/**
+ * Gather the share card of a profile
+ *
+ * Cards are cached for CARD_TTL_SECONDS. Cards whose holdings or
+ * transaction count timed out are cached for PARTIAL_CARD_TTL_SECONDS, so
+ * crawler retries neither wait again nor start new lookups, while the
+ * lookups still running fill the caches they use. Concurrent requests for
+ * the same card share one build.
+ *
+ * @param {string} query - Address or name (anything the identity resolver accepts)
+ * @param {ChainKey} [chain='base'] - Chain the wallet stats come from
+ * @returns {Promise<ShareCard>} Card contents
+ * @throws {Error} When the query can't be resolved to an address
+ */
+export async function getShareCard(query: string, chain: ChainKey = DEFAULT_CHAIN): Promise<ShareCard> {
+  const cacheKey = `share-card:${chain}:${query.toLowerCase()}`;
+  const cached = await cacheStore.get<ShareCard>(cacheKey);
+  if (cached && cached.freshUntil > Date.now()) return cached.value;
+
+  let pending = inFlight.get(cacheKey);
+  if (!pending) {
+    pending = buildShareCard(query, chain, cacheKey).finally(() => inFlight.delete(cacheKey));
+    inFlight.set(cacheKey, pending);
+  }
+  return pending;
+}
+
+/**
+ * Build a share card and store it
+ */
+async function buildShareCard(query: string, chain: ChainKey, cacheKey: string): Promise<ShareCard> {
+  const identity = await resolveIdentity(query);
+  if (!identity) throw new Error(`Could not resolve ${query} to an address`);
+
+  const { address } = identity;
+  const api = getEtherscanAPI(chain);
+
+  const [fullCount, nativeBalance] = await Promise.all([
+    // The lifetime stats walk is cached and shared, so it keeps going for the next request after a timeout
+    withTimeout(
+      api.getTransactionCount(address, 'background').catch(error => {
+        console.warn('Failed to count transactions for share card:', error);
+        return null;
+      }),
+      HOLDINGS_TIMEOUT_MS,
+      null
+    ),
+    api.getETHBalance(address).then(wei => parseFloat(formatUnits(BigInt(wei || '0'), 18))).catch(() => null)
+  ]);
+  const transactionCount = fullCount ?? await api.getSentTransactionCount(address, 'background').catch(() => 0);
+
+  const [avatar, holdings] = await Promise.all([
+    loadAvatar(identity.avatar || undefined),
+    nativeBalance === null ? null : withTimeout(
+      getHoldings(address, chain, nativeBalance).catch(error => {
+        console.warn('Failed to value holdings for share card:', error);
+        return null;
+      }),
+      HOLDINGS_TIMEOUT_MS,
+      null
+    )
+  ]);
+
+  const card: ShareCard = {
+    query,
+    address,
+    chain,
+    name: identity.primaryName,
+    identitySource: identity.primarySource,
+    avatar,
+    category: getWalletCategory(transactionCount),
+    transactionCount,
+    totalValueUsd: holdings?.totalValueUsd ?? null,
+    topHoldings: holdings?.topHoldings || []
+  };
+
+  const now = Date.now();
+  const freshUntil = now + (holdings && fullCount !== null ? CARD_TTL_SECONDS : PARTIAL_CARD_TTL_SECONDS) * 1000;
+  await cacheStore.set(cacheKey, { value: card, storedAt: now, freshUntil, staleUntil: freshUntil });
+  return card;
+}
+
+/**
+ * Path of the generated share image of a profile
+ *
+ * @param {string} query - Address or name
+ * @returns {string} Image route path
+ */
+export const getShareImagePath = (query: string): string => `/api/og?q=${encodeURIComponent(query)}`;
+
+/**
+ * Page metadata of a profile link, with the generated share card as preview image
+ *
+ * Only the query is used, so rendering the page never waits on the card data;
+ * crawlers fetch the image separately.
+ *
+ * @param {string} query - Address or name from the URL
+ * @returns {Metadata} Title, description, Open Graph and Twitter card metadata
+ */
+export function getProfileMetadata(query: string): Metadata {
+  const display = isValidEthereumAddress(query) ? shortenAddress(query) : query;
+  const title = `${display} - Web3 Profile`;
+  const description = `${display}'s Web3 identity on Sniffer: social profiles, wallet activity and top holdings.`;
+  const url = getSearchPath(query);
+  const image = { url: getShareImagePath(query), ...SHARE_IMAGE_SIZE, alt: `${display} on Sniffer Web3` };
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: { type: 'profile', title, description, url, images: [image] },
+    twitter: { card: 'summary_large_image', title, description, images: [image] }
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Function Signatures - Selector Database and Call Formatting
+ *
+ * This module resolves 4-byte method selectors against the bundled signature
+ * database in src/data/function-signatures.json and classifies calls into
+ * activity categories. It has no server dependencies, so both the decoder
+ * service and client components can use it.
+ *
+ * Features:
+ * - Selector to signature lookup (with parameter names)
+ * - Call categories (dex, lending, staking, token, nft, bridge)
+ * - Category fallback from method names when a selector is unknown
+ * - Readable call formatting, e.g. swapExactETHForTokens(amountOutMin, path[WETH→DEGEN], ...)
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import signatureDatabase from '@/data/function-signatures.json';
+
+export type CallCategory = 'dex' | 'lending' | 'staking' | 'token' | 'nft' | 'bridge' | 'transfer' | 'other';
+
+/**
+ * Where a decoded call's signature came from
+ *
+ * - abi: the contract's verified ABI from Etherscan
+ * - etherscan: the function name Etherscan attached to the transaction
+ * - signature-db: the bundled selector database
+ * - none: only the selector is known
+ */
+export type DecodeSource = 'abi' | 'etherscan' | 'signature-db' | 'none';
+
+/**
+ * Decoded call argument, formatted for display
+ */
+export interface DecodedArgument {
+  name: string;
+  type: string;
+  value: string;
+}
+
+/**
+ * Decoded transaction call
+ *
+ * @interface DecodedCall
+ * @property {string} selector - 4-byte method selector, or '0x' for plain transfers
+ * @property {string} method - Function name
+ * @property {string | null} signature - Full signature when known
+ * @property {CallCategory} category - Activity category
+ * @property {DecodeSource} source - Where the signature came from
+ * @property {DecodedArgument[]} args - Decoded arguments (empty if calldata could not be decoded)
+ * @property {string} readable - Short human-readable call
+ */
+export interface DecodedCall {
+  selector: string;
+  method: string;
+  signature: string | null;
+  category: CallCategory;
+  source: DecodeSource;
+  args: DecodedArgument[];
+  readable: string;
+}
+
+interface SignatureEntry {
+  signature: string;
+  category: CallCategory;
+}
+
+const SIGNATURES = signatureDatabase.signatures as Record<string, SignatureEntry>;
+const MAX_READABLE_ARGS = 2;
+
+// Method name fragments per category, checked in order
+const CATEGORY_KEYWORDS: Array<[CallCategory, string[]]> = [
+  ['dex', ['swap', 'addliquidity', 'removeliquidity', 'exactinput', 'exactoutput']],
+  ['lending', ['supply', 'borrow', 'repay', 'redeem', 'deposit', 'withdraw']],
+  ['staking', ['unstake', 'stake', 'claim', 'harvest', 'compound', 'getreward']],
+  ['bridge', ['bridge']],
+  ['nft', ['setapprovalforall', 'safetransferfrom', 'mint']],
+  ['token', ['transfer', 'approve', 'permit']]
+];
+
+/**
+ * Look up a selector in the bundled signature database
+ *
+ * @param {string} selector - 4-byte selector ("0x" + 8 hex chars)
+ * @returns {SignatureEntry | null} Signature and category, or null if unknown
+ */
+export function lookupSelector(selector: string): SignatureEntry | null {
+  return SIGNATURES[selector?.toLowerCase()] || null;
+}
+
+/**
+ * Get the function name from a signature such as "transfer(address to, uint256 amount)"
+ *
+ * @param {string} signature - Function signature
+ * @returns {string} Function name
+ */
+export function getMethodName(signature: string): string {
+  return signature.split('(')[0].trim();
+}
+
+/**
+ * Classify a call by selector, falling back to its method name
+ *
+ * @param {string} selector - 4-byte selector
+ * @param {string} [method] - Function name or signature
+ * @returns {CallCategory} Activity category
+ */
+export function categorizeCall(selector: string, method?: string): CallCategory {
+  if (!selector || selector === '0x') return 'transfer';
+
+  const known = lookupSelector(selector);
+  if (known) return known.category;
+
+  const name = method ? getMethodName(method).toLowerCase() : '';
+  if (!name) return 'other';
+
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some(keyword => name.includes(keyword)));
+  return match ? match[0] : 'other';
+}
+
+/**
+ * Format a call as "method(arg, path[A→B], ...)"
+ *
+ * Scalars are shown by parameter name; arguments whose value was expanded
+ * (token paths) are shown as name[value] even past the first two arguments.
+ *
+ * @param {string} method - Function name
+ * @param {DecodedArgument[]} args - Decoded arguments
+ * @param {Set<string>} [expanded] - Argument names whose value should be shown
+ * @returns {string} Readable call
+ */
+export function formatReadableCall(method: string, args: DecodedArgument[], expanded: Set<string> = new Set()): string {
+  const shown = args
+    .filter((arg, index) => index < MAX_READABLE_ARGS || expanded.has(arg.name))
+    .map(arg => expanded.has(arg.name) ? `${arg.name}[${arg.value}]` : arg.name);
+
+  if (shown.length < args.length) shown.push('...');
+  return `${method}(${shown.join(', ')})`;
+}
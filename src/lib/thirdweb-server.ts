@@ -0,0 +1,22 @@
+/**
+ * Server thirdweb Client - Name Resolution and Social Profiles on the Server
+ *
+ * `src/app/client.ts` is a client module, so server routes and metadata
+ * create their own thirdweb client. A secret key is used when configured;
+ * otherwise the public client ID is shared with the browser.
+ *
+ * Environment:
+ * - THIRDWEB_SECRET_KEY (optional): Server-side secret key
+ * - NEXT_PUBLIC_TEMPLATE_CLIENT_ID: Public client ID (fallback)
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { createThirdwebClient } from 'thirdweb';
+
+const secretKey = process.env.THIRDWEB_SECRET_KEY;
+
+export const serverClient = secretKey
+  ? createThirdwebClient({ secretKey })
+  : createThirdwebClient({ clientId: process.env.NEXT_PUBLIC_TEMPLATE_CLIENT_ID as string });
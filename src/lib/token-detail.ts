@@ -0,0 +1,433 @@
+/**
+ * Token Detail Service - Pairs, Trading Activity, Price History and Holders
+ *
+ * This server-side service gathers everything the in-app token detail view
+ * shows for a Base token: every DEXScreener pair the token trades in, the
+ * buy/sell breakdown per time window, a price chart from GeckoTerminal
+ * candles of the most liquid pair, and the top holders from Etherscan.
+ *
+ * Features:
+ * - Every Base pair, with the token on either side
+ * - Buys/sells of the token over 5m, 1h, 6h and 24h, summed across pairs
+ * - Price history over 24h, 7d or 30d (GeckoTerminal OHLCV, USD)
+ * - Top holders with share of supply; pools and registered protocols labeled
+ * - Risk score with itemized reasons (see token-risk.ts), also in batches
+ *   for token lists
+ *
+ * Top holders need an Etherscan API Pro key (`tokenholderlist`); without one
+ * they are reported as unavailable. Holder lists, including unavailable ones,
+ * are cached, and token lists assess a few tokens at a time at background
+ * priority.
+ *
+ * @see https://apiguide.geckoterminal.com - GeckoTerminal API Documentation
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { formatUnits } from 'viem';
+import { cacheStore } from './cache';
+import { ChainKey, SUPPORTED_CHAINS } from './chains';
+import { DexScreenerToken, fetchTokenPairs, getBestPair } from './dexscreener';
+import { EtherscanTokenHolder, getEtherscanAPI } from './etherscan';
+import { RequestPriority } from './rate-limiter';
+import { resolveProtocol } from './protocols';
+import { assessTokenRisk, TokenRisk } from './token-risk';
+
+const GECKOTERMINAL_API_URL = 'https://api.geckoterminal.com/api/v2';
+const TOKEN_CHAIN: ChainKey = 'base';
+const GECKOTERMINAL_NETWORK = 'base';
+const MAX_HOLDERS = 25;
+const HOLDERS_TTL_MS = 15 * 60 * 1000;
+const HOLDERS_UNAVAILABLE_TTL_MS = 10 * 60 * 1000; // Usually a non-Pro key, so not worth retrying per request
+const MAX_RISK_ASSESSMENTS = 4; // Tokens of a list assessed at once
+const BURN_ADDRESSES = ['0x0000000000000000000000000000000000000000', '0x000000000000000000000000000000000000dead'];
+
+/**
+ * Time window of DEXScreener trading stats
+ */
+export type TxnWindow = 'm5' | 'h1' | 'h6' | 'h24';
+
+export const TXN_WINDOWS: TxnWindow[] = ['m5', 'h1', 'h6', 'h24'];
+
+/**
+ * Range of the price chart
+ */
+export type PriceRange = '24h' | '7d' | '30d';
+
+export const PRICE_RANGES: PriceRange[] = ['24h', '7d', '30d'];
+
+// GeckoTerminal candle size and count per range
+const RANGE_CANDLES: Record<PriceRange, { timeframe: 'minute' | 'hour' | 'day'; aggregate: number; limit: number }> = {
+  '24h': { timeframe: 'minute', aggregate: 15, limit: 96 },
+  '7d': { timeframe: 'hour', aggregate: 1, limit: 168 },
+  '30d': { timeframe: 'hour', aggregate: 4, limit: 180 }
+};
+
+/**
+ * Buys and sells of the token in a time window
+ */
+export interface TxnCounts {
+  buys: number;
+  sells: number;
+}
+
+/**
+ * A pair the token trades in
+ *
+ * @interface TokenPair
+ * @property {string} pairAddress - Pair (pool) contract address
+ * @property {string} dexId - DEX the pair lives on
+ * @property {string} url - DEXScreener page of the pair
+ * @property {{ address: string; symbol: string }} quoteToken - The other token of the pair
+ * @property {number | null} priceUsd - Token price in this pair, when the token is the pair's base token
+ * @property {number} liquidityUsd - Pair liquidity
+ * @property {number} volume24h - 24h volume
+ * @property {Record<TxnWindow, TxnCounts>} txns - Buys and sells of the token per window
+ * @property {number | null} pairCreatedAt - Pair creation time (ms)
+ */
+export interface TokenPair {
+  pairAddress: string;
+  dexId: string;
+  url: string;
+  quoteToken: { address: string; symbol: string };
+  priceUsd: number | null;
+  liquidityUsd: number;
+  volume24h: number;
+  txns: Record<TxnWindow, TxnCounts>;
+  pairCreatedAt: number | null;
+}
+
+/**
+ * Price at a point in time
+ */
+export interface PricePoint {
+  timestamp: number; // ms
+  priceUsd: number;
+}
+
+/**
+ * A top holder of the token
+ *
+ * @interface TokenHolder
+ * @property {string} address - Holder address
+ * @property {number | null} balance - Balance in tokens, or null when decimals are unknown
+ * @property {number | null} percentage - Share of total supply, or null when supply is unknown
+ * @property {string | null} label - Pool, burn address or registered protocol name
+ */
+export interface TokenHolder {
+  address: string;
+  balance: number | null;
+  percentage: number | null;
+  label: string | null;
+}
+
+/**
+ * Detail view of a token
+ *
+ * @interface TokenDetail
+ * @property {ChainKey} chain - Chain the token lives on (Base)
+ * @property {string} address - Token contract address
+ * @property {string} name - Token name
+ * @property {string} symbol - Token symbol
+ * @property {string | null} imageUrl - Token logo from DEXScreener
+ * @property {number | null} priceUsd - Price in the most liquid pair
+ * @property {Record<TxnWindow, number> | null} priceChange - Price change per window in the most liquid pair
+ * @property {number | null} marketCap - Market cap
+ * @property {number | null} fdv - Fully diluted valuation
+ * @property {number} liquidityUsd - Liquidity across all pairs
+ * @property {number} volume24h - 24h volume across all pairs
+ * @property {Record<TxnWindow, TxnCounts>} txns - Buys and sells across all pairs
+ * @property {TokenPair[]} pairs - Pairs by liquidity
+ * @property {{ range: PriceRange; pairAddress: string; points: PricePoint[] } | null} priceHistory - Price chart, or null if unavailable
+ * @property {TokenHolder[] | null} holders - Top holders, or null without an Etherscan API Pro key
+ * @property {TokenRisk} risk - Risk score and reasons
+ * @property {string} explorerUrl - Token page on the block explorer
+ * @property {Array<{ label: string; url: string }>} links - Websites and socials
+ * @property {string} generatedAt - ISO timestamp
+ */
+export interface TokenDetail {
+  chain: ChainKey;
+  address: string;
+  name: string;
+  symbol: string;
+  imageUrl: string | null;
+  priceUsd: number | null;
+  priceChange: Record<TxnWindow, number> | null;
+  marketCap: number | null;
+  fdv: number | null;
+  liquidityUsd: number;
+  volume24h: number;
+  txns: Record<TxnWindow, TxnCounts>;
+  pairs: TokenPair[];
+  priceHistory: { range: PriceRange; pairAddress: string; points: PricePoint[] } | null;
+  holders: TokenHolder[] | null;
+  risk: TokenRisk;
+  explorerUrl: string;
+  links: Array<{ label: string; url: string }>;
+  generatedAt: string;
+}
+
+interface GeckoTerminalOhlcvResponse {
+  data?: { attributes?: { ohlcv_list?: Array<[number, number, number, number, number, number]> } };
+}
+
+const emptyTxns = (): Record<TxnWindow, TxnCounts> =>
+  TXN_WINDOWS.reduce((txns, window) => ({ ...txns, [window]: { buys: 0, sells: 0 } }), {} as Record<TxnWindow, TxnCounts>);
+
+/**
+ * Summarize a pair from the token's side (its buys are the pair's sells when it is the quote token)
+ */
+function toTokenPair(pair: DexScreenerToken, address: string): TokenPair {
+  const isBase = pair.baseToken.address.toLowerCase() === address;
+  const other = isBase ? pair.quoteToken : pair.baseToken;
+  const priceUsd = isBase && pair.priceUsd ? parseFloat(pair.priceUsd) : NaN;
+
+  return {
+    pairAddress: pair.pairAddress,
+    dexId: pair.dexId,
+    url: pair.url,
+    quoteToken: { address: other.address, symbol: other.symbol },
+    priceUsd: isNaN(priceUsd) ? null : priceUsd,
+    liquidityUsd: pair.liquidity?.usd || 0,
+    volume24h: pair.volume?.h24 || 0,
+    txns: TXN_WINDOWS.reduce((txns, window) => {
+      const counts = pair.txns?.[window] || { buys: 0, sells: 0 };
+      txns[window] = isBase ? { buys: counts.buys, sells: counts.sells } : { buys: counts.sells, sells: counts.buys };
+      return txns;
+    }, {} as Record<TxnWindow, TxnCounts>),
+    pairCreatedAt: pair.pairCreatedAt || null
+  };
+}
+
+/**
+ * Token price candles of a pool from GeckoTerminal, oldest first
+ *
+ * @param {string} pairAddress - Pool address
+ * @param {string} tokenAddress - Token to price (either side of the pool)
+ * @param {PriceRange} range - Chart range
+ * @returns {Promise<PricePoint[]>} Closing prices, empty if unavailable
+ */
+async function fetchPriceHistory(pairAddress: string, tokenAddress: string, range: PriceRange): Promise<PricePoint[]> {
+  const { timeframe, aggregate, limit } = RANGE_CANDLES[range];
+  const url = `${GECKOTERMINAL_API_URL}/networks/${GECKOTERMINAL_NETWORK}/pools/${pairAddress}/ohlcv/${timeframe}` +
+    `?aggregate=${aggregate}&limit=${limit}&currency=usd&token=${tokenAddress}`;
+
+  try {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      console.warn(`GeckoTerminal API error: ${response.status}`);
+      return [];
+    }
+
+    const data: GeckoTerminalOhlcvResponse = await response.json();
+    return (data.data?.attributes?.ohlcv_list || [])
+      .map(([timestamp, , , , close]) => ({ timestamp: timestamp * 1000, priceUsd: close }))
+      .filter(point => Number.isFinite(point.priceUsd))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  } catch (error) {
+    console.warn('Error fetching GeckoTerminal price history:', error);
+    return [];
+  }
+}
+
+/**
+ * Raw holder list of a token with its supply and decimals
+ */
+interface HolderSnapshot {
+  holders: EtherscanTokenHolder[];
+  supply: string | null;
+  decimals: number | null;
+}
+
+/**
+ * Holder list, supply and decimals of a token, using the shared cache
+ *
+ * Supply and decimals are only fetched when the holder list is available.
+ *
+ * @param {string} address - Token contract address
+ * @param {RequestPriority} priority - Rate limiter queue priority
+ * @returns {Promise<HolderSnapshot | null>} Snapshot, or null if the holder list is unavailable
+ */
+async function fetchHolderSnapshot(address: string, priority: RequestPriority): Promise<HolderSnapshot | null> {
+  const key = `token-holders:${TOKEN_CHAIN}:${address}`;
+  const cached = await cacheStore.get<HolderSnapshot | null>(key);
+  if (cached && cached.freshUntil > Date.now()) return cached.value;
+
+  const api = getEtherscanAPI(TOKEN_CHAIN);
+  const holders = await api.getTokenHolders(address, MAX_HOLDERS, priority);
+  let snapshot: HolderSnapshot | null = null;
+  if (holders) {
+    const [supply, decimals] = await Promise.all([
+      api.getTokenSupply(address, priority),
+      api.getTokenDecimals(address, priority)
+    ]);
+    snapshot = { holders, supply, decimals };
+  }
+
+  const now = Date.now();
+  const expiresAt = now + (snapshot ? HOLDERS_TTL_MS : HOLDERS_UNAVAILABLE_TTL_MS);
+  await cacheStore.set(key, { value: snapshot, storedAt: now, freshUntil: expiresAt, staleUntil: expiresAt });
+  return snapshot;
+}
+
+/**
+ * Top holders with balances, share of supply and labels
+ *
+ * @param {string} address - Token contract address
+ * @param {TokenPair[]} pairs - Pairs of the token, used to label pools
+ * @param {RequestPriority} [priority='interactive'] - Rate limiter queue priority
+ * @returns {Promise<TokenHolder[] | null>} Holders, or null if the holder list is unavailable
+ */
+async function fetchHolders(address: string, pairs: TokenPair[], priority: RequestPriority = 'interactive'): Promise<TokenHolder[] | null> {
+  const snapshot = await fetchHolderSnapshot(address, priority);
+  if (!snapshot) return null;
+  const { holders, supply, decimals } = snapshot;
+
+  const totalSupply = supply ? BigInt(supply) : BigInt(0);
+  const pools = new Map(pairs.map(pair => [pair.pairAddress.toLowerCase(), `${pair.dexId} ${pair.quoteToken.symbol} pool`]));
+
+  return holders.map(holder => {
+    const holderAddress = holder.TokenHolderAddress.toLowerCase();
+    let quantity: bigint;
+    try {
+      quantity = BigInt(holder.TokenHolderQuantity);
+    } catch {
+      quantity = BigInt(0);
+    }
+
+    const protocol = resolveProtocol(holderAddress, TOKEN_CHAIN);
+    const label = pools.get(holderAddress)
+      || (BURN_ADDRESSES.includes(holderAddress) ? 'Burn address' : null)
+      || (protocol ? `${protocol.protocol.name} ${protocol.label}` : null);
+
+    return {
+      address: holder.TokenHolderAddress,
+      balance: decimals !== null ? parseFloat(formatUnits(quantity, decimals)) : null,
+      // Basis points of supply, kept in bigint until the final division
+      percentage: totalSupply > BigInt(0) ? Number((quantity * BigInt(1000000)) / totalSupply) / 10000 : null,
+      label
+    };
+  });
+}
+
+/**
+ * Risk of a token from its pairs and holders
+ *
+ * @param {string} address - Token contract address (lowercased)
+ * @param {TokenPair[]} pairs - Pairs of the token
+ * @param {number | null} fdv - Fully diluted valuation
+ * @param {TokenHolder[] | null} holders - Top holders
+ * @returns {Promise<TokenRisk>} Risk assessment
+ */
+function assessPairsRisk(address: string, pairs: TokenPair[], fdv: number | null, holders: TokenHolder[] | null): Promise<TokenRisk> {
+  const createdAt = pairs.map(pair => pair.pairCreatedAt).filter((time): time is number => time !== null);
+
+  return assessTokenRisk({
+    address,
+    liquidityUsd: pairs.reduce((sum, pair) => sum + pair.liquidityUsd, 0),
+    fdv,
+    pairCreatedAt: createdAt.length > 0 ? Math.min(...createdAt) : null,
+    txns24h: pairs.reduce((txns, pair) => ({
+      buys: txns.buys + pair.txns.h24.buys,
+      sells: txns.sells + pair.txns.h24.sells
+    }), { buys: 0, sells: 0 }),
+    holders
+  }, TOKEN_CHAIN);
+}
+
+/**
+ * Risk of several Base tokens, for token lists
+ *
+ * Pairs are fetched in one batch; holders and contract checks per token,
+ * MAX_RISK_ASSESSMENTS tokens at a time at background priority. Tokens
+ * without Base pairs are left out.
+ *
+ * @param {string[]} addresses - Token contract addresses
+ * @returns {Promise<Record<string, TokenRisk>>} Risk keyed by lowercased address
+ */
+export async function getTokenRisks(addresses: string[]): Promise<Record<string, TokenRisk>> {
+  const targets = Array.from(new Set(addresses.map(address => address.toLowerCase())));
+  const dexPairs = await fetchTokenPairs(targets, TOKEN_CHAIN);
+
+  const risks: Record<string, TokenRisk> = {};
+  const queue = [...targets];
+  await Promise.all(Array.from({ length: Math.min(MAX_RISK_ASSESSMENTS, queue.length) }, async () => {
+    for (let target = queue.shift(); target; target = queue.shift()) {
+      const tokenPairs = dexPairs.filter(pair =>
+        pair.baseToken.address.toLowerCase() === target || pair.quoteToken.address.toLowerCase() === target
+      );
+      if (tokenPairs.length === 0) continue;
+
+      const pairs = tokenPairs.map(pair => toTokenPair(pair, target));
+      const holders = await fetchHolders(target, pairs, 'background');
+      const best = getBestPair(tokenPairs, target);
+      risks[target] = await assessPairsRisk(target, pairs, best?.fdv ?? null, holders);
+    }
+  }));
+
+  return risks;
+}
+
+/**
+ * Gather the detail view of a Base token
+ *
+ * @param {string} address - Token contract address
+ * @param {PriceRange} [range='24h'] - Price chart range
+ * @returns {Promise<TokenDetail | null>} Token detail, or null if the token has no Base pairs
+ */
+export async function getTokenDetail(address: string, range: PriceRange = '24h'): Promise<TokenDetail | null> {
+  const target = address.toLowerCase();
+  const dexPairs = await fetchTokenPairs([target], TOKEN_CHAIN);
+  if (dexPairs.length === 0) return null;
+
+  const pairs = dexPairs
+    .map(pair => toTokenPair(pair, target))
+    .sort((a, b) => b.liquidityUsd - a.liquidityUsd);
+
+  // Price and market data come from the most liquid pair quoting the token; the chart from the most liquid pair overall
+  const best = getBestPair(dexPairs, target);
+  const token = best?.baseToken || [dexPairs[0].baseToken, dexPairs[0].quoteToken].find(side => side.address.toLowerCase() === target);
+  const chartPair = pairs[0];
+
+  console.log(`Building token detail for ${token?.symbol || address} from ${pairs.length} pairs`);
+
+  const [points, holders] = await Promise.all([
+    fetchPriceHistory(chartPair.pairAddress, target, range),
+    fetchHolders(target, pairs)
+  ]);
+
+  const txns = emptyTxns();
+  pairs.forEach(pair => TXN_WINDOWS.forEach(window => {
+    txns[window].buys += pair.txns[window].buys;
+    txns[window].sells += pair.txns[window].sells;
+  }));
+
+  const priceUsd = best?.priceUsd ? parseFloat(best.priceUsd) : NaN;
+  const info = best?.info || dexPairs.find(pair => pair.info)?.info;
+  const risk = await assessPairsRisk(target, pairs, best?.fdv ?? null, holders);
+
+  return {
+    chain: TOKEN_CHAIN,
+    address,
+    name: token?.name || 'Unknown Token',
+    symbol: token?.symbol || 'UNKNOWN',
+    imageUrl: info?.imageUrl || null,
+    priceUsd: isNaN(priceUsd) ? null : priceUsd,
+    priceChange: best?.priceChange || null,
+    marketCap: best?.marketCap ?? null,
+    fdv: best?.fdv ?? null,
+    liquidityUsd: pairs.reduce((sum, pair) => sum + pair.liquidityUsd, 0),
+    volume24h: pairs.reduce((sum, pair) => sum + pair.volume24h, 0),
+    txns,
+    pairs,
+    priceHistory: points.length > 0 ? { range, pairAddress: chartPair.pairAddress, points } : null,
+    holders,
+    risk,
+    explorerUrl: `${SUPPORTED_CHAINS[TOKEN_CHAIN].explorerUrl}/token/${address}`,
+    links: [
+      ...(info?.websites || []).map(website => ({ label: website.label || 'Website', url: website.url })),
+      ...(info?.socials || []).map(social => ({ label: social.type, url: social.url }))
+    ],
+    generatedAt: new Date().toISOString()
+  };
+}
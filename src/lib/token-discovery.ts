@@ -0,0 +1,241 @@
+/**
+ * Token Discovery Service - Trending Base Tokens by Momentum
+ *
+ * This server-side service finds the Base tokens the Token Explorer lists.
+ * Candidates come from DEXScreener's boosted tokens (latest and top), its
+ * latest token profiles and the curated allowlist in
+ * src/data/base-token-allowlist.json; their pairs are then fetched and each
+ * token is scored on momentum.
+ *
+ * Momentum (0-100) combines:
+ * - Volume acceleration: last hour's volume versus the 24h hourly average
+ * - Buy pressure: share of buys in the last 6 hours
+ * - Liquidity growth: change since our previous snapshot (kept in the shared
+ *   server cache, at least an hour old)
+ * Components without enough data are left out of the weighting.
+ *
+ * Every address is validated; unlisted tokens need MIN_DISCOVERY_LIQUIDITY_USD
+ * of liquidity to be shown.
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { isAddress } from 'viem';
+import tokenAllowlist from '@/data/base-token-allowlist.json';
+import { cacheStore } from './cache';
+import { DexScreenerToken, fetchTokenBoosts, fetchTokenPairs, fetchTokenProfiles, getBestPair } from './dexscreener';
+
+const MIN_DISCOVERY_LIQUIDITY_USD = 10000;
+const MIN_MOMENTUM_TXNS = 10; // Fewer 6h trades than this and buy pressure is noise
+const LIQUIDITY_SNAPSHOT_KEY = 'token-discovery:liquidity';
+const LIQUIDITY_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+const LIQUIDITY_SNAPSHOT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const MOMENTUM_WEIGHTS = {
+  volumeAcceleration: 0.4,
+  buyPressure: 0.35,
+  liquidityGrowth: 0.25
+};
+
+/**
+ * Where a token was discovered
+ */
+export type DiscoverySource = 'allowlist' | 'boost' | 'top-boost' | 'profile';
+
+/**
+ * Momentum of a token and the signals behind it
+ *
+ * @interface TokenMomentum
+ * @property {number} score - Momentum score, 0-100
+ * @property {number | null} volumeAcceleration - Last hour's volume over the 24h hourly average
+ * @property {number | null} buyRatio - Share of buys in the last 6 hours, 0-1
+ * @property {number | null} liquidityGrowth - Relative liquidity change since the previous snapshot
+ */
+export interface TokenMomentum {
+  score: number;
+  volumeAcceleration: number | null;
+  buyRatio: number | null;
+  liquidityGrowth: number | null;
+}
+
+/**
+ * A discovered token with its most liquid pair
+ *
+ * @interface DiscoveredToken
+ * @property {DexScreenerToken} pair - Most liquid pair with the token as base token
+ * @property {DiscoverySource[]} sources - Lists the token was found on
+ * @property {number} boostAmount - Active DEXScreener boost amount
+ * @property {TokenMomentum} momentum - Momentum score and signals
+ */
+export interface DiscoveredToken {
+  pair: DexScreenerToken;
+  sources: DiscoverySource[];
+  boostAmount: number;
+  momentum: TokenMomentum;
+}
+
+interface LiquiditySnapshot {
+  liquidityUsd: number;
+  at: number;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Allowlisted addresses, validated once at load
+const ALLOWLIST = new Set<string>(
+  tokenAllowlist.tokens
+    .map(token => token.address.toLowerCase())
+    .filter(address => isAddress(address, { strict: false }))
+);
+
+/**
+ * Collect candidate tokens from boosts, profiles and the allowlist
+ *
+ * @returns {Promise<Map<string, { sources: Set<DiscoverySource>; boostAmount: number }>>} Candidates keyed by lowercased address
+ */
+async function collectCandidates(): Promise<Map<string, { sources: Set<DiscoverySource>; boostAmount: number }>> {
+  const [latestBoosts, topBoosts, profiles] = await Promise.all([
+    fetchTokenBoosts('latest'),
+    fetchTokenBoosts('top'),
+    fetchTokenProfiles()
+  ]);
+
+  const candidates = new Map<string, { sources: Set<DiscoverySource>; boostAmount: number }>();
+  const add = (address: string, source: DiscoverySource, boostAmount: number = 0) => {
+    const key = address.toLowerCase();
+    const entry = candidates.get(key) || { sources: new Set<DiscoverySource>(), boostAmount: 0 };
+    entry.sources.add(source);
+    entry.boostAmount = Math.max(entry.boostAmount, boostAmount);
+    candidates.set(key, entry);
+  };
+
+  ALLOWLIST.forEach(address => add(address, 'allowlist'));
+  latestBoosts.forEach(boost => add(boost.tokenAddress, 'boost', boost.amount || 0));
+  topBoosts.forEach(boost => add(boost.tokenAddress, 'top-boost', boost.totalAmount || boost.amount || 0));
+  profiles.forEach(profile => add(profile.tokenAddress, 'profile'));
+
+  console.log(`Discovery candidates: ${candidates.size} (${latestBoosts.length} boosted, ${topBoosts.length} top boosted, ${profiles.length} profiles, ${ALLOWLIST.size} allowlisted)`);
+  return candidates;
+}
+
+/**
+ * Liquidity growth per token against the stored snapshots, refreshing snapshots older than an hour
+ *
+ * @param {DexScreenerToken[]} pairs - Current pairs
+ * @returns {Promise<Map<string, number>>} Growth keyed by lowercased token address
+ */
+async function getLiquidityGrowth(pairs: DexScreenerToken[]): Promise<Map<string, number>> {
+  const now = Date.now();
+  const stored = await cacheStore.get<Record<string, LiquiditySnapshot>>(LIQUIDITY_SNAPSHOT_KEY);
+  const snapshots: Record<string, LiquiditySnapshot> = {};
+  const growth = new Map<string, number>();
+
+  // Keep unexpired snapshots, including tokens not in this run
+  Object.entries(stored?.value || {}).forEach(([address, snapshot]) => {
+    if (now - snapshot.at < LIQUIDITY_SNAPSHOT_MAX_AGE_MS) snapshots[address] = snapshot;
+  });
+
+  pairs.forEach(pair => {
+    const address = pair.baseToken.address.toLowerCase();
+    const liquidityUsd = pair.liquidity?.usd || 0;
+    const previous = snapshots[address];
+
+    if (previous && previous.liquidityUsd > 0) {
+      growth.set(address, (liquidityUsd - previous.liquidityUsd) / previous.liquidityUsd);
+    }
+    if (!previous || now - previous.at >= LIQUIDITY_SNAPSHOT_INTERVAL_MS) {
+      snapshots[address] = { liquidityUsd, at: now };
+    }
+  });
+
+  await cacheStore.set(LIQUIDITY_SNAPSHOT_KEY, {
+    value: snapshots,
+    storedAt: now,
+    freshUntil: now + LIQUIDITY_SNAPSHOT_MAX_AGE_MS,
+    staleUntil: now + LIQUIDITY_SNAPSHOT_MAX_AGE_MS
+  });
+  return growth;
+}
+
+/**
+ * Score a pair's momentum
+ *
+ * @param {DexScreenerToken} pair - Token pair
+ * @param {number | undefined} liquidityGrowth - Liquidity change since the previous snapshot
+ * @returns {TokenMomentum} Score and signals
+ */
+export function scoreMomentum(pair: DexScreenerToken, liquidityGrowth?: number): TokenMomentum {
+  const hourlyAverage = (pair.volume?.h24 || 0) / 24;
+  const volumeAcceleration = hourlyAverage > 0 ? (pair.volume?.h1 || 0) / hourlyAverage : null;
+
+  const buys = pair.txns?.h6?.buys || 0;
+  const sells = pair.txns?.h6?.sells || 0;
+  const buyRatio = buys + sells >= MIN_MOMENTUM_TXNS ? buys / (buys + sells) : null;
+
+  // Each component maps to 0-1 with 0.5 as neutral
+  const components: Array<[number, number]> = [];
+  if (volumeAcceleration !== null) {
+    // 1x is neutral, 4x or more is full marks
+    components.push([MOMENTUM_WEIGHTS.volumeAcceleration, clamp(Math.log2(Math.max(volumeAcceleration, 1e-6)) / 4 + 0.5)]);
+  }
+  if (buyRatio !== null) {
+    // 50% buys is neutral, 70% or more is full marks
+    components.push([MOMENTUM_WEIGHTS.buyPressure, clamp((buyRatio - 0.3) / 0.4)]);
+  }
+  if (liquidityGrowth !== undefined) {
+    // Flat is neutral, +50% or more is full marks
+    components.push([MOMENTUM_WEIGHTS.liquidityGrowth, clamp(liquidityGrowth + 0.5)]);
+  }
+
+  const totalWeight = components.reduce((sum, [weight]) => sum + weight, 0);
+  const score = totalWeight > 0
+    ? Math.round((components.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight) * 100)
+    : 0;
+
+  return { score, volumeAcceleration, buyRatio, liquidityGrowth: liquidityGrowth ?? null };
+}
+
+/**
+ * Discover Base tokens from boosts, profiles and the allowlist
+ *
+ * @returns {Promise<DiscoveredToken[]>} Tokens with a liquid pair (allowlisted tokens always included), by liquidity
+ */
+export async function discoverBaseTokens(): Promise<DiscoveredToken[]> {
+  const candidates = await collectCandidates();
+  const addresses = Array.from(candidates.keys());
+  const pairs = await fetchTokenPairs(addresses);
+
+  const bestPairs = addresses
+    .map(address => getBestPair(pairs, address))
+    .filter((pair): pair is DexScreenerToken => pair !== null && isAddress(pair.baseToken.address, { strict: false }))
+    .filter(pair => ALLOWLIST.has(pair.baseToken.address.toLowerCase()) || (pair.liquidity?.usd || 0) >= MIN_DISCOVERY_LIQUIDITY_USD);
+
+  const growth = await getLiquidityGrowth(bestPairs);
+
+  return bestPairs
+    .map(pair => {
+      const address = pair.baseToken.address.toLowerCase();
+      const candidate = candidates.get(address);
+      return {
+        pair,
+        sources: Array.from(candidate?.sources || []),
+        boostAmount: candidate?.boostAmount || 0,
+        momentum: scoreMomentum(pair, growth.get(address))
+      };
+    })
+    .sort((a, b) => (b.pair.liquidity?.usd || 0) - (a.pair.liquidity?.usd || 0));
+}
+
+/**
+ * Trending Base tokens, ranked by momentum
+ *
+ * @param {number} [limit=50] - Maximum number of tokens
+ * @returns {Promise<DiscoveredToken[]>} Tokens by momentum score, then 24h volume
+ */
+export async function getTrendingBaseTokens(limit: number = 50): Promise<DiscoveredToken[]> {
+  const tokens = await discoverBaseTokens();
+  return tokens
+    .sort((a, b) => b.momentum.score - a.momentum.score || (b.pair.volume?.h24 || 0) - (a.pair.volume?.h24 || 0))
+    .slice(0, limit);
+}
@@ -0,0 +1,306 @@
+/**
+ * Token Risk Engine - Contract, Holder and Market Risk Scoring
+ *
+ * This server-side service scores how risky a Base token is to trade, from
+ * 0 (no red flags found) to 100, with an itemized reason for every point.
+ *
+ * Checks:
+ * - Contract verification (Etherscan `getsourcecode`) and upgradeable proxies
+ * - Privileged functions in the verified ABI (mint, blacklist, fees, pause,
+ *   transaction limits), discounted when ownership is renounced
+ * - Holder concentration of the top wallets, excluding pools, burn
+ *   addresses and known protocols
+ * - Liquidity depth, absolute and versus FDV
+ * - Pair age
+ * - Buy/sell imbalance over 24h (buys with no sells is a honeypot signal)
+ *
+ * Contract analysis is cached per token in the shared cache store; the
+ * market checks use the data passed in, so scores track the latest pairs.
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { Abi, AbiFunction } from 'viem';
+import { cacheStore } from './cache';
+import { ChainKey } from './chains';
+import { getEtherscanAPI } from './etherscan';
+import type { TokenHolder } from './token-detail';
+
+const CONTRACT_ANALYSIS_TTL_MS = 6 * 60 * 60 * 1000;
+const UNVERIFIED_ANALYSIS_TTL_MS = 60 * 60 * 1000; // Contracts may get verified later
+const RENOUNCED_OWNERS = ['0x0000000000000000000000000000000000000000', '0x000000000000000000000000000000000000dead'];
+const TOP_HOLDER_COUNT = 10;
+const MIN_TRADES_FOR_IMBALANCE = 20;
+
+/**
+ * Kind of check behind a risk reason
+ */
+export type RiskCheck = 'verification' | 'proxy' | 'privileges' | 'holders' | 'liquidity' | 'age' | 'trading';
+
+/**
+ * Overall risk level
+ */
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * One itemized reason of a risk score
+ *
+ * @interface RiskReason
+ * @property {RiskCheck} check - Check that produced the reason
+ * @property {'info' | 'warning' | 'danger'} severity - How serious the finding is
+ * @property {number} points - Points added to the score (0 for informational reasons)
+ * @property {string} message - Human-readable finding
+ */
+export interface RiskReason {
+  check: RiskCheck;
+  severity: 'info' | 'warning' | 'danger';
+  points: number;
+  message: string;
+}
+
+/**
+ * Risk assessment of a token
+ *
+ * @interface TokenRisk
+ * @property {string} address - Token contract address (lowercased)
+ * @property {number} score - 0 (no red flags) to 100
+ * @property {RiskLevel} level - Level derived from the score
+ * @property {RiskReason[]} reasons - Findings, highest points first
+ * @property {boolean | null} verified - Contract source verified, or null if the lookup failed
+ * @property {string} assessedAt - ISO timestamp
+ */
+export interface TokenRisk {
+  address: string;
+  score: number;
+  level: RiskLevel;
+  reasons: RiskReason[];
+  verified: boolean | null;
+  assessedAt: string;
+}
+
+/**
+ * Market data the risk checks need
+ *
+ * @interface TokenRiskInput
+ * @property {string} address - Token contract address
+ * @property {number} liquidityUsd - Liquidity across the token's pairs
+ * @property {number | null} fdv - Fully diluted valuation
+ * @property {number | null} pairCreatedAt - Creation time of the oldest pair (ms)
+ * @property {{ buys: number; sells: number }} txns24h - Buys and sells of the token over 24h
+ * @property {TokenHolder[] | null} holders - Top holders, or null when unavailable
+ */
+export interface TokenRiskInput {
+  address: string;
+  liquidityUsd: number;
+  fdv: number | null;
+  pairCreatedAt: number | null;
+  txns24h: { buys: number; sells: number };
+  holders: TokenHolder[] | null;
+}
+
+/**
+ * Cached result of the contract checks
+ */
+interface ContractAnalysis {
+  verified: boolean | null;
+  proxy: boolean;
+  owner: string | null; // null when the contract has no readable owner()
+  functions: string[]; // State-changing function names of the verified ABI (implementation for proxies)
+}
+
+// Privileged function patterns, worst first
+const PRIVILEGE_RULES: Array<{ pattern: RegExp; points: number; message: string }> = [
+  { pattern: /^(mint|mintTo|_mint|issue)/i, points: 20, message: 'Owner can mint new tokens' },
+  { pattern: /(blacklist|blocklist|denylist|setBots?|addBots?|sniper|freeze)/i, points: 20, message: 'Owner can block wallets from trading' },
+  { pattern: /(set|update).*(fee|tax)/i, points: 10, message: 'Owner can change buy/sell fees' },
+  { pattern: /^(pause|setPaused|setTrading|enableTrading|disableTrading|openTrading)$/i, points: 10, message: 'Owner can pause or toggle trading' },
+  { pattern: /(set|update).*(max(tx|transaction|wallet|hold))/i, points: 5, message: 'Owner can change transaction or wallet limits' }
+];
+
+/**
+ * Risk level of a score
+ *
+ * @param {number} score - Risk score, 0-100
+ * @returns {RiskLevel} Level
+ */
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= 50) return 'high';
+  if (score >= 25) return 'medium';
+  return 'low';
+}
+
+/**
+ * State-changing function names of an ABI JSON string
+ */
+function parseFunctionNames(abiJson: string): string[] {
+  try {
+    const abi = JSON.parse(abiJson) as Abi;
+    return abi
+      .filter((item): item is AbiFunction => item.type === 'function')
+      .filter(fn => fn.stateMutability !== 'view' && fn.stateMutability !== 'pure')
+      .map(fn => fn.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Verification, proxy status, owner and privileged functions of a token contract, using the shared cache
+ *
+ * @param {string} address - Token contract address
+ * @param {ChainKey} chain - Chain the token lives on
+ * @returns {Promise<ContractAnalysis>} Contract analysis
+ */
+async function analyzeContract(address: string, chain: ChainKey): Promise<ContractAnalysis> {
+  const key = `token-contract:${chain}:${address}`;
+  const cached = await cacheStore.get<ContractAnalysis>(key);
+  if (cached && cached.freshUntil > Date.now()) return cached.value;
+
+  const api = getEtherscanAPI(chain);
+  const [source, owner] = await Promise.all([
+    api.getContractSource(address),
+    api.getContractOwner(address)
+  ]);
+
+  const verified = source ? Boolean(source.SourceCode) : null;
+  const proxy = source?.Proxy === '1';
+  let functions = verified && source ? parseFunctionNames(source.ABI) : [];
+
+  // Privileges of an upgradeable token live in its implementation
+  if (proxy && source?.Implementation) {
+    const implementation = await api.getContractSource(source.Implementation);
+    if (implementation?.SourceCode) {
+      functions = Array.from(new Set([...functions, ...parseFunctionNames(implementation.ABI)]));
+    }
+  }
+
+  const analysis: ContractAnalysis = { verified, proxy, owner, functions };
+  // Failed lookups aren't cached so the next assessment retries them
+  if (verified !== null) {
+    const now = Date.now();
+    const expiresAt = now + (verified ? CONTRACT_ANALYSIS_TTL_MS : UNVERIFIED_ANALYSIS_TTL_MS);
+    await cacheStore.set(key, { value: analysis, storedAt: now, freshUntil: expiresAt, staleUntil: expiresAt });
+  }
+  return analysis;
+}
+
+/**
+ * Reasons from the contract checks
+ */
+function contractReasons({ verified, proxy, owner, functions }: ContractAnalysis): RiskReason[] {
+  const reasons: RiskReason[] = [];
+
+  if (verified === null) {
+    reasons.push({ check: 'verification', severity: 'info', points: 0, message: 'Contract verification could not be checked' });
+  } else if (!verified) {
+    reasons.push({ check: 'verification', severity: 'danger', points: 25, message: 'Contract source is not verified, so its code cannot be reviewed' });
+  }
+
+  if (proxy) {
+    reasons.push({ check: 'proxy', severity: 'warning', points: 10, message: 'Upgradeable proxy: the token logic can be replaced' });
+  }
+
+  const renounced = owner !== null && RENOUNCED_OWNERS.includes(owner);
+  const flagged = PRIVILEGE_RULES.filter(rule => functions.some(name => rule.pattern.test(name)));
+
+  if (renounced) {
+    reasons.push({
+      check: 'privileges',
+      severity: 'info',
+      points: 0,
+      message: flagged.length > 0 ? 'Ownership renounced, so owner-only functions are locked' : 'Ownership renounced'
+    });
+  } else {
+    flagged.forEach(rule => {
+      reasons.push({ check: 'privileges', severity: rule.points >= 20 ? 'danger' : 'warning', points: rule.points, message: rule.message });
+    });
+    if (owner && flagged.length === 0) {
+      reasons.push({ check: 'privileges', severity: 'info', points: 0, message: `Contract has an active owner (${owner.slice(0, 6)}...${owner.slice(-4)})` });
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Reasons from holders, liquidity, pair age and trading
+ */
+function marketReasons(input: TokenRiskInput): RiskReason[] {
+  const reasons: RiskReason[] = [];
+
+  // Holder concentration, ignoring pools, burn addresses and protocols
+  if (!input.holders) {
+    reasons.push({ check: 'holders', severity: 'info', points: 0, message: 'Holder distribution unavailable' });
+  } else {
+    const topShare = input.holders
+      .filter(holder => !holder.label && holder.percentage !== null)
+      .slice(0, TOP_HOLDER_COUNT)
+      .reduce((sum, holder) => sum + (holder.percentage || 0), 0);
+
+    if (topShare >= 50) {
+      reasons.push({ check: 'holders', severity: 'danger', points: 20, message: `Top ${TOP_HOLDER_COUNT} wallets hold ${topShare.toFixed(1)}% of supply` });
+    } else if (topShare >= 25) {
+      reasons.push({ check: 'holders', severity: 'warning', points: 10, message: `Top ${TOP_HOLDER_COUNT} wallets hold ${topShare.toFixed(1)}% of supply` });
+    }
+  }
+
+  // Liquidity depth
+  if (input.liquidityUsd < 5000) {
+    reasons.push({ check: 'liquidity', severity: 'danger', points: 20, message: `Very thin liquidity ($${Math.round(input.liquidityUsd).toLocaleString('en-US')})` });
+  } else if (input.fdv && input.fdv > 0) {
+    const ratio = (input.liquidityUsd / input.fdv) * 100;
+    if (ratio < 1) {
+      reasons.push({ check: 'liquidity', severity: 'danger', points: 15, message: `Liquidity is only ${ratio.toFixed(2)}% of FDV` });
+    } else if (ratio < 3) {
+      reasons.push({ check: 'liquidity', severity: 'warning', points: 8, message: `Liquidity is ${ratio.toFixed(1)}% of FDV` });
+    }
+  }
+
+  // Pair age
+  if (input.pairCreatedAt) {
+    const ageHours = (Date.now() - input.pairCreatedAt) / (60 * 60 * 1000);
+    if (ageHours < 24) {
+      reasons.push({ check: 'age', severity: 'warning', points: 10, message: `Trading started ${Math.max(1, Math.floor(ageHours))}h ago` });
+    } else if (ageHours < 7 * 24) {
+      reasons.push({ check: 'age', severity: 'warning', points: 5, message: `Trading started ${Math.floor(ageHours / 24)}d ago` });
+    }
+  }
+
+  // Buy/sell imbalance
+  const { buys, sells } = input.txns24h;
+  if (buys + sells >= MIN_TRADES_FOR_IMBALANCE) {
+    if (sells === 0) {
+      reasons.push({ check: 'trading', severity: 'danger', points: 30, message: `${buys} buys and no sells in 24h, a possible honeypot` });
+    } else if (sells / buys < 0.15) {
+      reasons.push({ check: 'trading', severity: 'danger', points: 15, message: `Only ${sells} sells against ${buys} buys in 24h` });
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Assess the risk of a token
+ *
+ * @param {TokenRiskInput} input - Market data of the token
+ * @param {ChainKey} [chain='base'] - Chain the token lives on
+ * @returns {Promise<TokenRisk>} Score, level and itemized reasons
+ */
+export async function assessTokenRisk(input: TokenRiskInput, chain: ChainKey = 'base'): Promise<TokenRisk> {
+  const address = input.address.toLowerCase();
+  const contract = await analyzeContract(address, chain);
+
+  const reasons = [...contractReasons(contract), ...marketReasons(input)]
+    .sort((a, b) => b.points - a.points);
+  const score = Math.min(100, reasons.reduce((sum, reason) => sum + reason.points, 0));
+
+  return {
+    address,
+    score,
+    level: getRiskLevel(score),
+    reasons,
+    verified: contract.verified,
+    assessedAt: new Date().toISOString()
+  };
+}
@@ -39,6 +39,15 @@ export interface BaseToken {
       h24: { buys: number; sells: number };
     };
     url: string;
+    pairCreatedAt?: number;
+  };
+  momentum_score?: number;
+  discovery?: {
+    sources: Array<'allowlist' | 'boost' | 'top-boost' | 'profile'>;
+    boost_amount: number;
+    volume_acceleration: number | null;
+    buy_ratio: number | null;
+    liquidity_growth: number | null;
   };
 }
 
@@ -49,8 +58,8 @@ export interface TokenExplorerState {
   searchLoading: boolean;
   error: string | null;
   searchQuery: string;
-  activeTab: 'base' | 'search';
-  sortBy: 'market_cap' | 'current_price' | 'total_volume' | 'price_change_percentage_24h';
+  activeTab: 'base' | 'search' | 'new';
+  sortBy: 'market_cap' | 'current_price' | 'total_volume' | 'price_change_percentage_24h' | 'momentum_score';
   sortOrder: 'asc' | 'desc';
   currentPage: number;
   tokensPerPage: number;
@@ -0,0 +1,257 @@
+/**
+ * Wallet Comparison - Overlap Between Several Wallet Profiles
+ *
+ * This module compares 2-5 profiled wallets: the tokens they both hold, the
+ * addresses they both interact with, transfers between them and social
+ * profiles they share. Inputs are the profiles and data built by
+ * wallet-profile.ts, so overlap is measured over the same recent history the
+ * profiler shows.
+ *
+ * Features:
+ * - Shared token holdings by contract address
+ * - Common counterparties, labeled from the protocol registry
+ * - Transactions and internal transfers between the compared wallets
+ * - Social profiles (ENS, Farcaster, Lens) linked to more than one wallet
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import type { SocialProfile } from 'thirdweb/social';
+import { ChainKey } from './chains';
+import { getCounterparty, resolveProtocol } from './protocols';
+import { buildActivityTimeline, EtherscanData, WalletProfile } from './wallet-profile';
+
+export const MIN_COMPARE_WALLETS = 2;
+export const MAX_COMPARE_WALLETS = 5;
+const MAX_COMMON_COUNTERPARTIES = 20;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * A profiled wallet taking part in a comparison
+ *
+ * @interface ComparedWallet
+ * @property {string} input - What the user entered (address, ENS name or Basename)
+ * @property {string} address - Resolved address
+ * @property {WalletProfile} profile - Wallet profile
+ * @property {EtherscanData} data - Data the profile was built from
+ * @property {SocialProfile[]} socialProfiles - Social profiles found for the address
+ */
+export interface ComparedWallet {
+  input: string;
+  address: string;
+  profile: WalletProfile;
+  data: EtherscanData;
+  socialProfiles: SocialProfile[];
+}
+
+/**
+ * Token held by more than one compared wallet
+ *
+ * @interface SharedToken
+ * @property {string} contractAddress - Lowercased token contract
+ * @property {string} symbol - Token symbol
+ * @property {string[]} holders - Lowercased addresses of the wallets holding it
+ */
+export interface SharedToken {
+  contractAddress: string;
+  symbol: string;
+  holders: string[];
+}
+
+/**
+ * Address more than one compared wallet has interacted with
+ *
+ * @interface CommonCounterparty
+ * @property {string} address - Lowercased counterparty address
+ * @property {string | null} label - Registered protocol and contract name, if known
+ * @property {Record<string, number>} interactions - Interactions per lowercased wallet address
+ */
+export interface CommonCounterparty {
+  address: string;
+  label: string | null;
+  interactions: Record<string, number>;
+}
+
+/**
+ * Transaction or internal transfer between two compared wallets
+ *
+ * @interface WalletTransfer
+ * @property {string} key - Unique key (hash, or parent hash and trace id)
+ * @property {string} hash - Transaction hash
+ * @property {'transaction' | 'internal'} kind - Entry kind
+ * @property {string} from - Sender
+ * @property {string} to - Recipient
+ * @property {string} value - Value in wei
+ * @property {number} timestamp - Unix timestamp (seconds)
+ * @property {boolean} isError - Whether the transfer failed
+ */
+export interface WalletTransfer {
+  key: string;
+  hash: string;
+  kind: 'transaction' | 'internal';
+  from: string;
+  to: string;
+  value: string;
+  timestamp: number;
+  isError: boolean;
+}
+
+/**
+ * Social profile linked to more than one compared wallet
+ *
+ * @interface SharedSocialProfile
+ * @property {SocialProfile['type']} type - Platform
+ * @property {string} name - Profile name
+ * @property {string[]} wallets - Lowercased addresses the profile was found for
+ */
+export interface SharedSocialProfile {
+  type: SocialProfile['type'];
+  name: string;
+  wallets: string[];
+}
+
+/**
+ * Result of comparing several wallets
+ *
+ * @interface WalletComparison
+ * @property {ChainKey} chain - Chain the wallets were profiled on
+ * @property {ComparedWallet[]} wallets - Compared wallets, in input order
+ * @property {SharedToken[]} sharedTokens - Tokens held by two or more wallets
+ * @property {CommonCounterparty[]} commonCounterparties - Addresses two or more wallets interacted with
+ * @property {WalletTransfer[]} transfers - Transfers between the wallets, newest first
+ * @property {SharedSocialProfile[]} sharedSocialProfiles - Social profiles shared by two or more wallets
+ */
+export interface WalletComparison {
+  chain: ChainKey;
+  wallets: ComparedWallet[];
+  sharedTokens: SharedToken[];
+  commonCounterparties: CommonCounterparty[];
+  transfers: WalletTransfer[];
+  sharedSocialProfiles: SharedSocialProfile[];
+}
+
+/**
+ * Tokens held by two or more wallets, most widely held first
+ */
+function findSharedTokens(wallets: ComparedWallet[]): SharedToken[] {
+  const tokens = new Map<string, SharedToken>();
+
+  wallets.forEach(wallet => {
+    const address = wallet.address.toLowerCase();
+    wallet.profile.portfolio.tokens
+      .filter(token => token.balance > 0)
+      .forEach(token => {
+        const contractAddress = token.contractAddress.toLowerCase();
+        const shared = tokens.get(contractAddress) || { contractAddress, symbol: token.symbol || 'UNKNOWN', holders: [] };
+        if (!shared.holders.includes(address)) shared.holders.push(address);
+        tokens.set(contractAddress, shared);
+      });
+  });
+
+  return Array.from(tokens.values())
+    .filter(token => token.holders.length >= MIN_COMPARE_WALLETS)
+    .sort((a, b) => b.holders.length - a.holders.length || a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Counterparties of two or more wallets, excluding the compared wallets themselves
+ */
+function findCommonCounterparties(wallets: ComparedWallet[], chain: ChainKey): CommonCounterparty[] {
+  const compared = new Set(wallets.map(wallet => wallet.address.toLowerCase()));
+  const counterparties = new Map<string, Record<string, number>>();
+
+  wallets.forEach(wallet => {
+    const address = wallet.address.toLowerCase();
+    buildActivityTimeline(wallet.data.transactions || [], wallet.data.internalTransactions).forEach(entry => {
+      const counterparty = getCounterparty(entry, address)?.toLowerCase();
+      if (!counterparty || counterparty === ZERO_ADDRESS || compared.has(counterparty)) return;
+
+      const interactions = counterparties.get(counterparty) || {};
+      interactions[address] = (interactions[address] || 0) + 1;
+      counterparties.set(counterparty, interactions);
+    });
+  });
+
+  const total = (interactions: Record<string, number>) => Object.values(interactions).reduce((sum, count) => sum + count, 0);
+
+  return Array.from(counterparties.entries())
+    .filter(([, interactions]) => Object.keys(interactions).length >= MIN_COMPARE_WALLETS)
+    .map(([address, interactions]): CommonCounterparty => {
+      const match = resolveProtocol(address, chain);
+      return { address, label: match ? `${match.protocol.name} ${match.label}` : null, interactions };
+    })
+    .sort((a, b) => Object.keys(b.interactions).length - Object.keys(a.interactions).length
+      || total(b.interactions) - total(a.interactions))
+    .slice(0, MAX_COMMON_COUNTERPARTIES);
+}
+
+/**
+ * Transactions and internal transfers sent from one compared wallet to another
+ */
+function findTransfersBetween(wallets: ComparedWallet[]): WalletTransfer[] {
+  const compared = new Set(wallets.map(wallet => wallet.address.toLowerCase()));
+  const transfers = new Map<string, WalletTransfer>();
+
+  wallets.forEach(wallet => {
+    buildActivityTimeline(wallet.data.transactions || [], wallet.data.internalTransactions).forEach(entry => {
+      const from = entry.from?.toLowerCase();
+      const to = entry.to?.toLowerCase();
+      if (!from || !to || from === to || !compared.has(from) || !compared.has(to)) return;
+
+      // Both wallets' histories contain the transfer; keep one copy
+      transfers.set(entry.key, {
+        key: entry.key,
+        hash: entry.hash,
+        kind: entry.kind,
+        from,
+        to,
+        value: entry.value,
+        timestamp: parseInt(entry.timestamp) || 0,
+        isError: entry.isError
+      });
+    });
+  });
+
+  return Array.from(transfers.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Social profiles with the same platform and name found for two or more wallets
+ */
+function findSharedSocialProfiles(wallets: ComparedWallet[]): SharedSocialProfile[] {
+  const profiles = new Map<string, SharedSocialProfile>();
+
+  wallets.forEach(wallet => {
+    const address = wallet.address.toLowerCase();
+    wallet.socialProfiles
+      .filter(profile => profile.name)
+      .forEach(profile => {
+        const key = `${profile.type}:${profile.name.toLowerCase()}`;
+        const shared = profiles.get(key) || { type: profile.type, name: profile.name, wallets: [] };
+        if (!shared.wallets.includes(address)) shared.wallets.push(address);
+        profiles.set(key, shared);
+      });
+  });
+
+  return Array.from(profiles.values()).filter(profile => profile.wallets.length >= MIN_COMPARE_WALLETS);
+}
+
+/**
+ * Compare profiled wallets
+ *
+ * @param {ComparedWallet[]} wallets - Profiled wallets, in display order
+ * @param {ChainKey} chain - Chain the wallets were profiled on
+ * @returns {WalletComparison} Shared tokens, counterparties, transfers and social profiles
+ */
+export function compareWallets(wallets: ComparedWallet[], chain: ChainKey): WalletComparison {
+  return {
+    chain,
+    wallets,
+    sharedTokens: findSharedTokens(wallets),
+    commonCounterparties: findCommonCounterparties(wallets, chain),
+    transfers: findTransfersBetween(wallets),
+    sharedSocialProfiles: findSharedSocialProfiles(wallets)
+  };
+}
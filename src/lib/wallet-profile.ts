@@ -0,0 +1,620 @@
+/**
+ * Wallet Profile - Client-side Wallet Data Loading and Profile Building
+ *
+ * This module loads a wallet's data through the app's Etherscan, NFT and
+ * portfolio API routes and turns it into a WalletProfile. It is shared by the
+ * single-wallet profiler and the wallet comparison view.
+ *
+ * Features:
+ * - Parallel fetch of wallet, history, internal transactions, tokens, NFTs and activity
+ * - USD valuation and calldata decoding of the fetched data
+ * - Unified activity timeline of transactions and internal transfers
+ * - Profile building: activity level, category, behavior, portfolio and gas stats
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import type { PortfolioValuation } from './pricing';
+import type { ChainActivity, NftCollectionHolding, TransactionLifetimeStats } from './etherscan';
+import { ChainKey, CHAIN_KEYS, SUPPORTED_CHAINS } from './chains';
+import type { DecodedCall } from './signatures';
+
+/**
+ * Transaction data interface from Etherscan API
+ */
+export interface TransactionData {
+  hash: string;
+  from: string;
+  to: string;
+  value: string;
+  gasPrice: string;
+  gasUsed: string;
+  timestamp: string;
+  blockNumber: string;
+  methodId: string;
+  functionName?: string;
+  input?: string;
+  isError: boolean;
+}
+
+/**
+ * Transaction as returned by /api/etherscan/history (value in ETH, timestamp in ms)
+ */
+export interface HistoryTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  value: string;
+  valueWei: string;
+  gasUsed: number;
+  gasPrice: number;
+  timestamp: number;
+  blockNumber: number;
+  isError: boolean;
+  methodId: string;
+  functionName?: string;
+  input: string;
+}
+
+/**
+ * Convert a history API transaction to the wei/seconds shape used by the profiler
+ */
+export const toTransactionData = (tx: HistoryTransaction): TransactionData => ({
+  hash: tx.hash,
+  from: tx.from,
+  to: tx.to,
+  value: tx.valueWei,
+  gasPrice: String(tx.gasPrice),
+  gasUsed: String(tx.gasUsed),
+  timestamp: String(Math.floor(tx.timestamp / 1000)),
+  blockNumber: String(tx.blockNumber),
+  methodId: tx.methodId,
+  functionName: tx.functionName,
+  input: tx.input,
+  isError: tx.isError
+});
+
+/**
+ * Internal transaction (ETH moved by a contract) in the wei/seconds shape used by the profiler
+ */
+export interface InternalTransactionData {
+  parentHash: string;
+  traceId: string;
+  from: string;
+  to: string;
+  value: string;
+  type: string;
+  timestamp: string;
+  blockNumber: string;
+  isError: boolean;
+}
+
+/**
+ * Internal transaction as returned by /api/etherscan/internal (value in ETH, timestamp in ms)
+ */
+export interface InternalHistoryTransaction {
+  parentHash: string;
+  traceId: string;
+  from: string;
+  to: string;
+  value: string;
+  valueWei: string;
+  type: string;
+  timestamp: number;
+  blockNumber: number;
+  isError: boolean;
+}
+
+/**
+ * Convert an internal transactions API entry to the wei/seconds shape used by the profiler
+ */
+export const toInternalTransactionData = (tx: InternalHistoryTransaction): InternalTransactionData => ({
+  parentHash: tx.parentHash,
+  traceId: tx.traceId,
+  from: tx.from,
+  to: tx.to,
+  value: tx.valueWei,
+  type: tx.type,
+  timestamp: String(Math.floor(tx.timestamp / 1000)),
+  blockNumber: String(tx.blockNumber),
+  isError: tx.isError
+});
+
+/**
+ * Entry in the unified activity timeline: a transaction sent or received by
+ * the wallet, or an internal transfer inside a parent transaction
+ */
+export interface TimelineEntry {
+  kind: 'transaction' | 'internal';
+  key: string;
+  hash: string; // Transaction hash, or the parent transaction hash for internal transfers
+  from: string;
+  to: string;
+  value: string; // Wei
+  timestamp: string; // Seconds
+  blockNumber: string;
+  isError: boolean;
+  transaction?: TransactionData;
+}
+
+/**
+ * Merge transactions and internal transfers into one timeline, newest first
+ */
+export const buildActivityTimeline = (transactions: TransactionData[], internalTransactions: InternalTransactionData[] = []): TimelineEntry[] => [
+  ...transactions.map((tx): TimelineEntry => ({
+    kind: 'transaction',
+    key: tx.hash,
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    value: tx.value,
+    timestamp: tx.timestamp,
+    blockNumber: tx.blockNumber,
+    isError: tx.isError,
+    transaction: tx
+  })),
+  ...internalTransactions.map((tx): TimelineEntry => ({
+    kind: 'internal',
+    key: `${tx.parentHash}:${tx.traceId}`,
+    hash: tx.parentHash,
+    from: tx.from,
+    to: tx.to,
+    value: tx.value,
+    timestamp: tx.timestamp,
+    blockNumber: tx.blockNumber,
+    isError: tx.isError
+  }))
+].sort((a, b) => parseInt(b.blockNumber || '0', 10) - parseInt(a.blockNumber || '0', 10)
+  // Within a block, keep internal transfers right after their parent transaction
+  || (a.kind === b.kind ? 0 : a.kind === 'transaction' ? -1 : 1));
+
+
+/**
+ * Decode transactions into readable calls through /api/etherscan/decode
+ *
+ * Failures resolve to an empty map so the profile still renders with raw method names.
+ */
+export const fetchDecodedCalls = async (transactions: TransactionData[], chain: ChainKey): Promise<Record<string, DecodedCall>> => {
+  if (transactions.length === 0) return {};
+
+  try {
+    const response = await fetch('/api/etherscan/decode', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chain,
+        transactions: transactions.map(tx => ({
+          hash: tx.hash,
+          to: tx.to,
+          input: tx.input,
+          functionName: tx.functionName
+        }))
+      })
+    });
+    const data = await response.json();
+    return data.success ? data.data : {};
+  } catch (error) {
+    console.warn('⚠️ Failed to decode transactions:', error);
+    return {};
+  }
+};
+
+/**
+ * Token data interface from Etherscan API
+ */
+export interface TokenData {
+  contractAddress: string;
+  tokenSymbol?: string;
+  tokenName?: string;
+  tokenDecimal?: string;
+  balance?: string;
+  balanceFormatted?: string;
+  source?: 'tokenbalance' | 'transfer-replay';
+}
+
+/**
+ * Wallet data interface from Etherscan API
+ */
+export interface WalletData {
+  address: string;
+  balance: string;
+  transactionCount: number;
+  ethBalance?: {
+    wei: string;
+    eth: string;
+    formatted: string;
+  };
+}
+
+/**
+ * Etherscan API response data
+ */
+export interface EtherscanData {
+  wallet: WalletData;
+  transactions: TransactionData[];
+  internalTransactions?: InternalTransactionData[]; // Contract-initiated ETH transfers
+  tokens: TokenData[];
+  tokensComplete?: boolean; // False when the transfer history was too long to read in full
+  nfts?: NftCollectionHolding[]; // ERC-721 and ERC-1155 holdings by collection
+  valuation?: PortfolioValuation | null;
+  networkActivity?: ChainActivity[];
+  historyCursor?: string | null; // Cursor for the next (older) history page; null when fully loaded
+  lifetimeStats?: TransactionLifetimeStats | null;
+  decodedCalls?: Record<string, DecodedCall>; // Readable calls keyed by transaction hash
+}
+
+/**
+ * Simple wallet profile interface for Etherscan data
+ */
+export interface WalletProfile {
+  address: string;
+  label: string;
+  category: string;
+  confidence: number;
+  totalValue: number;
+  totalTransactions: number;
+  firstSeen: string;
+  lastActivity: string;
+  behaviorPatterns: {
+    tradingFrequency: string;
+    avgTransactionSize: number;
+    preferredTokens: string[];
+    tradingHours: string[];
+    weekendActivity: boolean;
+  };
+  portfolio: {
+    tokens: Array<{
+      symbol: string;
+      contractAddress: string;
+      balance: number;
+      value: number;
+      percentage: number;
+      priceUsd?: number | null;
+      flag?: 'no-pair' | 'illiquid';
+      source?: 'tokenbalance' | 'transfer-replay';
+    }>;
+    nfts: NftCollectionHolding[];
+    totalValue: number;
+    diversification: number;
+  };
+  transactionHistory: {
+    totalTxs: number;
+    successfulTxs: number;
+    failedTxs: number;
+    avgGasUsed: number;
+    avgGasPrice: number;
+  };
+  networkActivity: Record<ChainKey, number>;
+  recent_transactions: Array<{
+    hash: string;
+    value: string;
+    tokenSymbol: string;
+    type: string;
+    timestamp: number;
+    from: string;
+    to: string;
+    methodId: string;
+    functionName: string;
+    blockNumber: string;
+  }>;
+}
+
+/**
+ * Transactions from the last `days` days, newest first as given
+ *
+ * @param {TransactionData[]} transactions - Wallet transactions
+ * @param {number} [days=30] - Lookback window in days
+ * @param {number} [limit=10] - Maximum number of transactions
+ * @returns {TransactionData[]} Recent transactions
+ */
+export const getRecentTransactions = (transactions: TransactionData[], days: number = 30, limit: number = 10): TransactionData[] => {
+  const cutoffTime = Math.floor(Date.now() / 1000) - (days * 24 * 60 * 60);
+  return transactions.filter(tx => {
+    const timestamp = typeof tx.timestamp === 'number' ? tx.timestamp : parseInt(tx.timestamp);
+    return timestamp > cutoffTime;
+  }).slice(0, limit); // Limit to specified number
+};
+
+/**
+ * Wallet category based on transaction count
+ *
+ * @param {number} totalTxs - Total transactions of the wallet
+ * @returns {string} Category shown on profiles and share cards
+ */
+export const getWalletCategory = (totalTxs: number): string => {
+  if (totalTxs > 1000) return 'Active Trader';
+  if (totalTxs > 100) return 'Regular User';
+  if (totalTxs < 10) return 'Low Activity';
+  return 'Individual';
+};
+
+/**
+ * Options for building a wallet profile
+ *
+ * @interface WalletProfileOptions
+ * @property {string} address - Wallet address the data belongs to
+ * @property {ChainKey} chain - Chain the data was fetched from
+ * @property {string} [label] - Display name, e.g. the primary social profile name
+ */
+export interface WalletProfileOptions {
+  address: string;
+  chain: ChainKey;
+  label?: string;
+}
+
+/**
+ * Build a wallet profile (activity, category, portfolio, behavior) from Etherscan data
+ *
+ * @param {EtherscanData} realData - Data returned by fetchWalletData
+ * @param {WalletProfileOptions} options - Address, chain and label of the wallet
+ * @returns {WalletProfile} Wallet profile
+ */
+export function createWalletProfile(realData: EtherscanData, options: WalletProfileOptions): WalletProfile {
+  // Calculate first seen and last activity from real transaction data
+  let firstSeen = 'Unknown';
+  let lastActivity = 'Unknown';
+  
+  if (realData?.transactions && realData.transactions.length > 0) {
+    // Sort transactions by block number to get first and last (timestamps are incorrect)
+    const sortedTxs = realData.transactions.sort((a: TransactionData, b: TransactionData) => {
+      const blockA = parseInt(a.blockNumber || '0', 10);
+      const blockB = parseInt(b.blockNumber || '0', 10);
+      return blockA - blockB;
+    });
+    
+    // First transaction (oldest)
+    const firstTx = sortedTxs[0];
+    if (firstTx.blockNumber) {
+      // API timestamps are incorrect, so we'll show block-based info
+      const blockNumber = parseInt(firstTx.blockNumber, 10);
+      firstSeen = `Block ${blockNumber.toLocaleString()}`;
+    }
+    
+    // Last transaction (newest)
+    const lastTx = sortedTxs[sortedTxs.length - 1];
+    if (lastTx.blockNumber) {
+      const blockNumber = parseInt(lastTx.blockNumber, 10);
+      lastActivity = `Block ${blockNumber.toLocaleString()}`;
+    }
+  }
+
+  // Prefer full-history dates once lifetime stats have walked back to the first transaction
+  if (realData?.lifetimeStats?.complete && realData.lifetimeStats.firstTimestamp) {
+    firstSeen = new Date(realData.lifetimeStats.firstTimestamp).toLocaleDateString();
+  }
+  if (realData?.lifetimeStats?.lastTimestamp) {
+    lastActivity = new Date(realData.lifetimeStats.lastTimestamp).toLocaleDateString();
+  }
+
+  // Calculate more realistic behavior patterns (lifetime count when available, else sent-transaction nonce)
+  const totalTxs = realData?.lifetimeStats?.totalTransactions || realData?.wallet?.transactionCount || 0;
+  // Transactions plus internal transfers, so ETH received through contract calls counts too
+  const recentTxs = buildActivityTimeline(realData?.transactions || [], realData?.internalTransactions);
+  
+  // Calculate average transaction size more accurately (only non-zero value transfers)
+  const nonZeroTxs = recentTxs.filter(tx => parseFloat(tx.value || '0') > 0);
+  const avgTxSize = nonZeroTxs.length > 0 ? 
+    nonZeroTxs.reduce((sum: number, tx: TimelineEntry) => sum + parseFloat(tx.value || '0'), 0) / nonZeroTxs.length / Math.pow(10, 18) : 0;
+  
+  // Calculate additional transaction size metrics (used in display)
+  // const totalValueTxs = nonZeroTxs.length;
+  // const totalValueInETH = nonZeroTxs.reduce((sum: number, tx: TransactionData) => sum + parseFloat(tx.value || '0'), 0) / Math.pow(10, 18);
+  // const maxTxSize = nonZeroTxs.length > 0 ? Math.max(...nonZeroTxs.map(tx => parseFloat(tx.value || '0') / Math.pow(10, 18))) : 0;
+  // const minTxSize = nonZeroTxs.length > 0 ? Math.min(...nonZeroTxs.map(tx => parseFloat(tx.value || '0') / Math.pow(10, 18))) : 0;
+
+  // Calculate trading frequency based on actual time periods and transaction patterns
+  let tradingFrequency = 'Very Low';
+  if (recentTxs.length > 0) {
+    // Sort transactions by timestamp to get time range
+    const sortedTxs = recentTxs.sort((a: TimelineEntry, b: TimelineEntry) => {
+      const timeA = typeof a.timestamp === 'number' ? a.timestamp : parseInt(a.timestamp);
+      const timeB = typeof b.timestamp === 'number' ? b.timestamp : parseInt(b.timestamp);
+      return timeA - timeB;
+    });
+
+    const firstTx = sortedTxs[0];
+    const lastTx = sortedTxs[sortedTxs.length - 1];
+    
+    if (firstTx && lastTx) {
+      const firstTime = typeof firstTx.timestamp === 'number' ? firstTx.timestamp : parseInt(firstTx.timestamp);
+      const lastTime = typeof lastTx.timestamp === 'number' ? lastTx.timestamp : parseInt(lastTx.timestamp);
+      
+      // Calculate time span in days
+      const timeSpanDays = Math.max(1, (lastTime - firstTime) / (24 * 60 * 60));
+      
+      // Calculate transactions per day
+      const txsPerDay = recentTxs.length / timeSpanDays;
+      
+      // Determine frequency based on actual transaction rate
+      if (txsPerDay >= 10) tradingFrequency = 'Very High';
+      else if (txsPerDay >= 5) tradingFrequency = 'High';
+      else if (txsPerDay >= 1) tradingFrequency = 'Medium';
+      else if (txsPerDay >= 0.1) tradingFrequency = 'Low';
+      else tradingFrequency = 'Very Low';
+    }
+  } else if (totalTxs > 0) {
+    // Fallback to total transaction count if no recent transactions available
+    if (totalTxs > 1000) tradingFrequency = 'Very High';
+    else if (totalTxs > 500) tradingFrequency = 'High';
+    else if (totalTxs > 100) tradingFrequency = 'Medium';
+    else if (totalTxs > 20) tradingFrequency = 'Low';
+    else tradingFrequency = 'Very Low';
+  }
+
+  // Per-chain share of transactions; without cross-chain data, attribute everything to the profiled chain
+  const networkActivity = CHAIN_KEYS.reduce((shares, chain) => {
+    const activity = realData?.networkActivity?.find(entry => entry.chain === chain);
+    shares[chain] = realData?.networkActivity ? activity?.share || 0 : chain === options.chain ? 100 : 0;
+    return shares;
+  }, {} as Record<ChainKey, number>);
+
+  return {
+    address: options.address,
+    label: options.label || `${SUPPORTED_CHAINS[options.chain].name} Wallet`,
+    category: getWalletCategory(totalTxs),
+    confidence: 1.0, // Using real data from Etherscan
+    totalValue: realData?.valuation ? realData.valuation.totalValueUsd : 0, // USD net worth from DEXScreener prices
+    totalTransactions: totalTxs,
+    firstSeen: firstSeen,
+    lastActivity: lastActivity,
+    behaviorPatterns: {
+      tradingFrequency: tradingFrequency,
+      avgTransactionSize: avgTxSize,
+      preferredTokens: realData?.tokens?.slice(0, 3).map((token: TokenData) => token.tokenSymbol || 'Unknown') || [],
+      tradingHours: [],
+      weekendActivity: recentTxs.some((tx: TimelineEntry) => {
+        const timestamp = typeof tx.timestamp === 'number' ? tx.timestamp : parseInt(tx.timestamp);
+        const date = new Date(timestamp * 1000);
+        const dayOfWeek = date.getDay();
+        return dayOfWeek === 0 || dayOfWeek === 6; // Sunday or Saturday
+      }) || false
+    },
+    portfolio: {
+      tokens: realData?.tokens?.map((token: TokenData) => {
+        const balance = parseFloat(token.balanceFormatted);
+        const priced = realData.valuation?.tokens.find(t => t.contractAddress.toLowerCase() === token.contractAddress.toLowerCase());
+        return {
+          symbol: token.tokenSymbol,
+          contractAddress: token.contractAddress,
+          balance: balance,
+          value: priced?.valueUsd || 0, // USD value; 0 when unpriced or illiquid
+          percentage: priced?.percentage || 0,
+          priceUsd: priced?.priceUsd ?? null,
+          flag: priced?.flag,
+          source: token.source
+        };
+      }).sort((a, b) => b.value - a.value) || [],
+      nfts: realData?.nfts || [],
+      totalValue: realData?.valuation ? realData.valuation.totalValueUsd : 0, // USD net worth from DEXScreener prices
+      diversification: realData?.tokens?.length > 0 ? Math.min(realData.tokens.length * 10, 100) : 0 // Based on actual token count
+    },
+    transactionHistory: {
+      totalTxs: totalTxs,
+      successfulTxs: realData?.transactions?.filter((tx: TransactionData) => !tx.isError).length || 0,
+      failedTxs: realData?.transactions?.filter((tx: TransactionData) => tx.isError).length || 0,
+      avgGasUsed: realData?.transactions?.length > 0 ? 
+        Math.round(realData.transactions.reduce((sum: number, tx: TransactionData) => sum + parseInt(tx.gasUsed || '0'), 0) / realData.transactions.length) : 0,
+      avgGasPrice: realData?.transactions?.length > 0 ?
+        Math.round((realData.transactions.reduce((sum: number, tx: TransactionData) => sum + parseInt(tx.gasPrice || '0'), 0) / realData.transactions.length / Math.pow(10, 9)) * 100) / 100 : 0
+    },
+    networkActivity,
+    recent_transactions: realData?.transactions ? getRecentTransactions(realData.transactions, 30, 6).map((tx: TransactionData) => ({
+      hash: tx.hash,
+      value: tx.value,
+      tokenSymbol: SUPPORTED_CHAINS[options.chain].nativeSymbol,
+      type: tx.isError ? 'Failed' : 'Success',
+      timestamp: typeof tx.timestamp === 'number' ? tx.timestamp : parseInt(tx.timestamp),
+      from: tx.from,
+      to: tx.to,
+      methodId: tx.methodId,
+      functionName: tx.functionName,
+      blockNumber: tx.blockNumber
+    })) : []
+  };
+}
+
+/**
+ * Options for fetching wallet data
+ *
+ * @interface FetchWalletDataOptions
+ * @property {boolean} [forceRefresh] - Skip the shared server-side response cache
+ * @property {(progress: number) => void} [onProgress] - Called with a 0-100 progress value
+ */
+export interface FetchWalletDataOptions {
+  forceRefresh?: boolean;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Fetch everything a wallet profile is built from through the app's API routes
+ *
+ * Wallet, history, internal transactions, tokens, NFTs and cross-chain
+ * activity are fetched in parallel; holdings are then valued and calls
+ * decoded. Partial failures leave the corresponding fields empty.
+ *
+ * @param {string} address - Wallet address
+ * @param {ChainKey} chain - Chain to profile
+ * @param {FetchWalletDataOptions} [options] - Refresh and progress options
+ * @returns {Promise<EtherscanData>} Wallet data
+ * @throws {Error} When wallet, history and token requests all fail
+ */
+export async function fetchWalletData(address: string, chain: ChainKey, options: FetchWalletDataOptions = {}): Promise<EtherscanData> {
+  const { forceRefresh = false, onProgress } = options;
+  onProgress?.(30);
+
+  // A forced refresh also skips the shared server-side cache
+  const fetchOptions: RequestInit | undefined = forceRefresh ? { headers: { 'Cache-Control': 'no-cache' } } : undefined;
+  const [walletResponse, transactionsResponse, internalResponse, tokensResponse, nftsResponse, activityResponse] = await Promise.allSettled([
+    fetch(`/api/etherscan/wallet?address=${address}&chain=${chain}`, fetchOptions),
+    fetch(`/api/etherscan/history?address=${address}&limit=50&chain=${chain}`, fetchOptions),
+    fetch(`/api/etherscan/internal?address=${address}&limit=50&chain=${chain}`, fetchOptions),
+    fetch(`/api/etherscan/tokens?address=${address}&type=balances&chain=${chain}`, fetchOptions),
+    fetch(`/api/etherscan/nfts?address=${address}&chain=${chain}`, fetchOptions),
+    fetch(`/api/etherscan/activity?address=${address}`, fetchOptions)
+  ]);
+
+  onProgress?.(70);
+
+  // Process responses
+  const walletData = walletResponse.status === 'fulfilled' ? await walletResponse.value.json() : { success: false, data: null };
+  const transactionsData = transactionsResponse.status === 'fulfilled' ? await transactionsResponse.value.json() : { success: false, data: [] };
+  const internalData = internalResponse.status === 'fulfilled' ? await internalResponse.value.json() : { success: false, data: [] };
+  const tokensData = tokensResponse.status === 'fulfilled' ? await tokensResponse.value.json() : { success: false, data: [] };
+  const nftsData = nftsResponse.status === 'fulfilled' ? await nftsResponse.value.json() : { success: false, data: [] };
+  const activityData = activityResponse.status === 'fulfilled' ? await activityResponse.value.json() : { success: false, data: null };
+
+  const hasWalletData = walletData.success && walletData.data;
+  const hasTransactionData = transactionsData.success && transactionsData.data;
+  const hasTokenData = tokensData.success && tokensData.data;
+
+  if (!hasWalletData && !hasTransactionData && !hasTokenData) {
+    throw new Error('All API calls failed to fetch wallet data');
+  }
+
+  const realData: EtherscanData = {
+    wallet: hasWalletData ? {
+      ...walletData.data,
+      balance: walletData.data.ethBalance?.eth || walletData.data.balance || '0'
+    } : null,
+    transactions: hasTransactionData ? transactionsData.data.map(toTransactionData) : [],
+    internalTransactions: internalData.success && internalData.data ? internalData.data.map(toInternalTransactionData) : [],
+    tokens: hasTokenData ? tokensData.data : [],
+    tokensComplete: hasTokenData ? tokensData.complete !== false : undefined,
+    nfts: nftsData.success && nftsData.data ? nftsData.data : [],
+    historyCursor: hasTransactionData ? transactionsData.pagination?.nextCursor ?? null : null,
+    lifetimeStats: null,
+    valuation: null,
+    networkActivity: activityData.success && activityData.data ? activityData.data.chains : undefined
+  };
+
+  // Value holdings in USD (partial failure leaves the profile unpriced)
+  onProgress?.(85);
+  try {
+    const valuationResponse = await fetch('/api/portfolio/value', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ethBalance: realData.wallet?.balance || '0',
+        chain,
+        tokens: realData.tokens.map((token: TokenData) => ({
+          contractAddress: token.contractAddress,
+          symbol: token.tokenSymbol,
+          balance: token.balanceFormatted
+        }))
+      })
+    });
+    const valuationData = await valuationResponse.json();
+    if (valuationData.success) {
+      realData.valuation = valuationData.data;
+    }
+  } catch (valuationError) {
+    console.warn('⚠️ Failed to value portfolio:', valuationError);
+  }
+
+  // Decode calldata into readable calls
+  onProgress?.(90);
+  realData.decodedCalls = await fetchDecodedCalls(realData.transactions, chain);
+
+  return realData;
+}
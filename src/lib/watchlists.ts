@@ -0,0 +1,295 @@
+/**
+ * Watchlists - Named Lists of Wallets and Tokens
+ *
+ * This client-side module keeps the user's watchlists in localStorage. A
+ * watchlist holds wallets (by address or ENS name/Basename) and Base token
+ * contracts. Nothing is sent to the server; lists move between browsers
+ * through JSON export and import.
+ *
+ * Features:
+ * - Create, rename and delete named watchlists
+ * - Add and remove wallets, names and tokens, deduplicated per list
+ * - JSON export and merge-on-import
+ * - useWatchlists hook that stays in sync across components and tabs
+ *
+ * @author Sniffer Web3 Team
+ * @version 1.0.0
+ */
+
+import { useEffect, useState } from 'react';
+import { isLikelyName, isValidEthereumAddress } from './identity';
+
+const STORAGE_KEY = 'sniffer-watchlists';
+const CHANGE_EVENT = 'sniffer-watchlists-change';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_WATCHLIST_NAME = 'My Watchlist';
+export const MAX_WATCHLIST_ITEMS = 100;
+
+/**
+ * Kind of watched entry: a wallet address, a wallet name or a token contract
+ */
+export type WatchlistItemKind = 'address' | 'name' | 'token';
+
+const ITEM_KINDS: WatchlistItemKind[] = ['address', 'name', 'token'];
+
+/**
+ * A watched wallet or token
+ *
+ * @interface WatchlistItem
+ * @property {WatchlistItemKind} kind - Entry kind
+ * @property {string} value - Lowercased address or name
+ * @property {string | null} label - Display label, e.g. token symbol
+ * @property {number} addedAt - Time added (ms)
+ */
+export interface WatchlistItem {
+  kind: WatchlistItemKind;
+  value: string;
+  label: string | null;
+  addedAt: number;
+}
+
+/**
+ * A named watchlist
+ *
+ * @interface Watchlist
+ * @property {string} id - List ID
+ * @property {string} name - List name
+ * @property {WatchlistItem[]} items - Entries, oldest first
+ * @property {number} createdAt - Creation time (ms)
+ */
+export interface Watchlist {
+  id: string;
+  name: string;
+  items: WatchlistItem[];
+  createdAt: number;
+}
+
+/**
+ * Shape of an exported watchlists file
+ */
+interface WatchlistExport {
+  version: number;
+  exportedAt: string;
+  watchlists: Watchlist[];
+}
+
+const newId = () => crypto.randomUUID();
+
+/**
+ * Whether a value is valid for an entry kind
+ */
+const isValidItemValue = (kind: WatchlistItemKind, value: string): boolean =>
+  kind === 'name' ? isLikelyName(value) : isValidEthereumAddress(value);
+
+/**
+ * Kind of a wallet entry typed by the user: address or name
+ * @param value - Address or ENS name/Basename
+ * @returns WatchlistItemKind | null - Entry kind, or null if neither
+ */
+export const getWalletItemKind = (value: string): WatchlistItemKind | null => {
+  const trimmed = value.trim();
+  if (isValidEthereumAddress(trimmed)) return 'address';
+  if (isLikelyName(trimmed)) return 'name';
+  return null;
+};
+
+/**
+ * Read every watchlist from localStorage
+ * @returns Watchlist[] - Watchlists, or an empty list on the server or bad data
+ */
+export const getWatchlists = (): Watchlist[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('Failed to read watchlists:', error);
+    return [];
+  }
+};
+
+/**
+ * Persist watchlists and notify subscribers in this tab
+ */
+const saveWatchlists = (watchlists: Watchlist[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(watchlists));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+/**
+ * Create an empty watchlist
+ * @param name - List name
+ * @returns Watchlist - Created list
+ */
+export const createWatchlist = (name: string): Watchlist => {
+  const watchlist: Watchlist = { id: newId(), name: name.trim() || DEFAULT_WATCHLIST_NAME, items: [], createdAt: Date.now() };
+  saveWatchlists([...getWatchlists(), watchlist]);
+  return watchlist;
+};
+
+/**
+ * Rename a watchlist
+ * @param id - List ID
+ * @param name - New name (ignored when blank)
+ */
+export const renameWatchlist = (id: string, name: string) => {
+  if (!name.trim()) return;
+  saveWatchlists(getWatchlists().map(list => list.id === id ? { ...list, name: name.trim() } : list));
+};
+
+/**
+ * Delete a watchlist and its entries
+ * @param id - List ID
+ */
+export const deleteWatchlist = (id: string) => {
+  saveWatchlists(getWatchlists().filter(list => list.id !== id));
+};
+
+/**
+ * Outcome of adding an entry to a watchlist
+ *
+ * - added: the entry was saved
+ * - invalid: the value isn't a valid address or name for its kind
+ * - duplicate: the entry is already on the list
+ * - full: the list holds MAX_WATCHLIST_ITEMS entries
+ */
+export type AddToWatchlistResult = 'added' | 'invalid' | 'duplicate' | 'full';
+
+/**
+ * Message to show when an entry couldn't be added
+ */
+export const ADD_TO_WATCHLIST_ERRORS: Record<Exclude<AddToWatchlistResult, 'added'>, string> = {
+  invalid: 'Not a valid address or name',
+  duplicate: 'Already on this watchlist',
+  full: `Watchlist is full (${MAX_WATCHLIST_ITEMS} entries)`
+};
+
+/**
+ * Add an entry to a watchlist, creating the default list if there is none
+ * @param listId - List ID, or null for the first list
+ * @param kind - Entry kind
+ * @param value - Address or name
+ * @param label - Optional display label
+ * @returns AddToWatchlistResult - 'added', or why the entry wasn't added
+ */
+export const addToWatchlist = (listId: string | null, kind: WatchlistItemKind, value: string, label: string | null = null): AddToWatchlistResult => {
+  const normalized = value.trim().toLowerCase();
+  if (!isValidItemValue(kind, normalized)) return 'invalid';
+
+  const watchlists = getWatchlists();
+  if (watchlists.length === 0) {
+    watchlists.push({ id: newId(), name: DEFAULT_WATCHLIST_NAME, items: [], createdAt: Date.now() });
+  }
+  const list = watchlists.find(item => item.id === listId) || watchlists[0];
+  if (list.items.some(item => item.kind === kind && item.value === normalized)) return 'duplicate';
+  if (list.items.length >= MAX_WATCHLIST_ITEMS) return 'full';
+
+  list.items.push({ kind, value: normalized, label: label?.trim() || null, addedAt: Date.now() });
+  saveWatchlists(watchlists);
+  return 'added';
+};
+
+/**
+ * Remove an entry from one watchlist, or from every list when listId is null
+ * @param listId - List ID, or null for all lists
+ * @param kind - Entry kind
+ * @param value - Address or name
+ */
+export const removeFromWatchlist = (listId: string | null, kind: WatchlistItemKind, value: string) => {
+  const normalized = value.trim().toLowerCase();
+  saveWatchlists(getWatchlists().map(list => listId === null || list.id === listId
+    ? { ...list, items: list.items.filter(item => !(item.kind === kind && item.value === normalized)) }
+    : list));
+};
+
+/**
+ * Serialize every watchlist for download
+ * @returns string - JSON export
+ */
+export const exportWatchlists = (): string => {
+  const data: WatchlistExport = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    watchlists: getWatchlists()
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Merge an exported watchlists file into the saved lists
+ *
+ * Lists are matched by name; entries already on a list are skipped and
+ * invalid entries are dropped.
+ *
+ * @param json - Contents of an export file
+ * @returns number - Entries added
+ * @throws {Error} When the file is not a watchlists export
+ */
+export const importWatchlists = (json: string): number => {
+  let data: WatchlistExport;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!data || !Array.isArray(data.watchlists)) {
+    throw new Error('File is not a watchlists export');
+  }
+
+  const watchlists = getWatchlists();
+  let added = 0;
+
+  data.watchlists.forEach(imported => {
+    if (typeof imported?.name !== 'string' || !Array.isArray(imported.items)) return;
+
+    let list = watchlists.find(item => item.name === imported.name.trim());
+    if (!list) {
+      list = { id: newId(), name: imported.name.trim() || DEFAULT_WATCHLIST_NAME, items: [], createdAt: Date.now() };
+      watchlists.push(list);
+    }
+
+    imported.items.forEach(item => {
+      if (!list || !ITEM_KINDS.includes(item?.kind) || typeof item.value !== 'string') return;
+      const value = item.value.trim().toLowerCase();
+      if (!isValidItemValue(item.kind, value) || list.items.length >= MAX_WATCHLIST_ITEMS) return;
+      if (list.items.some(existing => existing.kind === item.kind && existing.value === value)) return;
+
+      list.items.push({
+        kind: item.kind,
+        value,
+        label: typeof item.label === 'string' ? item.label : null,
+        addedAt: typeof item.addedAt === 'number' ? item.addedAt : Date.now()
+      });
+      added += 1;
+    });
+  });
+
+  saveWatchlists(watchlists);
+  return added;
+};
+
+/**
+ * Saved watchlists, re-rendering on changes from any component or browser tab
+ * @returns Watchlist[] - Current watchlists (empty until mounted)
+ */
+export const useWatchlists = (): Watchlist[] => {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+
+  useEffect(() => {
+    const sync = () => setWatchlists(getWatchlists());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) sync();
+    };
+
+    sync();
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return watchlists;
+};